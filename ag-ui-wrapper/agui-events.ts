@@ -0,0 +1,233 @@
+/**
+ * AG-UI Event Emitter
+ *
+ * Derives native AG-UI protocol events from successive CUGA agent states
+ * (as produced by transformCugaEvent), so AG-UI clients get proper run,
+ * step, message and tool-call semantics:
+ * - agent nodes (ChatAgent, CodeAgent, ...) → STEP_STARTED / STEP_FINISHED
+ * - streamed content and the final answer → TEXT_MESSAGE_START / CONTENT / END
+ * - code executions, browser actions and planned tool calls
+ *   → TOOL_CALL_START / ARGS / END when issued, TOOL_CALL_RESULT when finished
+ * - agent state → STATE_SNAPSHOT, then STATE_DELTA (JSON Patch) with periodic snapshots
+ * - HITL requests, approval decisions and schema warnings → CUSTOM
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { StateStreamEncoder } from './state-delta.js';
+import type { AgUiEvent, CugaAgentState, CugaSSEEvent } from './types.js';
+
+/** Event names that are not agent steps */
+const NON_STEP_EVENTS = new Set(['Answer', 'Stopped']);
+
+function isStep(name: string): boolean {
+  return /^[A-Z]/.test(name) && !NON_STEP_EVENTS.has(name);
+}
+
+export class AgUiEventEmitter {
+  private currentStep?: string;
+  private messageId?: string;
+  private streamedText = '';
+  /** Issued tool calls, and whether their result is still outstanding */
+  private toolCalls = new Map<string, boolean>();
+  private browserCallId?: string;
+  private browserCallCount = 0;
+  private plannedCallCount = 0;
+  private seenHitl = new Set<string>();
+  private seenDecisions = 0;
+  private seenWarnings = 0;
+  private stateEncoder: StateStreamEncoder;
+
+  constructor(
+    readonly threadId: string,
+    readonly runId: string,
+    snapshotInterval?: number
+  ) {
+    this.stateEncoder = new StateStreamEncoder('delta', snapshotInterval);
+  }
+
+  private now<T extends AgUiEvent>(event: T): T {
+    return { ...event, timestamp: Date.now() };
+  }
+
+  private stateEvent(state: CugaAgentState, forceSnapshot = false): AgUiEvent[] {
+    const encoded = this.stateEncoder.encode(state as unknown as Record<string, unknown>, { forceSnapshot });
+    if (encoded.stateMode === 'snapshot') {
+      return [this.now({ type: 'STATE_SNAPSHOT', snapshot: encoded.state as Record<string, unknown> })];
+    }
+    const patch = encoded.patch as Array<{ op: string; path: string; value?: unknown }>;
+    return patch.length > 0 ? [this.now({ type: 'STATE_DELTA', delta: patch })] : [];
+  }
+
+  /**
+   * Issue a tool call; text messages and tool calls must not interleave
+   */
+  private issueToolCall(toolCallId: string, toolCallName: string, args: unknown, awaitsResult: boolean): AgUiEvent[] {
+    this.toolCalls.set(toolCallId, awaitsResult);
+    return [
+      ...this.closeMessage(),
+      this.now({ type: 'TOOL_CALL_START', toolCallId, toolCallName }),
+      this.now({ type: 'TOOL_CALL_ARGS', toolCallId, delta: JSON.stringify(args) }),
+      this.now({ type: 'TOOL_CALL_END', toolCallId }),
+    ];
+  }
+
+  private toolCallResult(toolCallId: string, content: string): AgUiEvent[] {
+    if (!this.toolCalls.get(toolCallId)) return [];
+    this.toolCalls.set(toolCallId, false);
+    return [this.now({ type: 'TOOL_CALL_RESULT', messageId: uuidv4(), toolCallId, content, role: 'tool' })];
+  }
+
+  private closeMessage(): AgUiEvent[] {
+    if (!this.messageId) return [];
+    const messageId = this.messageId;
+    this.messageId = undefined;
+    return [this.now({ type: 'TEXT_MESSAGE_END', messageId })];
+  }
+
+  private streamText(delta: string): AgUiEvent[] {
+    if (!delta) return [];
+    const events: AgUiEvent[] = [];
+    if (!this.messageId) {
+      this.messageId = uuidv4();
+      events.push(this.now({ type: 'TEXT_MESSAGE_START', messageId: this.messageId, role: 'assistant' }));
+    }
+    events.push(this.now({ type: 'TEXT_MESSAGE_CONTENT', messageId: this.messageId, delta }));
+    return events;
+  }
+
+  private closeAll(): AgUiEvent[] {
+    const events = this.closeMessage();
+    if (this.currentStep) {
+      events.push(this.now({ type: 'STEP_FINISHED', stepName: this.currentStep }));
+      this.currentStep = undefined;
+    }
+    return events;
+  }
+
+  /**
+   * Events opening the run
+   */
+  runStarted(state: CugaAgentState): AgUiEvent[] {
+    return [
+      this.now({ type: 'RUN_STARTED', threadId: this.threadId, runId: this.runId }),
+      ...this.stateEvent(state, true),
+    ];
+  }
+
+  /**
+   * Events for one CUGA event, given the state before and after applying it
+   */
+  fromCugaEvent(event: CugaSSEEvent, prev: CugaAgentState, next: CugaAgentState): AgUiEvent[] {
+    const events: AgUiEvent[] = [];
+
+    // Steps
+    if (isStep(event.name) && event.name !== this.currentStep) {
+      if (this.currentStep) {
+        events.push(this.now({ type: 'STEP_FINISHED', stepName: this.currentStep }));
+      }
+      this.currentStep = event.name;
+      events.push(this.now({ type: 'STEP_STARTED', stepName: event.name }));
+    }
+
+    // Tool calls the agent planned (ActionAgent tool call lists)
+    if (next.pendingToolCalls && next.pendingToolCalls !== prev.pendingToolCalls) {
+      for (const call of next.pendingToolCalls) {
+        const toolCallId = call.id || `${call.name}_${++this.plannedCallCount}`;
+        if (this.toolCalls.has(toolCallId)) continue;
+        events.push(...this.issueToolCall(toolCallId, call.name, call.args, false));
+      }
+    }
+
+    // Code executions
+    for (const exec of next.codeExecutions || []) {
+      if (!this.toolCalls.has(exec.id)) {
+        events.push(...this.issueToolCall(exec.id, 'code_execution', { code: exec.code, language: exec.language, sandbox: exec.sandbox }, true));
+      }
+      if (exec.status === 'complete' || exec.status === 'failed') {
+        events.push(...this.toolCallResult(exec.id, JSON.stringify({ status: exec.status, output: exec.output, error: exec.error })));
+      }
+    }
+
+    // Browser actions
+    const action = next.browserAction;
+    if (action && action !== prev.browserAction) {
+      const previous = prev.browserAction;
+      const sameAction = previous && previous.type === action.type && previous.bid === action.bid && previous.value === action.value;
+      if (!sameAction || !this.browserCallId || !this.toolCalls.get(this.browserCallId)) {
+        this.browserCallId = `browser_${++this.browserCallCount}`;
+        events.push(...this.issueToolCall(this.browserCallId, 'browser_action', { type: action.type, bid: action.bid, value: action.value }, true));
+      }
+      if (action.status === 'complete' || action.status === 'failed') {
+        events.push(...this.toolCallResult(this.browserCallId, JSON.stringify({ status: action.status, error: action.error })));
+      }
+    }
+
+    // Text
+    if (event.name === 'Answer') {
+      events.push(...this.closeMessage());
+      events.push(...this.streamText(next.finalAnswer ?? next.streamingContent));
+      events.push(...this.closeMessage());
+      this.streamedText = next.streamingContent;
+    } else if (next.streamingContent !== this.streamedText) {
+      if (next.streamingContent.startsWith(this.streamedText)) {
+        events.push(...this.streamText(next.streamingContent.slice(this.streamedText.length)));
+      } else {
+        events.push(...this.closeMessage(), ...this.streamText(next.streamingContent));
+      }
+      this.streamedText = next.streamingContent;
+    }
+
+    // Custom events
+    for (const request of next.hitlRequests || []) {
+      if (!this.seenHitl.has(request.id)) {
+        this.seenHitl.add(request.id);
+        events.push(this.now({ type: 'CUSTOM', name: 'hitl_request', value: request }));
+      }
+    }
+    for (const decision of (next.approvalDecisions || []).slice(this.seenDecisions)) {
+      events.push(this.now({ type: 'CUSTOM', name: 'approval_decision', value: decision }));
+    }
+    this.seenDecisions = next.approvalDecisions?.length || 0;
+    for (const warning of (next.schemaWarnings || []).slice(this.seenWarnings)) {
+      events.push(this.now({ type: 'CUSTOM', name: 'schema_warning', value: warning }));
+    }
+    this.seenWarnings = next.schemaWarnings?.length || 0;
+    if (event.name === 'Stopped') {
+      events.push(this.now({ type: 'CUSTOM', name: 'stopped', value: { threadId: this.threadId } }));
+    }
+
+    events.push(...this.stateEvent(next));
+    return events;
+  }
+
+  /**
+   * Custom event outside the CUGA event stream (e.g. auto-resume notices)
+   */
+  custom(name: string, value: unknown): AgUiEvent[] {
+    return [this.now({ type: 'CUSTOM', name, value })];
+  }
+
+  /**
+   * Events closing a run that ended normally (answered, stopped or waiting for HITL)
+   */
+  runFinished(state: CugaAgentState): AgUiEvent[] {
+    return [
+      ...this.closeAll(),
+      ...this.stateEvent(state, true),
+      this.now({
+        type: 'RUN_FINISHED',
+        threadId: this.threadId,
+        runId: this.runId,
+        result: { status: state.status, answer: state.finalAnswer, pendingRequests: state.hitlRequests?.filter((r) => r.pending) },
+      }),
+    ];
+  }
+
+  /**
+   * Events closing a failed run
+   */
+  runError(message: string, code?: string): AgUiEvent[] {
+    return [...this.closeAll(), this.now({ type: 'RUN_ERROR', message, code })];
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * CUGA Auto-Approval Policy
+ *
+ * Rule-based decision for each HITL interrupt: approve or reject it on the
+ * caller's behalf, or escalate it to a human. Rules are evaluated in order
+ * and the first matching rule wins.
+ *
+ * Configuration (JSON, see ApprovalPolicy):
+ * - CUGA_APPROVAL_POLICY_FILE: path to a policy file
+ * - CUGA_APPROVAL_POLICY: inline policy
+ * - CUGA_MAX_AUTO_APPROVALS: overrides maxAutoApprovals
+ *
+ * Without configuration every interrupt is approved, up to 5 per run. A
+ * configured policy that cannot be read or parsed fails closed: every
+ * interrupt is escalated to a human (MANUAL_APPROVAL_POLICY).
+ */
+
+import { readFileSync } from 'node:fs';
+
+import { createLogger } from './logger.js';
+import type { CugaApprovalDecision, CugaHitlRequest } from './types.js';
+
+const log = createLogger('CUGA-Approval');
+
+export type ApprovalDecisionType = CugaApprovalDecision['decision'];
+
+/**
+ * Facts about an interrupt that rules can match on
+ */
+export type ApprovalFacts = CugaApprovalDecision['facts'];
+
+/**
+ * Match criteria of a rule
+ *
+ * Every specified criterion must match. String lists accept `*` wildcards.
+ */
+export interface ApprovalRuleMatch {
+  riskLevels?: Array<NonNullable<ApprovalFacts['riskLevel']>>;
+  types?: CugaHitlRequest['type'][];
+  actions?: string[];
+  /** Matches if any pending tool call matches */
+  tools?: string[];
+  tenants?: string[];
+  apps?: string[];
+}
+
+export interface ApprovalRule {
+  id: string;
+  description?: string;
+  match: ApprovalRuleMatch;
+  decision: ApprovalDecisionType;
+}
+
+export interface ApprovalPolicy {
+  rules: ApprovalRule[];
+  /** Decision when no rule matches */
+  defaultDecision: ApprovalDecisionType;
+  /** Maximum automatic approvals/rejections per run before escalating */
+  maxAutoApprovals: number;
+}
+
+/**
+ * Policy applied when nothing is configured
+ */
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  rules: [],
+  defaultDecision: 'approve',
+  maxAutoApprovals: 5,
+};
+
+/**
+ * Policy that leaves every interrupt to a human (metadata.auto_approve === false,
+ * or an invalid configured policy)
+ */
+export const MANUAL_APPROVAL_POLICY: ApprovalPolicy = {
+  rules: [],
+  defaultDecision: 'escalate',
+  maxAutoApprovals: 0,
+};
+
+const DECISIONS: ApprovalDecisionType[] = ['approve', 'reject', 'escalate'];
+
+const MATCH_FIELDS: Array<keyof ApprovalRuleMatch> = ['riskLevels', 'types', 'actions', 'tools', 'tenants', 'apps'];
+
+function matchesPattern(value: string | undefined, patterns: string[]): boolean {
+  if (value === undefined) return false;
+  return patterns.some((pattern) => {
+    if (!pattern.includes('*')) return pattern === value;
+    const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`).test(value);
+  });
+}
+
+function ruleMatches(match: ApprovalRuleMatch, facts: ApprovalFacts): boolean {
+  if (match.riskLevels && !(facts.riskLevel && match.riskLevels.includes(facts.riskLevel))) return false;
+  if (match.types && !(facts.type && match.types.includes(facts.type))) return false;
+  if (match.actions && !matchesPattern(facts.action, match.actions)) return false;
+  if (match.tools && !(facts.tools || []).some((tool) => matchesPattern(tool, match.tools as string[]))) return false;
+  if (match.tenants && !matchesPattern(facts.tenant, match.tenants)) return false;
+  if (match.apps && !matchesPattern(facts.app, match.apps)) return false;
+  return true;
+}
+
+/**
+ * Evaluate the policy for one interrupt
+ *
+ * `autoDecisions` is the number of interrupts already approved or rejected
+ * automatically in the current run.
+ */
+export function evaluateApproval(
+  policy: ApprovalPolicy,
+  requestId: string,
+  facts: ApprovalFacts,
+  autoDecisions: number
+): CugaApprovalDecision {
+  const rule = policy.rules.find((r) => ruleMatches(r.match, facts));
+  let decision = rule ? rule.decision : policy.defaultDecision;
+  let reason = rule ? (rule.description || `Matched rule ${rule.id}`) : 'No rule matched, applied default decision';
+
+  if (decision !== 'escalate' && autoDecisions >= policy.maxAutoApprovals) {
+    decision = 'escalate';
+    reason = `Max auto-approvals (${policy.maxAutoApprovals}) reached`;
+  }
+
+  return {
+    requestId,
+    decision,
+    ruleId: rule?.id,
+    reason,
+    facts,
+    decidedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether `match` is an object of known criteria, each a list of strings
+ *
+ * A misspelled criterion would otherwise be ignored and widen the rule.
+ */
+function isValidMatch(match: unknown): match is ApprovalRuleMatch {
+  if (!match || typeof match !== 'object' || Array.isArray(match)) {
+    return false;
+  }
+  return Object.entries(match).every(([field, patterns]) =>
+    MATCH_FIELDS.includes(field as keyof ApprovalRuleMatch) &&
+    Array.isArray(patterns) &&
+    patterns.every((pattern) => typeof pattern === 'string'));
+}
+
+function parsePolicy(raw: unknown): ApprovalPolicy {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('policy must be an object');
+  }
+  const config = raw as Partial<ApprovalPolicy>;
+  const rules = config.rules ?? [];
+  if (!Array.isArray(rules)) {
+    throw new Error('rules must be an array');
+  }
+  for (const rule of rules) {
+    if (!rule || typeof rule.id !== 'string' || !DECISIONS.includes(rule.decision) || !isValidMatch(rule.match)) {
+      throw new Error(`invalid rule: ${JSON.stringify(rule)}`);
+    }
+  }
+  const defaultDecision = config.defaultDecision ?? DEFAULT_APPROVAL_POLICY.defaultDecision;
+  if (!DECISIONS.includes(defaultDecision)) {
+    throw new Error(`invalid defaultDecision: ${defaultDecision}`);
+  }
+  if (config.maxAutoApprovals !== undefined && (!Number.isInteger(config.maxAutoApprovals) || config.maxAutoApprovals < 0)) {
+    throw new Error(`invalid maxAutoApprovals: ${config.maxAutoApprovals}`);
+  }
+  return {
+    rules,
+    defaultDecision,
+    maxAutoApprovals: config.maxAutoApprovals ?? DEFAULT_APPROVAL_POLICY.maxAutoApprovals,
+  };
+}
+
+/**
+ * Load the approval policy from the environment
+ *
+ * Invalid configuration is logged and replaced by MANUAL_APPROVAL_POLICY, so
+ * a broken restrictive policy never turns into auto-approving everything.
+ */
+export function loadApprovalPolicy(): ApprovalPolicy {
+  let policy = DEFAULT_APPROVAL_POLICY;
+  try {
+    if (process.env.CUGA_APPROVAL_POLICY_FILE) {
+      policy = parsePolicy(JSON.parse(readFileSync(process.env.CUGA_APPROVAL_POLICY_FILE, 'utf8')));
+    } else if (process.env.CUGA_APPROVAL_POLICY) {
+      policy = parsePolicy(JSON.parse(process.env.CUGA_APPROVAL_POLICY));
+    }
+  } catch (error) {
+    log.error('Invalid approval policy, escalating every interrupt to a human', error);
+    policy = MANUAL_APPROVAL_POLICY;
+  }
+
+  const maxOverride = Number.parseInt(process.env.CUGA_MAX_AUTO_APPROVALS || '', 10);
+  if (!Number.isNaN(maxOverride)) {
+    policy = { ...policy, maxAutoApprovals: maxOverride };
+  }
+
+  log.info(`Loaded approval policy with ${policy.rules.length} rule(s)`, { defaultDecision: policy.defaultDecision, maxAutoApprovals: policy.maxAutoApprovals });
+  return policy;
+}
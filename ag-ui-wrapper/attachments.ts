@@ -0,0 +1,287 @@
+/**
+ * A2A Attachments
+ *
+ * Accepts the `file` and `data` parts of an A2A message, checks them, and
+ * uploads them into the CUGA workspace (the store the chat UI browses via
+ * /api/workspace/*) under `uploads/<thread ID>/<batch>/`, one batch per
+ * message since the backend never overwrites a file. The query then lists the
+ * uploaded paths so the agent can read the files:
+ * - file parts: inline base64 `bytes`, or a `uri` the wrapper downloads
+ *   (http/https, only when CUGA_ATTACHMENT_FETCH_URIS is enabled)
+ * - data parts: uploaded as JSON files (`data-<n>.json`)
+ *
+ * Files are checked against the size limit and the MIME type allow-list;
+ * a missing MIME type is derived from the file extension.
+ *
+ * Configuration:
+ * - CUGA_ATTACHMENT_MAX_BYTES: size limit per file (default 10MB, the workspace preview limit)
+ * - CUGA_ATTACHMENT_MAX_FILES: file and data parts per message (default 10)
+ * - CUGA_ATTACHMENT_TYPES: comma-separated allowed MIME types, `type/*` allowed
+ *   (default: text, JSON, PDF, office documents and images)
+ * - CUGA_ATTACHMENT_FETCH_URIS: download `uri` file parts (default false)
+ *
+ * The backend only accepts uploads with CUGA_WORKSPACE_UPLOADS=true, from
+ * clients sending its CUGA_WORKSPACE_UPLOAD_TOKEN (see cuga-client.ts).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { uploadWorkspaceFile } from './cuga-client.js';
+import type { AICredentials, CugaAttachment, CugaMessagePart } from './types.js';
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+const DEFAULT_TYPES = [
+  'text/*',
+  'application/json',
+  'application/pdf',
+  'application/xml',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+export const ATTACHMENT_CONFIG = {
+  maxBytes: envInt('CUGA_ATTACHMENT_MAX_BYTES', 10 * 1024 * 1024),
+  maxFiles: envInt('CUGA_ATTACHMENT_MAX_FILES', 10),
+  types: (process.env.CUGA_ATTACHMENT_TYPES || DEFAULT_TYPES.join(',')).split(',').map((t) => t.trim().toLowerCase()).filter(Boolean),
+  fetchUris: ['true', '1', 'yes', 'on'].includes((process.env.CUGA_ATTACHMENT_FETCH_URIS || '').toLowerCase()),
+};
+
+const EXTENSION_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  json: 'application/json',
+  xml: 'application/xml',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const BASE64 = /^[A-Za-z0-9+/_-]*={0,2}$/;
+
+/**
+ * A checked attachment, ready to upload
+ *
+ * Inline content is decoded up front; `uri` content is downloaded on upload.
+ */
+export interface PendingAttachment {
+  name: string;
+  mimeType: string;
+  source: 'file' | 'data';
+  bytes?: Uint8Array;
+  uri?: string;
+}
+
+export interface AttachmentParts {
+  attachments: PendingAttachment[];
+  errors: Array<{ path: string; message: string }>;
+}
+
+function partKind(part: CugaMessagePart): string | undefined {
+  return part.kind ?? part.type;
+}
+
+/**
+ * Text of message content: a string, or the text parts of a part list
+ */
+export function partsText(content: string | CugaMessagePart[] | undefined): string {
+  if (typeof content === 'string') return content;
+  return (content || [])
+    .filter((part) => partKind(part) === 'text' && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+function isAllowedType(mimeType: string): boolean {
+  return ATTACHMENT_CONFIG.types.some((allowed) =>
+    allowed.endsWith('/*') ? mimeType.startsWith(allowed.slice(0, -1)) : mimeType === allowed
+  );
+}
+
+/**
+ * File name safe for the workspace: no directories, hidden files or odd characters
+ */
+function safeName(name: string | undefined, fallback: string): string {
+  const base = (name || '').split(/[\\/]/).pop() || '';
+  const cleaned = base.replace(/[^\w.\- ]/g, '_').replace(/^[.\s]+/, '').slice(0, 100).trim();
+  return cleaned || fallback;
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) {
+    const dot = name.lastIndexOf('.');
+    candidate = dot > 0 ? `${name.slice(0, dot)}-${n}${name.slice(dot)}` : `${name}-${n}`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Collect and check the file and data parts of a message
+ *
+ * Text parts are ignored (see partsText). Every rejected part is reported,
+ * so the caller can refuse the request instead of silently dropping files.
+ */
+export function extractAttachments(parts: CugaMessagePart[] = []): AttachmentParts {
+  const attachments: PendingAttachment[] = [];
+  const errors: AttachmentParts['errors'] = [];
+  const taken = new Set<string>();
+
+  parts.forEach((part, index) => {
+    const kind = partKind(part);
+    const path = `parts[${index}]`;
+    if (kind !== 'file' && kind !== 'data') return;
+    if (attachments.length >= ATTACHMENT_CONFIG.maxFiles) {
+      errors.push({ path, message: `exceeds the limit of ${ATTACHMENT_CONFIG.maxFiles} attachments` });
+      return;
+    }
+
+    if (kind === 'data') {
+      if (part.data === undefined || part.data === null || typeof part.data !== 'object') {
+        errors.push({ path, message: 'data part has no data object' });
+        return;
+      }
+      const bytes = new TextEncoder().encode(JSON.stringify(part.data, null, 2));
+      if (bytes.length > ATTACHMENT_CONFIG.maxBytes) {
+        errors.push({ path, message: `data is ${bytes.length} bytes, over the ${ATTACHMENT_CONFIG.maxBytes}-byte limit` });
+        return;
+      }
+      const name = uniqueName(safeName(typeof part.metadata?.name === 'string' ? part.metadata.name : undefined, `data-${index}.json`), taken);
+      attachments.push({ name, mimeType: 'application/json', source: 'data', bytes });
+      return;
+    }
+
+    const file = part.file;
+    if (!file || (file.bytes === undefined && file.uri === undefined)) {
+      errors.push({ path, message: 'file part needs bytes or a uri' });
+      return;
+    }
+    const name = safeName(file.name, `attachment-${index}`);
+    const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+    const mimeType = (file.mimeType || EXTENSION_TYPES[extension] || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+    if (!isAllowedType(mimeType)) {
+      errors.push({ path, message: `type ${mimeType} is not allowed` });
+      return;
+    }
+
+    if (file.bytes !== undefined) {
+      const encoded = file.bytes.replace(/\s/g, '');
+      if (!BASE64.test(encoded)) {
+        errors.push({ path, message: 'bytes are not valid base64' });
+        return;
+      }
+      const bytes = new Uint8Array(Buffer.from(encoded, 'base64'));
+      if (bytes.length > ATTACHMENT_CONFIG.maxBytes) {
+        errors.push({ path, message: `file is ${bytes.length} bytes, over the ${ATTACHMENT_CONFIG.maxBytes}-byte limit` });
+        return;
+      }
+      attachments.push({ name: uniqueName(name, taken), mimeType, source: 'file', bytes });
+      return;
+    }
+
+    if (!ATTACHMENT_CONFIG.fetchUris) {
+      errors.push({ path, message: 'file URIs are not accepted; send the file bytes' });
+      return;
+    }
+    let uri: URL;
+    try {
+      uri = new URL(file.uri!);
+    } catch {
+      errors.push({ path, message: 'uri is not a valid URL' });
+      return;
+    }
+    if (uri.protocol !== 'http:' && uri.protocol !== 'https:') {
+      errors.push({ path, message: `uri scheme ${uri.protocol} is not supported` });
+      return;
+    }
+    attachments.push({ name: uniqueName(name, taken), mimeType, source: 'file', uri: uri.toString() });
+  });
+
+  return { attachments, errors };
+}
+
+/**
+ * Message for rejected attachments
+ */
+export function describeAttachmentErrors(errors: AttachmentParts['errors']): string {
+  return `Invalid attachments: ${errors.map((e) => `${e.path} ${e.message}`).join('; ')}`;
+}
+
+/**
+ * Download a `uri` attachment, enforcing the size limit
+ */
+async function downloadAttachment(uri: string): Promise<Uint8Array> {
+  const response = await fetch(uri, { signal: AbortSignal.timeout(30_000) });
+  if (!response.ok) {
+    throw new Error(`downloading ${uri} failed: ${response.status} ${response.statusText}`);
+  }
+  const declared = Number.parseInt(response.headers.get('content-length') || '', 10);
+  if (declared > ATTACHMENT_CONFIG.maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`${uri} is ${declared} bytes, over the ${ATTACHMENT_CONFIG.maxBytes}-byte limit`);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.length > ATTACHMENT_CONFIG.maxBytes) {
+    throw new Error(`${uri} is ${bytes.length} bytes, over the ${ATTACHMENT_CONFIG.maxBytes}-byte limit`);
+  }
+  return bytes;
+}
+
+/**
+ * Workspace directory for one message's uploads, within the thread's
+ */
+export function uploadDirectory(threadId: string, batchId = uuidv4().slice(0, 8)): string {
+  return `uploads/${threadId.replace(/[^\w-]/g, '_')}/${batchId}`;
+}
+
+/**
+ * Upload attachments into the workspace of the thread's backend
+ *
+ * Uploads run one after another; the first failure rejects.
+ */
+export async function uploadAttachments(
+  attachments: PendingAttachment[],
+  threadId: string,
+  credentials?: AICredentials
+): Promise<CugaAttachment[]> {
+  const directory = uploadDirectory(threadId);
+  const uploaded: CugaAttachment[] = [];
+  for (const attachment of attachments) {
+    const bytes = attachment.bytes ?? await downloadAttachment(attachment.uri!);
+    const result = await uploadWorkspaceFile(threadId, { name: attachment.name, mimeType: attachment.mimeType, bytes }, directory, credentials);
+    uploaded.push({ name: attachment.name, path: result.path, mimeType: attachment.mimeType, size: result.size, source: attachment.source });
+  }
+  return uploaded;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Query with the uploaded files listed for the agent
+ */
+export function withAttachmentReferences(query: string, attachments: CugaAttachment[]): string {
+  if (attachments.length === 0) return query;
+  const lines = attachments.map((a) => `- ${a.path} (${a.mimeType}, ${formatSize(a.size)})`);
+  return `${query}\n\nAttached files (in the workspace):\n${lines.join('\n')}`;
+}
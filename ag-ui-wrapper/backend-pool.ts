@@ -0,0 +1,205 @@
+/**
+ * CUGA Backend Pool
+ *
+ * Routes requests across several CUGA Python backends.
+ *
+ * - New threads go to the healthy, non-draining member with the fewest
+ *   active streams whose circuit is not open
+ * - Each thread sticks to the member that served it, so resume and stop
+ *   reach the instance holding its graph state
+ * - Draining members finish their active streams and keep answering
+ *   resume/stop for their threads, but receive no new queries
+ *
+ * Configuration:
+ * - CUGA_BACKEND_URLS: comma-separated member URLs (falls back to CUGA_BASE_URL)
+ * - CUGA_HEALTH_CHECK_INTERVAL_MS (default 15000, 0 disables)
+ * - CUGA_THREAD_AFFINITY_MAX: remembered threads (default 10000)
+ */
+
+import { createLogger } from './logger.js';
+import { getBreaker } from './resilience.js';
+import type { CugaBackendMember } from './types.js';
+
+const log = createLogger('CUGA-Pool');
+
+interface MemberState {
+  url: string;
+  status: CugaBackendMember['status'];
+  healthy: boolean;
+  activeStreams: number;
+  lastCheckedAt?: string;
+}
+
+export class BackendPool {
+  private members = new Map<string, MemberState>();
+  /** threadId → member URL, in least-recently-used order */
+  private affinity = new Map<string, string>();
+  private healthTimer?: ReturnType<typeof setInterval>;
+
+  constructor(urls: string[], private maxAffinity = 10_000) {
+    if (urls.length === 0) {
+      throw new Error('Backend pool needs at least one member');
+    }
+    for (const url of urls) {
+      this.members.set(url, { url, status: 'active', healthy: true, activeStreams: 0 });
+    }
+  }
+
+  /** The first configured member, used when no thread is known */
+  get defaultUrl(): string {
+    return this.members.keys().next().value as string;
+  }
+
+  private bind(threadId: string, url: string): void {
+    this.affinity.delete(threadId);
+    this.affinity.set(threadId, url);
+    if (this.affinity.size > this.maxAffinity) {
+      const oldest = this.affinity.keys().next().value as string;
+      this.affinity.delete(oldest);
+    }
+  }
+
+  private isRoutable(member: MemberState): boolean {
+    return member.status === 'active' && member.healthy && getBreaker(member.url).snapshot().state !== 'open';
+  }
+
+  /**
+   * Choose the member for a new query on a thread
+   *
+   * The thread's member is kept while it can take new work; otherwise the
+   * thread moves to the least busy routable member.
+   */
+  pick(threadId?: string): string {
+    const bound = threadId ? this.affinity.get(threadId) : undefined;
+    const boundMember = bound ? this.members.get(bound) : undefined;
+    if (threadId && boundMember && this.isRoutable(boundMember)) {
+      this.bind(threadId, boundMember.url);
+      return boundMember.url;
+    }
+
+    const candidates = [...this.members.values()].filter((m) => this.isRoutable(m));
+    // Nothing routable: fall back to any non-draining member and let its breaker decide
+    const pool = candidates.length > 0 ? candidates : [...this.members.values()].filter((m) => m.status === 'active');
+    if (pool.length === 0) {
+      throw new Error('No CUGA backend available: all members are draining');
+    }
+    const chosen = pool.reduce((best, m) => (m.activeStreams < best.activeStreams ? m : best));
+    if (threadId) {
+      if (bound && bound !== chosen.url) {
+        log.warn(`Thread moved from ${bound} to ${chosen.url}`, { threadId });
+      }
+      this.bind(threadId, chosen.url);
+    }
+    return chosen.url;
+  }
+
+  /**
+   * The member that owns a thread (for resume and stop)
+   */
+  owner(threadId: string): string {
+    const bound = this.affinity.get(threadId);
+    return bound && this.members.has(bound) ? bound : this.defaultUrl;
+  }
+
+  /**
+   * Count a stream against a member while it runs
+   */
+  async *track<T>(url: string, stream: AsyncGenerator<T>): AsyncGenerator<T> {
+    const member = this.members.get(url);
+    if (member) member.activeStreams++;
+    try {
+      yield* stream;
+    } finally {
+      if (member) {
+        member.activeStreams--;
+        if (member.status === 'draining' && member.activeStreams === 0) {
+          log.info(`${url} drained`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop routing new threads to a member
+   */
+  drain(url: string): boolean {
+    const member = this.members.get(url);
+    if (!member) return false;
+    member.status = 'draining';
+    log.info(`Draining ${url}`, { activeStreams: member.activeStreams });
+    return true;
+  }
+
+  /**
+   * Return a drained member to rotation
+   */
+  activate(url: string): boolean {
+    const member = this.members.get(url);
+    if (!member) return false;
+    member.status = 'active';
+    log.info(`Activated ${url}`);
+    return true;
+  }
+
+  /**
+   * Probe every member and record its health
+   */
+  async checkMembers(probe: (url: string) => Promise<boolean>): Promise<void> {
+    await Promise.all([...this.members.values()].map(async (member) => {
+      const healthy = await probe(member.url).catch(() => false);
+      if (healthy !== member.healthy) {
+        log.info(`${member.url} is now ${healthy ? 'healthy' : 'unhealthy'}`);
+      }
+      member.healthy = healthy;
+      member.lastCheckedAt = new Date().toISOString();
+    }));
+  }
+
+  /**
+   * Periodically probe members
+   */
+  startHealthChecks(probe: (url: string) => Promise<boolean>, intervalMs: number): void {
+    if (this.healthTimer || intervalMs <= 0) return;
+    this.healthTimer = setInterval(() => {
+      this.checkMembers(probe).catch((error) => log.warn('Health check failed', error));
+    }, intervalMs);
+    this.healthTimer.unref?.();
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthTimer = undefined;
+  }
+
+  /**
+   * Current state of every member
+   */
+  list(): CugaBackendMember[] {
+    const threads = new Map<string, number>();
+    for (const url of this.affinity.values()) {
+      threads.set(url, (threads.get(url) || 0) + 1);
+    }
+    return [...this.members.values()].map((m) => ({
+      url: m.url,
+      status: m.status,
+      healthy: m.healthy,
+      activeStreams: m.activeStreams,
+      threads: threads.get(m.url) || 0,
+      lastCheckedAt: m.lastCheckedAt,
+      circuit: getBreaker(m.url).snapshot(),
+    }));
+  }
+}
+
+/**
+ * Create the pool configured via CUGA_BACKEND_URLS / CUGA_BASE_URL
+ */
+export function createBackendPool(): BackendPool {
+  const urls = (process.env.CUGA_BACKEND_URLS || process.env.CUGA_BASE_URL || 'http://localhost:7860')
+    .split(',')
+    .map((url) => url.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+  const maxAffinity = Number.parseInt(process.env.CUGA_THREAD_AFFINITY_MAX || '', 10);
+  log.info(`Backends: ${urls.join(', ')}`);
+  return new BackendPool([...new Set(urls)], Number.isNaN(maxAffinity) ? undefined : maxAffinity);
+}
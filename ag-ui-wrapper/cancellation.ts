@@ -0,0 +1,143 @@
+/**
+ * CUGA Run Cancellation
+ *
+ * Ties every run to an AbortController so the wrapper stops work nobody is
+ * listening to any more. Canceling a run:
+ * 1. asks the backend to stop the thread (`stopExecution`)
+ * 2. aborts the run's signal, which closes the upstream `/stream` body
+ * 3. makes the run finish as `canceled` (see `release`)
+ *
+ * Routes report listening clients per thread with `connect` / `disconnect`.
+ * When the last client of a thread disconnects, its runs are canceled after
+ * the grace period unless a client reconnects (e.g. with Last-Event-ID) first.
+ *
+ * Configuration:
+ * - CUGA_DISCONNECT_GRACE_MS: how long to wait for a reconnect before
+ *   canceling (default 30000; 0 cancels immediately)
+ */
+
+import { createLogger } from './logger.js';
+
+const log = createLogger('CUGA-Cancel');
+
+interface TrackedRun {
+  threadId: string;
+  controller: AbortController;
+  /** Why the run was canceled, once it was */
+  reason?: string;
+}
+
+interface ThreadClients {
+  count: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export class RunCancellations {
+  private runs = new Map<string, TrackedRun>();
+  private clients = new Map<string, ThreadClients>();
+
+  constructor(
+    private stop: (threadId: string) => Promise<void>,
+    readonly graceMs = Number.parseInt(process.env.CUGA_DISCONNECT_GRACE_MS || '30000', 10)
+  ) {}
+
+  /**
+   * Track a run and return the signal that aborts its backend stream
+   */
+  register(runId: string, threadId: string): AbortSignal {
+    const run: TrackedRun = { threadId, controller: new AbortController() };
+    this.runs.set(runId, run);
+    return run.controller.signal;
+  }
+
+  /**
+   * Signal of a tracked run (a never-aborted signal for unknown runs)
+   */
+  signal(runId: string): AbortSignal {
+    return this.runs.get(runId)?.controller.signal ?? new AbortController().signal;
+  }
+
+  /**
+   * Cancel a run: stop its thread on the backend and close its stream
+   */
+  async cancel(runId: string, reason: string): Promise<boolean> {
+    const run = this.runs.get(runId);
+    if (!run || run.reason) return false;
+    run.reason = reason;
+    log.info(`Canceling run: ${reason}`, { runId, threadId: run.threadId });
+    try {
+      await this.stop(run.threadId);
+    } catch (error) {
+      log.warn('Failed to stop thread', { runId, threadId: run.threadId, error });
+    }
+    run.controller.abort(reason);
+    return true;
+  }
+
+  /**
+   * Cancel every tracked run of a thread
+   */
+  async cancelThread(threadId: string, reason: string): Promise<void> {
+    const runIds = [...this.runs.entries()].filter(([, run]) => run.threadId === threadId).map(([runId]) => runId);
+    await Promise.all(runIds.map((runId) => this.cancel(runId, reason)));
+  }
+
+  /**
+   * Stop tracking a finished run, returning the cancellation reason if it was canceled
+   */
+  release(runId: string): string | undefined {
+    const run = this.runs.get(runId);
+    this.runs.delete(runId);
+    return run?.reason;
+  }
+
+  /**
+   * A client started listening to a thread
+   */
+  connect(threadId: string): void {
+    const clients = this.clients.get(threadId) ?? { count: 0 };
+    if (clients.timer) {
+      clearTimeout(clients.timer);
+      clients.timer = undefined;
+      log.info('Client reconnected', { threadId });
+    }
+    clients.count++;
+    this.clients.set(threadId, clients);
+  }
+
+  /**
+   * A client stopped listening to a thread
+   *
+   * When it was the last one, the thread's runs are canceled after the grace period.
+   */
+  disconnect(threadId: string): void {
+    const clients = this.clients.get(threadId);
+    if (!clients) return;
+    clients.count = Math.max(0, clients.count - 1);
+    if (clients.count > 0) return;
+
+    const cancel = () => {
+      this.clients.delete(threadId);
+      void this.cancelThread(threadId, 'Client disconnected');
+    };
+    if (this.graceMs <= 0) {
+      cancel();
+      return;
+    }
+    log.info(`Client left; canceling in ${this.graceMs}ms unless it reconnects`, { threadId });
+    clients.timer = setTimeout(cancel, this.graceMs);
+    clients.timer.unref?.();
+  }
+
+  /**
+   * A client finished listening normally (the stream ended)
+   */
+  done(threadId: string): void {
+    const clients = this.clients.get(threadId);
+    if (!clients) return;
+    clients.count = Math.max(0, clients.count - 1);
+    if (clients.count === 0 && !clients.timer) {
+      this.clients.delete(threadId);
+    }
+  }
+}
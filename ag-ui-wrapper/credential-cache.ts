@@ -0,0 +1,125 @@
+/**
+ * CUGA Credential Cache
+ *
+ * TTL cache for credentials resolved from the Runtime API, so tenants are not
+ * resolved again on every request. Entries are keyed by a SHA-256 hash of the
+ * tenant API key (the key itself is never stored) and the task type.
+ * Concurrent lookups for the same entry share one resolution. Failed
+ * resolutions, and tenants resolving to no credentials, are not cached, and a
+ * resolution still running when its key is invalidated is not cached either.
+ *
+ * Configuration:
+ * - CUGA_CREDENTIAL_CACHE_TTL_MS (default 300000, 0 disables caching)
+ * - CUGA_CREDENTIAL_CACHE_MAX_ENTRIES (default 1000)
+ */
+
+import { createHash } from 'node:crypto';
+
+import type { AICredentials, CugaTaskType } from './types.js';
+
+interface CacheEntry {
+  credentials: AICredentials | undefined;
+  expiresAt: number;
+}
+
+/**
+ * Hash an API key for use as a cache key or log field
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export class CredentialCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<AICredentials | undefined>>();
+  /** Bumped by every invalidation, so resolutions started before it are not cached */
+  private generation = 0;
+
+  constructor(
+    private ttlMs = Number.parseInt(process.env.CUGA_CREDENTIAL_CACHE_TTL_MS || '300000', 10),
+    private maxEntries = Number.parseInt(process.env.CUGA_CREDENTIAL_CACHE_MAX_ENTRIES || '1000', 10)
+  ) {}
+
+  private key(keyHash: string, taskType: CugaTaskType): string {
+    return `${keyHash}:${taskType}`;
+  }
+
+  /**
+   * Get cached credentials, resolving and caching them on a miss
+   */
+  async get(
+    apiKey: string,
+    taskType: CugaTaskType,
+    resolve: () => Promise<AICredentials | undefined>
+  ): Promise<AICredentials | undefined> {
+    const key = this.key(hashApiKey(apiKey), taskType);
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.credentials;
+    }
+    this.entries.delete(key);
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const generation = this.generation;
+    const resolution: Promise<AICredentials | undefined> = resolve()
+      .then((credentials) => {
+        if (credentials && this.ttlMs > 0 && generation === this.generation) {
+          this.entries.set(key, { credentials, expiresAt: Date.now() + this.ttlMs });
+          this.evict();
+        }
+        return credentials;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === resolution) {
+          this.inFlight.delete(key);
+        }
+      });
+    this.inFlight.set(key, resolution);
+    return resolution;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop cached credentials for one API key (all task types), or for every key
+   *
+   * Accepts either the raw API key or its hash. Returns the number of entries removed.
+   */
+  invalidate(apiKeyOrHash?: string): number {
+    this.generation++;
+    if (!apiKeyOrHash) {
+      const count = this.entries.size;
+      this.entries.clear();
+      this.inFlight.clear();
+      return count;
+    }
+    const hashes = [apiKeyOrHash, hashApiKey(apiKeyOrHash)];
+    const matches = (key: string) => hashes.some((hash) => key.startsWith(`${hash}:`));
+    for (const key of [...this.inFlight.keys()]) {
+      if (matches(key)) {
+        this.inFlight.delete(key);
+      }
+    }
+    let count = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (matches(key)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
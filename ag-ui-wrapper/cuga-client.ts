@@ -3,12 +3,30 @@
  *
  * Client for communicating with the CUGA FastAPI backend.
  * Supports multi-tenant credential injection via headers.
+ * Trace context of the run's current backend call is sent as `traceparent`.
+ * A requested response schema is stated in the query.
+ * Requests are logged per thread; credential headers never reach the logs (logger.ts).
  */
 
+import { createBackendPool, type BackendPool } from './backend-pool.js';
+import { buildStreamBody } from './history.js';
+import { createLogger } from './logger.js';
+import { callBackend, CugaBackendError, fetchWithTimeout, getBreaker, getBreakerStates, readWithIdleTimeout } from './resilience.js';
+import { getRunTelemetry } from './run-telemetry.js';
+import { responseSchemaInstructions } from './structured-output.js';
 import type { CugaSSEEvent, CugaQueryRequest, CugaResumeRequest, CugaHealthResponse, AICredentials } from './types.js';
 
-// CUGA demo backend runs on port 7860
-const CUGA_BASE_URL = process.env.CUGA_BASE_URL || 'http://localhost:7860';
+const log = createLogger('CUGA-Client');
+
+// CUGA demo backends run on port 7860 (see backend-pool.ts for multi-backend setup)
+const backendPool = createBackendPool();
+
+/**
+ * The pool of CUGA backends used by this client
+ */
+export function getBackendPool(): BackendPool {
+  return backendPool;
+}
 
 /**
  * Build headers for CUGA request including credential headers if provided
@@ -21,6 +39,10 @@ function buildHeaders(threadId?: string, credentials?: AICredentials): Record<st
 
   if (threadId) {
     headers['X-Thread-ID'] = threadId;
+    const traceparent = getRunTelemetry().traceparent(threadId);
+    if (traceparent) {
+      headers['traceparent'] = traceparent;
+    }
   }
 
   // Add credential headers for multi-tenant support
@@ -48,6 +70,31 @@ function buildHeaders(threadId?: string, credentials?: AICredentials): Record<st
   return headers;
 }
 
+/**
+ * Append the response schema to the query
+ */
+function withResponseSchema(request: CugaQueryRequest): string {
+  return request.response_schema ? `${request.query}\n\n${responseSchemaInstructions(request.response_schema)}` : request.query;
+}
+
+/**
+ * Run settings of the invoked skill, sent alongside the query
+ *
+ * The backend refuses a mode it does not run in, starts browser runs from
+ * `start_url` and limits the run to `apps`. Requests without a skill send
+ * none and run in the backend's mode.
+ */
+function skillOptions(request: CugaQueryRequest): Pick<CugaQueryRequest, 'api_mode' | 'start_url' | 'apps'> {
+  if (!request.skill_id) {
+    return {};
+  }
+  return {
+    api_mode: request.api_mode,
+    ...(request.start_url ? { start_url: request.start_url } : {}),
+    ...(request.apps?.length ? { apps: request.apps } : {}),
+  };
+}
+
 /**
  * Parse SSE event from CUGA stream
  */
@@ -69,89 +116,51 @@ function parseSSEEvent(eventStr: string): CugaSSEEvent | null {
 }
 
 /**
- * Build context string from conversation history
- * Summarizes history for context in follow-up questions
- */
-function buildContextFromHistory(history?: Array<{ role: string; content: string }>): string {
-  if (!history || history.length === 0) {
-    return '';
-  }
-
-  // Take last 5 messages for context (to avoid token limits)
-  const recentHistory = history.slice(-5);
-
-  const contextParts = recentHistory.map((msg, idx) => {
-    const role = msg.role === 'user' ? 'User' : 'Assistant';
-    // Truncate long messages
-    const content = msg.content.length > 500
-      ? msg.content.substring(0, 500) + '...'
-      : msg.content;
-    return `[${role}]: ${content}`;
-  });
-
-  return `\n\n--- Previous Conversation Context ---\n${contextParts.join('\n')}\n--- End Context ---\n\n`;
-}
-
-/**
- * Stream query to CUGA backend
+ * Read SSE events from a CUGA response body
  *
- * Note: CUGA backend uses /stream endpoint with:
- * - Body: { "query": "...", "history": [...] }
- * - Header: X-Thread-ID for thread tracking
- *
- * Multi-tenant support: If credentials are provided, they are passed via headers
- * and the Python backend will use them instead of environment variables.
+ * Idle timeouts and dropped connections count against the backend's breaker
+ * and surface as CugaBackendError. Aborting `signal`, or returning early from
+ * the generator, closes the response body so the backend connection is released.
  */
-export async function* streamQuery(
-  request: CugaQueryRequest,
-  credentials?: AICredentials
-): AsyncGenerator<CugaSSEEvent> {
-  const url = new URL('/stream', CUGA_BASE_URL);
-
-  console.log(`[CUGA Client] Sending stream request to ${url.toString()} with thread_id: ${request.thread_id}, history: ${request.history?.length || 0} messages, hasCredentials: ${!!credentials}`);
-
-  // Build headers with optional credentials
-  const headers = buildHeaders(request.thread_id, credentials);
-
-  // Build query with context from history if available
-  let queryWithContext = request.query;
-  if (request.history && request.history.length > 0) {
-    const context = buildContextFromHistory(request.history);
-    queryWithContext = `${context}Current question: ${request.query}`;
-  }
-
-  // CUGA backend expects one of these formats:
-  // 1. { "query": "..." } - Simple query string
-  // 2. { "action_id": ... } - ActionResponse for resume
-  // 3. { "messages": [...] } - ChatRequest format
-  // We use the simple query format as it's the most straightforward
-  const response = await fetch(url.toString(), {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({ query: queryWithContext }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    console.error(`[CUGA Client] Request failed: ${response.status} ${response.statusText}`, errorText);
-    throw new Error(`CUGA query failed: ${response.status} ${response.statusText} - ${errorText}`);
-  }
-
+async function* readSSEStream(response: Response, baseUrl: string, signal?: AbortSignal): AsyncGenerator<CugaSSEEvent> {
   if (!response.body) {
     throw new Error('No response body from CUGA');
   }
 
+  const breaker = getBreaker(baseUrl);
   const reader = response.body.getReader();
   const decoder = new TextDecoder();
   let buffer = '';
+  let finished = false;
+
+  // Canceling the reader resolves any pending read as done
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener('abort', onAbort, { once: true });
 
   try {
     while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+      let chunk: Awaited<ReturnType<typeof reader.read>>;
+      try {
+        chunk = await readWithIdleTimeout(reader);
+      } catch (error) {
+        breaker.recordFailure(error);
+        if (error instanceof CugaBackendError) throw error;
+        throw new CugaBackendError(
+          `Connection to CUGA backend lost: ${error instanceof Error ? error.message : String(error)}`,
+          'unavailable'
+        );
+      }
+      const { done, value } = chunk;
+      if (done) {
+        finished = true;
+        break;
+      }
 
       buffer += decoder.decode(value, { stream: true });
-      
+
       // Split by double newline (SSE event separator)
       const events = buffer.split('\n\n');
       buffer = events.pop() || ''; // Keep incomplete event in buffer
@@ -166,17 +175,74 @@ export async function* streamQuery(
     }
 
     // Process any remaining buffer
-    if (buffer.trim()) {
+    if (buffer.trim() && !signal?.aborted) {
       const event = parseSSEEvent(buffer);
       if (event) {
         yield event;
       }
     }
   } finally {
+    signal?.removeEventListener('abort', onAbort);
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
     reader.releaseLock();
   }
 }
 
+/**
+ * Stream query to CUGA backend
+ *
+ * Note: CUGA backend uses /stream endpoint with:
+ * - Body: { "query": "..." }, with the history prepended as the strategy decides,
+ *   plus the invoked skill's api_mode, start_url and apps
+ * - Header: X-Thread-ID for thread tracking
+ *
+ * Multi-tenant support: If credentials are provided, they are passed via headers
+ * and the Python backend will use them instead of environment variables.
+ *
+ * Aborting `signal` closes the stream (see cancellation.ts).
+ */
+export async function* streamQuery(
+  request: CugaQueryRequest,
+  credentials?: AICredentials,
+  signal?: AbortSignal
+): AsyncGenerator<CugaSSEEvent> {
+  const baseUrl = backendPool.pick(request.thread_id);
+  const url = new URL('/stream', baseUrl);
+
+  const threadLog = log.child({ threadId: request.thread_id, orgId: credentials?.organizationId });
+  threadLog.info(`Sending stream request to ${url.toString()}`, {
+    history: request.history?.length || 0,
+    mode: request.skill_id ? (request.api_mode === false ? 'browser' : 'api') : 'backend',
+    skill: request.skill_id || 'none',
+    hasCredentials: !!credentials,
+  });
+
+  // Build headers with optional credentials
+  const headers = buildHeaders(request.thread_id, credentials);
+
+  // CUGA backend expects one of these formats:
+  // 1. { "query": "...", ... } - Simple query string, history prepended as text, and skill settings
+  // 2. { "action_id": ... } - ActionResponse for resume
+  const strategy = request.history_strategy || 'last-n';
+  const body = { ...(await buildStreamBody(withResponseSchema(request), request.history, strategy, request.history_options, credentials, signal)), ...skillOptions(request) };
+  threadLog.debug(`History strategy: ${strategy}`, { headers });
+
+  // Not idempotent: only retried when the request never reached the backend
+  const response = await callBackend(
+    getBreaker(baseUrl),
+    'stream',
+    () => fetchWithTimeout(url.toString(), { method: 'POST', headers, body: JSON.stringify(body) }),
+    { idempotent: false }
+  ).catch((error) => {
+    threadLog.error('Request failed', error);
+    throw error;
+  });
+
+  yield* backendPool.track(baseUrl, readSSEStream(response, baseUrl, signal));
+}
+
 /**
  * Resume CUGA execution after human-in-the-loop
  *
@@ -186,26 +252,40 @@ export async function* streamQuery(
  *
  * Multi-tenant support: If credentials are provided, they are passed via headers
  * to maintain consistency with the initial query.
+ *
+ * Aborting `signal` closes the stream (see cancellation.ts).
  */
 export async function* resumeExecution(
   request: CugaResumeRequest,
-  credentials?: AICredentials
+  credentials?: AICredentials,
+  signal?: AbortSignal
 ): AsyncGenerator<CugaSSEEvent> {
   // CUGA uses the /stream endpoint for both initial queries and resume operations
   // When the body contains action_id, it's treated as an ActionResponse for resume
-  const url = new URL('/stream', CUGA_BASE_URL);
+  // Resume must reach the backend holding the thread's graph state
+  const baseUrl = backendPool.owner(request.thread_id);
+  const url = new URL('/stream', baseUrl);
 
   // Build ActionResponse format expected by CUGA backend
   // See: cuga/backend/cuga_graph/nodes/human_in_the_loop/followup_model.py
   const actionResponse = {
-    action_id: request.thread_id, // Use thread_id as action_id for correlation
+    // The HITL request being answered; thread_id is kept as fallback for older callers
+    action_id: request.action_id || request.thread_id,
+    response_type: request.response_type || 'confirmation',
+    timestamp: new Date().toISOString(),
+    confirmed: request.action !== 'reject',
+    text_response: request.value ?? request.modified_value ?? null,
+    selected_values: request.selected_values ?? null,
     action: request.action, // 'approve', 'reject', or 'modify'
     modified_value: request.modified_value || null,
   };
 
-  console.log('[CUGA-Client] Resuming execution with ActionResponse:', {
-    thread_id: request.thread_id,
+  log.info('Resuming execution with ActionResponse', {
+    threadId: request.thread_id,
+    orgId: credentials?.organizationId,
+    action_id: actionResponse.action_id,
     action: request.action,
+    responseType: actionResponse.response_type,
     hasModifiedValue: !!request.modified_value,
     hasCredentials: !!credentials,
   });
@@ -213,80 +293,113 @@ export async function* resumeExecution(
   // Build headers with optional credentials
   const headers = buildHeaders(request.thread_id, credentials);
 
-  const response = await fetch(url.toString(), {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(actionResponse),
-  });
-
-  if (!response.ok) {
-    throw new Error(`CUGA resume failed: ${response.status} ${response.statusText}`);
-  }
-
-  if (!response.body) {
-    throw new Error('No response body from CUGA');
-  }
+  // Not idempotent: only retried when the request never reached the backend
+  const response = await callBackend(
+    getBreaker(baseUrl),
+    'resume',
+    () => fetchWithTimeout(url.toString(), { method: 'POST', headers, body: JSON.stringify(actionResponse) }),
+    { idempotent: false }
+  );
 
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = '';
+  yield* backendPool.track(baseUrl, readSSEStream(response, baseUrl, signal));
+}
 
+/**
+ * Probe one CUGA backend
+ *
+ * Reports unhealthy without calling the backend while its circuit is open.
+ */
+async function probeBackend(baseUrl: string): Promise<boolean> {
+  const url = new URL('/', baseUrl);
   try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+    await callBackend(getBreaker(baseUrl), 'health', () => fetchWithTimeout(url.toString(), {}), { idempotent: true, retries: 0 });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-      buffer += decoder.decode(value, { stream: true });
-      const events = buffer.split('\n\n');
-      buffer = events.pop() || '';
+/**
+ * Check CUGA health
+ *
+ * With a base URL only that backend is probed; otherwise every pool member
+ * is probed and the pool is healthy while at least one member is.
+ */
+export async function checkHealth(baseUrl?: string): Promise<CugaHealthResponse> {
+  if (baseUrl) {
+    const healthy = await probeBackend(baseUrl);
+    return { status: healthy ? 'healthy' : 'unhealthy', circuitBreakers: [getBreaker(baseUrl).snapshot()] };
+  }
 
-      for (const eventStr of events) {
-        if (!eventStr.trim()) continue;
-        const event = parseSSEEvent(eventStr);
-        if (event) {
-          yield event;
-        }
-      }
-    }
+  await backendPool.checkMembers(probeBackend);
+  const backends = backendPool.list();
+  return {
+    status: backends.some((b) => b.healthy) ? 'healthy' : 'unhealthy',
+    circuitBreakers: getBreakerStates(),
+    backends,
+  };
+}
 
-    if (buffer.trim()) {
-      const event = parseSSEEvent(buffer);
-      if (event) {
-        yield event;
-      }
-    }
-  } finally {
-    reader.releaseLock();
-  }
+/**
+ * Start periodic health checks of the backend pool (CUGA_HEALTH_CHECK_INTERVAL_MS)
+ */
+export function startBackendHealthChecks(): void {
+  const interval = Number.parseInt(process.env.CUGA_HEALTH_CHECK_INTERVAL_MS || '', 10);
+  backendPool.startHealthChecks(probeBackend, Number.isNaN(interval) ? 15_000 : interval);
 }
 
 /**
- * Check CUGA health
+ * Upload a new file into the CUGA workspace, under `directory`
+ *
+ * Sent to the backend the thread runs on, so its query can read the file,
+ * with the token the backend requires (CUGA_WORKSPACE_UPLOAD_TOKEN). Returns
+ * the workspace path as listed by /api/workspace/tree. The backend refuses to
+ * overwrite a file, so only uploads that never reached it are retried.
  */
-export async function checkHealth(): Promise<CugaHealthResponse> {
-  const url = new URL('/', CUGA_BASE_URL);
-  
-  try {
-    const response = await fetch(url.toString());
-    if (response.ok) {
-      return { status: 'healthy' };
-    }
-    return { status: 'unhealthy' };
-  } catch {
-    return { status: 'unhealthy' };
+export async function uploadWorkspaceFile(
+  threadId: string,
+  file: { name: string; mimeType: string; bytes: Uint8Array },
+  directory: string,
+  credentials?: AICredentials
+): Promise<{ path: string; size: number }> {
+  const baseUrl = backendPool.pick(threadId);
+  const url = new URL('/api/workspace/upload', baseUrl);
+
+  // fetch sets the multipart Content-Type (with its boundary) for FormData bodies
+  const headers = buildHeaders(threadId, credentials);
+  delete headers['Content-Type'];
+  headers['Accept'] = 'application/json';
+  if (process.env.CUGA_WORKSPACE_UPLOAD_TOKEN) {
+    headers['X-CUGA-Upload-Token'] = process.env.CUGA_WORKSPACE_UPLOAD_TOKEN;
+  }
+
+  const response = await callBackend(getBreaker(baseUrl), 'upload', () => {
+    const form = new FormData();
+    form.append('file', new Blob([file.bytes], { type: file.mimeType }), file.name);
+    form.append('directory', directory);
+    return fetchWithTimeout(url.toString(), { method: 'POST', headers, body: form });
+  }, { idempotent: false });
+
+  const result = await response.json() as { path?: string; size?: number };
+  if (typeof result.path !== 'string') {
+    throw new CugaBackendError('CUGA backend did not return the uploaded file path', 'http', response.status);
   }
+  return { path: result.path, size: result.size ?? file.bytes.length };
 }
 
 /**
  * Stop CUGA execution for a thread
+ *
+ * Sent to the backend that owns the thread. Stopping is idempotent, so
+ * failures are retried with backoff.
  */
 export async function stopExecution(threadId: string): Promise<void> {
-  const url = new URL('/stop', CUGA_BASE_URL);
-  
-  await fetch(url.toString(), {
+  const baseUrl = backendPool.owner(threadId);
+  const url = new URL('/stop', baseUrl);
+
+  await callBackend(getBreaker(baseUrl), 'stop', () => fetchWithTimeout(url.toString(), {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ thread_id: threadId }),
-  });
+  }), { idempotent: true });
 }
-
@@ -0,0 +1,442 @@
+/**
+ * CUGA SSE Event Schema
+ *
+ * Runtime schemas for the payload of every CugaEventType, a small validator
+ * for the JSON Schema subset they use, and `parseCugaEvent`, which turns a raw
+ * SSE event into a CugaTypedEvent plus any schema violations.
+ *
+ * This module has no runtime dependencies so it can be shared with the chat
+ * UI (agentic_chat imports it as `@cuga/events`). The full schema is served at
+ * `GET /cuga/schema` for code generation.
+ */
+
+import type { CugaEventEncoding, CugaEventType, CugaSchemaWarning, CugaSSEEvent, CugaTypedEvent } from './types.js';
+
+/**
+ * Subset of JSON Schema (draft-07) used for CUGA payloads and caller
+ * response schemas (see structured-output.ts)
+ */
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null' | Array<'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'>;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Schema entry for one event type
+ */
+export interface CugaEventSchema {
+  encoding: CugaEventEncoding;
+  description: string;
+  /** Schema of the JSON payload (absent for text events) */
+  payload?: JsonSchema;
+}
+
+/** Bumped on incompatible schema changes */
+export const CUGA_EVENT_SCHEMA_VERSION = 1;
+
+const SUBTASK_STATUS: JsonSchema = { type: 'string', enum: ['pending', 'running', 'complete', 'failed', 'skipped'] };
+
+const RAW_SUBTASK: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    description: { type: 'string' },
+    task: { type: 'string' },
+    status: SUBTASK_STATUS,
+    app: { type: 'string' },
+    type: { type: 'string' },
+    dependencies: { type: 'array', items: { type: ['string', 'integer'] } },
+    depends_on: { type: 'array', items: { type: ['string', 'integer'] } },
+    subtasks: { type: 'array', items: { type: 'object' } },
+  },
+};
+
+const BROWSER_ELEMENT: JsonSchema = {
+  type: 'object',
+  required: ['bid', 'tag'],
+  properties: {
+    bid: { type: 'string' },
+    tag: { type: 'string' },
+    text: { type: 'string' },
+    bbox: {
+      type: 'object',
+      required: ['x', 'y', 'width', 'height'],
+      properties: { x: { type: 'number' }, y: { type: 'number' }, width: { type: 'number' }, height: { type: 'number' } },
+    },
+    isActive: { type: 'boolean' },
+  },
+};
+
+const VIEWPORT: JsonSchema = {
+  type: 'object',
+  required: ['width', 'height'],
+  properties: { width: { type: 'number' }, height: { type: 'number' } },
+};
+
+const BROWSER_ACTION_TYPE: JsonSchema = { type: 'string', enum: ['click', 'type', 'select_option', 'scroll', 'go_back', 'navigate'] };
+const BROWSER_ACTION_STATUS: JsonSchema = { type: 'string', enum: ['pending', 'executing', 'complete', 'failed'] };
+const CODE_STATUS: JsonSchema = { type: 'string', enum: ['pending', 'running', 'complete', 'failed'] };
+
+const TOOL_CALLS: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['name'],
+    properties: { name: { type: 'string' }, args: { type: 'object' }, id: { type: ['string', 'null'] } },
+  },
+};
+
+const BROWSER_AGENT: JsonSchema = {
+  anyOf: [
+    {
+      type: 'object',
+      properties: {
+        screenshot: { type: 'string', description: 'Base64 encoded screenshot' },
+        url: { type: 'string' },
+        elements: { type: 'array', items: BROWSER_ELEMENT },
+        viewport: VIEWPORT,
+        action: {
+          type: 'object',
+          required: ['type'],
+          properties: { type: BROWSER_ACTION_TYPE, bid: { type: 'string' }, value: { type: 'string' }, status: BROWSER_ACTION_STATUS },
+        },
+      },
+    },
+    TOOL_CALLS,
+  ],
+};
+
+/**
+ * Schema of every CUGA event type
+ */
+export const CUGA_EVENT_SCHEMAS: Record<CugaEventType, CugaEventSchema> = {
+  ChatAgent: { encoding: 'text', description: 'Chat agent message' },
+  TaskAnalyzerAgent: { encoding: 'text', description: 'Task analysis reasoning' },
+  TaskDecompositionAgent: {
+    encoding: 'json-or-text',
+    description: 'Task decomposition into subtasks',
+    payload: {
+      type: 'object',
+      properties: {
+        subtasks: { type: 'array', items: RAW_SUBTASK },
+        task_decomposition: { type: 'object', properties: { subtasks: { type: 'array', items: RAW_SUBTASK } } },
+      },
+    },
+  },
+  PlanControllerAgent: {
+    encoding: 'json-or-text',
+    description: 'Plan controller progress',
+    payload: {
+      type: 'object',
+      properties: {
+        current_subtask_id: { type: 'string' },
+        subtask_id: { type: 'string' },
+        subtask_status: SUBTASK_STATUS,
+        output: { type: 'string' },
+        error: { type: 'string' },
+        execution_time_ms: { type: 'number' },
+        subtasks_progress: { type: 'array', items: { type: 'string', enum: ['not-started', 'in-progress', 'completed'] } },
+      },
+    },
+  },
+  ApiAgent: {
+    encoding: 'json-or-text',
+    description: 'API agent step, optionally with generated code',
+    payload: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        code: { type: 'string' },
+        status: CODE_STATUS,
+        output: { type: 'string' },
+        error: { type: 'string' },
+      },
+    },
+  },
+  BrowserPlannerAgent: { encoding: 'json-or-text', description: 'Browser planner step', payload: BROWSER_AGENT },
+  ActionAgent: { encoding: 'json-or-text', description: 'Browser action step or issued tool calls', payload: BROWSER_AGENT },
+  QaAgent: { encoding: 'text', description: 'QA agent message' },
+  Answer: {
+    encoding: 'json-or-text',
+    description: 'Final answer',
+    payload: {
+      type: 'object',
+      required: ['data'],
+      properties: {
+        data: { type: 'string' },
+        variables: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            required: ['type'],
+            properties: { type: { type: 'string' }, value: {}, description: { type: 'string' } },
+          },
+        },
+      },
+    },
+  },
+  tool_call: { encoding: 'json', description: 'Tool calls pending approval', payload: TOOL_CALLS },
+  Stopped: { encoding: 'text', description: 'Execution stopped by user' },
+  __interrupt__: {
+    encoding: 'json-or-text',
+    description: 'Human-in-the-loop interrupt',
+    payload: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        action_id: { type: 'string' },
+        interrupt_id: { type: 'string' },
+        type: { type: 'string' },
+        message: { type: 'string' },
+        description: { type: 'string' },
+        action_name: { type: 'string' },
+        context: {
+          type: 'object',
+          properties: {
+            subtaskId: { type: 'string' },
+            action: { type: 'string' },
+            riskLevel: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+          },
+        },
+        options: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { id: { type: 'string' }, value: { type: 'string' }, label: { type: 'string' }, description: { type: 'string' } },
+          },
+        },
+        defaultValue: { type: 'string' },
+        default_value: { type: 'string' },
+      },
+    },
+  },
+  browser_screenshot: {
+    encoding: 'json',
+    description: 'Browser screenshot with bid-marked elements',
+    payload: {
+      type: 'object',
+      required: ['screenshot'],
+      properties: {
+        screenshot: { type: 'string', description: 'Base64 encoded screenshot' },
+        url: { type: 'string' },
+        elements: { type: 'array', items: BROWSER_ELEMENT },
+        viewport: VIEWPORT,
+      },
+    },
+  },
+  browser_action: {
+    encoding: 'json',
+    description: 'Browser action status',
+    payload: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: BROWSER_ACTION_TYPE,
+        bid: { type: 'string' },
+        value: { type: 'string' },
+        status: BROWSER_ACTION_STATUS,
+        error: { type: 'string' },
+      },
+    },
+  },
+  code_execution: {
+    encoding: 'json',
+    description: 'Code execution status',
+    payload: {
+      type: 'object',
+      required: ['code'],
+      properties: {
+        id: { type: 'string' },
+        code: { type: 'string' },
+        language: { type: 'string', enum: ['python', 'javascript'] },
+        status: CODE_STATUS,
+        output: { type: 'string' },
+        error: { type: 'string' },
+        execution_time_ms: { type: 'number' },
+        sandbox: { type: 'string', enum: ['local', 'docker', 'e2b'] },
+      },
+    },
+  },
+  variable_update: {
+    encoding: 'json',
+    description: 'Variable created or updated',
+    payload: {
+      type: 'object',
+      required: ['name'],
+      properties: { name: { type: 'string' }, type: { type: 'string' }, value: {}, description: { type: 'string' } },
+    },
+  },
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Validate a value against a schema, returning violation messages keyed by path
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): Array<{ path: string; message: string }> {
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((branch) => validateSchema(value, branch, path));
+    return branches.some((errors) => errors.length === 0)
+      ? []
+      : [{ path, message: 'does not match any allowed shape' }];
+  }
+  if (schema.oneOf) {
+    const matching = schema.oneOf.filter((branch) => validateSchema(value, branch, path).length === 0).length;
+    return matching === 1
+      ? []
+      : [{ path, message: matching === 0 ? 'does not match any allowed shape' : 'matches more than one allowed shape' }];
+  }
+  if (schema.allOf) {
+    return schema.allOf.flatMap((branch) => validateSchema(value, branch, path));
+  }
+
+  const errors: Array<{ path: string; message: string }> = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.includes(actual as never) || (actual === 'integer' && allowed.includes('number'));
+    if (!matches) {
+      return [{ path, message: `expected ${allowed.join(' | ')}, got ${actual}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}` });
+  }
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push({ path, message: `expected ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        errors.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      if (child === undefined) continue;
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(child, propertySchema, `${path}.${key}`));
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(child, schema.additionalProperties, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}.${key}`, message: 'is not allowed' });
+      }
+    }
+  }
+
+  if (actual === 'array') {
+    const length = (value as unknown[]).length;
+    if (schema.minItems !== undefined && length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && length > schema.maxItems) {
+      errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+  }
+
+  if (actual === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, idx) => {
+      errors.push(...validateSchema(item, schema.items as JsonSchema, `${path}[${idx}]`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a raw CUGA SSE event into a typed event
+ *
+ * Returns `undefined` for event names outside CugaEventType. Schema
+ * violations do not drop the payload; consumers read it defensively and
+ * the warnings are reported alongside.
+ */
+export function parseCugaEvent(event: Pick<CugaSSEEvent, 'data'> & { name: string }): { event: CugaTypedEvent; warnings: CugaSchemaWarning[] } | undefined {
+  const schema = CUGA_EVENT_SCHEMAS[event.name as CugaEventType] as CugaEventSchema | undefined;
+  if (!schema) return undefined;
+
+  const data = event.data ?? '';
+  const warn = (path: string, message: string): CugaSchemaWarning => ({ event: event.name, path, message });
+
+  if (schema.encoding === 'text') {
+    return { event: { name: event.name, data, payload: data } as CugaTypedEvent, warnings: [] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    if (schema.encoding === 'json-or-text') {
+      return { event: { name: event.name, data, payload: data } as CugaTypedEvent, warnings: [] };
+    }
+    return { event: { name: event.name, data } as CugaTypedEvent, warnings: [warn('$', 'payload is not valid JSON')] };
+  }
+
+  // A JSON string literal is plain text for json-or-text events
+  if (schema.encoding === 'json-or-text' && typeof parsed === 'string') {
+    return { event: { name: event.name, data, payload: parsed } as CugaTypedEvent, warnings: [] };
+  }
+
+  const warnings = schema.payload
+    ? validateSchema(parsed, schema.payload).map((e) => warn(e.path, e.message))
+    : [];
+  return { event: { name: event.name, data, payload: parsed } as CugaTypedEvent, warnings };
+}
+
+/**
+ * Full JSON Schema document describing the CUGA SSE protocol
+ */
+export function getCugaEventJsonSchema(): Record<string, unknown> {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'CUGA SSE events',
+    version: CUGA_EVENT_SCHEMA_VERSION,
+    description: 'Each SSE message has an `event` name and a `data` field. `encoding` tells how `data` is encoded; `payload` is the schema of the decoded JSON.',
+    events: CUGA_EVENT_SCHEMAS,
+  };
+}
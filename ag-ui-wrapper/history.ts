@@ -0,0 +1,211 @@
+/**
+ * CUGA Conversation History Strategies
+ *
+ * Decide how prior conversation turns reach the CUGA backend with a query:
+ * - last-n: last N messages, each truncated, prepended to the query as text
+ * - token-budget: as many recent messages as fit a token budget, as text
+ * - summarize: older turns summarized by the tenant's model, recent turns verbatim;
+ *   only for OpenAI-compatible providers, token-budget otherwise
+ * - none: query only
+ *
+ * The default comes from CUGA_HISTORY_STRATEGY (last-n if unset); callers pick
+ * one per request with `metadata.history_strategy` and tune it with
+ * `metadata.history_options`. Summaries time out after CUGA_SUMMARY_TIMEOUT_MS
+ * (default 15000) and go to CUGA_SUMMARY_BASE_URL / CUGA_SUMMARY_MODEL when
+ * the tenant's credentials name none.
+ */
+
+import { createLogger } from './logger.js';
+import { fetchWithTimeout } from './resilience.js';
+import type { AICredentials, CugaHistoryMessage, CugaHistoryOptions, CugaHistoryStrategy } from './types.js';
+
+const log = createLogger('CUGA-History');
+
+/**
+ * Body sent to the CUGA `/stream` endpoint
+ */
+export type CugaStreamBody = { query: string };
+
+const STRATEGIES: CugaHistoryStrategy[] = ['last-n', 'token-budget', 'summarize', 'none'];
+
+/**
+ * Providers whose keys work against an OpenAI-compatible `/chat/completions`
+ * (the same set the backend builds ChatOpenAI for); unset means openai
+ */
+const OPENAI_COMPATIBLE_PROVIDERS = ['openai', 'openai_direct', 'vercel_gateway'];
+
+const SUMMARY_TIMEOUT_MS = parseInt(process.env.CUGA_SUMMARY_TIMEOUT_MS || '', 10) || 15000;
+
+const DEFAULT_OPTIONS: Required<CugaHistoryOptions> = {
+  maxMessages: 5,
+  maxCharsPerMessage: 500,
+  maxTokens: 2000,
+};
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function isStrategy(value: unknown): value is CugaHistoryStrategy {
+  return typeof value === 'string' && STRATEGIES.includes(value as CugaHistoryStrategy);
+}
+
+/**
+ * Resolve the history strategy and options for a request
+ */
+export function historyConfigFromMetadata(metadata?: Record<string, unknown>): {
+  history_strategy: CugaHistoryStrategy;
+  history_options?: CugaHistoryOptions;
+} {
+  const requested = metadata?.history_strategy ?? metadata?.historyStrategy;
+  const envDefault = process.env.CUGA_HISTORY_STRATEGY;
+  let strategy: CugaHistoryStrategy = isStrategy(envDefault) ? envDefault : 'last-n';
+  if (isStrategy(requested)) {
+    strategy = requested;
+  } else if (requested !== undefined) {
+    log.warn(`Unknown history strategy "${String(requested)}", using ${strategy}`);
+  }
+
+  const rawOptions = metadata?.history_options ?? metadata?.historyOptions;
+  const options = rawOptions && typeof rawOptions === 'object' ? (rawOptions as CugaHistoryOptions) : undefined;
+  return { history_strategy: strategy, history_options: options };
+}
+
+function formatContext(messages: CugaHistoryMessage[]): string {
+  const contextParts = messages.map((msg) => {
+    const role = msg.role === 'user' ? 'User' : msg.role === 'system' ? 'System' : 'Assistant';
+    return `[${role}]: ${msg.content}`;
+  });
+  return `\n\n--- Previous Conversation Context ---\n${contextParts.join('\n')}\n--- End Context ---\n\n`;
+}
+
+function withContext(query: string, messages: CugaHistoryMessage[]): CugaStreamBody {
+  if (messages.length === 0) {
+    return { query };
+  }
+  return { query: `${formatContext(messages)}Current question: ${query}` };
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? text.substring(0, maxChars) + '...' : text;
+}
+
+/**
+ * Most recent messages that fit the token budget, oldest first
+ *
+ * The oldest included message is truncated to use up the remaining budget.
+ */
+function fitTokenBudget(history: CugaHistoryMessage[], maxTokens: number): CugaHistoryMessage[] {
+  const selected: CugaHistoryMessage[] = [];
+  let remaining = maxTokens;
+  for (let i = history.length - 1; i >= 0 && remaining > 0; i--) {
+    const msg = history[i];
+    const tokens = estimateTokens(msg.content);
+    if (tokens <= remaining) {
+      selected.unshift(msg);
+      remaining -= tokens;
+    } else {
+      selected.unshift({ ...msg, content: '...' + msg.content.slice(-remaining * 4) });
+      remaining = 0;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Whether the tenant's credentials can be used to summarize
+ */
+function canSummarize(credentials?: AICredentials): credentials is AICredentials {
+  return !!credentials?.apiKey && OPENAI_COMPATIBLE_PROVIDERS.includes(credentials.provider || 'openai');
+}
+
+/**
+ * Summarize messages with the tenant's model via an OpenAI-compatible API
+ */
+async function summarizeWithModel(
+  messages: CugaHistoryMessage[],
+  credentials: AICredentials,
+  maxTokens: number,
+  signal?: AbortSignal
+): Promise<string> {
+  const baseUrl = credentials.baseUrl || process.env.CUGA_SUMMARY_BASE_URL || 'https://api.openai.com/v1';
+  const response = await fetchWithTimeout(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${credentials.apiKey}`,
+    },
+    body: JSON.stringify({
+      model: credentials.model || process.env.CUGA_SUMMARY_MODEL || 'gpt-4o-mini',
+      max_tokens: maxTokens,
+      messages: [
+        {
+          role: 'system',
+          content: 'Summarize the conversation below for an agent that will answer a follow-up question. Keep concrete facts, results, IDs, numbers and decisions. Be concise.',
+        },
+        { role: 'user', content: formatContext(messages).trim() },
+      ],
+    }),
+  }, SUMMARY_TIMEOUT_MS);
+  const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+  const summary = data.choices?.[0]?.message?.content;
+  if (!summary) {
+    throw new Error('Summary response was empty');
+  }
+  return summary;
+}
+
+/**
+ * Build the `/stream` request body for a query and its history
+ *
+ * `signal` is the run's: cancelling the run aborts a pending summary.
+ */
+export async function buildStreamBody(
+  query: string,
+  history: CugaHistoryMessage[] | undefined,
+  strategy: CugaHistoryStrategy = 'last-n',
+  options: CugaHistoryOptions = {},
+  credentials?: AICredentials,
+  signal?: AbortSignal
+): Promise<CugaStreamBody> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const messages = history || [];
+  if (messages.length === 0 || strategy === 'none') {
+    return { query };
+  }
+
+  switch (strategy) {
+    case 'token-budget':
+      return withContext(query, fitTokenBudget(messages, opts.maxTokens));
+    case 'summarize': {
+      const recent = messages.slice(-opts.maxMessages);
+      const older = messages.slice(0, -opts.maxMessages);
+      if (older.length === 0) {
+        return withContext(query, recent);
+      }
+      const provider = credentials?.provider;
+      if (!canSummarize(credentials)) {
+        log.warn('No OpenAI-compatible credentials to summarize with, falling back to token-budget', { provider: provider || 'none' });
+        return withContext(query, fitTokenBudget(messages, opts.maxTokens));
+      }
+      try {
+        const summary = await summarizeWithModel(older, credentials, Math.floor(opts.maxTokens / 2), signal);
+        return withContext(query, [{ role: 'system', content: `Summary of earlier conversation: ${summary}` }, ...recent]);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        log.warn('Failed to summarize history, falling back to token-budget', error);
+        return withContext(query, fitTokenBudget(messages, opts.maxTokens));
+      }
+    }
+    case 'last-n':
+    default:
+      return withContext(
+        query,
+        messages.slice(-opts.maxMessages).map((msg) => ({ ...msg, content: truncate(msg.content, opts.maxCharsPerMessage) }))
+      );
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * CUGA Human-in-the-Loop Requests
+ *
+ * Parses `__interrupt__` events into HITL requests with stable IDs, tracks
+ * which requests are still pending per thread, and turns answers to a
+ * specific request into a CUGA resume request.
+ */
+
+import type { CugaHitlRequest, CugaInterruptPayload, CugaResumeRequest } from './types.js';
+
+type HitlType = CugaHitlRequest['type'];
+
+/**
+ * Map backend follow-up action types (see followup_model.ActionType) to HITL types
+ */
+const BACKEND_TYPE_MAP: Record<string, HitlType> = {
+  approval: 'approval',
+  confirmation: 'confirmation',
+  button: 'confirmation',
+  input: 'input',
+  text_input: 'input',
+  natural_language: 'input',
+  selection: 'selection',
+  select: 'selection',
+  single_select: 'selection',
+  multi_select: 'selection',
+};
+
+/**
+ * Default backend response type for each HITL type
+ */
+const RESPONSE_TYPE_MAP: Record<HitlType, string> = {
+  approval: 'confirmation',
+  confirmation: 'confirmation',
+  input: 'text_input',
+  selection: 'single_select',
+};
+
+/**
+ * Build a HITL request from an `__interrupt__` payload
+ *
+ * The ID is the backend's interrupt ID (`interrupt_id`, or `id`). When the
+ * backend sends none, it falls back to the request's position in the run,
+ * scoped by run ID (`<runId>:<n>`), so replaying the same events yields the
+ * same IDs and IDs stay unique on a thread. The backend's follow-up
+ * `action_id` is kept separately: it names the kind of action (several
+ * interrupts can share it) and is what a resume must echo back.
+ */
+export function parseInterrupt(payload: CugaInterruptPayload | string, index: number, runId?: string): CugaHitlRequest {
+  const fallbackId = runId ? `${runId}:${index + 1}` : `hitl_${index + 1}`;
+
+  if (typeof payload === 'string' || !payload || typeof payload !== 'object') {
+    return {
+      id: fallbackId,
+      type: 'approval',
+      message: (typeof payload === 'string' && payload) || 'Human approval required',
+      responseType: RESPONSE_TYPE_MAP.approval,
+      pending: true,
+    };
+  }
+
+  const rawType = typeof payload.type === 'string' ? payload.type : 'approval';
+  const type = BACKEND_TYPE_MAP[rawType] || 'approval';
+  const id = [payload.interrupt_id, payload.id].find((v) => typeof v === 'string' && v);
+  const actionId = [payload.action_id, payload.id].find((v) => typeof v === 'string' && v);
+
+  const options = (Array.isArray(payload.options) ? payload.options : undefined)
+    ?.filter((o) => o && (o.id !== undefined || o.value !== undefined))
+    .map((o) => ({
+      id: String(o.id ?? o.value),
+      label: String(o.label ?? o.id ?? o.value),
+      description: typeof o.description === 'string' ? o.description : undefined,
+    }));
+
+  const defaultValue = payload.defaultValue ?? payload.default_value;
+  // Keep the backend's own action type so the resume echoes it back
+  const isBackendType = BACKEND_TYPE_MAP[rawType] !== undefined && !(rawType in RESPONSE_TYPE_MAP);
+
+  return {
+    id: id || fallbackId,
+    actionId,
+    type,
+    message: String(payload.message || payload.description || payload.action_name || 'Human approval required'),
+    context: payload.context,
+    options,
+    defaultValue: defaultValue !== undefined && defaultValue !== null ? String(defaultValue) : undefined,
+    responseType: isBackendType ? rawType : RESPONSE_TYPE_MAP[type],
+    multiSelect: rawType === 'multi_select' || undefined,
+    pending: true,
+  };
+}
+
+/**
+ * Answer to a specific HITL request, as accepted by `/cuga/resume`
+ */
+export interface HitlAnswer {
+  action?: 'approve' | 'reject' | 'modify';
+  /** Free-text value for `input` requests */
+  value?: string;
+  /** Selected option ID(s) for `selection` requests */
+  selection?: string | string[];
+  /** Legacy modified value */
+  modified_value?: string;
+}
+
+/**
+ * Build the resume request answering a HITL request
+ *
+ * Returns an error message if the answer does not fit the request.
+ */
+export function buildHitlResume(
+  threadId: string,
+  request: CugaHitlRequest,
+  answer: HitlAnswer
+): { resume: CugaResumeRequest } | { error: string } {
+  const action = answer.action || (request.type === 'input' || request.type === 'selection' ? 'approve' : undefined);
+  if (!action) {
+    return { error: 'action required' };
+  }
+
+  const resume: CugaResumeRequest = {
+    thread_id: threadId,
+    action,
+    // Without a backend action ID the client falls back to the thread ID
+    action_id: request.actionId,
+    response_type: request.responseType || RESPONSE_TYPE_MAP[request.type],
+    modified_value: answer.modified_value,
+  };
+
+  if (action === 'reject') {
+    return { resume };
+  }
+
+  if (request.type === 'input') {
+    const value = answer.value ?? answer.modified_value ?? request.defaultValue;
+    if (value === undefined || value === '') {
+      return { error: `request ${request.id} requires a value` };
+    }
+    resume.value = value;
+  }
+
+  if (request.type === 'selection') {
+    const selected = answer.selection === undefined
+      ? (request.defaultValue !== undefined ? [request.defaultValue] : [])
+      : Array.isArray(answer.selection) ? answer.selection : [answer.selection];
+    if (selected.length === 0) {
+      return { error: `request ${request.id} requires a selection` };
+    }
+    if (!request.multiSelect && selected.length > 1) {
+      return { error: `request ${request.id} accepts a single selection` };
+    }
+    const known = new Set((request.options || []).map((o) => o.id));
+    const unknown = selected.filter((id) => known.size > 0 && !known.has(id));
+    if (unknown.length > 0) {
+      return { error: `unknown option(s) for request ${request.id}: ${unknown.join(', ')}` };
+    }
+    resume.selected_values = selected;
+  }
+
+  return { resume };
+}
+
+/**
+ * Pending HITL requests per thread
+ */
+export class PendingHitlRegistry {
+  private threads = new Map<string, Map<string, CugaHitlRequest>>();
+
+  /**
+   * Register a request as pending, replacing any earlier request with the same ID
+   */
+  add(threadId: string, request: CugaHitlRequest): void {
+    let requests = this.threads.get(threadId);
+    if (!requests) {
+      requests = new Map();
+      this.threads.set(threadId, requests);
+    }
+    requests.set(request.id, { ...request, pending: true });
+  }
+
+  /**
+   * List pending requests of a thread, oldest first
+   */
+  list(threadId: string): CugaHitlRequest[] {
+    return [...(this.threads.get(threadId)?.values() || [])];
+  }
+
+  /**
+   * Get a pending request
+   */
+  get(threadId: string, requestId: string): CugaHitlRequest | undefined {
+    return this.threads.get(threadId)?.get(requestId);
+  }
+
+  /**
+   * Mark a request as answered
+   */
+  resolve(threadId: string, requestId: string): void {
+    const requests = this.threads.get(threadId);
+    if (!requests?.delete(requestId)) return;
+    if (requests.size === 0) {
+      this.threads.delete(threadId);
+    }
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * CUGA Structured Logging
+ *
+ * Leveled, structured logging for the wrapper and the CUGA client. Each
+ * module logs through `createLogger('<component>')`; run-scoped code uses a
+ * child logger carrying correlation fields (runId, threadId, orgId), so
+ * every line of a run can be found by its IDs.
+ *
+ * Every record is redacted before it reaches a sink:
+ * - API keys: `X-AI-API-Key` and other credential fields (api_key,
+ *   authorization, secret, token, ...), plus key-shaped strings (`sk-...`,
+ *   `Bearer ...`) anywhere in messages and values
+ * - base64 screenshots: screenshot/image fields and data URLs, replaced by
+ *   their size
+ * - sensitive variables: fields (or CUGA `{ name, value }` variables) named in
+ *   CUGA_LOG_SENSITIVE_KEYS or in a request's `metadata.sensitive_variables`
+ * JSON strings (e.g. raw event data) are parsed and redacted field by field.
+ *
+ * Configuration:
+ * - CUGA_LOG_LEVEL: debug | info (default) | warn | error | silent
+ * - CUGA_LOG_FORMAT: text (default, `[component] message {fields}`) | json (one object per line)
+ * - CUGA_LOG_SINKS: comma-separated sinks (default console):
+ *   - console: stdout/stderr via console (stderr only when serving MCP over stdio)
+ *   - file:<path>: appends JSON lines
+ *   - http(s)://...: POSTs batches of JSON records to a log collector
+ * - CUGA_LOG_SENSITIVE_KEYS: comma-separated field/variable names to redact
+ */
+
+import { appendFileSync } from 'node:fs';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  component: string;
+  message: string;
+  fields: Record<string, unknown>;
+}
+
+export interface LogSink {
+  write(record: LogRecord): void;
+  flush?(): Promise<void>;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 8;
+
+/** Field names holding credentials */
+const SECRET_KEY = /^(x-ai-api-key|x-api-key|x-cuga-upload-token|x-cuga-admin-token|api[-_]?key|apikey|fabricapikey|authorization|cookie|set-cookie|password|passwd|secret|client[-_]?secret|signing[-_]?secret|token|access[-_]?token|refresh[-_]?token|id[-_]?token|private[-_]?key)$/i;
+/** Field names holding base64 screenshots */
+const IMAGE_KEY = /^(screenshot|image|thumbnail|overlay|image[-_]?data|base64)$/i;
+
+const DATA_URL = /data:[\w/+.-]+;base64,[A-Za-z0-9+/=]+/g;
+const LONG_BASE64 = /[A-Za-z0-9+/]{512,}={0,2}/g;
+const API_KEY = /\b(sk|pk|rk)-[A-Za-z0-9_-]{12,}/g;
+const BEARER = /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi;
+const HEADER_VALUE = /(x-ai-api-key|x-api-key|api[-_]?key|authorization)(["']?\s*[:=]\s*["']?)(?!\[REDACTED\])[^\s"',}]+/gi;
+
+function redactText(text: string): string {
+  return text
+    .replace(DATA_URL, (match) => `[base64 image, ${match.length} chars]`)
+    .replace(LONG_BASE64, (match) => `[base64, ${match.length} chars]`)
+    .replace(BEARER, `Bearer ${REDACTED}`)
+    .replace(API_KEY, (_match, prefix: string) => `${prefix}-${REDACTED}`)
+    .replace(HEADER_VALUE, (_match, key: string, separator: string) => `${key}${separator}${REDACTED}`);
+}
+
+/**
+ * Copy of a value with credentials, base64 screenshots and sensitive
+ * variables scrubbed
+ *
+ * `sensitiveKeys` are lower-case field/variable names to redact in addition
+ * to CUGA_LOG_SENSITIVE_KEYS.
+ */
+export function redact(value: unknown, sensitiveKeys: ReadonlySet<string> = new Set(), depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    const trimmed = value.trimStart();
+    if ((trimmed.startsWith('{') || trimmed.startsWith('[')) && depth < MAX_DEPTH) {
+      try {
+        return JSON.stringify(redact(JSON.parse(value), sensitiveKeys, depth + 1, seen));
+      } catch {
+        // Not JSON: scrub as text
+      }
+    }
+    return redactText(value);
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(value.stack ? { stack: redactText(value.stack) } : {}),
+      ...('code' in value ? { code: (value as { code?: unknown }).code } : {}),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, sensitiveKeys, depth + 1, seen));
+  }
+
+  const record = value as Record<string, unknown>;
+  // CUGA variables ({ name, value }) marked sensitive
+  const variableName = typeof record.name === 'string' ? record.name.toLowerCase() : undefined;
+  const sensitiveVariable = variableName !== undefined && 'value' in record && isSensitiveKey(variableName, sensitiveKeys);
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(record)) {
+    if (field === undefined) continue;
+    if (SECRET_KEY.test(key) || isSensitiveKey(key.toLowerCase(), sensitiveKeys) || (sensitiveVariable && key === 'value')) {
+      result[key] = REDACTED;
+    } else if (IMAGE_KEY.test(key) && typeof field === 'string' && field.length > 64) {
+      result[key] = `[base64 image, ${field.length} chars]`;
+    } else {
+      result[key] = redact(field, sensitiveKeys, depth + 1, seen);
+    }
+  }
+  return result;
+}
+
+const GLOBAL_SENSITIVE_KEYS = new Set(
+  (process.env.CUGA_LOG_SENSITIVE_KEYS || '').split(',').map((k) => k.trim().toLowerCase()).filter(Boolean)
+);
+
+function isSensitiveKey(key: string, sensitiveKeys: ReadonlySet<string>): boolean {
+  return sensitiveKeys.has(key) || GLOBAL_SENSITIVE_KEYS.has(key);
+}
+
+/**
+ * Variable names a request marks sensitive (`metadata.sensitive_variables`)
+ */
+export function sensitiveVariablesFromMetadata(metadata: Record<string, unknown> = {}): string[] {
+  const names = metadata.sensitive_variables ?? metadata.sensitiveVariables;
+  return Array.isArray(names) ? names.filter((n): n is string => typeof n === 'string') : [];
+}
+
+function formatText(record: LogRecord): string {
+  const { error, ...fields } = record.fields;
+  const details = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+  const failure = error && typeof error === 'object'
+    ? `\n${(error as { stack?: string; message?: string }).stack ?? (error as { message?: string }).message}`
+    : error !== undefined ? ` ${String(error)}` : '';
+  return `[${record.component}] ${record.message}${details}${failure}`;
+}
+
+function formatJson(record: LogRecord): string {
+  return JSON.stringify({ time: record.time, level: record.level, component: record.component, msg: record.message, ...record.fields });
+}
+
+/**
+ * Writes records through console (so console redirection, e.g. for MCP stdio, applies)
+ */
+export class ConsoleSink implements LogSink {
+  constructor(private format: 'text' | 'json' = 'text') {}
+
+  write(record: LogRecord): void {
+    const line = this.format === 'json' ? formatJson(record) : formatText(record);
+    if (record.level === 'error') console.error(line);
+    else if (record.level === 'warn') console.warn(line);
+    else if (record.level === 'debug') console.debug(line);
+    else console.log(line);
+  }
+}
+
+/**
+ * Appends records to a file as JSON lines
+ */
+export class FileSink implements LogSink {
+  private failed = false;
+
+  constructor(readonly path: string) {}
+
+  write(record: LogRecord): void {
+    try {
+      appendFileSync(this.path, `${formatJson(record)}\n`);
+    } catch (error) {
+      // Report once instead of failing every log call
+      if (!this.failed) {
+        this.failed = true;
+        console.error(`[CUGA-Log] Cannot write log file ${this.path}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * POSTs batches of records (a JSON array) to a log collector
+ *
+ * The queue is bounded; records are dropped while the collector is unreachable.
+ */
+export class HttpSink implements LogSink {
+  private queue: Array<Record<string, unknown>> = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    readonly url: string,
+    private batchSize = 100,
+    private intervalMs = 2000,
+    private maxQueue = 5000
+  ) {}
+
+  write(record: LogRecord): void {
+    if (this.queue.length >= this.maxQueue) return;
+    this.queue.push(JSON.parse(formatJson(record)) as Record<string, unknown>);
+    if (this.queue.length >= this.batchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.intervalMs);
+      this.timer.unref?.();
+    }
+  }
+
+  async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.batchSize);
+      try {
+        const response = await fetch(this.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(batch),
+          signal: AbortSignal.timeout(10_000),
+        });
+        if (!response.ok) {
+          console.error(`[CUGA-Log] Log collector rejected ${batch.length} records: ${response.status}`);
+        }
+      } catch (error) {
+        console.error(`[CUGA-Log] Failed to ship ${batch.length} records:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
+
+/**
+ * Sinks named in CUGA_LOG_SINKS
+ */
+function sinksFromEnv(): LogSink[] {
+  const format = process.env.CUGA_LOG_FORMAT === 'json' ? 'json' : 'text';
+  const sinks: LogSink[] = [];
+  for (const spec of (process.env.CUGA_LOG_SINKS || 'console').split(',').map((s) => s.trim()).filter(Boolean)) {
+    if (spec === 'console') {
+      sinks.push(new ConsoleSink(format));
+    } else if (spec.startsWith('file:')) {
+      sinks.push(new FileSink(spec.slice(5)));
+    } else if (spec.startsWith('http://') || spec.startsWith('https://')) {
+      sinks.push(new HttpSink(spec));
+    } else {
+      console.error(`[CUGA-Log] Unknown log sink "${spec}", ignoring`);
+    }
+  }
+  return sinks;
+}
+
+function levelFromEnv(): LogLevel | 'silent' {
+  const level = (process.env.CUGA_LOG_LEVEL || 'info').toLowerCase();
+  return level in LEVELS ? level as LogLevel | 'silent' : 'info';
+}
+
+const logging = {
+  level: levelFromEnv(),
+  sinks: sinksFromEnv(),
+};
+
+/**
+ * Replace the level or sinks (e.g. to capture records in tests)
+ */
+export function configureLogging(options: { level?: LogLevel | 'silent'; sinks?: LogSink[] }): void {
+  if (options.level) logging.level = options.level;
+  if (options.sinks) logging.sinks = options.sinks;
+}
+
+/**
+ * Ship records still queued in sinks (e.g. before exiting)
+ */
+export async function flushLogs(): Promise<void> {
+  await Promise.all(logging.sinks.map((sink) => sink.flush?.()));
+}
+
+export class Logger {
+  constructor(
+    readonly component: string,
+    readonly fields: Record<string, unknown> = {},
+    private sensitiveKeys: ReadonlySet<string> = new Set()
+  ) {}
+
+  /**
+   * Logger adding correlation fields (runId, threadId, orgId, ...) to every
+   * record, and redacting the given variable names
+   */
+  child(fields: Record<string, unknown>, options: { sensitiveKeys?: string[] } = {}): Logger {
+    const sensitiveKeys = new Set([...this.sensitiveKeys, ...(options.sensitiveKeys || []).map((k) => k.toLowerCase())]);
+    return new Logger(this.component, { ...this.fields, ...fields }, sensitiveKeys);
+  }
+
+  enabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[logging.level];
+  }
+
+  debug(message: string, detail?: unknown): void {
+    this.write('debug', message, detail);
+  }
+
+  info(message: string, detail?: unknown): void {
+    this.write('info', message, detail);
+  }
+
+  warn(message: string, detail?: unknown): void {
+    this.write('warn', message, detail);
+  }
+
+  error(message: string, detail?: unknown): void {
+    this.write('error', message, detail);
+  }
+
+  /**
+   * `detail` is merged into the fields when it is a plain object, logged as
+   * `error` when it is an Error, and as `detail` otherwise
+   */
+  private write(level: LogLevel, message: string, detail: unknown): void {
+    if (!this.enabled(level)) return;
+    let fields: Record<string, unknown> = { ...this.fields };
+    if (detail instanceof Error) {
+      fields.error = detail;
+    } else if (detail !== null && typeof detail === 'object' && !Array.isArray(detail)) {
+      fields = { ...fields, ...detail as Record<string, unknown> };
+    } else if (detail !== undefined) {
+      fields.detail = detail;
+    }
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      message: redactText(message),
+      fields: redact(fields, this.sensitiveKeys) as Record<string, unknown>,
+    };
+    for (const sink of logging.sinks) {
+      sink.write(record);
+    }
+  }
+}
+
+/**
+ * Logger for a module, named after its component (e.g. `CUGA-Wrapper`)
+ */
+export function createLogger(component: string): Logger {
+  return new Logger(component);
+}
@@ -0,0 +1,452 @@
+/**
+ * CUGA MCP Server
+ *
+ * Publishes each agent skill as an MCP tool, so IDE agents can use CUGA over
+ * the Model Context Protocol. A tool call runs the skill through streamQuery
+ * (via the runner server.ts supplies) and:
+ * - reports TaskDecompositionAgent / PlanControllerAgent subtask updates as
+ *   `notifications/progress`, when the caller sent a progress token
+ * - returns the answer as text content, and the answer, variables,
+ *   code-execution outputs and pending HITL requests as `structuredContent`
+ * - is canceled by `notifications/cancelled`
+ *
+ * Transports:
+ * - streamable HTTP on `/mcp`: sessions via Mcp-Session-Id; tool calls stream
+ *   progress as SSE when the client accepts text/event-stream
+ * - stdio: newline-delimited JSON-RPC; logs go to stderr
+ *
+ * Configuration:
+ * - CUGA_MCP_TRANSPORT: 'http' (default) | 'stdio' (serve stdio instead of HTTP)
+ * - CUGA_MCP_API_KEY: tenant API key for stdio sessions (HTTP uses the bearer token)
+ * - CUGA_MCP_SESSION_TTL_MS: idle time before an HTTP session expires (default 3600000)
+ */
+
+import { createInterface } from 'node:readline';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { createLogger } from './logger.js';
+import { taskStateFromAgentState } from './tasks.js';
+import type { CugaAgentState, CugaSSEEvent, McpTool, McpToolResult } from './types.js';
+
+const log = createLogger('CUGA-MCP');
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+type JsonRpcId = string | number;
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: JsonRpcId | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Where a message came from, and how to reach its sender
+ */
+export interface McpRequestContext {
+  sessionId: string;
+  /** Tenant API key for credential resolution */
+  apiKey?: string;
+  /** Send a notification to the client while the request runs */
+  notify: (notification: JsonRpcNotification) => void;
+  /** Aborted when the client went away */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs a skill for a tool call, reporting progress messages
+ */
+export type McpToolRunner = (
+  call: { name: string; arguments: Record<string, unknown>; apiKey?: string },
+  progress: (message: string) => void,
+  signal: AbortSignal
+) => Promise<McpToolResult>;
+
+const DEFAULT_INPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    task: { type: 'string', description: 'Task to perform' },
+  },
+  required: ['task'],
+};
+
+const OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['completed', 'failed', 'input-required', 'canceled'] },
+    answer: { type: 'string' },
+    threadId: { type: 'string' },
+    runId: { type: 'string' },
+    variables: { type: 'object' },
+    codeExecutions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          language: { type: 'string' },
+          status: { type: 'string' },
+          output: { type: 'string' },
+          error: { type: 'string' },
+          executionTimeMs: { type: 'number' },
+        },
+      },
+    },
+    pendingRequests: { type: 'array', items: { type: 'object' } },
+    error: { type: 'string' },
+  },
+  required: ['status', 'threadId', 'runId'],
+};
+
+/**
+ * MCP tools for the agent skills
+ *
+ * Every tool also takes an optional `thread_id` to continue a CUGA thread.
+ */
+export function skillTools(skills: Array<{ id: string; name: string; description: string; parameters?: unknown }>): McpTool[] {
+  return skills.map((skill) => {
+    const schema = (skill.parameters as Record<string, unknown> | undefined) ?? DEFAULT_INPUT_SCHEMA;
+    return {
+      name: skill.id,
+      title: skill.name,
+      description: skill.description,
+      inputSchema: {
+        ...schema,
+        properties: {
+          ...(schema.properties as Record<string, unknown>),
+          thread_id: { type: 'string', description: 'CUGA thread to continue (optional)' },
+        },
+      },
+      outputSchema: OUTPUT_SCHEMA,
+    };
+  });
+}
+
+/**
+ * Progress message for a CUGA event, if it changed the plan or a subtask
+ */
+export function describeProgress(event: CugaSSEEvent, prev: CugaAgentState, next: CugaAgentState): string | undefined {
+  const subtasks = next.subtasks || [];
+  if (event.name === 'TaskDecompositionAgent' && next.subtasks !== prev.subtasks && subtasks.length > 0) {
+    return `Planned ${subtasks.length} subtask(s)`;
+  }
+  if (event.name !== 'PlanControllerAgent') return undefined;
+
+  const changed = subtasks.findIndex((s) => prev.subtasks?.find((p) => p.id === s.id)?.status !== s.status);
+  if (changed >= 0) {
+    const subtask = subtasks[changed];
+    return `Subtask ${changed + 1}/${subtasks.length} ${subtask.status}: ${subtask.description}`;
+  }
+  if (next.currentSubtaskId && next.currentSubtaskId !== prev.currentSubtaskId) {
+    const index = subtasks.findIndex((s) => s.id === next.currentSubtaskId);
+    return index >= 0
+      ? `Working on subtask ${index + 1}/${subtasks.length}: ${subtasks[index].description}`
+      : `Working on subtask ${next.currentSubtaskId}`;
+  }
+  return undefined;
+}
+
+/**
+ * Tool result for the agent state at the end of a run
+ */
+export function toolResult(state: CugaAgentState, ids: { threadId: string; runId: string }, error?: string, canceled?: boolean): McpToolResult {
+  const pending = state.hitlRequests?.filter((r) => r.pending) || [];
+  const status = canceled ? 'canceled' : taskStateFromAgentState(state, error);
+  const failure = status === 'failed' ? error ?? state.error ?? 'Run ended without an answer' : undefined;
+  let text: string;
+  if (status === 'canceled') {
+    text = 'Canceled';
+  } else if (failure) {
+    text = `Error: ${failure}`;
+  } else if (status === 'input-required') {
+    text = `[HITL Required] ${pending[0]?.message || 'Human approval needed'}`;
+  } else {
+    text = state.finalAnswer || '';
+  }
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent: {
+      status,
+      answer: state.finalAnswer,
+      threadId: ids.threadId,
+      runId: ids.runId,
+      variables: state.variables,
+      codeExecutions: (state.codeExecutions || []).map((exec) => ({
+        id: exec.id,
+        language: exec.language,
+        status: exec.status,
+        output: exec.output,
+        error: exec.error,
+        executionTimeMs: exec.executionTimeMs,
+      })),
+      pendingRequests: pending.length > 0 ? pending : undefined,
+      error: failure,
+    },
+    isError: status === 'failed',
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function rpcError(id: JsonRpcId | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+export class McpServer {
+  /** Running tool calls, by session and request ID */
+  private calls = new Map<string, AbortController>();
+
+  constructor(
+    readonly tools: McpTool[],
+    private runTool: McpToolRunner,
+    private serverInfo = { name: 'cuga_generalist', version: '1.0.0' }
+  ) {}
+
+  /**
+   * Handle one JSON-RPC message, returning the response for requests
+   *
+   * Responses to canceled tool calls are dropped, as the protocol requires.
+   */
+  async handle(message: unknown, context: McpRequestContext): Promise<JsonRpcResponse | undefined> {
+    if (!isObject(message) || message.jsonrpc !== '2.0') {
+      return rpcError(null, -32600, 'Invalid Request');
+    }
+    const { id, method, params = {} } = message as unknown as JsonRpcMessage;
+    if (typeof method !== 'string') {
+      // A response to a server request; the server sends none
+      return undefined;
+    }
+    if (id === undefined || id === null) {
+      this.handleNotification(method, params, context);
+      return undefined;
+    }
+
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            protocolVersion: typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+            capabilities: { tools: { listChanged: false } },
+            serverInfo: this.serverInfo,
+            instructions: 'Each tool runs a CUGA skill to completion. Pass thread_id to continue a thread; pending HITL requests are answered via /cuga/resume.',
+          },
+        };
+      }
+      case 'ping':
+        return { jsonrpc: '2.0', id, result: {} };
+      case 'tools/list':
+        return { jsonrpc: '2.0', id, result: { tools: this.tools } };
+      case 'tools/call':
+        return this.callTool(id, params, context);
+      default:
+        return rpcError(id, -32601, `Method not found: ${method}`);
+    }
+  }
+
+  private handleNotification(method: string, params: Record<string, unknown>, context: McpRequestContext): void {
+    if (method === 'notifications/cancelled' && (typeof params.requestId === 'string' || typeof params.requestId === 'number')) {
+      const call = this.calls.get(`${context.sessionId}:${params.requestId}`);
+      if (call) {
+        log.info(`Client canceled request ${params.requestId}`, { sessionId: context.sessionId, reason: params.reason });
+        call.abort();
+      }
+    }
+  }
+
+  private async callTool(id: JsonRpcId, params: Record<string, unknown>, context: McpRequestContext): Promise<JsonRpcResponse | undefined> {
+    const tool = this.tools.find((t) => t.name === params.name);
+    if (!tool) {
+      return rpcError(id, -32602, `Unknown tool: ${String(params.name)}`);
+    }
+    const args = params.arguments ?? {};
+    if (!isObject(args)) {
+      return rpcError(id, -32602, 'Tool arguments must be an object');
+    }
+
+    const key = `${context.sessionId}:${id}`;
+    const controller = new AbortController();
+    const progressToken = isObject(params._meta) ? params._meta.progressToken : undefined;
+    let progress = 0;
+    const report = (message: string) => {
+      if (progressToken === undefined || controller.signal.aborted) return;
+      context.notify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken, progress: ++progress, message } });
+    };
+
+    const onClientGone = () => controller.abort();
+    context.signal?.addEventListener('abort', onClientGone, { once: true });
+    this.calls.set(key, controller);
+    try {
+      const result = await this.runTool({ name: tool.name, arguments: args, apiKey: context.apiKey }, report, controller.signal);
+      return controller.signal.aborted ? undefined : { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      log.error(`Tool ${tool.name} failed`, error);
+      const result: McpToolResult = { content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      return controller.signal.aborted ? undefined : { jsonrpc: '2.0', id, result };
+    } finally {
+      context.signal?.removeEventListener('abort', onClientGone);
+      this.calls.delete(key);
+    }
+  }
+}
+
+/**
+ * Streamable HTTP transport (single endpoint, POST for messages, DELETE to end a session)
+ */
+export class McpHttpTransport {
+  /** Last activity per session */
+  private sessions = new Map<string, number>();
+
+  constructor(
+    private server: McpServer,
+    private sessionTtlMs = Number.parseInt(process.env.CUGA_MCP_SESSION_TTL_MS || '3600000', 10)
+  ) {}
+
+  async handle(request: Request, apiKey?: string): Promise<Response> {
+    const sessionId = request.headers.get('Mcp-Session-Id') ?? undefined;
+    if (request.method === 'DELETE') {
+      return new Response(null, { status: sessionId && this.sessions.delete(sessionId) ? 204 : 404 });
+    }
+    if (request.method !== 'POST') {
+      // No server-initiated stream: the server sends nothing outside responses
+      return new Response(null, { status: 405, headers: { Allow: 'POST, DELETE' } });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return Response.json(rpcError(null, -32700, 'Parse error'), { status: 400 });
+    }
+    const messages = Array.isArray(body) ? body : [body];
+
+    let session: string;
+    if (messages.some((m) => isObject(m) && m.method === 'initialize')) {
+      this.prune();
+      session = uuidv4();
+    } else if (!sessionId) {
+      return Response.json(rpcError(null, -32000, 'Missing Mcp-Session-Id header'), { status: 400 });
+    } else if (!this.sessions.has(sessionId)) {
+      return Response.json(rpcError(null, -32001, 'Unknown or expired session'), { status: 404 });
+    } else {
+      session = sessionId;
+    }
+    this.sessions.set(session, Date.now());
+    const headers = { 'Mcp-Session-Id': session };
+
+    const hasRequests = messages.some((m) => isObject(m) && typeof m.method === 'string' && m.id !== undefined && m.id !== null);
+    const streaming = (request.headers.get('Accept') || '').includes('text/event-stream')
+      && messages.some((m) => isObject(m) && m.method === 'tools/call');
+
+    if (!streaming) {
+      const responses = (await Promise.all(messages.map((m) => this.server.handle(m, { sessionId: session, apiKey, notify: () => undefined }))))
+        .filter((r): r is JsonRpcResponse => r !== undefined);
+      if (!hasRequests && responses.length === 0) {
+        return new Response(null, { status: 202, headers });
+      }
+      return Response.json(Array.isArray(body) ? responses : responses[0], { headers });
+    }
+
+    // Progress notifications, then each response as it completes
+    const clientGone = new AbortController();
+    const stream = new ReadableStream({
+      start: async (controller) => {
+        const encoder = new TextEncoder();
+        const send = (message: JsonRpcResponse | JsonRpcNotification) => {
+          if (!clientGone.signal.aborted) {
+            controller.enqueue(encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`));
+          }
+        };
+        await Promise.all(messages.map(async (m) => {
+          const response = await this.server.handle(m, { sessionId: session, apiKey, notify: send, signal: clientGone.signal });
+          if (response) send(response);
+        }));
+        if (!clientGone.signal.aborted) {
+          controller.close();
+        }
+      },
+      cancel: () => {
+        clientGone.abort();
+      },
+    });
+    return new Response(stream, {
+      headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', ...headers },
+    });
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.sessionTtlMs;
+    for (const [id, lastSeen] of this.sessions) {
+      if (lastSeen < cutoff) this.sessions.delete(id);
+    }
+  }
+}
+
+/**
+ * Send console output to stderr; in stdio mode stdout carries only MCP messages
+ */
+export function redirectConsoleToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+}
+
+/**
+ * Serve MCP over stdin/stdout until stdin closes
+ */
+export function serveMcpStdio(server: McpServer, apiKey?: string): void {
+  const write = (message: JsonRpcResponse | JsonRpcNotification) => {
+    process.stdout.write(`${JSON.stringify(message)}\n`);
+  };
+  const clientGone = new AbortController();
+  const inFlight = new Set<Promise<void>>();
+  const context: McpRequestContext = { sessionId: 'stdio', apiKey, notify: write, signal: clientGone.signal };
+
+  const lines = createInterface({ input: process.stdin });
+  lines.on('line', (line) => {
+    if (!line.trim()) return;
+    let body: unknown;
+    try {
+      body = JSON.parse(line);
+    } catch {
+      write(rpcError(null, -32700, 'Parse error'));
+      return;
+    }
+    for (const message of Array.isArray(body) ? body : [body]) {
+      const handling = server
+        .handle(message, context)
+        .then((response) => {
+          if (response) write(response);
+        })
+        .catch((error) => log.error('Failed to handle message', error))
+        .finally(() => inFlight.delete(handling));
+      inFlight.add(handling);
+    }
+  });
+  lines.on('close', async () => {
+    // Cancel running tools, let their runs wind down, then exit
+    clientGone.abort();
+    await Promise.allSettled([...inFlight]);
+    process.exit(0);
+  });
+  log.info(`Serving ${server.tools.length} tool(s) over stdio`);
+}
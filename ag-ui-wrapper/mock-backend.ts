@@ -0,0 +1,352 @@
+/**
+ * Mock CUGA Backend
+ *
+ * A scriptable stand-in for the CUGA Python backend, so the wrapper can be
+ * run and tested without the full Python stack on port 7860. It serves the
+ * endpoints the CUGA client calls and replays scenarios (mock-scenarios.ts):
+ * - POST /stream: replays the selected scenario; bodies with `action_id`
+ *   are resumes and replay the thread's `resume` steps
+ * - POST /resume: same as a resume through /stream
+ * - POST /stop: ends the thread's open stream with a `Stopped` event
+ * - POST /api/workspace/upload: accepts a multipart file (and `directory`),
+ *   kept in `uploads`, and answers with its workspace path; like the backend
+ *   it refuses existing paths, and tokens other than CUGA_WORKSPACE_UPLOAD_TOKEN
+ *   when that is set
+ * - GET / and GET /health: health probes
+ *
+ * Scenario selection: a `[scenario:<name>]` marker in the query (or last
+ * message), else the default scenario (`use`). Later queries on a thread the
+ * scenario served replay its `retry` steps, when it has some. Every request
+ * is recorded for assertions, headers included.
+ *
+ * Control endpoints, for scripting from outside the process:
+ * - GET /mock/requests, DELETE /mock/requests
+ * - GET /mock/scenarios
+ * - POST /mock/scenario: `{ "name": ... }` selects the default scenario; a
+ *   full scenario object is added and selected
+ *
+ * Run standalone: `npm run mock-backend` (MOCK_CUGA_PORT, default 7860;
+ * MOCK_CUGA_SCENARIO, default `answer`), then point the wrapper at it with
+ * CUGA_BACKEND_URLS=http://localhost:7860.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+import { MOCK_SCENARIOS, type MockScenario, type MockStep } from './mock-scenarios.js';
+
+/**
+ * A request received by the mock backend
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body: unknown;
+  /** Scenario replayed for the request, if any */
+  scenario?: string;
+}
+
+const SCENARIO_MARKER = /\[scenario:([\w-]+)\]/;
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      text += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch {
+        resolve(text);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * A file uploaded into the mock workspace
+ */
+export interface MockUpload {
+  threadId: string;
+  path: string;
+  mimeType: string;
+  content: string;
+}
+
+/**
+ * Fields of a multipart/form-data body read as text
+ */
+function parseMultipart(body: string, contentType: string): Map<string, { filename?: string; type?: string; content: string }> {
+  const fields = new Map<string, { filename?: string; type?: string; content: string }>();
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (!boundary) return fields;
+  for (const section of body.split(`--${boundary[1] ?? boundary[2]}`)) {
+    const split = section.indexOf('\r\n\r\n');
+    if (split < 0) continue;
+    const head = section.slice(0, split);
+    const name = /name="([^"]*)"/.exec(head)?.[1];
+    if (!name) continue;
+    fields.set(name, {
+      filename: /filename="([^"]*)"/.exec(head)?.[1],
+      type: /content-type:\s*([^\r\n]+)/i.exec(head)?.[1],
+      content: section.slice(split + 4).replace(/\r\n$/, ''),
+    });
+  }
+  return fields;
+}
+
+/**
+ * Text the scenario marker is looked up in: the query, or the last message
+ */
+function queryText(body: Record<string, unknown>): string {
+  if (typeof body.query === 'string') return body.query;
+  const messages = Array.isArray(body.messages) ? body.messages as Array<{ content?: unknown }> : [];
+  const last = messages[messages.length - 1];
+  return typeof last?.content === 'string' ? last.content : '';
+}
+
+export class MockCugaBackend {
+  readonly requests: MockRequest[] = [];
+  readonly uploads: MockUpload[] = [];
+  private scenarios = new Map<string, MockScenario>();
+  private defaultScenario: string;
+  /** Scenario that served each thread, for its resumes */
+  private threadScenarios = new Map<string, string>();
+  /** Open streams per thread, ended by /stop */
+  private openStreams = new Map<string, AbortController>();
+  private server?: Server;
+
+  constructor(scenarios: MockScenario[] = MOCK_SCENARIOS, defaultScenario = 'answer') {
+    for (const scenario of scenarios) {
+      this.scenarios.set(scenario.name, scenario);
+    }
+    this.defaultScenario = defaultScenario;
+  }
+
+  /**
+   * Listen on a port (0: any free port) and return the base URL
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('[CUGA-Mock] Request failed:', error);
+        if (!res.headersSent) sendJson(res, 500, { error: String(error) });
+        else res.destroy();
+      });
+    });
+    this.server = server;
+    await new Promise<void>((resolve) => server.listen(port, host, resolve));
+    const address = server.address();
+    const url = `http://${host}:${typeof address === 'object' && address ? address.port : port}`;
+    console.log(`[CUGA-Mock] Mock CUGA backend listening on ${url} (default scenario: ${this.defaultScenario})`);
+    return url;
+  }
+
+  /**
+   * Stop listening, dropping open streams
+   */
+  async close(): Promise<void> {
+    for (const stream of this.openStreams.values()) stream.abort();
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Add (or replace) a scenario
+   */
+  add(scenario: MockScenario): void {
+    this.scenarios.set(scenario.name, scenario);
+  }
+
+  /**
+   * Select the scenario for queries without a marker
+   */
+  use(name: string): void {
+    if (!this.scenarios.has(name)) {
+      throw new Error(`Unknown mock scenario: ${name}`);
+    }
+    this.defaultScenario = name;
+  }
+
+  /**
+   * Recorded requests to a path (all requests without one)
+   */
+  requestsTo(path?: string): MockRequest[] {
+    return path ? this.requests.filter((r) => r.path === path) : [...this.requests];
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url || '/', 'http://mock').pathname;
+    const method = req.method || 'GET';
+    const body = method === 'GET' || method === 'HEAD' ? undefined : await readBody(req);
+
+    if (path.startsWith('/mock/')) {
+      this.handleControl(method, path, body, res);
+      return;
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries(req.headers).map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : value ?? ''])
+    );
+    const request: MockRequest = { method, path, headers, body };
+    this.requests.push(request);
+
+    if (method === 'GET' && (path === '/' || path === '/health')) {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    const fields = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    const threadId = headers['x-thread-id'] || (typeof fields.thread_id === 'string' ? fields.thread_id : 'default');
+
+    if (method === 'POST' && path === '/stop') {
+      this.openStreams.get(threadId)?.abort();
+      sendJson(res, 200, { status: 'stopped', thread_id: threadId });
+      return;
+    }
+
+    if (method === 'POST' && path === '/api/workspace/upload') {
+      const token = process.env.CUGA_WORKSPACE_UPLOAD_TOKEN;
+      if (token && headers['x-cuga-upload-token'] !== token) {
+        sendJson(res, 401, { detail: 'Invalid upload token' });
+        return;
+      }
+      const form = parseMultipart(typeof body === 'string' ? body : '', headers['content-type'] || '');
+      const file = form.get('file');
+      if (!file?.filename) {
+        sendJson(res, 400, { detail: 'Invalid filename' });
+        return;
+      }
+      const directory = form.get('directory')?.content || '';
+      const uploadPath = ['cuga_workspace', directory, file.filename].filter(Boolean).join('/');
+      if (this.uploads.some((u) => u.path === uploadPath)) {
+        sendJson(res, 409, { detail: 'File already exists' });
+        return;
+      }
+      this.uploads.push({ threadId, path: uploadPath, mimeType: file.type || 'application/octet-stream', content: file.content });
+      sendJson(res, 200, { status: 'success', filename: file.filename, path: uploadPath, size: Buffer.byteLength(file.content) });
+      return;
+    }
+
+    if (method === 'POST' && (path === '/stream' || path === '/resume')) {
+      const isResume = path === '/resume' || fields.action_id !== undefined;
+      const marker = SCENARIO_MARKER.exec(queryText(fields))?.[1];
+      const name = isResume ? this.threadScenarios.get(threadId) ?? this.defaultScenario : marker ?? this.defaultScenario;
+      const scenario = this.scenarios.get(name);
+      if (!scenario) {
+        sendJson(res, 404, { error: `Unknown mock scenario: ${name}` });
+        return;
+      }
+      request.scenario = name;
+      const repeated = this.threadScenarios.get(threadId) === name;
+      this.threadScenarios.set(threadId, name);
+
+      if (scenario.status) {
+        sendJson(res, scenario.status, { error: `Mock scenario ${name} answers ${scenario.status}` });
+        return;
+      }
+      const action = fields.action === 'reject' || fields.action === 'modify' ? fields.action : 'approve';
+      const steps = isResume
+        ? scenario.resume?.[action] ?? scenario.resume?.approve ?? [{ event: 'Answer', data: 'Resumed' }]
+        : repeated && scenario.retry ? scenario.retry : scenario.steps;
+      await this.replay(threadId, steps, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: `Not found: ${method} ${path}` });
+  }
+
+  /**
+   * Write a scenario's steps as SSE, ending early when the thread is stopped
+   */
+  private async replay(threadId: string, steps: MockStep[], res: ServerResponse): Promise<void> {
+    const stop = new AbortController();
+    this.openStreams.set(threadId, stop);
+    res.on('close', () => stop.abort());
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+
+    try {
+      for (const step of steps) {
+        if (stop.signal.aborted) break;
+        if ('delayMs' in step) {
+          await sleep(step.delayMs, stop.signal);
+        } else if ('drop' in step) {
+          res.destroy();
+          return;
+        } else if ('raw' in step) {
+          res.write(step.raw);
+        } else {
+          const data = typeof step.data === 'string' || step.data === undefined ? step.data ?? '' : JSON.stringify(step.data);
+          res.write(`event: ${step.event}\ndata: ${data}\n\n`);
+        }
+      }
+      if (stop.signal.aborted && !res.destroyed) {
+        res.write('event: Stopped\ndata: Execution stopped by user\n\n');
+      }
+      res.end();
+    } finally {
+      if (this.openStreams.get(threadId) === stop) {
+        this.openStreams.delete(threadId);
+      }
+    }
+  }
+
+  private handleControl(method: string, path: string, body: unknown, res: ServerResponse): void {
+    if (path === '/mock/requests' && method === 'GET') {
+      sendJson(res, 200, { requests: this.requests });
+    } else if (path === '/mock/requests' && method === 'DELETE') {
+      this.requests.length = 0;
+      res.writeHead(204).end();
+    } else if (path === '/mock/scenarios' && method === 'GET') {
+      sendJson(res, 200, {
+        default: this.defaultScenario,
+        scenarios: [...this.scenarios.values()].map((s) => ({ name: s.name, description: s.description })),
+      });
+    } else if (path === '/mock/scenario' && method === 'POST') {
+      const scenario = body as Partial<MockScenario> | undefined;
+      if (!scenario || typeof scenario.name !== 'string') {
+        sendJson(res, 400, { error: 'name is required' });
+        return;
+      }
+      if (Array.isArray(scenario.steps)) {
+        this.add(scenario as MockScenario);
+      }
+      try {
+        this.use(scenario.name);
+        sendJson(res, 200, { default: scenario.name });
+      } catch (error) {
+        sendJson(res, 404, { error: error instanceof Error ? error.message : String(error) });
+      }
+    } else {
+      sendJson(res, 404, { error: `Not found: ${method} ${path}` });
+    }
+  }
+}
+
+// Standalone: tsx mock-backend.ts
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const backend = new MockCugaBackend(MOCK_SCENARIOS, process.env.MOCK_CUGA_SCENARIO || 'answer');
+  void backend.start(Number.parseInt(process.env.MOCK_CUGA_PORT || '7860', 10), process.env.MOCK_CUGA_HOST || '0.0.0.0');
+}
@@ -0,0 +1,177 @@
+/**
+ * Mock CUGA Scenarios
+ *
+ * Recorded CUGA `/stream` event sequences replayed by the mock backend
+ * (mock-backend.ts). Each scenario covers one behavior of the Python backend
+ * the wrapper must handle: plain answers, task decomposition payload
+ * variants, HITL interrupts and their resumes, malformed payloads and
+ * connections dropped mid-stream.
+ *
+ * A query selects its scenario with a `[scenario:<name>]` marker; resumes
+ * replay the `resume` steps of the scenario that served the thread.
+ */
+
+import type { CugaEventType } from './types.js';
+
+/**
+ * One step of a scenario
+ * - event: an SSE event; object data is JSON-encoded
+ * - raw: bytes written as-is (e.g. a broken SSE frame)
+ * - delayMs: pause before the next step
+ * - drop: destroy the connection without ending the stream
+ */
+export type MockStep =
+  | { event: CugaEventType; data?: string | Record<string, unknown> | unknown[] }
+  | { raw: string }
+  | { delayMs: number }
+  | { drop: true };
+
+export interface MockScenario {
+  name: string;
+  description: string;
+  /** Steps of the initial `/stream` call */
+  steps: MockStep[];
+  /** Steps after a resume, by action; `approve` also answers actions without their own steps */
+  resume?: Partial<Record<'approve' | 'reject' | 'modify', MockStep[]>>;
+  /** Steps of later queries on a thread the scenario already served (e.g. re-asks) */
+  retry?: MockStep[];
+  /** Answer `/stream` with this HTTP status instead of events */
+  status?: number;
+}
+
+const PLAN = [
+  { id: 'st_1', description: 'Find the top account by revenue', app: 'crm', type: 'api', status: 'pending' },
+  { id: 'st_2', description: 'Draft a summary email', app: 'mail', type: 'api', status: 'pending' },
+];
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  {
+    name: 'answer',
+    description: 'Chat reply followed by a final answer with variables',
+    steps: [
+      { event: 'ChatAgent', data: 'Looking into it' },
+      { event: 'Answer', data: { data: 'The answer is 42', variables: { result: { type: 'int', value: 42, description: 'Computed result' } } } },
+    ],
+  },
+  {
+    name: 'decomposition',
+    description: 'Task decomposition (`subtasks`), plan progress, code execution and answer',
+    steps: [
+      { event: 'TaskAnalyzerAgent', data: 'The task needs the CRM and mail apps' },
+      { event: 'TaskDecompositionAgent', data: { subtasks: PLAN } },
+      { event: 'PlanControllerAgent', data: { current_subtask_id: 'st_1', subtask_id: 'st_1', subtask_status: 'running' } },
+      { event: 'ApiAgent', data: { id: 'code_1', code: 'accounts = crm.top_accounts(limit=1)', status: 'running' } },
+      { event: 'code_execution', data: { id: 'code_1', code: 'accounts = crm.top_accounts(limit=1)', language: 'python', status: 'complete', output: "[{'name': 'Acme'}]", execution_time_ms: 120, sandbox: 'local' } },
+      { event: 'PlanControllerAgent', data: { subtask_id: 'st_1', subtask_status: 'complete' } },
+      { event: 'PlanControllerAgent', data: { current_subtask_id: 'st_2', subtask_id: 'st_2', subtask_status: 'running' } },
+      { event: 'PlanControllerAgent', data: { subtask_id: 'st_2', subtask_status: 'complete' } },
+      { event: 'Answer', data: { data: 'Acme is the top account; summary drafted' } },
+    ],
+  },
+  {
+    name: 'decomposition-nested',
+    description: 'Task decomposition nested under `task_decomposition`, with `task` instead of `description` and no IDs',
+    steps: [
+      { event: 'TaskDecompositionAgent', data: { task_decomposition: { subtasks: [{ task: 'Open the portal', app: 'portal' }, { task: 'Download the invoice' }] } } },
+      { event: 'Answer', data: 'Invoice downloaded' },
+    ],
+  },
+  {
+    name: 'decomposition-graph',
+    description: 'Plan with declared dependencies (by ID and by position), subtask outputs and a failure that blocks its dependents',
+    steps: [
+      { event: 'TaskDecompositionAgent', data: { subtasks: [
+        { id: 'st_a', description: 'List overdue accounts', app: 'crm' },
+        { id: 'st_b', description: 'Fetch open invoices', app: 'billing', dependencies: [] },
+        { id: 'st_c', description: 'Match invoices to accounts', depends_on: ['st_a', 'st_b'] },
+        { id: 'st_d', description: 'Email the collections team', app: 'mail', dependencies: [2] },
+      ] } },
+      { event: 'PlanControllerAgent', data: { current_subtask_id: 'st_a', subtask_id: 'st_a', subtask_status: 'running' } },
+      { delayMs: 20 },
+      { event: 'PlanControllerAgent', data: { subtask_id: 'st_a', subtask_status: 'complete', output: '3 overdue accounts' } },
+      { event: 'PlanControllerAgent', data: { current_subtask_id: 'st_b', subtask_id: 'st_b', subtask_status: 'running' } },
+      { event: 'PlanControllerAgent', data: { subtask_id: 'st_b', subtask_status: 'failed', error: 'Billing API unavailable', execution_time_ms: 5 } },
+      { event: 'Answer', data: 'Found 3 overdue accounts; invoices could not be fetched' },
+    ],
+  },
+  {
+    name: 'decomposition-text',
+    description: 'Task decomposition sent as plain text',
+    steps: [
+      { event: 'TaskDecompositionAgent', data: '1. Search flights 2. Pick the cheapest' },
+      { event: 'Answer', data: 'Cheapest flight: 129 USD' },
+    ],
+  },
+  {
+    name: 'interrupt',
+    description: 'Confirmation interrupt before a side effect; approve and reject resume differently',
+    steps: [
+      { event: 'TaskDecompositionAgent', data: { subtasks: [{ id: 'st_1', description: 'Send the report email', app: 'mail', status: 'running' }] } },
+      { event: '__interrupt__', data: { interrupt_id: 'int_1', action_id: 'send_report', type: 'confirmation', message: 'Send the report email to the team?', context: { subtaskId: 'st_1', action: 'send_email', riskLevel: 'low' } } },
+    ],
+    resume: {
+      approve: [
+        { event: 'PlanControllerAgent', data: { subtask_id: 'st_1', subtask_status: 'complete' } },
+        { event: 'Answer', data: 'Report email sent' },
+      ],
+      reject: [
+        { event: 'PlanControllerAgent', data: { subtask_id: 'st_1', subtask_status: 'skipped' } },
+        { event: 'Answer', data: 'Report email not sent' },
+      ],
+    },
+  },
+  {
+    name: 'interrupt-drop',
+    description: 'Connection dropped while an interrupt waits for an answer',
+    steps: [
+      { event: '__interrupt__', data: { interrupt_id: 'int_1', action_id: 'send_report', type: 'confirmation', message: 'Send the report email to the team?' } },
+      { delayMs: 20 },
+      { drop: true },
+    ],
+  },
+  {
+    name: 'structured',
+    description: 'JSON answer violating the usual account schema (revenue as text), corrected when asked again',
+    steps: [
+      { event: 'Answer', data: 'Here it is: {"account": "Acme", "revenue": "1.2M"}' },
+    ],
+    retry: [
+      { event: 'Answer', data: '{"account": "Acme", "revenue": 1200000}' },
+    ],
+  },
+  {
+    name: 'malformed-json',
+    description: 'Payloads that are not valid JSON or violate the event schema',
+    steps: [
+      { event: 'code_execution', data: '{"id": "code_1", "code": "print(' },
+      { event: 'PlanControllerAgent', data: { subtask_id: 42, subtask_status: 'exploded' } },
+      { raw: 'data: orphan data line without an event name\n\n' },
+      { event: 'Answer', data: 'Done despite bad payloads' },
+    ],
+  },
+  {
+    name: 'mid-stream-drop',
+    description: 'Connection dropped after the plan, before any answer',
+    steps: [
+      { event: 'TaskDecompositionAgent', data: { subtasks: PLAN } },
+      { event: 'PlanControllerAgent', data: { current_subtask_id: 'st_1', subtask_id: 'st_1', subtask_status: 'running' } },
+      { delayMs: 20 },
+      { drop: true },
+    ],
+  },
+  {
+    name: 'slow',
+    description: 'Long-running task, for cancellation and `/stop`',
+    steps: [
+      { event: 'TaskAnalyzerAgent', data: 'Working' },
+      { delayMs: 30_000 },
+      { event: 'Answer', data: 'Finished slowly' },
+    ],
+  },
+  {
+    name: 'unavailable',
+    description: 'Backend answering 503',
+    steps: [],
+    status: 503,
+  },
+];
@@ -0,0 +1,285 @@
+/**
+ * OpenAI Chat Completions Facade
+ *
+ * Lets tools that only speak the OpenAI chat-completions protocol drive CUGA
+ * through `POST /v1/chat/completions`. Mapping:
+ * - `messages` → query (last user message) and history (the rest)
+ * - `metadata` → the same keys as A2A metadata (thread_id, skill_id, skill_params, ...)
+ * - bearer token → tenant API key for credential resolution
+ * - CUGA answer → `content`; intermediate agent output → `reasoning_content`
+ * - settled subtasks and code executions → `tool_calls` annotations
+ *   (`cuga_subtask` / `cuga_code_execution`), already executed by CUGA
+ * - run usage → `usage`, and its cost → `cuga.cost_usd`
+ * - thread, run and pending HITL requests → the `cuga` extension field
+ *
+ * Streaming responses are `chat.completion.chunk` SSE events ending with
+ * `data: [DONE]`; non-streaming responses merge the same chunks.
+ */
+
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionErrorBody,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ChatCompletionToolCall,
+  CugaAgentState,
+  CugaSSEEvent,
+  CugaUsage,
+} from './types.js';
+
+/**
+ * Error reported in the OpenAI error format
+ */
+export class ChatCompletionError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly type: 'invalid_request_error' | 'rate_limit_error' | 'api_error',
+    readonly code: string | null = null,
+    readonly param: string | null = null,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ChatCompletionError';
+  }
+
+  body(): ChatCompletionErrorBody {
+    return { error: { message: this.message, type: this.type, code: this.code, param: this.param } };
+  }
+}
+
+/**
+ * Text of a message; content parts other than text are ignored
+ */
+export function chatMessageText(message: ChatCompletionMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return (message.content || [])
+    .filter((part) => part.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Check a request body, throwing a ChatCompletionError when unusable
+ */
+export function validateChatCompletionRequest(body: unknown): ChatCompletionRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ChatCompletionError('Request body must be a JSON object', 400, 'invalid_request_error');
+  }
+  const request = body as ChatCompletionRequest;
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    throw new ChatCompletionError('messages must be a non-empty array', 400, 'invalid_request_error', 'invalid_value', 'messages');
+  }
+  const last = request.messages[request.messages.length - 1];
+  if (!last || last.role !== 'user') {
+    throw new ChatCompletionError('The last message must be a user message', 400, 'invalid_request_error', 'invalid_value', 'messages');
+  }
+  if (request.metadata !== undefined && (typeof request.metadata !== 'object' || request.metadata === null || Array.isArray(request.metadata))) {
+    throw new ChatCompletionError('metadata must be an object', 400, 'invalid_request_error', 'invalid_type', 'metadata');
+  }
+  return request;
+}
+
+/**
+ * Messages in the shape extractUserMessage expects (developer messages count as system)
+ */
+export function toWrapperMessages(messages: ChatCompletionMessage[]): Array<{ role: string; content: string }> {
+  return messages.map((message) => ({
+    role: message.role === 'developer' ? 'system' : message.role,
+    content: chatMessageText(message),
+  }));
+}
+
+/**
+ * Derives chat-completion chunks from successive CUGA agent states
+ */
+export class ChatCompletionEmitter {
+  readonly id: string;
+  private created = Math.floor(Date.now() / 1000);
+  private sentReasoning = '';
+  private streamedText = '';
+  private answered = false;
+  /** Annotated subtasks and code executions, by tool call ID */
+  private annotated = new Set<string>();
+
+  constructor(
+    readonly threadId: string,
+    readonly runId: string,
+    readonly model: string
+  ) {
+    this.id = `chatcmpl-${runId}`;
+  }
+
+  private chunk(delta: ChatCompletionChunk['choices'][0]['delta'], finishReason: 'stop' | null = null): ChatCompletionChunk {
+    return {
+      id: this.id,
+      object: 'chat.completion.chunk',
+      created: this.created,
+      model: this.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    };
+  }
+
+  private reasoning(text: string): ChatCompletionChunk[] {
+    if (!text) return [];
+    this.sentReasoning += text;
+    return [this.chunk({ reasoning_content: text })];
+  }
+
+  /**
+   * Tool calls for subtasks and code executions not annotated yet
+   *
+   * Only settled items are annotated unless `all` is set, so each annotation
+   * carries the item's outcome.
+   */
+  private annotations(state: CugaAgentState, all: boolean): ChatCompletionChunk[] {
+    const calls: ChatCompletionToolCall[] = [];
+    for (const subtask of state.subtasks || []) {
+      const id = `subtask_${subtask.id}`;
+      if (this.annotated.has(id) || (!all && (subtask.status === 'pending' || subtask.status === 'running'))) continue;
+      this.annotated.add(id);
+      calls.push({
+        id,
+        type: 'function',
+        function: {
+          name: 'cuga_subtask',
+          arguments: JSON.stringify({
+            id: subtask.id,
+            description: subtask.description,
+            app: subtask.app,
+            type: subtask.type,
+            dependencies: subtask.dependencies,
+            status: subtask.status,
+            output: subtask.output,
+            error: subtask.error,
+            execution_time_ms: subtask.executionTimeMs,
+          }),
+        },
+      });
+    }
+    for (const exec of state.codeExecutions || []) {
+      const id = `code_${exec.id}`;
+      if (this.annotated.has(id) || (!all && exec.status !== 'complete' && exec.status !== 'failed')) continue;
+      this.annotated.add(id);
+      calls.push({
+        id,
+        type: 'function',
+        function: {
+          name: 'cuga_code_execution',
+          arguments: JSON.stringify({
+            id: exec.id,
+            language: exec.language,
+            sandbox: exec.sandbox,
+            code: exec.code,
+            status: exec.status,
+            output: exec.output,
+            error: exec.error,
+            execution_time_ms: exec.executionTimeMs,
+          }),
+        },
+      });
+    }
+    if (calls.length === 0) return [];
+    const offset = this.annotated.size - calls.length;
+    return [this.chunk({ tool_calls: calls.map((call, i) => ({ index: offset + i, ...call })) })];
+  }
+
+  /**
+   * Chunk opening the assistant message
+   */
+  start(): ChatCompletionChunk[] {
+    return [this.chunk({ role: 'assistant', content: '' })];
+  }
+
+  /**
+   * Chunks for one CUGA event, given the state after applying it
+   */
+  fromCugaEvent(event: CugaSSEEvent, state: CugaAgentState): ChatCompletionChunk[] {
+    const chunks: ChatCompletionChunk[] = [];
+    if (event.name === 'Answer') {
+      const answer = state.finalAnswer ?? event.data;
+      if (answer) {
+        this.answered = true;
+        chunks.push(this.chunk({ content: answer }));
+      }
+    } else if (state.streamingContent && state.streamingContent !== this.streamedText) {
+      // Content grows per event; content that was replaced starts a new line
+      const content = state.streamingContent;
+      const delta = content.startsWith(this.streamedText) ? content.slice(this.streamedText.length) : content;
+      chunks.push(...this.reasoning(this.sentReasoning && !content.startsWith(this.streamedText) ? `\n${delta}` : delta));
+    }
+    this.streamedText = state.streamingContent;
+    chunks.push(...this.annotations(state, false));
+    return chunks;
+  }
+
+  /**
+   * Progress note outside the CUGA event stream (e.g. auto-resume notices)
+   */
+  note(text: string): ChatCompletionChunk[] {
+    return this.reasoning(`${this.sentReasoning ? '\n' : ''}${text}`);
+  }
+
+  /**
+   * Chunks closing the completion: remaining annotations, the pending HITL
+   * request when there is no answer, and the finish chunk with the run's usage
+   */
+  finish(state: CugaAgentState, usage?: CugaUsage): ChatCompletionChunk[] {
+    const chunks = this.annotations(state, true);
+    const pending = state.hitlRequests?.filter((r) => r.pending) || [];
+    if (!this.answered && pending.length > 0) {
+      chunks.push(this.chunk({ content: `[HITL Required] ${pending[0].message || 'Human approval needed'}` }));
+    }
+    const final = this.chunk({}, 'stop');
+    final.cuga = {
+      thread_id: this.threadId,
+      run_id: this.runId,
+      status: state.status,
+      pending_requests: pending.length > 0 ? pending : undefined,
+      cost_usd: usage?.costUsd,
+    };
+    if (usage) {
+      final.usage = { prompt_tokens: usage.promptTokens, completion_tokens: usage.completionTokens, total_tokens: usage.totalTokens };
+    }
+    chunks.push(final);
+    return chunks;
+  }
+}
+
+/**
+ * Merge streamed chunks into a non-streaming completion
+ */
+export function collectChatCompletion(chunks: ChatCompletionChunk[]): ChatCompletion {
+  const first = chunks[0];
+  const final = chunks[chunks.length - 1];
+  let content = '';
+  let reasoning = '';
+  const toolCalls: ChatCompletionToolCall[] = [];
+  for (const chunk of chunks) {
+    const delta = chunk.choices[0].delta;
+    content += delta.content ?? '';
+    reasoning += delta.reasoning_content ?? '';
+    for (const call of delta.tool_calls || []) {
+      toolCalls.push({ id: call.id, type: call.type, function: call.function });
+    }
+  }
+  return {
+    id: first.id,
+    object: 'chat.completion',
+    created: first.created,
+    model: first.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: content || null,
+        ...(reasoning ? { reasoning_content: reasoning } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: 'stop',
+    }],
+    usage: final.usage,
+    cuga: final.cuga ?? { thread_id: '', run_id: '' },
+  };
+}
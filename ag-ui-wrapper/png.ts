@@ -0,0 +1,299 @@
+/**
+ * Minimal PNG codec
+ *
+ * Dependency-free PNG decoding and encoding for browser screenshots, with the
+ * few raster operations the wrapper needs: box downscaling and drawing
+ * labeled rectangles for bid overlays.
+ *
+ * Supports non-interlaced 8-bit grayscale, RGB, palette and alpha images,
+ * which covers Playwright and Chrome screenshots. Other inputs throw.
+ */
+
+import { deflateSync, inflateSync } from 'node:zlib';
+
+/**
+ * Decoded image, 4 bytes (RGBA) per pixel
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export type Rgba = [number, number, number, number];
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of buf) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Whether a buffer starts with the PNG signature
+ */
+export function isPng(buf: Uint8Array): boolean {
+  return buf.length > 8 && PNG_SIGNATURE.equals(Buffer.from(buf.subarray(0, 8)));
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode a PNG into RGBA pixels
+ */
+export function decodePng(buf: Buffer): RgbaImage {
+  if (!isPng(buf)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset < buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString('ascii', offset + 4, offset + 8);
+    const chunk = buf.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channelsByType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+  const channels = channelsByType[colorType];
+  if (bitDepth !== 8 || interlace !== 0 || channels === undefined) {
+    throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`);
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+  let prev = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = pixels.subarray(y * stride, (y + 1) * stride);
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? out[i - channels] : 0;
+      const up = prev[i];
+      const upLeft = i >= channels ? prev[i - channels] : 0;
+      let value = line[i];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) value += paeth(left, up, upLeft);
+      out[i] = value & 0xff;
+    }
+    prev = out;
+  }
+
+  const data = new Uint8Array(width * height * 4);
+  for (let p = 0; p < width * height; p++) {
+    const src = p * channels;
+    const dst = p * 4;
+    if (colorType === 6) {
+      data.set(pixels.subarray(src, src + 4), dst);
+    } else if (colorType === 2) {
+      data.set(pixels.subarray(src, src + 3), dst);
+      data[dst + 3] = 255;
+    } else if (colorType === 3) {
+      const index = pixels[src];
+      data[dst] = palette?.[index * 3] ?? 0;
+      data[dst + 1] = palette?.[index * 3 + 1] ?? 0;
+      data[dst + 2] = palette?.[index * 3 + 2] ?? 0;
+      data[dst + 3] = transparency?.[index] ?? 255;
+    } else {
+      data[dst] = data[dst + 1] = data[dst + 2] = pixels[src];
+      data[dst + 3] = colorType === 4 ? pixels[src + 1] : 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * Encode RGBA pixels as a PNG
+ */
+export function encodePng(image: RgbaImage): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(image.width, 0);
+  ihdr.writeUInt32BE(image.height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  const stride = image.width * 4;
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    // Filter type 0 (none) per scanline
+    raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Downscale an image to `maxWidth` by box averaging (never upscales)
+ */
+export function downscale(image: RgbaImage, maxWidth: number): RgbaImage {
+  if (image.width <= maxWidth) {
+    return image;
+  }
+  const scale = image.width / maxWidth;
+  const width = maxWidth;
+  const height = Math.max(1, Math.round(image.height / scale));
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scale);
+    const y1 = Math.min(image.height, Math.max(y0 + 1, Math.floor((y + 1) * scale)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scale);
+      const x1 = Math.min(image.width, Math.max(x0 + 1, Math.floor((x + 1) * scale)));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          sum[0] += image.data[i];
+          sum[1] += image.data[i + 1];
+          sum[2] += image.data[i + 2];
+          sum[3] += image.data[i + 3];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        data[o + c] = Math.round(sum[c] / count);
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+function setPixel(image: RgbaImage, x: number, y: number, color: Rgba): void {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return;
+  image.data.set(color, (y * image.width + x) * 4);
+}
+
+function fillRect(image: RgbaImage, x: number, y: number, width: number, height: number, color: Rgba): void {
+  for (let dy = 0; dy < height; dy++) {
+    for (let dx = 0; dx < width; dx++) {
+      setPixel(image, x + dx, y + dy, color);
+    }
+  }
+}
+
+/**
+ * Draw a rectangle outline in place
+ */
+export function strokeRect(
+  image: RgbaImage,
+  rect: { x: number; y: number; width: number; height: number },
+  color: Rgba,
+  thickness = 2
+): void {
+  const x = Math.round(rect.x);
+  const y = Math.round(rect.y);
+  const w = Math.round(rect.width);
+  const h = Math.round(rect.height);
+  fillRect(image, x, y, w, thickness, color);
+  fillRect(image, x, y + h - thickness, w, thickness, color);
+  fillRect(image, x, y, thickness, h, color);
+  fillRect(image, x + w - thickness, y, thickness, h, color);
+}
+
+/** 3x5 bitmap glyphs, rows top to bottom */
+const GLYPHS: Record<string, string> = {
+  '0': '111101101101111', '1': '010110010010111', '2': '111001111100111', '3': '111001111001111',
+  '4': '101101111001001', '5': '111100111001111', '6': '111100111101111', '7': '111001001001001',
+  '8': '111101111101111', '9': '111101111001111', 'A': '010101111101101', 'B': '110101110101110',
+  'C': '011100100100011', 'D': '110101101101110', 'E': '111100110100111', 'F': '111100110100100',
+  'G': '011100101101011', 'H': '101101111101101', 'I': '111010010010111', 'J': '001001001101010',
+  'K': '101101110101101', 'L': '100100100100111', 'M': '101111111101101', 'N': '110101101101101',
+  'O': '010101101101010', 'P': '110101110100100', 'Q': '010101101110011', 'R': '110101110101101',
+  'S': '011100010001110', 'T': '111010010010010', 'U': '101101101101111', 'V': '101101101101010',
+  'W': '101101111111101', 'X': '101101010101101', 'Y': '101101010010010', 'Z': '111001010100111',
+  '-': '000000111000000', '_': '000000000000111',
+};
+
+/**
+ * Draw a short label on a filled background in place
+ *
+ * Characters without a glyph are drawn as blanks.
+ */
+export function drawLabel(image: RgbaImage, x: number, y: number, text: string, color: Rgba, background: Rgba, scale = 2): void {
+  const chars = text.toUpperCase().split('');
+  const padding = scale;
+  const width = chars.length * 4 * scale - scale + padding * 2;
+  const height = 5 * scale + padding * 2;
+  const left = Math.round(Math.min(Math.max(0, x), image.width - width));
+  const top = Math.round(Math.min(Math.max(0, y), image.height - height));
+  fillRect(image, left, top, width, height, background);
+
+  chars.forEach((char, index) => {
+    const glyph = GLYPHS[char];
+    if (!glyph) return;
+    for (let row = 0; row < 5; row++) {
+      for (let col = 0; col < 3; col++) {
+        if (glyph[row * 3 + col] === '1') {
+          fillRect(image, left + padding + (index * 4 + col) * scale, top + padding + row * scale, scale, scale, color);
+        }
+      }
+    }
+  });
+}
@@ -0,0 +1,306 @@
+/**
+ * A2A Push Notifications
+ *
+ * Delivers task status updates to client webhooks, so callers of long-running
+ * tasks (browser automation in particular) don't have to poll `tasks/get`.
+ *
+ * Each delivery is a JSON POST signed with HMAC-SHA256:
+ *   X-CUGA-Signature: t=<unix seconds>,v1=<hex HMAC of "<t>.<body>">
+ *   X-A2A-Notification-Token: <token from the client's config, if any>
+ * Receivers should recompute the HMAC with the shared secret and reject
+ * stale timestamps.
+ *
+ * Failed deliveries (network errors, timeouts, 429 and 5xx) are retried with
+ * jittered exponential backoff. Updates for one task are delivered in order.
+ *
+ * Webhooks are client-supplied, so they may not point into the wrapper's own
+ * network: loopback, link-local, private and other non-public addresses are
+ * refused, both in the URL and in what its host name resolves to at each
+ * attempt. The connection is made to the checked address, so a name that is
+ * re-pointed between the check and the connect is still refused. Redirects
+ * are not followed.
+ *
+ * Configuration:
+ * - CUGA_PUSH_SIGNING_SECRET: HMAC secret (unsigned deliveries when unset)
+ * - CUGA_PUSH_ALLOW_PRIVATE_TARGETS: "true" to allow non-public webhook
+ *   addresses, for receivers on the same network (default false)
+ * - CUGA_PUSH_MAX_ATTEMPTS (default 5)
+ * - CUGA_PUSH_RETRY_BASE_DELAY_MS (default 1000)
+ * - CUGA_PUSH_TIMEOUT_MS (default 10000)
+ */
+
+import { createHmac } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+
+import { createLogger } from './logger.js';
+import type { CugaPushNotificationConfig } from './types.js';
+
+const log = createLogger('CUGA-Push');
+
+export interface PushNotifierOptions {
+  secret?: string;
+  /** Deliver to loopback, link-local and private addresses too */
+  allowPrivateTargets?: boolean;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  timeoutMs: number;
+}
+
+/**
+ * Outcome of delivering one notification
+ */
+export interface PushDeliveryResult {
+  delivered: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Address ranges a webhook may not reach: this host, its networks, and non-unicast
+ *
+ * One list per family: a BlockList also matches IPv4 addresses against
+ * IPv4-mapped IPv6 ranges, which would block every IPv4 address.
+ */
+const NON_PUBLIC_IPV4 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped and NAT64 addresses are refused as a whole rather than decoded
+const NON_PUBLIC_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise not public
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return NON_PUBLIC_IPV4.check(address, 'ipv4');
+  if (family === 6) return NON_PUBLIC_IPV6.check(address, 'ipv6');
+  return false;
+}
+
+/**
+ * Host of a URL as an address or name (IPv6 brackets removed)
+ */
+function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+}
+
+/**
+ * Error message when a webhook URL names a non-public host
+ *
+ * Only the literal host is checked here; names are resolved at delivery.
+ */
+function nonPublicHostError(url: URL): string | undefined {
+  const host = urlHost(url);
+  if (host === 'localhost' || host.endsWith('.localhost') || isNonPublicAddress(host)) {
+    return `push notification url must not point to a non-public address: ${url.host}`;
+  }
+  return undefined;
+}
+
+/**
+ * Check a client-supplied webhook config, returning an error message if unusable
+ *
+ * Non-public hosts are refused unless `allowPrivateTargets` is set.
+ */
+export function validatePushNotificationConfig(
+  config: unknown,
+  allowPrivateTargets = process.env.CUGA_PUSH_ALLOW_PRIVATE_TARGETS === 'true'
+): string | undefined {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'push notification config must be an object';
+  }
+  const { url, token } = config as Record<string, unknown>;
+  if (typeof url !== 'string') {
+    return 'push notification url is required';
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return `invalid push notification url: ${url}`;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'push notification url must be http(s)';
+  }
+  if (!allowPrivateTargets) {
+    const nonPublic = nonPublicHostError(parsed);
+    if (nonPublic) return nonPublic;
+  }
+  if (token !== undefined && typeof token !== 'string') {
+    return 'push notification token must be a string';
+  }
+  return undefined;
+}
+
+/**
+ * A webhook host resolving to an address deliveries may not reach
+ */
+class RefusedTargetError extends Error {}
+
+/**
+ * Compute the signature header value for a payload
+ */
+export function signPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export class PushNotifier {
+  /** Tail of the delivery chain per key, to keep per-task ordering */
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private options: PushNotifierOptions) {}
+
+  /**
+   * Resolve a webhook host for the connection, refusing non-public addresses
+   *
+   * Used as the socket's `lookup`, so the address checked is the one
+   * connected to.
+   */
+  private checkedLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, { all: true, verbatim: true, family: options.family })
+      .then((addresses) => {
+        const refused = this.options.allowPrivateTargets ? undefined : addresses.find((entry) => isNonPublicAddress(entry.address));
+        if (refused) {
+          throw new RefusedTargetError(`${hostname} resolves to non-public address ${refused.address}`);
+        }
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      })
+      .catch((error: NodeJS.ErrnoException) => callback(error, ''));
+  };
+
+  /**
+   * POST a body to a webhook and return the response status
+   */
+  private post(url: URL, headers: Record<string, string>, body: string, signal: AbortSignal): Promise<number> {
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    return new Promise((resolve, reject) => {
+      const request = send(
+        url,
+        { method: 'POST', headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) }, lookup: this.checkedLookup, signal },
+        (response) => {
+          response.resume();
+          resolve(response.statusCode ?? 0);
+        }
+      );
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * Queue a notification; deliveries with the same key are sent in order
+   */
+  notify(key: string, config: CugaPushNotificationConfig, payload: unknown): Promise<PushDeliveryResult> {
+    const previous = this.queues.get(key) || Promise.resolve();
+    const delivery = previous.then(() => this.deliver(config, payload));
+    this.queues.set(key, delivery);
+    void delivery.then((result) => {
+      if (this.queues.get(key) === delivery) {
+        this.queues.delete(key);
+      }
+      if (!result.delivered) {
+        log.warn(`Giving up after ${result.attempts} attempt(s): ${result.error}`, { key, host: new URL(config.url).host });
+      }
+    });
+    return delivery;
+  }
+
+  /**
+   * Deliver one notification with retries
+   */
+  async deliver(config: CugaPushNotificationConfig, payload: unknown): Promise<PushDeliveryResult> {
+    const body = JSON.stringify(payload);
+    let lastError = '';
+    let lastStatus: number | undefined;
+    let attempts = 0;
+
+    for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+      attempts = attempt;
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (this.options.secret) {
+        headers['X-CUGA-Signature'] = signPayload(this.options.secret, body, Math.floor(Date.now() / 1000));
+      }
+      if (config.token) {
+        headers['X-A2A-Notification-Token'] = config.token;
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+      let retryable = true;
+      try {
+        const url = new URL(config.url);
+        const refused = this.options.allowPrivateTargets ? undefined : nonPublicHostError(url);
+        if (refused) {
+          return { delivered: false, attempts: attempt, error: refused };
+        }
+        const status = await this.post(url, headers, body, controller.signal);
+        if (status >= 200 && status < 300) {
+          return { delivered: true, attempts: attempt, status };
+        }
+        lastStatus = status;
+        lastError = `HTTP ${status}`;
+        retryable = status === 429 || status >= 500;
+      } catch (error) {
+        if (error instanceof RefusedTargetError) {
+          return { delivered: false, attempts: attempt, error: error.message };
+        }
+        lastError = controller.signal.aborted
+          ? `no response within ${this.options.timeoutMs}ms`
+          : (error as NodeJS.ErrnoException).code || (error instanceof Error ? error.message : String(error));
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!retryable) break;
+      if (attempt < this.options.maxAttempts) {
+        await sleep(Math.random() * this.options.retryBaseDelayMs * 2 ** (attempt - 1));
+      }
+    }
+
+    return { delivered: false, attempts, status: lastStatus, error: lastError };
+  }
+}
+
+/**
+ * Create a push notifier from the environment
+ */
+export function createPushNotifier(): PushNotifier {
+  const secret = process.env.CUGA_PUSH_SIGNING_SECRET || undefined;
+  if (!secret) {
+    log.warn('CUGA_PUSH_SIGNING_SECRET is not set; push notifications will be unsigned');
+  }
+  return new PushNotifier({
+    secret,
+    allowPrivateTargets: process.env.CUGA_PUSH_ALLOW_PRIVATE_TARGETS === 'true',
+    maxAttempts: Math.max(1, envInt('CUGA_PUSH_MAX_ATTEMPTS', 5)),
+    retryBaseDelayMs: envInt('CUGA_PUSH_RETRY_BASE_DELAY_MS', 1000),
+    timeoutMs: envInt('CUGA_PUSH_TIMEOUT_MS', 10000),
+  });
+}
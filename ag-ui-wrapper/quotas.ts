@@ -0,0 +1,249 @@
+/**
+ * CUGA Tenant Quotas
+ *
+ * Per-organization limits on runs started through the wrapper:
+ * - Rate limit: token bucket refilled at `ratePerMinute`, holding up to `burst` runs
+ * - Concurrency: at most `maxConcurrentRuns` runs streaming at the same time
+ *
+ * Requests without an organization share the `default` tenant.
+ * Usage budgets (usage.ts) refuse runs with the same error, reason `budget`.
+ *
+ * Tenants are tracked from their first run. One that has no run streaming
+ * and a full bucket again is forgotten after CUGA_QUOTA_IDLE_MS, along with
+ * its refusal counts; reading usage never starts tracking a tenant.
+ *
+ * Configuration:
+ * - CUGA_RATE_LIMIT_PER_MINUTE (default 30)
+ * - CUGA_RATE_LIMIT_BURST (default 10)
+ * - CUGA_MAX_CONCURRENT_RUNS (default 3)
+ * - CUGA_TENANT_QUOTAS: JSON overrides per organization ID, each limit a
+ *   positive integer, e.g. {"org-1": {"ratePerMinute": 120, "maxConcurrentRuns": 10}};
+ *   invalid overrides are logged and ignored as a whole
+ * - CUGA_QUOTA_IDLE_MS: how long an idle tenant is tracked (default 3600000)
+ */
+
+import { createLogger } from './logger.js';
+import type { CugaTenantQuotaUsage } from './types.js';
+
+const log = createLogger('CUGA-Quotas');
+
+export interface TenantLimits {
+  ratePerMinute: number;
+  burst: number;
+  maxConcurrentRuns: number;
+}
+
+/**
+ * A run was refused because its tenant is over quota
+ */
+export class QuotaExceededError extends Error {
+  readonly status = 429;
+
+  constructor(
+    readonly tenant: string,
+    readonly reason: 'rate_limit' | 'concurrency' | 'budget',
+    readonly retryAfterSeconds: number
+  ) {
+    super(
+      reason === 'rate_limit'
+        ? `Rate limit exceeded for tenant ${tenant}; retry after ${retryAfterSeconds}s`
+        : reason === 'concurrency'
+          ? `Too many concurrent runs for tenant ${tenant}; retry after ${retryAfterSeconds}s`
+          : `Usage budget exhausted for tenant ${tenant}; resets in ${retryAfterSeconds}s`
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * A granted run slot; release it when the run ends
+ */
+export interface QuotaLease {
+  tenant: string;
+  release(): void;
+}
+
+interface TenantState {
+  tokens: number;
+  lastRefill: number;
+  /** Last time a run was granted, refused or ended */
+  lastActive: number;
+  activeRuns: number;
+  rejected: { rate_limit: number; concurrency: number };
+}
+
+const LIMIT_FIELDS: ReadonlyArray<keyof TenantLimits> = ['ratePerMinute', 'burst', 'maxConcurrentRuns'];
+
+/** Seconds suggested to clients refused for concurrency */
+const CONCURRENCY_RETRY_AFTER_SECONDS = 15;
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Check CUGA_TENANT_QUOTAS overrides: an object per organization ID holding
+ * known limits, each a positive integer
+ */
+export function parseTenantOverrides(raw: unknown): Record<string, Partial<TenantLimits>> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('overrides must be an object');
+  }
+  for (const [tenant, limits] of Object.entries(raw)) {
+    if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+      throw new Error(`overrides for ${tenant} must be an object`);
+    }
+    for (const [field, value] of Object.entries(limits)) {
+      if (!LIMIT_FIELDS.includes(field as keyof TenantLimits)) {
+        throw new Error(`unknown limit for ${tenant}: ${field}`);
+      }
+      if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+        throw new Error(`${field} for ${tenant} must be a positive integer: ${JSON.stringify(value)}`);
+      }
+    }
+  }
+  return raw as Record<string, Partial<TenantLimits>>;
+}
+
+export class TenantQuotas {
+  private tenants = new Map<string, TenantState>();
+  private lastPrune = Date.now();
+
+  constructor(
+    private defaults: TenantLimits,
+    private overrides: Record<string, Partial<TenantLimits>> = {},
+    private idleMs = envInt('CUGA_QUOTA_IDLE_MS', 3_600_000)
+  ) {}
+
+  limitsFor(tenant: string): TenantLimits {
+    return { ...this.defaults, ...this.overrides[tenant] };
+  }
+
+  private newState(tenant: string): TenantState {
+    const now = Date.now();
+    return {
+      tokens: this.limitsFor(tenant).burst,
+      lastRefill: now,
+      lastActive: now,
+      activeRuns: 0,
+      rejected: { rate_limit: 0, concurrency: 0 },
+    };
+  }
+
+  private stateFor(tenant: string): TenantState {
+    let state = this.tenants.get(tenant);
+    if (!state) {
+      state = this.newState(tenant);
+      this.tenants.set(tenant, state);
+    }
+    return state;
+  }
+
+  /**
+   * Forget idle tenants whose bucket is full again, at most once per idle period
+   *
+   * A forgotten tenant starts over exactly where it stood, so a tenant
+   * short of tokens is kept however long it waits.
+   */
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastPrune < this.idleMs) return;
+    this.lastPrune = now;
+    for (const [tenant, state] of this.tenants) {
+      const limits = this.limitsFor(tenant);
+      this.refill(state, limits);
+      if (state.activeRuns === 0 && state.tokens >= limits.burst && now - state.lastActive >= this.idleMs) {
+        this.tenants.delete(tenant);
+      }
+    }
+  }
+
+  private refill(state: TenantState, limits: TenantLimits): void {
+    const now = Date.now();
+    const refilled = ((now - state.lastRefill) / 60_000) * limits.ratePerMinute;
+    state.tokens = Math.min(limits.burst, state.tokens + refilled);
+    state.lastRefill = now;
+  }
+
+  /**
+   * Take a run slot for a tenant or throw QuotaExceededError
+   *
+   * Concurrency is checked first so a refused run does not consume a token.
+   */
+  acquire(organizationId?: string): QuotaLease {
+    const tenant = organizationId || 'default';
+    this.prune();
+    const limits = this.limitsFor(tenant);
+    const state = this.stateFor(tenant);
+    this.refill(state, limits);
+    state.lastActive = Date.now();
+
+    if (state.activeRuns >= limits.maxConcurrentRuns) {
+      state.rejected.concurrency++;
+      throw new QuotaExceededError(tenant, 'concurrency', CONCURRENCY_RETRY_AFTER_SECONDS);
+    }
+    if (state.tokens < 1) {
+      state.rejected.rate_limit++;
+      const retryAfter = limits.ratePerMinute > 0 ? Math.ceil(((1 - state.tokens) * 60) / limits.ratePerMinute) : 60;
+      throw new QuotaExceededError(tenant, 'rate_limit', retryAfter);
+    }
+
+    state.tokens -= 1;
+    state.activeRuns++;
+    let released = false;
+    return {
+      tenant,
+      release: () => {
+        if (released) return;
+        released = true;
+        state.activeRuns = Math.max(0, state.activeRuns - 1);
+        state.lastActive = Date.now();
+      },
+    };
+  }
+
+  /**
+   * Current usage for one tenant or all tracked tenants
+   *
+   * An untracked tenant is reported as it would start, without tracking it.
+   */
+  usage(organizationId?: string): CugaTenantQuotaUsage[] {
+    const tenants = organizationId ? [organizationId] : [...this.tenants.keys()];
+    return tenants.map((tenant) => {
+      const limits = this.limitsFor(tenant);
+      const state = this.tenants.get(tenant) ?? this.newState(tenant);
+      this.refill(state, limits);
+      return {
+        tenant,
+        activeRuns: state.activeRuns,
+        maxConcurrentRuns: limits.maxConcurrentRuns,
+        availableRequests: Math.floor(state.tokens),
+        ratePerMinute: limits.ratePerMinute,
+        burst: limits.burst,
+        rejected: { ...state.rejected },
+      };
+    });
+  }
+}
+
+/**
+ * Create tenant quotas from the environment
+ */
+export function createTenantQuotas(): TenantQuotas {
+  const defaults: TenantLimits = {
+    ratePerMinute: envInt('CUGA_RATE_LIMIT_PER_MINUTE', 30),
+    burst: envInt('CUGA_RATE_LIMIT_BURST', 10),
+    maxConcurrentRuns: envInt('CUGA_MAX_CONCURRENT_RUNS', 3),
+  };
+  let overrides: Record<string, Partial<TenantLimits>> = {};
+  if (process.env.CUGA_TENANT_QUOTAS) {
+    try {
+      overrides = parseTenantOverrides(JSON.parse(process.env.CUGA_TENANT_QUOTAS));
+    } catch (error) {
+      log.error('Invalid CUGA_TENANT_QUOTAS, ignoring overrides', error);
+    }
+  }
+  log.info(`Default limits: ${defaults.ratePerMinute}/min (burst ${defaults.burst}), ${defaults.maxConcurrentRuns} concurrent run(s)`, { overrides: Object.keys(overrides).length });
+  return new TenantQuotas(defaults, overrides);
+}
@@ -0,0 +1,286 @@
+/**
+ * CUGA Backend Resilience
+ *
+ * Timeouts, retries and a circuit breaker for calls to the CUGA Python backend.
+ *
+ * - Connect timeout: time allowed until response headers arrive
+ * - Idle timeout: longest gap allowed between chunks of an SSE stream
+ * - Retries: exponential backoff with full jitter, only for retryable failures
+ * - Circuit breaker: after repeated failures the backend is considered down and
+ *   calls fail fast until a probe succeeds after the reset timeout
+ *
+ * Configuration:
+ * - CUGA_CONNECT_TIMEOUT_MS (default 10000)
+ * - CUGA_IDLE_TIMEOUT_MS (default 300000)
+ * - CUGA_MAX_RETRIES (default 2)
+ * - CUGA_RETRY_BASE_DELAY_MS (default 500)
+ * - CUGA_BREAKER_FAILURE_THRESHOLD (default 5)
+ * - CUGA_BREAKER_RESET_MS (default 30000)
+ */
+
+import { createLogger } from './logger.js';
+import type { CugaCircuitState } from './types.js';
+
+const log = createLogger('CUGA-Breaker');
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+export const RESILIENCE_CONFIG = {
+  connectTimeoutMs: envInt('CUGA_CONNECT_TIMEOUT_MS', 10_000),
+  idleTimeoutMs: envInt('CUGA_IDLE_TIMEOUT_MS', 300_000),
+  maxRetries: envInt('CUGA_MAX_RETRIES', 2),
+  retryBaseDelayMs: envInt('CUGA_RETRY_BASE_DELAY_MS', 500),
+  retryMaxDelayMs: 10_000,
+  breakerFailureThreshold: envInt('CUGA_BREAKER_FAILURE_THRESHOLD', 5),
+  breakerResetMs: envInt('CUGA_BREAKER_RESET_MS', 30_000),
+};
+
+/**
+ * Failure talking to the CUGA backend
+ *
+ * - timeout: no response or no stream activity within the configured timeout
+ * - circuit_open: failed fast because the backend is considered down
+ * - unavailable: connection failed or the backend answered 5xx
+ * - http: the backend rejected the request (4xx)
+ */
+export class CugaBackendError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'timeout' | 'circuit_open' | 'unavailable' | 'http',
+    public readonly status?: number,
+    public readonly networkCode?: string
+  ) {
+    super(message);
+    this.name = 'CugaBackendError';
+  }
+
+  /** Whether the request never reached the backend, so resending cannot duplicate work */
+  get notDelivered(): boolean {
+    return this.code === 'circuit_open' || ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'].includes(this.networkCode || '');
+  }
+}
+
+/**
+ * Circuit breaker for one backend
+ *
+ * closed → open after `failureThreshold` consecutive failures;
+ * open → half-open once `resetMs` has passed, letting one probe through;
+ * half-open → closed on success, back to open on failure.
+ */
+export class CircuitBreaker {
+  private state: CugaCircuitState['state'] = 'closed';
+  private failures = 0;
+  private openedAt?: number;
+  private lastError?: string;
+  private probeInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private failureThreshold = RESILIENCE_CONFIG.breakerFailureThreshold,
+    private resetMs = RESILIENCE_CONFIG.breakerResetMs
+  ) {}
+
+  /**
+   * Throw if the breaker is open; otherwise admit the call
+   */
+  acquire(): void {
+    if (this.state === 'open' && Date.now() - (this.openedAt ?? 0) >= this.resetMs) {
+      this.state = 'half-open';
+      log.info(`${this.name} half-open, probing backend`);
+    }
+    if (this.state === 'open' || (this.state === 'half-open' && this.probeInFlight)) {
+      const retryIn = Math.max(0, Math.ceil((this.resetMs - (Date.now() - (this.openedAt ?? 0))) / 1000));
+      throw new CugaBackendError(
+        `CUGA backend ${this.name} is unavailable (circuit open after: ${this.lastError}); retry in ${retryIn}s`,
+        'circuit_open'
+      );
+    }
+    if (this.state === 'half-open') {
+      this.probeInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      log.info(`${this.name} closed, backend recovered`);
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(error: unknown): void {
+    this.failures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.probeInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        log.warn(`${this.name} open after ${this.failures} failure(s): ${this.lastError}`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  snapshot(): CugaCircuitState {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.failures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      lastError: this.lastError,
+    };
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the circuit breaker for a backend base URL
+ */
+export function getBreaker(baseUrl: string): CircuitBreaker {
+  let breaker = breakers.get(baseUrl);
+  if (!breaker) {
+    breaker = new CircuitBreaker(baseUrl);
+    breakers.set(baseUrl, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Current state of every known breaker
+ */
+export function getBreakerStates(): CugaCircuitState[] {
+  return [...breakers.values()].map((b) => b.snapshot());
+}
+
+/**
+ * Whether a failure counts against the backend's health
+ */
+function isBackendFailure(error: unknown): boolean {
+  return !(error instanceof CugaBackendError && (error.code === 'http' || error.code === 'circuit_open'));
+}
+
+/**
+ * fetch with a connect timeout, mapped to CugaBackendError
+ *
+ * The timeout only covers the wait for response headers; the body is
+ * governed by the idle timeout of the reader. Aborting `init.signal` aborts
+ * the request too and rethrows the abort error as is.
+ */
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs = RESILIENCE_CONFIG.connectTimeoutMs
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  init.signal?.addEventListener('abort', onAbort, { once: true });
+  if (init.signal?.aborted) controller.abort();
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (init.signal?.aborted) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw new CugaBackendError(`CUGA backend did not respond within ${timeoutMs}ms`, 'timeout');
+    }
+    const cause = (error as { cause?: { code?: string } }).cause;
+    throw new CugaBackendError(
+      `CUGA backend unreachable: ${cause?.code || (error instanceof Error ? error.message : String(error))}`,
+      'unavailable',
+      undefined,
+      cause?.code
+    );
+  } finally {
+    clearTimeout(timer);
+    init.signal?.removeEventListener('abort', onAbort);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error');
+    throw new CugaBackendError(
+      `CUGA backend returned ${response.status} ${response.statusText} - ${errorText}`,
+      response.status >= 500 ? 'unavailable' : 'http',
+      response.status
+    );
+  }
+  return response;
+}
+
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(RESILIENCE_CONFIG.retryMaxDelayMs, RESILIENCE_CONFIG.retryBaseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Run a backend call through the breaker, retrying with jittered backoff
+ *
+ * `idempotent` calls are retried on any backend failure; other calls only
+ * when the request provably never reached the backend.
+ */
+export async function callBackend<T>(
+  breaker: CircuitBreaker,
+  label: string,
+  call: () => Promise<T>,
+  options: { idempotent: boolean; retries?: number } = { idempotent: true }
+): Promise<T> {
+  const retries = options.retries ?? RESILIENCE_CONFIG.maxRetries;
+  for (let attempt = 0; ; attempt++) {
+    breaker.acquire();
+    try {
+      const result = await call();
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isBackendFailure(error)) {
+        breaker.recordFailure(error);
+      } else {
+        // The backend answered; a rejected request says nothing about its health
+        breaker.recordSuccess();
+      }
+      const retryable = isBackendFailure(error)
+        && (options.idempotent || (error instanceof CugaBackendError && error.notDelivered));
+      if (!retryable || attempt >= retries) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt);
+      log.warn(`${label} failed (attempt ${attempt + 1}/${retries + 1}), retrying in ${Math.round(delay)}ms`, { error: error instanceof Error ? error.message : error });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Read from a stream, failing if no chunk arrives within the idle timeout
+ *
+ * On timeout the stream is canceled so the upstream connection is closed.
+ */
+export async function readWithIdleTimeout<T>(
+  reader: ReadableStreamDefaultReader<T>,
+  idleTimeoutMs = RESILIENCE_CONFIG.idleTimeoutMs
+): ReturnType<ReadableStreamDefaultReader<T>['read']> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new CugaBackendError(`CUGA stream idle for more than ${idleTimeoutMs}ms`, 'timeout'));
+    }, idleTimeoutMs);
+  });
+  try {
+    return await Promise.race([reader.read(), timeout]);
+  } catch (error) {
+    if (error instanceof CugaBackendError) {
+      reader.cancel().catch(() => undefined);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
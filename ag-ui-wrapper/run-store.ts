@@ -0,0 +1,351 @@
+/**
+ * CUGA Run Store
+ *
+ * Persists every CUGA SSE event received by the wrapper, grouped by run and
+ * thread, so finished runs can be listed, reloaded and replayed.
+ *
+ * Backends:
+ * - memory (default): process-local, lost on restart
+ * - file: one JSON record + one JSONL event log per run in CUGA_RUN_STORE_DIR
+ *
+ * Both evict finished runs after CUGA_RUN_TTL_MS, and the oldest finished
+ * ones above CUGA_RUN_MAX, whenever a run is created.
+ *
+ * Run IDs are UUIDs generated by the wrapper; the file store refuses any
+ * other ID, so a requested ID can never name a path outside its directory.
+ *
+ * Configuration:
+ * - CUGA_RUN_STORE: `memory` | `file` (default memory)
+ * - CUGA_RUN_STORE_DIR: directory of the file store (default ./cuga_runs)
+ * - CUGA_RUN_TTL_MS: how long finished runs are kept (default 3600000)
+ * - CUGA_RUN_MAX: runs kept before the oldest finished ones are evicted (default 1000)
+ */
+
+import { appendFile, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { createLogger } from './logger.js';
+import type { CugaRunRecord, CugaRunStatus, CugaSSEEvent, CugaStoredEvent } from './types.js';
+
+const log = createLogger('CUGA-RunStore');
+
+/**
+ * Final details recorded when a run finishes
+ */
+export type RunOutcome = { status: CugaRunStatus } & Pick<CugaRunRecord, 'error' | 'approvalDecisions' | 'usage'>;
+
+/**
+ * Details of a run being created
+ */
+export type NewRun = Pick<CugaRunRecord, 'runId' | 'threadId' | 'organizationId' | 'kind' | 'query'>;
+
+/**
+ * Storage backend for runs and their event logs
+ */
+export interface RunStore {
+  /** Create a new run in `running` state */
+  createRun(run: NewRun): Promise<CugaRunRecord>;
+  /** Append an event to a run's log and return the stored entry */
+  appendEvent(runId: string, event: CugaSSEEvent): Promise<CugaStoredEvent>;
+  /** Mark a run as finished */
+  finishRun(runId: string, outcome: RunOutcome): Promise<void>;
+  /** Get a single run */
+  getRun(runId: string): Promise<CugaRunRecord | undefined>;
+  /** List runs for a thread, oldest first */
+  listRuns(threadId: string): Promise<CugaRunRecord[]>;
+  /** Get events of a run with `seq` greater than `since` */
+  getEvents(runId: string, since?: number): Promise<CugaStoredEvent[]>;
+}
+
+const RUN_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a run ID has the format the wrapper generates (a UUID)
+ */
+export function isRunId(runId: string): boolean {
+  return RUN_ID.test(runId);
+}
+
+function byCreatedAt(a: CugaRunRecord, b: CugaRunRecord): number {
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+/**
+ * In-memory run store
+ */
+export class InMemoryRunStore implements RunStore {
+  private runs = new Map<string, CugaRunRecord>();
+  private events = new Map<string, CugaStoredEvent[]>();
+
+  constructor(
+    private ttlMs = Number.parseInt(process.env.CUGA_RUN_TTL_MS || '3600000', 10),
+    private maxRuns = Number.parseInt(process.env.CUGA_RUN_MAX || '1000', 10)
+  ) {}
+
+  async createRun(run: NewRun): Promise<CugaRunRecord> {
+    this.prune();
+    const now = new Date().toISOString();
+    const record: CugaRunRecord = { ...run, status: 'running', createdAt: now, updatedAt: now, eventCount: 0 };
+    this.runs.set(run.runId, record);
+    this.events.set(run.runId, []);
+    return { ...record };
+  }
+
+  async appendEvent(runId: string, event: CugaSSEEvent): Promise<CugaStoredEvent> {
+    const record = this.runs.get(runId);
+    if (!record) {
+      throw new Error(`Unknown run: ${runId}`);
+    }
+    const log = this.events.get(runId) || [];
+    const stored: CugaStoredEvent = {
+      runId,
+      seq: log.length + 1,
+      timestamp: new Date().toISOString(),
+      event,
+    };
+    log.push(stored);
+    this.events.set(runId, log);
+    record.eventCount = log.length;
+    record.updatedAt = stored.timestamp;
+    return stored;
+  }
+
+  async finishRun(runId: string, outcome: RunOutcome): Promise<void> {
+    const record = this.runs.get(runId);
+    if (!record) return;
+    Object.assign(record, outcome);
+    record.updatedAt = new Date().toISOString();
+  }
+
+  async getRun(runId: string): Promise<CugaRunRecord | undefined> {
+    const record = this.runs.get(runId);
+    return record ? { ...record } : undefined;
+  }
+
+  async listRuns(threadId: string): Promise<CugaRunRecord[]> {
+    return [...this.runs.values()]
+      .filter((r) => r.threadId === threadId)
+      .map((r) => ({ ...r }))
+      .sort(byCreatedAt);
+  }
+
+  async getEvents(runId: string, since = 0): Promise<CugaStoredEvent[]> {
+    return (this.events.get(runId) || []).filter((e) => e.seq > since);
+  }
+
+  /**
+   * Drop expired finished runs, then the oldest finished ones above the cap
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    const finished = [...this.runs.values()].filter((r) => r.status !== 'running').sort(byCreatedAt);
+    for (const run of finished) {
+      if (Date.parse(run.updatedAt) < cutoff) {
+        this.runs.delete(run.runId);
+        this.events.delete(run.runId);
+      }
+    }
+    let excess = this.runs.size - this.maxRuns + 1;
+    for (const run of finished) {
+      if (excess <= 0) break;
+      if (this.runs.delete(run.runId)) {
+        this.events.delete(run.runId);
+        excess--;
+      }
+    }
+  }
+}
+
+/**
+ * Run ID usable in a file name, or an error
+ */
+function checkedRunId(runId: string): string {
+  if (!isRunId(runId)) {
+    throw new Error(`Invalid run ID: ${runId}`);
+  }
+  return runId;
+}
+
+/**
+ * File-backed run store
+ *
+ * Layout: `<dir>/<runId>.json` holds the run record and
+ * `<dir>/<runId>.events.jsonl` holds one stored event per line.
+ *
+ * Records of running runs are kept in memory and written once more when the
+ * run finishes, so an event costs a single append. Writes of a run are
+ * serialised, so overlapping appends keep their order and none is lost.
+ */
+export class FileRunStore implements RunStore {
+  /** Records of the runs this process is still writing */
+  private live = new Map<string, CugaRunRecord>();
+  /** Tail of the pending writes per run */
+  private writes = new Map<string, Promise<void>>();
+  private ready: Promise<void>;
+
+  constructor(
+    private dir: string,
+    private ttlMs = Number.parseInt(process.env.CUGA_RUN_TTL_MS || '3600000', 10),
+    private maxRuns = Number.parseInt(process.env.CUGA_RUN_MAX || '1000', 10)
+  ) {
+    this.ready = mkdir(dir, { recursive: true }).then(() => undefined);
+  }
+
+  private recordPath(runId: string): string {
+    return join(this.dir, `${checkedRunId(runId)}.json`);
+  }
+
+  private eventsPath(runId: string): string {
+    return join(this.dir, `${checkedRunId(runId)}.events.jsonl`);
+  }
+
+  private async writeRecord(record: CugaRunRecord): Promise<void> {
+    await writeFile(this.recordPath(record.runId), JSON.stringify(record, null, 2));
+  }
+
+  /**
+   * Run a write after the previous writes of the same run
+   */
+  private serialise(runId: string, write: () => Promise<void>): Promise<void> {
+    const next = (this.writes.get(runId) || Promise.resolve()).then(write);
+    const tail = next.catch(() => undefined);
+    this.writes.set(runId, tail);
+    void tail.then(() => {
+      if (this.writes.get(runId) === tail) this.writes.delete(runId);
+    });
+    return next;
+  }
+
+  async createRun(run: NewRun): Promise<CugaRunRecord> {
+    await this.ready;
+    await this.prune();
+    const now = new Date().toISOString();
+    const record: CugaRunRecord = { ...run, status: 'running', createdAt: now, updatedAt: now, eventCount: 0 };
+    await this.writeRecord(record);
+    await writeFile(this.eventsPath(run.runId), '');
+    this.live.set(run.runId, record);
+    return { ...record };
+  }
+
+  async appendEvent(runId: string, event: CugaSSEEvent): Promise<CugaStoredEvent> {
+    const record = this.live.get(runId);
+    if (!record) {
+      throw new Error(`Unknown run: ${runId}`);
+    }
+    const stored: CugaStoredEvent = { runId, seq: record.eventCount + 1, timestamp: new Date().toISOString(), event };
+    record.eventCount = stored.seq;
+    record.updatedAt = stored.timestamp;
+    await this.serialise(runId, () => appendFile(this.eventsPath(runId), `${JSON.stringify(stored)}\n`));
+    return stored;
+  }
+
+  async finishRun(runId: string, outcome: RunOutcome): Promise<void> {
+    const record = this.live.get(runId) || (await this.getRun(runId));
+    if (!record) return;
+    try {
+      await this.serialise(runId, () => this.writeRecord({ ...record, ...outcome, updatedAt: new Date().toISOString() }));
+    } finally {
+      this.live.delete(runId);
+    }
+  }
+
+  async getRun(runId: string): Promise<CugaRunRecord | undefined> {
+    await this.ready;
+    if (!isRunId(runId)) return undefined;
+    const live = this.live.get(runId);
+    if (live) return { ...live };
+    try {
+      return JSON.parse(await readFile(this.recordPath(runId), 'utf8')) as CugaRunRecord;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readRuns(): Promise<CugaRunRecord[]> {
+    const files = (await readdir(this.dir)).filter((f) => f.endsWith('.json') && isRunId(f.slice(0, -'.json'.length)));
+    const runs: CugaRunRecord[] = [];
+    for (const file of files) {
+      const record = await this.getRun(file.slice(0, -'.json'.length));
+      if (record) runs.push(record);
+    }
+    return runs.sort(byCreatedAt);
+  }
+
+  /**
+   * Delete expired finished runs, then the oldest finished ones above the cap
+   *
+   * Records left `running` by an earlier process count as finished.
+   */
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.ttlMs;
+    const finished = (await this.readRuns()).filter((r) => !this.live.has(r.runId));
+    let excess = finished.length + this.live.size - this.maxRuns + 1;
+    for (const run of finished) {
+      if (Date.parse(run.updatedAt) >= cutoff && excess <= 0) continue;
+      excess--;
+      try {
+        await rm(this.eventsPath(run.runId), { force: true });
+        await rm(this.recordPath(run.runId), { force: true });
+      } catch (error) {
+        log.warn('Failed to delete an old run', { runId: run.runId, error });
+      }
+    }
+  }
+
+  async listRuns(threadId: string): Promise<CugaRunRecord[]> {
+    await this.ready;
+    return (await this.readRuns()).filter((r) => r.threadId === threadId);
+  }
+
+  async getEvents(runId: string, since = 0): Promise<CugaStoredEvent[]> {
+    await this.ready;
+    if (!isRunId(runId)) return [];
+    let content: string;
+    try {
+      content = await readFile(this.eventsPath(runId), 'utf8');
+    } catch {
+      return [];
+    }
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as CugaStoredEvent)
+      .filter((e) => e.seq > since);
+  }
+}
+
+/**
+ * Create the run store configured via CUGA_RUN_STORE (`memory` | `file`)
+ */
+export function createRunStore(): RunStore {
+  const backend = process.env.CUGA_RUN_STORE || 'memory';
+  if (backend === 'file') {
+    const dir = process.env.CUGA_RUN_STORE_DIR || './cuga_runs';
+    log.info(`Using file run store at ${dir}`);
+    return new FileRunStore(dir);
+  }
+  if (backend !== 'memory') {
+    log.warn(`Unknown run store "${backend}", falling back to memory`);
+  }
+  return new InMemoryRunStore();
+}
+
+/**
+ * Record every event of a CUGA stream into a run while passing it through
+ *
+ * Storage failures are logged and never interrupt the live stream.
+ */
+export async function* recordEvents(
+  store: RunStore,
+  runId: string,
+  events: AsyncGenerator<CugaSSEEvent>
+): AsyncGenerator<CugaSSEEvent> {
+  for await (const event of events) {
+    try {
+      await store.appendEvent(runId, event);
+    } catch (error) {
+      log.warn(`Failed to record ${event.name}`, { runId, error });
+    }
+    yield event;
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * CUGA Run Telemetry
+ *
+ * Spans and metrics for CUGA runs (see telemetry.ts for export and configuration).
+ *
+ * Trace of a run:
+ *   cuga.run                         one per run (invoke, A2A, AG-UI, OpenAI, MCP, resume)
+ *   ├─ cuga.backend.stream|resume    the first backend call of the run
+ *   │  ├─ cuga.agent.<Node>          TaskDecompositionAgent, ApiAgent, ActionAgent, ...
+ *   │  │  └─ cuga.code_execution     code run by the node, until complete/failed
+ *   │  └─ ...
+ *   └─ cuga.auto_resume              each backend call resuming an auto-approved interrupt
+ *      └─ ...
+ * Credential resolution is traced as `cuga.credentials.resolve` (it precedes the run).
+ *
+ * The span of the backend call in flight for a thread is sent to the backend
+ * as the W3C `traceparent` header, so backend spans join the wrapper's trace.
+ *
+ * Metrics (Prometheus, on `/metrics`):
+ * - cuga_runs_total{kind,status}, cuga_run_duration_seconds{kind}, cuga_active_runs
+ * - cuga_backend_calls_total{call,outcome}, cuga_backend_call_duration_seconds{call},
+ *   cuga_backend_errors_total{call,code}
+ * - cuga_interrupts_total{kind}, cuga_auto_resumes_total{kind}
+ * - cuga_agent_node_duration_seconds{node}
+ * - cuga_code_executions_total{language,status}, cuga_code_execution_duration_seconds{language}
+ * - cuga_credential_resolutions_total{outcome}, cuga_credential_resolution_duration_seconds
+ */
+
+import { parseCugaEvent } from './event-schema.js';
+import { CugaBackendError } from './resilience.js';
+import { createTracer, MetricsRegistry, type Span, type Tracer } from './telemetry.js';
+import type { CugaRunKind, CugaRunStatus, CugaSSEEvent, CugaTaskType } from './types.js';
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+interface RunTrace {
+  span: Span;
+  threadId: string;
+  kind: CugaRunKind;
+  /** Backend calls made so far */
+  calls: number;
+}
+
+/**
+ * Spans opened while one backend call streams
+ */
+interface CallTrace {
+  run: RunTrace;
+  span: Span;
+  node?: Span;
+  /** Code executions not settled yet, by execution ID */
+  codeExecutions: Map<string, Span>;
+}
+
+export class RunTelemetry {
+  readonly metrics = new MetricsRegistry();
+  private runs = new Map<string, RunTrace>();
+  /** Backend call in flight per thread, for trace propagation */
+  private activeCalls = new Map<string, Span>();
+
+  private runsTotal = this.metrics.counter('cuga_runs_total', 'Finished runs by kind and final status');
+  private runDuration = this.metrics.histogram('cuga_run_duration_seconds', 'Run duration, from start to final status', DURATION_BUCKETS);
+  private activeRuns = this.metrics.gauge('cuga_active_runs', 'Runs in progress');
+  private backendCalls = this.metrics.counter('cuga_backend_calls_total', 'Backend stream calls by call type and outcome (ok, error, aborted)');
+  private backendCallDuration = this.metrics.histogram('cuga_backend_call_duration_seconds', 'Backend stream call duration', DURATION_BUCKETS);
+  private backendErrors = this.metrics.counter('cuga_backend_errors_total', 'Failed backend stream calls by error code');
+  private interrupts = this.metrics.counter('cuga_interrupts_total', 'Interrupts (HITL requests) raised by the backend');
+  private autoResumes = this.metrics.counter('cuga_auto_resumes_total', 'Interrupts resumed automatically per the approval policy');
+  private nodeDuration = this.metrics.histogram('cuga_agent_node_duration_seconds', 'Time spent in each agent node', DURATION_BUCKETS);
+  private codeExecutions = this.metrics.counter('cuga_code_executions_total', 'Settled code executions by language and status');
+  private codeDuration = this.metrics.histogram('cuga_code_execution_duration_seconds', 'Code execution duration', DURATION_BUCKETS);
+  private credentialResolutions = this.metrics.counter('cuga_credential_resolutions_total', 'Credential resolutions by outcome (cached, resolved, default, error)');
+  private credentialDuration = this.metrics.histogram('cuga_credential_resolution_duration_seconds', 'Credential resolution duration', DURATION_BUCKETS);
+
+  constructor(readonly tracer: Tracer) {}
+
+  /**
+   * Trace resolving the credentials of a request
+   *
+   * `resolve` calls `miss` when the credentials are not cached, and returns
+   * undefined when the backend's default credentials are used.
+   */
+  async traceCredentials<T>(taskType: CugaTaskType, resolve: (miss: () => void) => Promise<T | undefined>): Promise<T | undefined> {
+    const span = this.tracer.startSpan('cuga.credentials.resolve', { attributes: { 'cuga.task_type': taskType } });
+    let cached = true;
+    let outcome = 'error';
+    try {
+      const credentials = await resolve(() => {
+        cached = false;
+      });
+      outcome = credentials === undefined ? 'default' : cached ? 'cached' : 'resolved';
+      span.status = { code: 'ok' };
+      return credentials;
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.setAttributes({ 'cuga.credentials.cache_hit': cached, 'cuga.credentials.outcome': outcome });
+      span.end();
+      this.credentialResolutions.inc({ outcome });
+      this.credentialDuration.observe({}, span.durationSeconds);
+    }
+  }
+
+  /**
+   * Open the span of a run
+   */
+  startRun(runId: string, options: { threadId: string; kind: CugaRunKind; tenant?: string }): void {
+    const span = this.tracer.startSpan('cuga.run', {
+      kind: 'server',
+      attributes: {
+        'cuga.run.id': runId,
+        'cuga.run.kind': options.kind,
+        'cuga.thread.id': options.threadId,
+        'cuga.tenant': options.tenant,
+      },
+    });
+    this.runs.set(runId, { span, threadId: options.threadId, kind: options.kind, calls: 0 });
+    this.activeRuns.inc();
+  }
+
+  /**
+   * Close the span of a run with its final status
+   */
+  finishRun(runId: string, status: CugaRunStatus, error?: string): void {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    this.runs.delete(runId);
+    run.span.setAttributes({ 'cuga.run.status': status, 'cuga.backend.calls': run.calls });
+    if (status === 'failed') {
+      run.span.recordError(error ?? 'Run failed');
+    } else {
+      run.span.status = { code: 'ok' };
+      if (status === 'canceled') run.span.addEvent('cuga.canceled', { reason: error });
+    }
+    run.span.end();
+    this.activeRuns.dec();
+    this.runsTotal.inc({ kind: run.kind, status });
+    this.runDuration.observe({ kind: run.kind }, run.span.durationSeconds);
+  }
+
+  /**
+   * `traceparent` header value for a backend call on a thread, while one is traced
+   */
+  traceparent(threadId: string): string | undefined {
+    return this.activeCalls.get(threadId)?.traceparent;
+  }
+
+  /**
+   * Trace one backend call of a run as its events stream through
+   *
+   * The first call of a run is the run's stream (or resume); later calls are
+   * auto-resumes. Events of unknown runs pass through untraced.
+   */
+  async *traceBackendCall(runId: string, events: AsyncGenerator<CugaSSEEvent>): AsyncGenerator<CugaSSEEvent> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      yield* events;
+      return;
+    }
+
+    const index = run.calls++;
+    const call = index > 0 ? 'auto_resume' : run.kind === 'resume' ? 'resume' : 'stream';
+    const span = this.tracer.startSpan(index > 0 ? 'cuga.auto_resume' : `cuga.backend.${call}`, {
+      kind: 'client',
+      parent: run.span,
+      attributes: {
+        'cuga.run.id': runId,
+        'cuga.thread.id': run.threadId,
+        'cuga.backend.call': call,
+        'cuga.auto_resume.index': index > 0 ? index : undefined,
+      },
+    });
+    if (index > 0) this.autoResumes.inc({ kind: run.kind });
+    this.activeCalls.set(run.threadId, span);
+
+    const trace: CallTrace = { run, span, codeExecutions: new Map() };
+    let outcome = 'aborted';
+    let count = 0;
+    try {
+      for await (const event of events) {
+        count++;
+        this.observe(trace, event);
+        yield event;
+      }
+      outcome = 'ok';
+      span.status = { code: 'ok' };
+    } catch (error) {
+      outcome = 'error';
+      span.recordError(error);
+      this.backendErrors.inc({ call, code: error instanceof CugaBackendError ? error.code : 'stream' });
+      throw error;
+    } finally {
+      this.endNode(trace);
+      for (const exec of trace.codeExecutions.values()) {
+        exec.setAttributes({ 'cuga.code.status': 'unfinished' }).end();
+      }
+      if (this.activeCalls.get(run.threadId) === span) {
+        this.activeCalls.delete(run.threadId);
+      }
+      span.setAttributes({ 'cuga.backend.events': count, 'cuga.backend.outcome': outcome });
+      span.end();
+      this.backendCalls.inc({ call, outcome });
+      this.backendCallDuration.observe({ call }, span.durationSeconds);
+    }
+  }
+
+  /**
+   * Metrics in the Prometheus text format
+   */
+  renderMetrics(): string {
+    return this.metrics.render();
+  }
+
+  private observe(trace: CallTrace, event: CugaSSEEvent): void {
+    if (event.name === '__interrupt__') {
+      this.endNode(trace);
+      trace.span.addEvent('cuga.interrupt');
+      this.interrupts.inc({ kind: trace.run.kind });
+      return;
+    }
+    if (event.name === 'Answer' || event.name === 'Stopped') {
+      this.endNode(trace);
+      trace.span.addEvent(event.name === 'Answer' ? 'cuga.answer' : 'cuga.stopped');
+      return;
+    }
+
+    if (event.name.endsWith('Agent') && trace.node?.attributes['cuga.agent.node'] !== event.name) {
+      this.endNode(trace);
+      trace.node = this.tracer.startSpan(`cuga.agent.${event.name}`, {
+        parent: trace.span,
+        attributes: { 'cuga.agent.node': event.name, 'cuga.run.id': trace.run.span.attributes['cuga.run.id'] },
+      });
+    }
+
+    if (event.name === 'code_execution' || event.name === 'ApiAgent') {
+      this.observeCode(trace, event);
+    }
+  }
+
+  private endNode(trace: CallTrace): void {
+    const node = trace.node;
+    if (!node) return;
+    trace.node = undefined;
+    node.status = { code: 'ok' };
+    node.end();
+    this.nodeDuration.observe({ node: String(node.attributes['cuga.agent.node']) }, node.durationSeconds);
+  }
+
+  /**
+   * Open or settle the span of a code execution reported by an event
+   */
+  private observeCode(trace: CallTrace, event: CugaSSEEvent): void {
+    const parsed = parseCugaEvent(event)?.event;
+    if (!parsed || (parsed.name !== 'code_execution' && parsed.name !== 'ApiAgent')) return;
+    const payload = parsed.payload;
+    if (!payload || typeof payload === 'string' || !payload.code) return;
+
+    const id = payload.id || 'unnamed';
+    const language = ('language' in payload && payload.language) || 'python';
+    const elapsedMs = 'execution_time_ms' in payload ? payload.execution_time_ms : undefined;
+    let span = trace.codeExecutions.get(id);
+    if (!span) {
+      span = this.tracer.startSpan('cuga.code_execution', {
+        parent: trace.node ?? trace.span,
+        // Executions first reported when done started execution_time_ms earlier
+        startTime: elapsedMs !== undefined ? performance.timeOrigin + performance.now() - elapsedMs : undefined,
+        attributes: {
+          'cuga.code.id': id,
+          'cuga.code.language': language,
+          'cuga.code.sandbox': 'sandbox' in payload ? payload.sandbox : undefined,
+          'cuga.code.length': payload.code.length,
+        },
+      });
+      trace.codeExecutions.set(id, span);
+    }
+
+    const status = payload.status || 'running';
+    span.setAttributes({ 'cuga.code.status': status });
+    if (status !== 'complete' && status !== 'failed') return;
+
+    trace.codeExecutions.delete(id);
+    if (status === 'failed') {
+      span.recordError(payload.error || 'Code execution failed');
+    } else {
+      span.status = { code: 'ok' };
+    }
+    span.end();
+    this.codeExecutions.inc({ language, status });
+    this.codeDuration.observe({ language }, elapsedMs !== undefined ? elapsedMs / 1000 : span.durationSeconds);
+  }
+}
+
+const runTelemetry = new RunTelemetry(createTracer());
+
+/**
+ * Telemetry shared by the server and the CUGA client
+ */
+export function getRunTelemetry(): RunTelemetry {
+  return runTelemetry;
+}
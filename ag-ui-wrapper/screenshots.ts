@@ -0,0 +1,208 @@
+/**
+ * CUGA Browser Screenshot Timeline
+ *
+ * Collects every screenshot a browser run produced (`browser_screenshot`
+ * events and browser agent steps carrying a screenshot) into a per-run
+ * timeline, and renders frames as A2A image artifacts:
+ * - the original screenshot as an `image/png` file part
+ * - optionally a downscaled thumbnail
+ * - optionally an overlay with the bid-marked element boxes drawn on it
+ *
+ * Timelines are rebuilt from the run store, so they can be fetched by run ID
+ * after the run finished.
+ *
+ * A2A metadata options (`metadata.screenshots`):
+ * - mode: 'all' (default) | 'last' | 'none'
+ * - thumbnails: include thumbnails (default false)
+ * - thumbnailWidth: thumbnail width in pixels (default 320)
+ * - overlays: include bid overlays (default false)
+ */
+
+import { parseCugaEvent } from './event-schema.js';
+import { createLogger } from './logger.js';
+import { decodePng, downscale, drawLabel, encodePng, isPng, strokeRect, type Rgba } from './png.js';
+import type { CugaBrowserScreenshot, CugaScreenshotFrame, CugaSSEEvent, CugaStoredEvent } from './types.js';
+
+const log = createLogger('CUGA-Screenshots');
+
+export interface ScreenshotArtifactOptions {
+  mode: 'all' | 'last' | 'none';
+  thumbnails: boolean;
+  thumbnailWidth: number;
+  overlays: boolean;
+}
+
+const DEFAULT_THUMBNAIL_WIDTH = 320;
+
+const OVERLAY_COLOR: Rgba = [255, 64, 129, 255];
+const ACTIVE_COLOR: Rgba = [0, 200, 83, 255];
+const LABEL_TEXT: Rgba = [255, 255, 255, 255];
+
+/**
+ * Read screenshot artifact options from A2A metadata
+ */
+export function screenshotOptionsFromMetadata(metadata: Record<string, unknown> = {}): ScreenshotArtifactOptions {
+  const raw = (metadata.screenshots && typeof metadata.screenshots === 'object' ? metadata.screenshots : {}) as Record<string, unknown>;
+  const mode = raw.mode === 'last' || raw.mode === 'none' ? raw.mode : 'all';
+  const width = Number(raw.thumbnailWidth);
+  return {
+    mode,
+    thumbnails: raw.thumbnails === true,
+    thumbnailWidth: Number.isFinite(width) && width > 0 ? Math.floor(width) : DEFAULT_THUMBNAIL_WIDTH,
+    overlays: raw.overlays === true,
+  };
+}
+
+/**
+ * Extract the screenshot carried by a CUGA event, if any
+ */
+export function screenshotFromEvent(event: CugaSSEEvent): CugaBrowserScreenshot | undefined {
+  if (event.name !== 'browser_screenshot' && event.name !== 'BrowserPlannerAgent' && event.name !== 'ActionAgent') {
+    return undefined;
+  }
+  const payload = parseCugaEvent(event)?.event.payload;
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload) || !('screenshot' in payload) || !payload.screenshot) {
+    return undefined;
+  }
+  return {
+    screenshot: payload.screenshot,
+    url: payload.url || '',
+    elements: payload.elements,
+    viewport: payload.viewport,
+  };
+}
+
+/**
+ * Append the screenshot of an event to a timeline
+ */
+export function addScreenshotFrame(timeline: CugaScreenshotFrame[], event: CugaSSEEvent, seq?: number, timestamp?: string): void {
+  const shot = screenshotFromEvent(event);
+  if (!shot) return;
+  timeline.push({
+    ...shot,
+    url: shot.url || timeline[timeline.length - 1]?.url || '',
+    index: timeline.length,
+    seq,
+    timestamp: timestamp || new Date().toISOString(),
+  });
+}
+
+/**
+ * Build a run's screenshot timeline from its stored events
+ */
+export function buildScreenshotTimeline(events: CugaStoredEvent[]): CugaScreenshotFrame[] {
+  const timeline: CugaScreenshotFrame[] = [];
+  for (const stored of events) {
+    addScreenshotFrame(timeline, stored.event, stored.seq, stored.timestamp);
+  }
+  return timeline;
+}
+
+/**
+ * Decode a (possibly data-URL) base64 screenshot
+ */
+export function decodeScreenshot(screenshot: string): { bytes: Buffer; mimeType: string } {
+  const match = /^data:([^;]+);base64,/.exec(screenshot);
+  const bytes = Buffer.from(match ? screenshot.slice(match[0].length) : screenshot, 'base64');
+  const mimeType = isPng(bytes) ? 'image/png' : bytes[0] === 0xff && bytes[1] === 0xd8 ? 'image/jpeg' : match?.[1] || 'application/octet-stream';
+  return { bytes, mimeType };
+}
+
+/**
+ * Render a frame variant
+ *
+ * Thumbnails and overlays need a PNG source; for other formats the original
+ * image is returned unchanged.
+ */
+export function renderScreenshot(
+  frame: CugaScreenshotFrame,
+  variant: { overlay?: boolean; thumbnailWidth?: number } = {}
+): { bytes: Buffer; mimeType: string } {
+  const original = decodeScreenshot(frame.screenshot);
+  if ((!variant.overlay && !variant.thumbnailWidth) || original.mimeType !== 'image/png') {
+    return original;
+  }
+
+  let image = decodePng(original.bytes);
+  if (variant.overlay) {
+    // bboxes are in CSS pixels; screenshots may be taken at a higher device pixel ratio
+    const ratio = frame.viewport?.width ? image.width / frame.viewport.width : 1;
+    for (const element of frame.elements || []) {
+      if (!element.bbox) continue;
+      const box = {
+        x: element.bbox.x * ratio,
+        y: element.bbox.y * ratio,
+        width: element.bbox.width * ratio,
+        height: element.bbox.height * ratio,
+      };
+      const color = element.isActive ? ACTIVE_COLOR : OVERLAY_COLOR;
+      strokeRect(image, box, color, Math.max(1, Math.round(2 * ratio)));
+      const labelScale = Math.max(2, Math.round(2 * ratio));
+      drawLabel(image, box.x, box.y - 7 * labelScale, element.bid, LABEL_TEXT, color, labelScale);
+    }
+  }
+  if (variant.thumbnailWidth) {
+    image = downscale(image, variant.thumbnailWidth);
+  }
+  return { bytes: encodePng(image), mimeType: 'image/png' };
+}
+
+/**
+ * Timeline entry without image data, for listings and metadata
+ */
+export function describeFrame(frame: CugaScreenshotFrame): Omit<CugaScreenshotFrame, 'screenshot' | 'elements'> & { elementCount: number } {
+  const { screenshot: _screenshot, elements, ...rest } = frame;
+  return { ...rest, elementCount: elements?.length || 0 };
+}
+
+/**
+ * Build A2A artifacts for a screenshot timeline
+ */
+export function screenshotArtifacts(
+  timeline: CugaScreenshotFrame[],
+  options: ScreenshotArtifactOptions,
+  runId?: string
+): Array<{ id: string; name: string; description: string; mimeType: string; parts: Array<Record<string, unknown>> }> {
+  if (options.mode === 'none' || timeline.length === 0) {
+    return [];
+  }
+  const frames = options.mode === 'last' ? timeline.slice(-1) : timeline;
+
+  return frames.map((frame) => {
+    const original = decodeScreenshot(frame.screenshot);
+    const parts: Array<Record<string, unknown>> = [
+      {
+        type: 'file' as const,
+        file: { name: `screenshot-${frame.index}.${original.mimeType === 'image/jpeg' ? 'jpg' : 'png'}`, mimeType: original.mimeType, bytes: original.bytes.toString('base64') },
+      },
+    ];
+
+    const variants: Array<[string, { overlay?: boolean; thumbnailWidth?: number }]> = [];
+    if (options.thumbnails) variants.push(['thumbnail', { thumbnailWidth: options.thumbnailWidth }]);
+    if (options.overlays && frame.elements?.some((e) => e.bbox)) variants.push(['overlay', { overlay: true }]);
+    for (const [kind, variant] of variants) {
+      try {
+        const rendered = renderScreenshot(frame, variant);
+        parts.push({
+          type: 'file' as const,
+          file: { name: `screenshot-${frame.index}-${kind}.png`, mimeType: rendered.mimeType, bytes: rendered.bytes.toString('base64') },
+        });
+      } catch (error) {
+        log.warn(`Failed to render ${kind} for screenshot ${frame.index}`, error);
+      }
+    }
+
+    parts.push({
+      type: 'data' as const,
+      data: { type: 'browser-screenshot', runId, ...describeFrame(frame), elements: frame.elements },
+    });
+
+    return {
+      id: runId ? `${runId}-screenshot-${frame.index}` : `screenshot-${frame.index}`,
+      name: `browser-screenshot-${frame.index}`,
+      description: `Browser screenshot ${frame.index + 1}/${timeline.length} at ${frame.url}`,
+      mimeType: original.mimeType,
+      parts,
+    };
+  });
+}
@@ -32,84 +32,184 @@
  *                     └───────────────────┘
  *
  * The wrapper handles:
- * 1. A2A message.parts[].text → CUGA {"query": "..."}
+ * 1. A2A message.parts[].text → CUGA {"query": "..."}; file and data parts →
+ *    CUGA workspace uploads referenced in the query (attachments.ts)
  * 2. A2A contextId → CUGA X-Thread-ID header
  * 3. CUGA SSE events → A2A TaskEvent streaming format
+ * 4. A2A skill_id/skill_params metadata → checked CUGA mode, starting URL and app set (skills.ts)
+ * 5. OpenAI /v1/chat/completions messages → CUGA query and history (openai-compat.ts)
+ * 6. MCP tools/call on /mcp or stdio → the matching agent skill (mcp-server.ts)
+ * 7. Run, backend call, agent node and code execution spans → OTLP collector,
+ *    with `traceparent` sent to the backend; Prometheus metrics on /metrics (run-telemetry.ts)
+ * 8. A2A metadata.response_schema → typed invoke answers, validated and re-asked
+ *    on mismatch, returned as a data artifact (structured-output.ts)
+ * 9. Structured logs tagged with run, thread and organization IDs, with API keys,
+ *    screenshots and sensitive variables redacted (CUGA_LOG_*, see logger.ts)
+ * 10. TaskDecompositionAgent and PlanControllerAgent events → a subtask dependency
+ *    graph with timings, outputs and a critical path, in the `subtasks` artifact
+ *    (subtask-graph.ts)
  */
 
+import { createHash, timingSafeEqual } from 'node:crypto';
+
 import {
   createUnifiedServer,
-  type AgentSkill,
   type LangGraphStreamEvent,
 } from '@repo/agent-core';
 import { getRuntimeClient } from '@repo/agent-runtime';
 import { v4 as uuidv4 } from 'uuid';
 
-import { checkHealth, resumeExecution, stopExecution, streamQuery } from './cuga-client.js';
+import { CredentialCache, hashApiKey } from './credential-cache.js';
+import { checkHealth, getBackendPool, resumeExecution, startBackendHealthChecks, stopExecution, streamQuery } from './cuga-client.js';
+import { evaluateApproval, loadApprovalPolicy, MANUAL_APPROVAL_POLICY, type ApprovalPolicy } from './approval-policy.js';
+import { AgUiEventEmitter } from './agui-events.js';
+import { describeAttachmentErrors, extractAttachments, partsText, uploadAttachments, withAttachmentReferences, type AttachmentParts, type PendingAttachment } from './attachments.js';
+import { RunCancellations } from './cancellation.js';
+import { getCugaEventJsonSchema, parseCugaEvent } from './event-schema.js';
+import { historyConfigFromMetadata } from './history.js';
+import { createLogger, sensitiveVariablesFromMetadata, type Logger } from './logger.js';
+import { describeProgress, McpHttpTransport, McpServer, redirectConsoleToStderr, serveMcpStdio, skillTools, toolResult } from './mcp-server.js';
+import { ChatCompletionEmitter, ChatCompletionError, collectChatCompletion, toWrapperMessages, validateChatCompletionRequest } from './openai-compat.js';
+import { createPushNotifier, validatePushNotificationConfig } from './push-notifications.js';
+import { createTenantQuotas, QuotaExceededError, type QuotaLease } from './quotas.js';
+import { buildHitlResume, parseInterrupt, PendingHitlRegistry, type HitlAnswer } from './hitl.js';
+import { createRunStore, recordEvents } from './run-store.js';
+import { getRunTelemetry } from './run-telemetry.js';
+import { AGENT_SKILLS, describeSkillErrors, resolveSkillRouting, SKILL_TASK_TYPES, skillIdFromMetadata } from './skills.js';
+import { addScreenshotFrame, buildScreenshotTimeline, describeFrame, renderScreenshot, screenshotArtifacts, screenshotOptionsFromMetadata, type ScreenshotArtifactOptions } from './screenshots.js';
+import { StateStreamEncoder, stateModeFromMetadata } from './state-delta.js';
+import { applySubtaskProgress, buildSubtasks, settleSubtasks, subtaskGraph, updateSubtask } from './subtask-graph.js';
+import { checkStructuredAnswer, repairQuery, structuredOutputFromMetadata } from './structured-output.js';
+import { formatSSE, parseLastEventId, StreamHub, type BufferedEvent } from './stream-hub.js';
+import { isTerminalTaskState, TaskRegistry, taskStateFromAgentState, toA2ATask } from './tasks.js';
+import { createUsageLedger } from './usage.js';
 import type {
+  AgUiEvent,
   AICredentials,
+  ChatCompletionChunk,
+  ChatCompletionRequest,
   CugaAgentState,
+  CugaApprovalDecision,
+  CugaAttachment,
   CugaBrowserScreenshot,
   CugaCodeExecutionEvent,
-  CugaFinalAnswer,
+  CugaPushNotificationConfig,
+  CugaResumeRequest,
+  CugaRunKind,
+  CugaRunRecord,
+  CugaRunStatus,
+  CugaMessagePart,
+  CugaScreenshotFrame,
+  CugaSkillSettings,
   CugaSSEEvent,
+  CugaStoredEvent,
+  CugaStructuredOutput,
   CugaSubtask,
+  CugaTaskRecord,
+  CugaTaskType,
+  CugaUsage,
+  CugaUsageDimension,
+  McpToolResult,
 } from './types.js';
 
 // Configuration
 const PORT = Number.parseInt(process.env.PORT || '9999', 10);
 const HOST = process.env.HOST || '0.0.0.0';
 const BASE_URL = process.env.BASE_URL || `http://localhost:${PORT}`;
+// Shared token for the admin and cross-tenant data routes (X-CUGA-Admin-Token); refused when unset
+const ADMIN_TOKEN = process.env.CUGA_ADMIN_TOKEN || '';
+// 'stdio' serves MCP on stdin/stdout instead of starting the HTTP server
+const MCP_TRANSPORT = process.env.CUGA_MCP_TRANSPORT || 'http';
+if (MCP_TRANSPORT === 'stdio') {
+  redirectConsoleToStderr();
+}
+
+// Structured, redacted logs (CUGA_LOG_LEVEL, CUGA_LOG_FORMAT, CUGA_LOG_SINKS)
+const log = createLogger('CUGA-Wrapper');
 
 // Initialize Runtime Client for credential resolution
 // Uses RUNTIME_API_URL environment variable (set by Aspire)
 const runtimeClient = getRuntimeClient();
 
+// Run store for persisted, replayable event logs (CUGA_RUN_STORE=memory|file)
+const runStore = createRunStore();
+
+// Per-thread event IDs and replay buffers for Last-Event-ID reconnects
+const streamHub = new StreamHub();
+
+// HITL requests awaiting an answer, per thread
+const pendingHitl = new PendingHitlRegistry();
+
+// Auto-approval policy for interrupts (see approval-policy.ts for configuration)
+const approvalPolicy = loadApprovalPolicy();
+
+// Resolved tenant credentials, keyed by API key hash and task type
+const credentialCache = new CredentialCache();
+
+// Per-organization rate limits and concurrent run limits
+const tenantQuotas = createTenantQuotas();
+
+// A2A tasks with status webhooks (see tasks.ts and push-notifications.ts)
+const taskRegistry = new TaskRegistry(createPushNotifier());
+
+// Stops runs whose clients went away (CUGA_DISCONNECT_GRACE_MS)
+const runCancellations = new RunCancellations(stopExecution);
+
+// Token and cost usage per run, thread, user and tenant; over-budget runs are stopped
+const usageLedger = createUsageLedger((runId) => void runCancellations.cancel(runId, 'Usage budget exceeded'));
+
+// Spans and Prometheus metrics for runs (OTEL_EXPORTER_OTLP_ENDPOINT, see telemetry.ts)
+const runTelemetry = getRunTelemetry();
+
 /**
  * Resolve AI credentials from Runtime API based on API key
  *
  * The wrapper receives requests with tenant API keys and resolves
- * them to the actual AI provider credentials.
+ * them to the actual AI provider credentials for the given task type.
+ * Results are cached per API key and task type (see credential-cache.ts).
  */
-async function resolveCredentials(apiKey?: string): Promise<AICredentials | undefined> {
+async function resolveCredentials(apiKey?: string, taskType: CugaTaskType = 'COMPLEX'): Promise<AICredentials | undefined> {
   if (!apiKey) {
-    console.log('[CUGA-Wrapper] No API key provided, using default credentials from environment');
+    log.info('No API key provided, using default credentials from environment');
     return undefined;
   }
 
   try {
-    console.log('[CUGA-Wrapper] Resolving credentials from Runtime API...');
+    return await runTelemetry.traceCredentials(taskType, (miss) => credentialCache.get(apiKey, taskType, async () => {
+      miss();
+      log.info(`Resolving ${taskType} credentials from Runtime API...`);
 
-    // Resolve model configuration using the tenant's API key
-    const modelConfig = await runtimeClient.resolveModel({
-      apiKey,
-      taskType: 'COMPLEX', // CUGA handles complex tasks
-    });
+      // Resolve model configuration using the tenant's API key
+      const modelConfig = await runtimeClient.resolveModel({ apiKey, taskType });
 
-    if (!modelConfig) {
-      console.warn('[CUGA-Wrapper] No model config returned, using default credentials');
-      return undefined;
-    }
+      if (!modelConfig) {
+        log.warn('No model config returned, using default credentials');
+        return undefined;
+      }
 
-    console.log('[CUGA-Wrapper] Resolved credentials:', {
-      provider: modelConfig.provider,
-      model: modelConfig.modelString,
-      source: modelConfig.source,
-    });
+      log.info('Resolved credentials', {
+        provider: modelConfig.provider,
+        model: modelConfig.modelString,
+        baseUrl: modelConfig.baseUrl,
+        source: modelConfig.source,
+        taskType,
+      });
 
-    // Also resolve tenant context for logging
-    const tenantContext = await runtimeClient.resolveTenant({ apiKey });
+      // Also resolve tenant context for logging
+      const tenantContext = await runtimeClient.resolveTenant({ apiKey });
 
-    return {
-      apiKey: modelConfig.apiKey,
-      provider: modelConfig.provider,
-      model: modelConfig.modelString,
-      baseUrl: undefined, // Use default for now
-      userId: tenantContext?.userId ?? undefined,
-      organizationId: tenantContext?.organizationId ?? undefined,
-    };
+      return {
+        apiKey: modelConfig.apiKey,
+        provider: modelConfig.provider,
+        model: modelConfig.modelString,
+        // Tenant-provided endpoint (LiteLLM, Ollama, ...); the backend default is used when absent
+        baseUrl: modelConfig.baseUrl || undefined,
+        userId: tenantContext?.userId ?? undefined,
+        organizationId: tenantContext?.organizationId ?? undefined,
+      };
+    }));
   } catch (error) {
-    console.error('[CUGA-Wrapper] Failed to resolve credentials:', error);
+    log.error('Failed to resolve credentials', error);
     return undefined;
   }
 }
@@ -128,227 +228,200 @@ function extractApiKey(input: { metadata?: Record<string, unknown> }): string |
   );
 }
 
-// Define agent skills for A2A discovery
-const AGENT_SKILLS: AgentSkill[] = [
-  {
-    id: 'browser-automation',
-    name: 'Browser Automation',
-    description: 'Automate web browser interactions with full Playwright support',
-    parameters: {
-      type: 'object',
-      properties: {
-        task: { type: 'string', description: 'Task to perform in the browser' },
-        url: { type: 'string', description: 'Starting URL (optional)' },
-      },
-      required: ['task'],
-    },
-    examples: [
-      'Navigate to GitHub and star a repository',
-      'Fill out a form on a website',
-      'Extract data from a web page',
-    ],
-    tags: ['browser', 'automation', 'web'],
-  },
-  {
-    id: 'api-orchestration',
-    name: 'API Orchestration',
-    description: 'Execute complex multi-API workflows with variable management',
-    parameters: {
-      type: 'object',
-      properties: {
-        task: { type: 'string', description: 'API task to perform' },
-        apis: { type: 'array', items: { type: 'string' }, description: 'APIs to use' },
-      },
-      required: ['task'],
-    },
-    examples: [
-      'Fetch user data from API and create a report',
-      'Chain multiple API calls to complete a workflow',
-    ],
-    tags: ['api', 'orchestration', 'workflow'],
-  },
-  {
-    id: 'code-execution',
-    name: 'Code Execution',
-    description: 'Execute Python code with sandbox support (Docker/E2B)',
-    parameters: {
-      type: 'object',
-      properties: {
-        task: { type: 'string', description: 'Code task to perform' },
-        language: { type: 'string', enum: ['python'] },
-      },
-      required: ['task'],
-    },
-    examples: [
-      'Write and execute a Python script to process data',
-      'Generate code to solve a problem',
-    ],
-    tags: ['code', 'execution', 'python'],
-  },
-  {
-    id: 'task-decomposition',
-    name: 'Task Decomposition',
-    description: 'Break down complex tasks into subtasks and execute them',
-    examples: [
-      'Plan and execute a multi-step workflow',
-      'Decompose a complex request into manageable steps',
-    ],
-    tags: ['planning', 'decomposition', 'workflow'],
-  },
-];
+/**
+ * Take a run slot for the tenant, or describe why the run is refused
+ * (rate limit, concurrency, or usage budget)
+ */
+function acquireQuota(credentials?: AICredentials): { lease: QuotaLease } | { refused: QuotaExceededError } {
+  try {
+    usageLedger.assertWithinBudget(credentials?.organizationId);
+    return { lease: tenantQuotas.acquire(credentials?.organizationId) };
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      log.warn(error.message, { orgId: credentials?.organizationId });
+      return { refused: error };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Task type for a request: explicit `metadata.task_type`, else the invoked skill's, else COMPLEX
+ */
+function resolveTaskType(metadata: Record<string, unknown> = {}): CugaTaskType {
+  const explicit = metadata.task_type ?? metadata.taskType;
+  if (typeof explicit === 'string') {
+    const normalized = explicit.toUpperCase();
+    if (normalized === 'SIMPLE' || normalized === 'COMPLEX' || normalized === 'VISION') {
+      return normalized;
+    }
+    log.warn(`Unknown task type "${explicit}", ignoring`);
+  }
+  const skillId = skillIdFromMetadata(metadata);
+  return (skillId && SKILL_TASK_TYPES[skillId]) || 'COMPLEX';
+}
 
 /**
  * Transform CUGA SSE event to AG-UI state update
+ *
+ * Payloads are decoded and validated by parseCugaEvent; schema violations
+ * are appended to `schemaWarnings` and the payload is read defensively.
+ * `now` (epoch milliseconds) times subtask transitions; replays pass the
+ * recorded event time.
  */
 function transformCugaEvent(
   event: CugaSSEEvent,
-  currentState: CugaAgentState
+  currentState: CugaAgentState,
+  now = Date.now()
 ): Partial<CugaAgentState> {
   const updates: Partial<CugaAgentState> = {
     currentNode: event.name,
   };
+  const appendContent = (separator: string) => {
+    if (event.data) {
+      updates.streamingContent = (currentState.streamingContent || '') + separator + event.data;
+    }
+  };
+
+  const parsed = parseCugaEvent(event);
+  if (!parsed) {
+    // Event types outside the schema are streamed as text
+    appendContent('\n');
+    return updates;
+  }
+  if (parsed.warnings.length > 0) {
+    log.warn(`Schema violations in ${event.name} event`, { warnings: parsed.warnings });
+    updates.schemaWarnings = [...(currentState.schemaWarnings || []), ...parsed.warnings];
+  }
 
-  switch (event.name) {
+  const typed = parsed.event;
+  switch (typed.name) {
     case 'Answer': {
-      try {
-        const parsed = JSON.parse(event.data) as CugaFinalAnswer;
-        updates.finalAnswer = parsed.data;
-        updates.variables = parsed.variables;
-        updates.streamingContent = parsed.data;
-        updates.status = 'complete';
-      } catch {
-        updates.finalAnswer = event.data;
-        updates.streamingContent = event.data;
-        updates.status = 'complete';
+      const answer = typed.payload;
+      if (answer !== undefined && typeof answer !== 'string') {
+        updates.finalAnswer = answer.data;
+        updates.variables = answer.variables;
+        updates.streamingContent = answer.data;
+      } else {
+        updates.finalAnswer = typed.data;
+        updates.streamingContent = typed.data;
+      }
+      updates.status = 'complete';
+      if (currentState.subtasks?.length) {
+        updates.subtasks = settleSubtasks(currentState.subtasks, 'complete', undefined, now);
       }
       break;
     }
     case 'tool_call': {
-      try {
-        updates.pendingToolCalls = JSON.parse(event.data);
-      } catch {
-        console.warn('Failed to parse tool_call data:', event.data);
+      if (typed.payload) {
+        updates.pendingToolCalls = typed.payload;
       }
       break;
     }
     case '__interrupt__': {
       updates.needsApproval = true;
       updates.status = 'waiting_hitl';
-      try {
-        const hitlData = JSON.parse(event.data);
-        updates.hitlRequests = [
-          ...(currentState.hitlRequests || []),
-          {
-            id: `hitl_${Date.now()}`,
-            type: hitlData.type || 'approval',
-            message: hitlData.message || 'Human approval required',
-            context: hitlData.context,
-            pending: true,
-          },
-        ];
-      } catch {
-        updates.hitlRequests = [
-          ...(currentState.hitlRequests || []),
-          {
-            id: `hitl_${Date.now()}`,
-            type: 'approval',
-            message: event.data || 'Human approval required',
-            pending: true,
-          },
-        ];
-      }
+      const existing = currentState.hitlRequests || [];
+      updates.hitlRequests = [...existing, parseInterrupt(typed.payload ?? typed.data, existing.length, currentState.runId)];
       break;
     }
     case 'Stopped': {
       updates.error = 'Execution stopped by user';
       updates.status = 'failed';
+      if (currentState.subtasks?.length) {
+        updates.subtasks = settleSubtasks(currentState.subtasks, 'failed', updates.error, now);
+      }
       break;
     }
     case 'TaskAnalyzerAgent': {
       updates.status = 'planning';
-      updates.thoughts = event.data;
+      updates.thoughts = typed.data;
       break;
     }
     case 'TaskDecompositionAgent': {
-      try {
-        const data = JSON.parse(event.data);
-        if (data.subtasks || data.task_decomposition) {
-          const subtasks = data.subtasks || data.task_decomposition?.subtasks || [];
-          updates.subtasks = subtasks.map((s: { id?: string; description?: string; task?: string; status?: string; app?: string; type?: string }, idx: number) => ({
-            id: s.id || `subtask_${idx}`,
-            description: s.description || s.task || '',
-            status: s.status || 'pending',
-            app: s.app,
-            type: s.type,
-          }));
-        }
-        updates.status = 'planning';
-      } catch {
-        updates.streamingContent = (currentState.streamingContent || '') + event.data;
+      const data = typed.payload;
+      if (data === undefined || typeof data === 'string') {
+        appendContent('');
+        break;
       }
+      if (data.subtasks || data.task_decomposition) {
+        updates.subtasks = buildSubtasks(data.subtasks || data.task_decomposition?.subtasks || [], now);
+      }
+      updates.status = 'planning';
       break;
     }
     case 'PlanControllerAgent': {
       updates.status = 'executing';
-      try {
-        const data = JSON.parse(event.data);
-        if (data.current_subtask_id) {
-          updates.currentSubtaskId = data.current_subtask_id;
-        }
-        // Update subtask status
-        if (data.subtask_status && currentState.subtasks) {
-          updates.subtasks = currentState.subtasks.map((s) =>
-            s.id === data.subtask_id ? { ...s, status: data.subtask_status } : s
-          );
-        }
-      } catch {
-        // Non-JSON data, just log
+      const data = typed.payload;
+      if (data === undefined || typeof data === 'string') {
+        break;
+      }
+      if (data.current_subtask_id) {
+        updates.currentSubtaskId = data.current_subtask_id;
+      }
+      // Update subtask status, timing and result
+      let subtasks = currentState.subtasks;
+      if (subtasks && Array.isArray(data.subtasks_progress)) {
+        subtasks = applySubtaskProgress(subtasks, data.subtasks_progress, now);
+      }
+      if (subtasks && typeof data.subtask_id === 'string' && (data.subtask_status || data.output !== undefined || data.error !== undefined)) {
+        subtasks = updateSubtask(subtasks, data.subtask_id, {
+          status: data.subtask_status,
+          output: data.output,
+          error: data.error,
+          executionTimeMs: data.execution_time_ms,
+        }, now);
+      }
+      if (subtasks !== currentState.subtasks) {
+        updates.subtasks = subtasks;
       }
       break;
     }
     case 'BrowserPlannerAgent':
     case 'ActionAgent': {
       updates.status = 'executing';
-      try {
-        const data = JSON.parse(event.data);
-        if (data.screenshot) {
-          updates.browserState = {
-            screenshot: data.screenshot,
-            url: data.url || currentState.browserState?.url || '',
-            elements: data.elements,
-            viewport: data.viewport,
-          };
-        }
-        if (data.action) {
-          updates.browserAction = {
-            type: data.action.type,
-            bid: data.action.bid,
-            value: data.action.value,
-            status: data.action.status || 'executing',
-          };
-        }
-      } catch {
-        updates.streamingContent = (currentState.streamingContent || '') + '\n' + event.data;
+      const data = typed.payload;
+      if (data === undefined || typeof data === 'string') {
+        appendContent('\n');
+        break;
+      }
+      // ActionAgent may send the list of tool calls it issued instead of a browser step
+      if (Array.isArray(data)) {
+        break;
+      }
+      if (data.screenshot) {
+        updates.browserState = {
+          screenshot: data.screenshot,
+          url: data.url || currentState.browserState?.url || '',
+          elements: data.elements,
+          viewport: data.viewport,
+        };
+      }
+      if (data.action) {
+        updates.browserAction = {
+          type: data.action.type,
+          bid: data.action.bid,
+          value: data.action.value,
+          status: data.action.status || 'executing',
+        };
       }
       break;
     }
     case 'browser_screenshot': {
-      try {
-        const data = JSON.parse(event.data);
+      const data = typed.payload;
+      if (data) {
         updates.browserState = {
           screenshot: data.screenshot,
           url: data.url || currentState.browserState?.url || '',
           elements: data.elements,
           viewport: data.viewport,
         };
-      } catch {
-        console.warn('Failed to parse browser_screenshot data');
       }
       break;
     }
     case 'browser_action': {
-      try {
-        const data = JSON.parse(event.data);
+      const data = typed.payload;
+      if (data) {
         updates.browserAction = {
           type: data.type,
           bid: data.bid,
@@ -356,16 +429,15 @@ function transformCugaEvent(
           status: data.status || 'executing',
           error: data.error,
         };
-      } catch {
-        console.warn('Failed to parse browser_action data');
       }
       break;
     }
     case 'code_execution': {
-      try {
-        const data = JSON.parse(event.data);
-        const codeExec = {
-          id: data.id || `code_${Date.now()}`,
+      const data = typed.payload;
+      if (data) {
+        const existing = currentState.codeExecutions || [];
+        const codeExec: CugaCodeExecutionEvent = {
+          id: data.id || `code_${existing.length + 1}`,
           code: data.code,
           language: data.language || 'python',
           status: data.status || 'running',
@@ -374,53 +446,53 @@ function transformCugaEvent(
           executionTimeMs: data.execution_time_ms,
           sandbox: data.sandbox,
         };
-        updates.codeExecutions = [...(currentState.codeExecutions || []).filter(c => c.id !== codeExec.id), codeExec];
-      } catch {
-        console.warn('Failed to parse code_execution data');
+        updates.codeExecutions = [...existing.filter(c => c.id !== codeExec.id), codeExec];
+        // Code output is the current subtask's result until the plan controller reports one
+        const current = currentState.subtasks?.find((s) => s.id === currentState.currentSubtaskId);
+        if (current && codeExec.status === 'complete' && codeExec.output !== undefined && currentState.subtasks) {
+          updates.subtasks = updateSubtask(currentState.subtasks, current.id, { output: codeExec.output }, now);
+        }
       }
       break;
     }
     case 'variable_update': {
-      try {
-        const data = JSON.parse(event.data);
+      const data = typed.payload;
+      if (data) {
         updates.variables = {
           ...currentState.variables,
           [data.name]: {
-            type: data.type,
+            type: data.type ?? typeof data.value,
             value: data.value,
             description: data.description,
           },
         };
-      } catch {
-        console.warn('Failed to parse variable_update data');
       }
       break;
     }
     case 'ApiAgent': {
       updates.status = 'executing';
-      try {
-        const data = JSON.parse(event.data);
-        if (data.code) {
-          const codeExec = {
-            id: data.id || `api_code_${Date.now()}`,
-            code: data.code,
-            language: 'python' as const,
-            status: data.status || 'running',
-            output: data.output,
-            error: data.error,
-          };
-          updates.codeExecutions = [...(currentState.codeExecutions || []).filter(c => c.id !== codeExec.id), codeExec];
-        }
-      } catch {
-        updates.streamingContent = (currentState.streamingContent || '') + '\n' + event.data;
+      const data = typed.payload;
+      if (data === undefined || typeof data === 'string') {
+        appendContent('\n');
+        break;
+      }
+      if (data.code) {
+        const existing = currentState.codeExecutions || [];
+        const codeExec: CugaCodeExecutionEvent = {
+          id: data.id || `api_code_${existing.length + 1}`,
+          code: data.code,
+          language: 'python',
+          status: data.status || 'running',
+          output: data.output,
+          error: data.error,
+        };
+        updates.codeExecutions = [...existing.filter(c => c.id !== codeExec.id), codeExec];
       }
       break;
     }
     default: {
       // Append to streaming content for other events
-      if (event.data) {
-        updates.streamingContent = (currentState.streamingContent || '') + '\n' + event.data;
-      }
+      appendContent('\n');
     }
   }
 
@@ -428,18 +500,341 @@ function transformCugaEvent(
 }
 
 /**
- * Extract user message and conversation history from input
- * Handles both AG-UI messages array format and direct string content
+ * Apply a CUGA event to the agent state and register any new HITL request
+ */
+function applyCugaEvent(event: CugaSSEEvent, state: CugaAgentState): CugaAgentState {
+  const next = { ...state, ...transformCugaEvent(event, state) };
+  if (event.name === '__interrupt__' && next.hitlRequests?.length) {
+    pendingHitl.add(next.threadId, next.hitlRequests[next.hitlRequests.length - 1]);
+  }
+  return next;
+}
+
+/**
+ * Apply the approval policy to the latest pending HITL request
+ *
+ * The decision is recorded in the state. A resume request is returned when
+ * the interrupt was approved or rejected automatically; escalated requests
+ * stay pending for a human.
+ */
+function decideInterrupt(
+  state: CugaAgentState,
+  policy: ApprovalPolicy,
+  credentials: AICredentials | undefined,
+  autoDecisions: number
+): { state: CugaAgentState; decision?: CugaApprovalDecision; resume?: CugaResumeRequest } {
+  const request = [...(state.hitlRequests || [])].reverse().find((r) => r.pending);
+  if (!request) {
+    return { state };
+  }
+
+  const subtaskId = request.context?.subtaskId ?? state.currentSubtaskId;
+  let decision = evaluateApproval(policy, request.id, {
+    riskLevel: request.context?.riskLevel,
+    type: request.type,
+    action: request.context?.action,
+    tools: Array.isArray(state.pendingToolCalls) ? state.pendingToolCalls.map((t) => t.name) : undefined,
+    tenant: credentials?.organizationId,
+    app: state.subtasks?.find((s) => s.id === subtaskId)?.app,
+  }, autoDecisions);
+
+  let resume: CugaResumeRequest | undefined;
+  if (decision.decision !== 'escalate') {
+    const built = buildHitlResume(state.threadId, request, { action: decision.decision });
+    if ('error' in built) {
+      decision = { ...decision, decision: 'escalate', reason: `${decision.reason}; cannot answer automatically: ${built.error}` };
+    } else {
+      resume = built.resume;
+    }
+  }
+
+  const approvalDecisions = [...(state.approvalDecisions || []), decision];
+  if (!resume) {
+    return { state: { ...state, approvalDecisions }, decision };
+  }
+
+  pendingHitl.resolve(state.threadId, request.id);
+  return {
+    state: {
+      ...state,
+      approvalDecisions,
+      needsApproval: false,
+      hitlRequests: state.hitlRequests?.map((r) => (r.id === request.id ? { ...r, pending: false } : r)),
+    },
+    decision,
+    resume,
+  };
+}
+
+/**
+ * Create a persisted run and return its ID
+ *
+ * A failing store must not block execution, so errors are only logged.
+ * Usage is metered against the tenant of `credentials`, with the query and
+ * history as the estimated prompt. The run's trace span opens here.
+ */
+async function startRun(
+  threadId: string,
+  kind: CugaRunKind,
+  query: string,
+  options: { credentials?: AICredentials; history?: Array<{ content: string }> } = {}
+): Promise<string> {
+  const runId = uuidv4();
+  try {
+    await runStore.createRun({ runId, threadId, organizationId: options.credentials?.organizationId, kind, query });
+  } catch (error) {
+    log.warn('Failed to create run', { runId, threadId, error });
+  }
+  runCancellations.register(runId, threadId);
+  runTelemetry.startRun(runId, { threadId, kind, tenant: options.credentials?.organizationId });
+  usageLedger.open(runId, {
+    threadId,
+    credentials: options.credentials,
+    prompt: [query, ...(options.history || []).map((m) => m.content)].join('\n'),
+  });
+  return runId;
+}
+
+/**
+ * Logger for a run's lines: tagged with the run, thread and organization IDs,
+ * redacting the variables the request marks sensitive
+ */
+function runLogger(runId: string, threadId: string, credentials?: AICredentials, metadata?: Record<string, unknown>): Logger {
+  return log.child({ runId, threadId, orgId: credentials?.organizationId }, { sensitiveKeys: sensitiveVariablesFromMetadata(metadata) });
+}
+
+/**
+ * Record, meter and trace a backend call of a run as its events stream through
+ */
+function trackRun(runId: string, events: AsyncGenerator<CugaSSEEvent>): AsyncGenerator<CugaSSEEvent> {
+  return usageLedger.meter(runId, recordEvents(runStore, runId, runTelemetry.traceBackendCall(runId, events)));
+}
+
+/**
+ * Backend streams of a run whose executor yields to a client
+ *
+ * The client counts as listening to the thread (see cancellation.ts). Leaving
+ * a `for await` over `stream(...)`, for an auto-resume or because the
+ * consumer closed the executor, does not close the backend stream: `end`
+ * does once the run is over, and `abandon` keeps it flowing into the thread
+ * buffer after the client went away, so a client reconnecting within the
+ * disconnect grace period follows the run instead of it being canceled.
+ */
+function clientBoundRun(threadId: string, runId: string) {
+  let upstream: AsyncGenerator<CugaSSEEvent> | undefined;
+  let releaseHold: (() => void) | undefined;
+  runCancellations.connect(threadId);
+
+  async function close(): Promise<void> {
+    await upstream?.return(undefined);
+    upstream = undefined;
+  }
+
+  return {
+    /**
+     * Tracked events of a backend call, replacing the previous one
+     */
+    async *stream(source: AsyncGenerator<CugaSSEEvent>): AsyncGenerator<CugaSSEEvent> {
+      await close();
+      const current = streamHub.tap(threadId, trackRun(runId, source));
+      upstream = current;
+      for (let next = await current.next(); !next.done; next = await current.next()) {
+        yield next.value;
+      }
+    },
+
+    /**
+     * The client went away: start the grace period (idempotent)
+     */
+    disconnect(): void {
+      if (releaseHold) return;
+      releaseHold = streamHub.hold(threadId);
+      runCancellations.disconnect(threadId);
+    },
+
+    /**
+     * The run is over while its client still listens
+     */
+    async end(): Promise<void> {
+      await close();
+      if (releaseHold) {
+        releaseHold();
+      } else {
+        runCancellations.done(threadId);
+      }
+    },
+
+    /**
+     * Follow the rest of the current backend stream without a client
+     *
+     * Resolves with the stream error, if any, when the stream ends or the run
+     * is canceled. Interrupts are left for a reconnecting client to answer.
+     */
+    async abandon(onEvent: (event: CugaSSEEvent) => void): Promise<string | undefined> {
+      this.disconnect();
+      try {
+        if (upstream) {
+          for (let next = await upstream.next(); !next.done; next = await upstream.next()) {
+            onEvent(next.value);
+          }
+        }
+        return undefined;
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Stream error';
+      } finally {
+        upstream = undefined;
+        releaseHold?.();
+      }
+    },
+  };
+}
+
+/**
+ * Derive the final run status from the agent state at the end of a run
+ */
+function runStatusFromState(state: CugaAgentState, error?: string, canceled?: string): CugaRunStatus {
+  if (canceled) return 'canceled';
+  if (error || state.status === 'failed') return 'failed';
+  if (state.status === 'complete') return 'complete';
+  // Waiting for HITL, or the stream ended/was abandoned before an answer
+  return 'interrupted';
+}
+
+/**
+ * Close the plan of a run that failed or was canceled
+ *
+ * Running subtasks fail and pending ones are skipped, whichever way the run
+ * ended: an error event, a dropped stream or a cancellation.
+ */
+function settleRunSubtasks(state: CugaAgentState, status: CugaRunStatus, error?: string, now = Date.now()): CugaAgentState {
+  if ((status !== 'failed' && status !== 'canceled') || !state.subtasks?.length) {
+    return state;
+  }
+  return { ...state, subtasks: settleSubtasks(state.subtasks, 'failed', error, now) };
+}
+
+/**
+ * Mark a persisted run as finished
+ *
+ * Returns the final status, and the state with the plan settled for runs
+ * that failed or were canceled. HITL requests of runs that ended other than
+ * waiting for an answer stop being pending.
+ */
+async function finishRun(runId: string, state: CugaAgentState, error?: string): Promise<{ status: CugaRunStatus; state: CugaAgentState }> {
+  const canceled = runCancellations.release(runId);
+  const usage = usageLedger.close(runId);
+  const status = runStatusFromState(state, error, canceled);
+  runTelemetry.finishRun(runId, status, canceled ?? error ?? state.error);
+  try {
+    await runStore.finishRun(runId, {
+      status,
+      error: canceled ?? error ?? state.error,
+      approvalDecisions: state.approvalDecisions,
+      usage,
+    });
+  } catch (finishError) {
+    log.warn('Failed to finish run', { runId, error: finishError });
+  }
+  // Only a run waiting for an answer keeps its requests open for /cuga/resume
+  if (status !== 'interrupted') {
+    for (const request of state.hitlRequests || []) {
+      pendingHitl.resolve(state.threadId, request.id);
+    }
+  }
+  return { status, state: settleRunSubtasks(state, status, canceled ?? error ?? state.error) };
+}
+
+/**
+ * Open the A2A task for a request
+ *
+ * The task ID comes from the A2A layer (`taskId`) or `metadata.task_id`, and
+ * the webhook from `metadata.pushNotificationConfig`. `owner` is the tenant's
+ * organization: only it can reopen the task later.
+ */
+function openTask(input: { taskId?: string; metadata?: Record<string, unknown> }, threadId: string, skillId?: string, owner?: string): CugaTaskRecord {
+  const metadata = input.metadata || {};
+  const requestedId = input.taskId ?? metadata.taskId ?? metadata.task_id;
+  const pushConfig = metadata.pushNotificationConfig ?? metadata.push_notification;
+  let pushNotification: CugaPushNotificationConfig | undefined;
+  if (pushConfig !== undefined) {
+    const invalid = validatePushNotificationConfig(pushConfig);
+    if (invalid) {
+      log.warn(`Ignoring push notification config: ${invalid}`, { threadId });
+    } else {
+      pushNotification = pushConfig as CugaPushNotificationConfig;
+    }
+  }
+  return taskRegistry.open({
+    id: typeof requestedId === 'string' ? requestedId : undefined,
+    contextId: threadId,
+    skillId,
+    owner,
+    pushNotification,
+  });
+}
+
+/**
+ * Move an A2A task to its final (or input-required) state at the end of a stream
+ */
+function settleTask(taskId: string, state: CugaAgentState, error?: string): void {
+  const taskState = taskStateFromAgentState(state, error);
+  const pending = state.hitlRequests?.find((r) => r.pending);
+  const runId = taskRegistry.get(taskId)?.runId;
+  taskRegistry.update(taskId, taskState, {
+    usage: runId ? usageLedger.usage(runId) : undefined,
+    result: state.finalAnswer,
+    error: taskState === 'failed' ? error ?? state.error ?? 'Stream ended without an answer' : undefined,
+    message: taskState === 'input-required' ? pending?.message : taskState === 'failed' ? error ?? state.error : undefined,
+  });
+}
+
+/**
+ * Rebuild agent state by replaying recorded events through transformCugaEvent
+ */
+function replayRun(run: CugaRunRecord, events: CugaStoredEvent[]): CugaAgentState {
+  let state: CugaAgentState = {
+    currentNode: 'ChatAgent',
+    query: run.query,
+    threadId: run.threadId,
+    runId: run.runId,
+    streamingContent: '',
+  };
+  for (const { event, timestamp } of events) {
+    state = { ...state, ...transformCugaEvent(event, state, Date.parse(timestamp)) };
+  }
+  // The plan of a failed or canceled run is settled as it was when the run finished
+  state = settleRunSubtasks(state, run.status, run.error, Date.parse(run.updatedAt));
+  // Policy decisions are not CUGA events, so they come from the run record
+  return run.approvalDecisions ? { ...state, approvalDecisions: run.approvalDecisions } : state;
+}
+
+/**
+ * Message as passed to the executors: text content, or A2A message parts
+ */
+type ExecutorMessage = { role: string; content: string | CugaMessagePart[]; parts?: CugaMessagePart[] };
+
+/**
+ * Extract user message, conversation history, attachments and the invoked skill from input
+ * Handles both AG-UI messages array format and direct string content; file
+ * and data parts of the last message are attachments
  */
 function extractUserMessage(input: {
-  messages?: Array<{ role: string; content: string }>;
+  messages?: ExecutorMessage[];
   threadId?: string;
   contextId?: string;
   metadata?: Record<string, unknown>;
-}): { query: string; threadId: string; history: Array<{ role: 'user' | 'assistant' | 'system'; content: string }> } {
+}): {
+  query: string;
+  threadId: string;
+  history: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
+  historyConfig: ReturnType<typeof historyConfigFromMetadata>;
+  skill: ReturnType<typeof resolveSkillRouting>;
+  attachments: AttachmentParts;
+} {
   const messages = input.messages || [];
   const lastMessage = messages[messages.length - 1];
-  const userMessage = lastMessage?.content || '';
+  const lastParts = lastMessage?.parts ?? (Array.isArray(lastMessage?.content) ? lastMessage.content : []);
+  const userMessage = lastMessage?.parts ? partsText(lastMessage.parts) : partsText(lastMessage?.content);
   // Use threadId from input, or contextId (from A2A), or generate new one
   const threadId = input.threadId || input.contextId || uuidv4();
 
@@ -456,455 +851,829 @@ function extractUserMessage(input: {
     // Otherwise, use all messages except the last one as history
     history = messages.slice(0, -1).map(msg => ({
       role: (msg.role === 'user' || msg.role === 'assistant' || msg.role === 'system' ? msg.role : 'user') as 'user' | 'assistant' | 'system',
-      content: msg.content,
+      content: partsText(msg.parts ?? msg.content),
     }));
   }
 
-  return { query: userMessage, threadId, history };
-}
-
-// Create unified server
-const { app, start } = createUnifiedServer(
-  {
-    name: 'cuga_generalist',
-    description: 'CUGA - Configurable Universal Generalist Agent. Provides browser automation, API orchestration, code execution, and task decomposition capabilities.',
-    baseUrl: BASE_URL,
-    port: PORT,
-    host: HOST,
-    skills: AGENT_SKILLS,
-    tags: ['browser', 'api', 'code', 'planning', 'generalist', 'cuga'],
-    supportsStreaming: true,
-    // Generalist Agent Capabilities - tells orchestrator CUGA can handle complete tasks autonomously
-    autonomousExecution: true, // Can handle complete tasks end-to-end
-    taskDecomposition: true, // Has internal task decomposition (TaskDecompositionAgent)
-    contextPreservation: true, // Maintains context via VariablesManager
-    codeExecution: true, // Has CodeAgent with sandbox execution
-    browserAutomation: true, // Has BrowserPlannerAgent + ActionAgent
-    memoryEnabled: true, // Has memory system for learning
-    multiTenancyAware: false, // CUGA is stateless, doesn't know about Fabric tenancy
-    maxAutonomyLevel: 'task', // Can handle complete tasks autonomously
-  },
-  // Invoke function - non-streaming execution
-  async (input: { messages?: Array<{ role: string; content: string }>; threadId?: string; contextId?: string; metadata?: Record<string, unknown> }) => {
-    const { query, threadId, history } = extractUserMessage(input);
-
-    console.log('[CUGA-Wrapper] Invoking CUGA (sync) with:', {
-      queryLength: query.length,
-      threadId,
-      historyLength: history.length,
-      inputKeys: Object.keys(input),
-    });
+  // The invoked skill may carry the task as a parameter instead of message text
+  const skill = resolveSkillRouting(input.metadata, userMessage);
 
-    if (!query) {
-      console.warn('[CUGA-Wrapper] Empty query received');
-      return {
-        response: 'No query provided',
-        variables: {},
-        threadId,
-        streamingContent: '',
-        codeExecutions: [],
-        subtasks: [],
-        browserState: undefined,
-      };
-    }
+  return { query: skill.task, threadId, history, historyConfig: historyConfigFromMetadata(input.metadata), skill, attachments: extractAttachments(lastParts) };
+}
 
-    // Resolve credentials from Runtime API (multi-tenant support)
-    const apiKey = extractApiKey(input);
-    const credentials = await resolveCredentials(apiKey);
+/**
+ * Upload a request's attachments and list them in the query
+ *
+ * Returns the query to run and the uploaded files, or why the upload failed.
+ */
+async function uploadRequestAttachments(
+  query: string,
+  attachments: PendingAttachment[],
+  threadId: string,
+  credentials?: AICredentials
+): Promise<{ query: string; attachments: CugaAttachment[] } | { error: string }> {
+  if (attachments.length === 0) {
+    return { query, attachments: [] };
+  }
+  try {
+    const uploaded = await uploadAttachments(attachments, threadId, credentials);
+    log.info(`Uploaded ${uploaded.length} attachment(s)`, { threadId, paths: uploaded.map((a) => a.path) });
+    return { query: withAttachmentReferences(query, uploaded), attachments: uploaded };
+  } catch (error) {
+    const message = `Failed to upload attachments: ${error instanceof Error ? error.message : String(error)}`;
+    log.error(message, { threadId });
+    return { error: message };
+  }
+}
 
-    let finalAnswer = '';
-    let variables = {};
-    let lastError: string | undefined;
+/**
+ * Invoke executor: runs a query to completion (non-streaming)
+ */
+async function invokeCuga(input: { messages?: ExecutorMessage[]; threadId?: string; contextId?: string; taskId?: string; metadata?: Record<string, unknown> }) {
+  const { query, threadId, history, historyConfig, skill, attachments } = extractUserMessage(input);
+
+  log.info('Invoking CUGA (sync)', {
+    queryLength: query.length,
+    threadId,
+    historyLength: history.length,
+    historyStrategy: historyConfig.history_strategy,
+    skill: skill.skillId,
+    inputKeys: Object.keys(input),
+  });
 
-    // Track full execution state for A2A response
-    let currentState: CugaAgentState = {
-      currentNode: 'ChatAgent',
-      query,
+  if (!query) {
+    log.warn('Empty query received', { threadId });
+    return {
+      response: 'No query provided',
+      variables: {},
       threadId,
       streamingContent: '',
       codeExecutions: [],
       subtasks: [],
       browserState: undefined,
     };
+  }
 
-    // Collect all events from CUGA stream
-    // Pass history for context in follow-up questions, auto_approve for autonomous execution
-    try {
-      for await (const event of streamQuery({ query, thread_id: threadId, api_mode: true, history, auto_approve: true }, credentials)) {
-        console.log(`[CUGA-Wrapper] Event: ${event.name}`);
-
-        // Update state with each event to capture code executions, subtasks, etc.
-        const updates = transformCugaEvent(event, currentState);
-        currentState = { ...currentState, ...updates };
-
-        if (event.name === 'Answer') {
-          try {
-            const parsed = JSON.parse(event.data) as CugaFinalAnswer;
-            finalAnswer = parsed.data;
-            variables = parsed.variables || {};
-          } catch {
-            finalAnswer = event.data;
-          }
-        } else if (event.name === 'Stopped') {
-          lastError = 'Execution stopped';
-        }
-      }
-    } catch (error) {
-      console.error('[CUGA-Wrapper] Stream error:', error);
-      lastError = error instanceof Error ? error.message : 'Stream error';
-    }
+  // Resolve credentials from Runtime API (multi-tenant support); the task belongs to its tenant
+  const apiKey = extractApiKey(input);
+  const credentials = await resolveCredentials(apiKey, resolveTaskType(input.metadata));
+  const task = openTask(input, threadId, skill.skillId, credentials?.organizationId);
 
-    // If no answer but had an error, include error in response
-    if (!finalAnswer && lastError) {
-      finalAnswer = `Error: ${lastError}`;
-    }
+  if (skill.errors.length > 0) {
+    const message = describeSkillErrors(skill.errors);
+    log.warn(message, { threadId });
+    taskRegistry.update(task.id, 'failed', { message, error: message });
+    return {
+      response: `Error: ${message}`,
+      threadId,
+      taskId: task.id,
+      taskState: task.status.state,
+      error: message,
+      errorCode: 'invalid_skill_params',
+      skillErrors: skill.errors,
+      status: 'failed',
+    };
+  }
 
-    // Return full execution state including code executions, subtasks, browser state
+  if (attachments.errors.length > 0) {
+    const message = describeAttachmentErrors(attachments.errors);
+    log.warn(message, { threadId });
+    taskRegistry.update(task.id, 'failed', { message, error: message });
     return {
-      response: finalAnswer,
-      variables,
+      response: `Error: ${message}`,
       threadId,
-      streamingContent: finalAnswer,
-      error: lastError,
-      codeExecutions: currentState.codeExecutions || [],
-      subtasks: currentState.subtasks || [],
-      browserState: currentState.browserState,
-      thoughts: currentState.thoughts,
-      status: currentState.status,
+      taskId: task.id,
+      taskState: task.status.state,
+      error: message,
+      errorCode: 'invalid_attachment',
+      status: 'failed',
     };
-  },
-  // Transform output for A2A response
-  (output: {
-    response?: string;
-    threadId?: string;
-    variables?: Record<string, unknown>;
-    error?: string;
-    codeExecutions?: CugaCodeExecutionEvent[];
-    subtasks?: CugaSubtask[];
-    browserState?: CugaBrowserScreenshot;
-    thoughts?: string;
-    status?: string;
-  }) => {
-    const response = output.response || '';
-    const artifacts = [];
-
-    // Always include the main result artifact
-    if (response) {
-      artifacts.push({
-        id: uuidv4(),
-        name: 'cuga-result',
-        description: 'CUGA execution result',
-        mimeType: 'text/plain',
-        parts: [{ type: 'text' as const, text: response }],
-      });
+  }
+
+  // Typed answer requested: the schema must be usable before anything runs
+  const structured = structuredOutputFromMetadata(input.metadata);
+  if (structured && 'error' in structured) {
+    log.warn(structured.error, { threadId });
+    taskRegistry.update(task.id, 'failed', { message: structured.error, error: structured.error });
+    return {
+      response: `Error: ${structured.error}`,
+      threadId,
+      taskId: task.id,
+      taskState: task.status.state,
+      error: structured.error,
+      errorCode: 'invalid_response_schema',
+      status: 'failed',
+    };
+  }
+
+  const quota = acquireQuota(credentials);
+  if ('refused' in quota) {
+    taskRegistry.update(task.id, 'failed', { message: quota.refused.message, error: quota.refused.message });
+    return {
+      response: `Error: ${quota.refused.message}`,
+      threadId,
+      taskId: task.id,
+      taskState: task.status.state,
+      error: quota.refused.message,
+      errorCode: quota.refused.reason,
+      retryAfter: quota.refused.retryAfterSeconds,
+      status: 'failed',
+    };
+  }
+  const upload = await uploadRequestAttachments(query, attachments.attachments, threadId, credentials);
+  if ('error' in upload) {
+    quota.lease.release();
+    taskRegistry.update(task.id, 'failed', { message: upload.error, error: upload.error });
+    return {
+      response: `Error: ${upload.error}`,
+      threadId,
+      taskId: task.id,
+      taskState: task.status.state,
+      error: upload.error,
+      errorCode: 'attachment_upload_failed',
+      status: 'failed',
+    };
+  }
+  const runId = await startRun(threadId, 'invoke', upload.query, { credentials, history });
+  const runLog = runLogger(runId, threadId, credentials, input.metadata);
+  taskRegistry.update(task.id, 'working', { runId });
+
+  let finalAnswer = '';
+  let variables = {};
+  let lastError: string | undefined;
+  let structuredOutput: CugaStructuredOutput | undefined;
+  const screenshots: CugaScreenshotFrame[] = [];
+
+  // Track full execution state for A2A response
+  let currentState: CugaAgentState = {
+    currentNode: 'ChatAgent',
+    query,
+    threadId,
+    runId,
+    streamingContent: '',
+    codeExecutions: [],
+    subtasks: [],
+    browserState: undefined,
+    attachments: upload.attachments,
+  };
+
+  // Collect all events from a CUGA stream
+  // Pass history for context in follow-up questions, auto_approve for autonomous execution
+  const collect = async (runQuery: string, runHistory: typeof history) => {
+    for await (const event of streamHub.tap(threadId, trackRun(runId, streamQuery({ query: runQuery, thread_id: threadId, history: runHistory, ...historyConfig, ...skill.settings, auto_approve: true, response_schema: structured?.schema as Record<string, unknown> | undefined }, credentials, runCancellations.signal(runId))))) {
+      runLog.debug(`Event: ${event.name}`, { data: event.data });
+
+      // Update state with each event to capture code executions, subtasks, etc.
+      currentState = applyCugaEvent(event, currentState);
+      addScreenshotFrame(screenshots, event);
+
+      if (event.name === 'Answer') {
+        finalAnswer = currentState.finalAnswer ?? event.data;
+        variables = currentState.variables || {};
+      } else if (event.name === 'Stopped') {
+        lastError = 'Execution stopped';
+        taskRegistry.update(task.id, 'canceled', { message: 'Execution stopped' });
+      }
     }
+  };
 
-    // Add code execution artifacts
-    if (output.codeExecutions && output.codeExecutions.length > 0) {
-      for (const codeExec of output.codeExecutions) {
-        artifacts.push({
-          id: uuidv4(),
-          name: `code-execution-${codeExec.id}`,
-          description: `Code execution (${codeExec.language || 'python'}) - ${codeExec.status}`,
-          mimeType: 'application/json',
-          parts: [
-            {
-              type: 'data' as const,
-              data: {
-                type: 'code-execution',
-                code: codeExec.code,
-                language: codeExec.language || 'python',
-                status: codeExec.status,
-                output: codeExec.output,
-                error: codeExec.error,
-                executionTimeMs: codeExec.executionTimeMs,
-                sandbox: codeExec.sandbox,
-              },
-            },
-          ],
-        });
+  try {
+    await collect(upload.query, history);
+
+    // Typed answer: validate, and re-ask with the violations within the repair budget
+    let conversation = [...history, { role: 'user' as const, content: upload.query }];
+    for (let attempt = 1; structured && finalAnswer && !lastError; attempt++) {
+      structuredOutput = checkStructuredAnswer(finalAnswer, structured, attempt);
+      if (structuredOutput.valid || attempt > structured.maxRepairs) break;
+      runLog.info(`Answer does not match the response schema, re-asking (${attempt}/${structured.maxRepairs})`, { errors: structuredOutput.errors });
+      const repair = repairQuery(structuredOutput);
+      const previousAnswer = finalAnswer;
+      conversation = [...conversation, { role: 'assistant' as const, content: previousAnswer }];
+      finalAnswer = '';
+      try {
+        await collect(repair, conversation);
+      } catch (error) {
+        // A failed re-ask leaves the last answer and its violations as the result
+        runLog.warn('Re-ask for a valid answer failed', error);
+      }
+      if (!finalAnswer) {
+        finalAnswer = previousAnswer;
+        break;
       }
+      conversation = [...conversation, { role: 'user' as const, content: repair }];
     }
+  } catch (error) {
+    runLog.error('Stream error', error);
+    lastError = error instanceof Error ? error.message : 'Stream error';
+  } finally {
+    quota.lease.release();
+  }
+
+  currentState = (await finishRun(runId, currentState, lastError)).state;
+  settleTask(task.id, currentState, lastError);
+
+  // If no answer but had an error, include error in response
+  if (!finalAnswer && lastError) {
+    finalAnswer = `Error: ${lastError}`;
+  }
+
+  // Return full execution state including code executions, subtasks, browser state
+  return {
+    response: finalAnswer,
+    variables,
+    threadId,
+    runId,
+    taskId: task.id,
+    taskState: task.status.state,
+    streamingContent: finalAnswer,
+    error: lastError,
+    usage: usageLedger.usage(runId),
+    codeExecutions: currentState.codeExecutions || [],
+    subtasks: currentState.subtasks || [],
+    browserState: currentState.browserState,
+    screenshots,
+    screenshotOptions: screenshotOptionsFromMetadata(input.metadata),
+    skill: skill.skillId ? { id: skill.skillId, params: skill.params, settings: skill.settings } : undefined,
+    attachments: upload.attachments,
+    structuredOutput,
+    thoughts: currentState.thoughts,
+    status: currentState.status,
+  };
+}
+
+/**
+ * Transform invoke output into the A2A response: result, structured output,
+ * code execution, subtask, browser state and screenshot artifacts
+ */
+function toA2AResult(output: {
+  response?: string;
+  threadId?: string;
+  runId?: string;
+  taskId?: string;
+  taskState?: string;
+  variables?: Record<string, unknown>;
+  error?: string;
+  errorCode?: string;
+  retryAfter?: number;
+  skillErrors?: Array<{ path: string; message: string }>;
+  skill?: { id: string; params: Record<string, unknown>; settings: CugaSkillSettings };
+  attachments?: CugaAttachment[];
+  structuredOutput?: CugaStructuredOutput;
+  usage?: CugaUsage;
+  codeExecutions?: CugaCodeExecutionEvent[];
+  subtasks?: CugaSubtask[];
+  browserState?: CugaBrowserScreenshot;
+  screenshots?: CugaScreenshotFrame[];
+  screenshotOptions?: ScreenshotArtifactOptions;
+  thoughts?: string;
+  status?: string;
+}) {
+  const response = output.response || '';
+  const artifacts = [];
+
+  // Always include the main result artifact
+  if (response) {
+    artifacts.push({
+      id: uuidv4(),
+      name: 'cuga-result',
+      description: 'CUGA execution result',
+      mimeType: 'text/plain',
+      parts: [{ type: 'text' as const, text: response }],
+    });
+  }
 
-    // Add subtasks artifact
-    if (output.subtasks && output.subtasks.length > 0) {
+  // Add the typed answer; data parts hold objects, so other JSON values are wrapped
+  const structured = output.structuredOutput;
+  if (structured && structured.data !== undefined) {
+    const data = structured.data !== null && typeof structured.data === 'object' && !Array.isArray(structured.data)
+      ? structured.data as Record<string, unknown>
+      : { value: structured.data };
+    artifacts.push({
+      id: uuidv4(),
+      name: 'structured-output',
+      description: structured.valid
+        ? `Answer matching the response schema${structured.name ? ` ${structured.name}` : ''}`
+        : `Answer with ${structured.errors.length} response schema violation(s)`,
+      mimeType: 'application/json',
+      parts: [{ type: 'data' as const, data }],
+    });
+  }
+
+  // Add code execution artifacts
+  if (output.codeExecutions && output.codeExecutions.length > 0) {
+    for (const codeExec of output.codeExecutions) {
       artifacts.push({
         id: uuidv4(),
-        name: 'subtasks',
-        description: `Task decomposition with ${output.subtasks.length} subtasks`,
+        name: `code-execution-${codeExec.id}`,
+        description: `Code execution (${codeExec.language || 'python'}) - ${codeExec.status}`,
         mimeType: 'application/json',
         parts: [
           {
             type: 'data' as const,
             data: {
-              type: 'subtasks',
-              subtasks: output.subtasks,
+              type: 'code-execution',
+              code: codeExec.code,
+              language: codeExec.language || 'python',
+              status: codeExec.status,
+              output: codeExec.output,
+              error: codeExec.error,
+              executionTimeMs: codeExec.executionTimeMs,
+              sandbox: codeExec.sandbox,
             },
           },
         ],
       });
     }
+  }
 
-    // Add browser state artifact
-    if (output.browserState) {
-      artifacts.push({
-        id: uuidv4(),
-        name: 'browser-state',
-        description: `Browser state at ${output.browserState.url}`,
-        mimeType: 'application/json',
-        parts: [
-          {
-            type: 'data' as const,
-            data: {
-              type: 'browser-state',
-              url: output.browserState.url,
-              screenshot: output.browserState.screenshot ? '[base64-image]' : undefined,
-              hasScreenshot: !!output.browserState.screenshot,
-              viewport: output.browserState.viewport,
-              elements: output.browserState.elements,
-            },
+  // Add subtasks artifact, with the dependency graph and critical path
+  if (output.subtasks && output.subtasks.length > 0) {
+    artifacts.push({
+      id: uuidv4(),
+      name: 'subtasks',
+      description: `Task decomposition with ${output.subtasks.length} subtasks`,
+      mimeType: 'application/json',
+      parts: [
+        {
+          type: 'data' as const,
+          data: {
+            type: 'subtasks',
+            subtasks: output.subtasks,
+            graph: subtaskGraph(output.subtasks),
           },
-        ],
-      });
-    }
+        },
+      ],
+    });
+  }
 
-    return {
-      response,
-      artifacts,
-      metadata: {
-        threadId: output.threadId,
-        variables: output.variables,
-        ...(output.error ? { error: output.error } : {}),
-        codeExecutions: output.codeExecutions,
-        subtasks: output.subtasks,
-        browserState: output.browserState,
-        thoughts: output.thoughts,
-        status: output.status,
-      },
-    };
-  },
-  // A2A streaming executor with auto-resume support for interrupts
-  async function* (input: { messages?: Array<{ role: string; content: string }>; threadId?: string; contextId?: string; metadata?: Record<string, unknown> }) {
-    const { query, threadId, history } = extractUserMessage(input);
+  // Add browser state artifact
+  if (output.browserState) {
+    artifacts.push({
+      id: uuidv4(),
+      name: 'browser-state',
+      description: `Browser state at ${output.browserState.url}`,
+      mimeType: 'application/json',
+      parts: [
+        {
+          type: 'data' as const,
+          data: {
+            type: 'browser-state',
+            url: output.browserState.url,
+            hasScreenshot: !!output.browserState.screenshot,
+            screenshotCount: output.screenshots?.length || 0,
+            viewport: output.browserState.viewport,
+            elements: output.browserState.elements,
+          },
+        },
+      ],
+    });
+  }
 
-    // Check if auto_approve is enabled (default true for autonomous execution)
-    const autoApprove = input.metadata?.auto_approve !== false;
-    const maxAutoResumes = 5; // Prevent infinite loops
-    let autoResumeCount = 0;
+  // Add screenshot timeline as image artifacts
+  if (output.screenshots && output.screenshots.length > 0) {
+    artifacts.push(...screenshotArtifacts(output.screenshots, output.screenshotOptions || screenshotOptionsFromMetadata(), output.runId));
+  }
 
-    console.log('[CUGA-Wrapper] A2A streaming with:', {
-      queryLength: query.length,
-      threadId,
-      historyLength: history.length,
-      autoApprove,
-    });
+  return {
+    response,
+    artifacts,
+    metadata: {
+      threadId: output.threadId,
+      runId: output.runId,
+      taskId: output.taskId,
+      taskState: output.taskState,
+      variables: output.variables,
+      ...(output.error ? { error: output.error } : {}),
+      ...(output.errorCode ? { errorCode: output.errorCode, retryAfter: output.retryAfter } : {}),
+      ...(output.skillErrors ? { skillErrors: output.skillErrors } : {}),
+      ...(output.skill ? { skill: output.skill } : {}),
+      ...(output.attachments?.length ? { attachments: output.attachments } : {}),
+      ...(structured ? { structuredOutput: { name: structured.name, valid: structured.valid, errors: structured.errors, attempts: structured.attempts } } : {}),
+      ...(output.usage ? { usage: output.usage } : {}),
+      codeExecutions: output.codeExecutions,
+      subtasks: output.subtasks,
+      browserState: output.browserState,
+      screenshots: output.screenshots?.map(describeFrame),
+      thoughts: output.thoughts,
+      status: output.status,
+    },
+  };
+}
 
-    if (!query) {
-      yield { type: 'text' as const, text: 'No query provided' };
-      return;
-    }
+/**
+ * A2A streaming executor with auto-resume support for interrupts
+ */
+async function* streamA2A(input: { messages?: ExecutorMessage[]; threadId?: string; contextId?: string; taskId?: string; metadata?: Record<string, unknown> }) {
+  const { query, threadId, history, historyConfig, skill, attachments } = extractUserMessage(input);
+
+  // Check if auto_approve is enabled (default true for autonomous execution)
+  const autoApprove = input.metadata?.auto_approve !== false;
+  const policy = autoApprove ? approvalPolicy : MANUAL_APPROVAL_POLICY;
+  let autoResumeCount = 0;
+  let nextResume: CugaResumeRequest | undefined;
+
+  log.info('A2A streaming', {
+    queryLength: query.length,
+    threadId,
+    historyLength: history.length,
+    historyStrategy: historyConfig.history_strategy,
+    skill: skill.skillId,
+    autoApprove,
+  });
 
-    // Resolve credentials from Runtime API (multi-tenant support)
-    const apiKey = extractApiKey(input);
-    const credentials = await resolveCredentials(apiKey);
+  if (!query) {
+    yield { type: 'text' as const, text: 'No query provided' };
+    return;
+  }
 
-    let currentState: CugaAgentState = {
-      currentNode: 'ChatAgent',
-      query,
-      threadId,
-      streamingContent: '',
-    };
+  // Resolve credentials from Runtime API (multi-tenant support); the task belongs to its tenant
+  const apiKey = extractApiKey(input);
+  const credentials = await resolveCredentials(apiKey, resolveTaskType(input.metadata));
+  const task = openTask(input, threadId, skill.skillId, credentials?.organizationId);
 
-    // Helper function to process stream events
-    async function* processStream(
-      eventStream: AsyncGenerator<CugaSSEEvent>
-    ): AsyncGenerator<{ type: 'text' | 'error'; text?: string; error?: string }> {
-      for await (const event of eventStream) {
-        const updates = transformCugaEvent(event, currentState);
-        currentState = { ...currentState, ...updates };
-
-        // Map CUGA events to A2A streaming format
-        if (event.name === 'Answer') {
-          const answer = currentState.finalAnswer || event.data;
-          yield { type: 'text' as const, text: answer };
-        } else if (event.name === 'Stopped') {
-          yield { type: 'error' as const, error: 'Execution stopped by user' };
-        } else if (event.name === '__interrupt__') {
-          // Handle interrupt - either auto-resume or yield HITL request
-          if (autoApprove && autoResumeCount < maxAutoResumes) {
-            autoResumeCount++;
-            console.log(`[CUGA-Wrapper] Auto-resuming after interrupt (${autoResumeCount}/${maxAutoResumes})`);
-            yield { type: 'text' as const, text: `[Auto-approving action ${autoResumeCount}...]` };
-            // Signal that we need to resume
-            return;
-          }
-          yield {
-            type: 'text' as const,
-            text: `[HITL Required] ${currentState.hitlRequests?.[0]?.message || 'Human approval needed'}`
-          };
-        } else if (currentState.streamingContent) {
-          yield { type: 'text' as const, text: currentState.streamingContent };
-          currentState.streamingContent = '';
-        }
-      }
-    }
+  if (skill.errors.length > 0) {
+    const message = describeSkillErrors(skill.errors);
+    taskRegistry.update(task.id, 'failed', { message, error: message });
+    yield { type: 'error' as const, error: message };
+    return;
+  }
 
-    try {
-      // Initial stream with credentials
-      let needsResume = false;
-      for await (const result of processStream(streamQuery({ query, thread_id: threadId, api_mode: true, history, auto_approve: autoApprove }, credentials))) {
-        yield result;
-        // Check if we hit an interrupt that needs auto-resume
-        if (result.type === 'text' && result.text?.includes('[Auto-approving action')) {
-          needsResume = true;
-        }
-      }
+  if (attachments.errors.length > 0) {
+    const message = describeAttachmentErrors(attachments.errors);
+    taskRegistry.update(task.id, 'failed', { message, error: message });
+    yield { type: 'error' as const, error: message };
+    return;
+  }
 
-      // Auto-resume loop for interrupts
-      while (needsResume && autoResumeCount <= maxAutoResumes) {
-        needsResume = false;
-        console.log(`[CUGA-Wrapper] Resuming execution for thread ${threadId}`);
+  const quota = acquireQuota(credentials);
+  if ('refused' in quota) {
+    taskRegistry.update(task.id, 'failed', { message: quota.refused.message, error: quota.refused.message });
+    yield { type: 'error' as const, error: quota.refused.message };
+    return;
+  }
+  const upload = await uploadRequestAttachments(query, attachments.attachments, threadId, credentials);
+  if ('error' in upload) {
+    quota.lease.release();
+    taskRegistry.update(task.id, 'failed', { message: upload.error, error: upload.error });
+    yield { type: 'error' as const, error: upload.error };
+    return;
+  }
+  const runId = await startRun(threadId, 'a2a-stream', upload.query, { credentials, history });
+  const runLog = runLogger(runId, threadId, credentials, input.metadata);
+  const run = clientBoundRun(threadId, runId);
+  taskRegistry.update(task.id, 'working', { runId });
+  let streamError: string | undefined;
+  let streamEnded = false;
+
+  let currentState: CugaAgentState = {
+    currentNode: 'ChatAgent',
+    query,
+    threadId,
+    runId,
+    streamingContent: '',
+    attachments: upload.attachments,
+  };
 
-        // Resume with approve action and credentials
-        for await (const result of processStream(resumeExecution({ thread_id: threadId, action: 'approve' }, credentials))) {
-          yield result;
-          if (result.type === 'text' && result.text?.includes('[Auto-approving action')) {
-            needsResume = true;
-          }
+  // Helper function to process stream events
+  async function* processStream(
+    eventStream: AsyncGenerator<CugaSSEEvent>
+  ): AsyncGenerator<{ type: 'text' | 'error'; text?: string; error?: string }> {
+    for await (const event of eventStream) {
+      currentState = applyCugaEvent(event, currentState);
+
+      // Map CUGA events to A2A streaming format
+      if (event.name === 'Answer') {
+        const answer = currentState.finalAnswer || event.data;
+        yield { type: 'text' as const, text: answer };
+      } else if (event.name === 'Stopped') {
+        taskRegistry.update(task.id, 'canceled', { message: 'Execution stopped by user' });
+        yield { type: 'error' as const, error: 'Execution stopped by user' };
+      } else if (event.name === '__interrupt__') {
+        // Handle interrupt - either auto-resume per approval policy or yield HITL request
+        const outcome = decideInterrupt(currentState, policy, credentials, autoResumeCount);
+        currentState = outcome.state;
+        if (outcome.resume && outcome.decision) {
+          autoResumeCount++;
+          const verb = outcome.resume.action === 'reject' ? 'Auto-rejecting' : 'Auto-approving';
+          runLog.info(`${verb} interrupt ${outcome.decision.requestId} (${autoResumeCount}/${policy.maxAutoApprovals}): ${outcome.decision.reason}`);
+          yield { type: 'text' as const, text: `[${verb} action ${autoResumeCount}...]` };
+          // Signal that we need to resume
+          nextResume = outcome.resume;
+          return;
+        }
+        if (policy.maxAutoApprovals > 0 && autoResumeCount >= policy.maxAutoApprovals) {
+          runLog.warn(`Max auto-approvals (${policy.maxAutoApprovals}) reached`);
+          yield { type: 'text' as const, text: '[Max auto-approvals reached. Manual intervention may be required.]' };
         }
+        const pendingRequest = currentState.hitlRequests?.find((r) => r.id === outcome.decision?.requestId);
+        taskRegistry.update(task.id, 'input-required', { message: pendingRequest?.message || 'Human approval needed' });
+        yield {
+          type: 'text' as const,
+          text: `[HITL Required] ${pendingRequest?.message || 'Human approval needed'}`
+        };
+      } else if (currentState.streamingContent) {
+        yield { type: 'text' as const, text: currentState.streamingContent };
+        currentState.streamingContent = '';
       }
+    }
+  }
 
-      if (autoResumeCount >= maxAutoResumes) {
-        console.warn(`[CUGA-Wrapper] Max auto-resumes (${maxAutoResumes}) reached for thread ${threadId}`);
-        yield { type: 'text' as const, text: '[Max auto-approvals reached. Manual intervention may be required.]' };
-      }
-    } catch (error) {
-      console.error('[CUGA-Wrapper] A2A stream error:', error);
-      yield { type: 'error' as const, error: error instanceof Error ? error.message : 'Stream error' };
+  try {
+    // Initial stream with credentials
+    yield* processStream(run.stream(streamQuery({ query: upload.query, thread_id: threadId, history, ...historyConfig, ...skill.settings, auto_approve: autoApprove }, credentials, runCancellations.signal(runId))));
+
+    // Auto-resume loop for interrupts the approval policy answered
+    while (nextResume) {
+      const resume = nextResume;
+      nextResume = undefined;
+      runLog.info('Resuming execution');
+      taskRegistry.update(task.id, 'working');
+
+      // Resume with the policy decision and credentials
+      yield* processStream(run.stream(resumeExecution(resume, credentials, runCancellations.signal(runId))));
     }
-  },
-  // Platform streaming executor for CopilotKit LangGraphAgent with auto-resume support
-  async function* (input: { messages?: Array<{ role: string; content: string }>; threadId?: string; contextId?: string; metadata?: Record<string, unknown> }): AsyncGenerator<LangGraphStreamEvent> {
-    const { query, threadId, history } = extractUserMessage(input);
+    streamEnded = true;
+  } catch (error) {
+    streamEnded = true;
+    runLog.error('A2A stream error', error);
+    streamError = error instanceof Error ? error.message : 'Stream error';
+    yield { type: 'error' as const, error: streamError };
+  } finally {
+    // Closed before the stream ended: the client went away
+    if (streamEnded) {
+      await run.end();
+    } else {
+      streamError = await run.abandon((event) => {
+        currentState = applyCugaEvent(event, currentState);
+      });
+    }
+    quota.lease.release();
+    const finished = await finishRun(runId, currentState, streamError);
+    currentState = finished.state;
+    if (finished.status === 'canceled') {
+      taskRegistry.update(task.id, 'canceled', { message: 'Client disconnected' });
+    } else {
+      settleTask(task.id, currentState, streamError);
+    }
+  }
+}
 
-    // Check if auto_approve is enabled (default true for autonomous execution)
-    const autoApprove = input.metadata?.auto_approve !== false;
-    const maxAutoResumes = 5;
-    let autoResumeCount = 0;
+/**
+ * Platform streaming executor for CopilotKit LangGraphAgent with auto-resume support
+ */
+async function* streamPlatform(input: { messages?: ExecutorMessage[]; threadId?: string; contextId?: string; metadata?: Record<string, unknown> }): AsyncGenerator<LangGraphStreamEvent> {
+  const { query, threadId, history, historyConfig, skill, attachments } = extractUserMessage(input);
+
+  // Check if auto_approve is enabled (default true for autonomous execution)
+  const autoApprove = input.metadata?.auto_approve !== false;
+  const policy = autoApprove ? approvalPolicy : MANUAL_APPROVAL_POLICY;
+  let autoResumeCount = 0;
+  let nextResume: CugaResumeRequest | undefined;
+
+  log.info('Platform streaming', {
+    queryLength: query.length,
+    threadId,
+    historyLength: history.length,
+    historyStrategy: historyConfig.history_strategy,
+    skill: skill.skillId,
+    autoApprove,
+  });
 
-    console.log('[CUGA-Wrapper] Platform streaming with:', {
-      queryLength: query.length,
-      threadId,
-      historyLength: history.length,
-      autoApprove,
-    });
+  if (!query) {
+    yield {
+      nodeName: 'Error',
+      state: { error: 'No query provided' },
+      isFinal: true,
+    };
+    return;
+  }
 
-    if (!query) {
-      yield {
-        nodeName: 'Error',
-        state: { error: 'No query provided' },
-        isFinal: true,
-      };
-      return;
-    }
+  if (skill.errors.length > 0) {
+    yield {
+      nodeName: 'Error',
+      state: {
+        error: describeSkillErrors(skill.errors),
+        errorCode: 'invalid_skill_params',
+        skillErrors: skill.errors,
+        status: 'failed',
+      },
+      isFinal: true,
+    };
+    return;
+  }
 
-    // Resolve credentials from Runtime API (multi-tenant support)
-    const apiKey = extractApiKey(input);
-    const credentials = await resolveCredentials(apiKey);
+  if (attachments.errors.length > 0) {
+    yield {
+      nodeName: 'Error',
+      state: {
+        error: describeAttachmentErrors(attachments.errors),
+        errorCode: 'invalid_attachment',
+        attachmentErrors: attachments.errors,
+        status: 'failed',
+      },
+      isFinal: true,
+    };
+    return;
+  }
 
-    // Initialize state
-    let state: CugaAgentState = {
-      currentNode: 'ChatAgent',
-      query,
-      threadId,
-      streamingContent: '',
+  // Resolve credentials from Runtime API (multi-tenant support)
+  const apiKey = extractApiKey(input);
+  const credentials = await resolveCredentials(apiKey, resolveTaskType(input.metadata));
+  const quota = acquireQuota(credentials);
+  if ('refused' in quota) {
+    yield {
+      nodeName: 'Error',
+      state: {
+        error: quota.refused.message,
+        errorCode: quota.refused.reason,
+        retryAfter: quota.refused.retryAfterSeconds,
+        status: 'failed',
+      },
+      isFinal: true,
+    };
+    return;
+  }
+  const upload = await uploadRequestAttachments(query, attachments.attachments, threadId, credentials);
+  if ('error' in upload) {
+    quota.lease.release();
+    yield {
+      nodeName: 'Error',
+      state: { error: upload.error, errorCode: 'attachment_upload_failed', status: 'failed' },
+      isFinal: true,
     };
+    return;
+  }
+  const runId = await startRun(threadId, 'platform-stream', upload.query, { credentials, history });
+  const runLog = runLogger(runId, threadId, credentials, input.metadata);
+  const run = clientBoundRun(threadId, runId);
+  let streamError: string | undefined;
+  let streamEnded = false;
+
+  // Full state per update (default) or JSON Patch deltas, as negotiated by the client
+  const stateMode = stateModeFromMetadata(input.metadata);
+  const stateEncoder = new StateStreamEncoder(stateMode.mode, stateMode.snapshotInterval);
+
+  // Initialize state
+  let state: CugaAgentState = {
+    currentNode: 'ChatAgent',
+    query,
+    threadId,
+    runId,
+    streamingContent: '',
+    attachments: upload.attachments,
+  };
 
-    // Helper to process stream and detect interrupts
-    async function* processStream(
-      eventStream: AsyncGenerator<CugaSSEEvent>
-    ): AsyncGenerator<{ event: LangGraphStreamEvent; needsResume: boolean }> {
-      for await (const event of eventStream) {
-        const updates = transformCugaEvent(event, state);
-        state = { ...state, ...updates };
+  // Helper to process stream and detect interrupts
+  async function* processStream(
+    eventStream: AsyncGenerator<CugaSSEEvent>
+  ): AsyncGenerator<LangGraphStreamEvent> {
+    for await (const event of eventStream) {
+      state = applyCugaEvent(event, state);
 
-        console.log(`[CUGA-Wrapper] Platform stream update from node: ${event.name}`);
+      runLog.debug(`Platform stream update from node: ${event.name}`, { data: event.data });
 
-        // Check for interrupt that needs auto-resume
-        if (event.name === '__interrupt__' && autoApprove && autoResumeCount < maxAutoResumes) {
+      // Check for interrupt that the approval policy answers automatically
+      if (event.name === '__interrupt__') {
+        const outcome = decideInterrupt(state, policy, credentials, autoResumeCount);
+        state = outcome.state;
+        if (outcome.resume && outcome.decision) {
           autoResumeCount++;
-          console.log(`[CUGA-Wrapper] Platform auto-resuming after interrupt (${autoResumeCount}/${maxAutoResumes})`);
+          const verb = outcome.resume.action === 'reject' ? 'Auto-rejecting' : 'Auto-approving';
+          runLog.info(`Platform ${verb.toLowerCase()} interrupt ${outcome.decision.requestId} (${autoResumeCount}/${policy.maxAutoApprovals}): ${outcome.decision.reason}`);
           yield {
-            event: {
-              nodeName: 'AutoResume',
-              state: { ...state, autoResumeCount, message: `Auto-approving action ${autoResumeCount}...` },
-              isFinal: false,
-            },
-            needsResume: true,
+            nodeName: 'AutoResume',
+            state: stateEncoder.encode({ ...state, autoResumeCount, approvalDecision: outcome.decision, message: `${verb} action ${autoResumeCount}...` }),
+            isFinal: false,
           };
+          nextResume = outcome.resume;
           return;
         }
-
-        // Yield the update event in LangGraph Platform format
-        yield {
-          event: {
-            nodeName: event.name,
-            state: { ...state },
-            isFinal: event.name === 'Answer',
-          },
-          needsResume: false,
-        };
-      }
-    }
-
-    try {
-      // Initial stream with credentials
-      let needsResume = false;
-      for await (const { event, needsResume: resume } of processStream(streamQuery({ query, thread_id: threadId, api_mode: true, history, auto_approve: autoApprove }, credentials))) {
-        yield event;
-        if (resume) {
-          needsResume = true;
-        }
-      }
-
-      // Auto-resume loop for interrupts
-      while (needsResume && autoResumeCount <= maxAutoResumes) {
-        needsResume = false;
-        console.log(`[CUGA-Wrapper] Platform resuming execution for thread ${threadId}`);
-
-        // Resume with credentials
-        for await (const { event, needsResume: resume } of processStream(resumeExecution({ thread_id: threadId, action: 'approve' }, credentials))) {
-          yield event;
-          if (resume) {
-            needsResume = true;
-          }
+        if (policy.maxAutoApprovals > 0 && autoResumeCount >= policy.maxAutoApprovals) {
+          runLog.warn(`Platform max auto-approvals (${policy.maxAutoApprovals}) reached`);
+          yield {
+            nodeName: 'Warning',
+            state: stateEncoder.encode({ ...state, warning: 'Max auto-approvals reached. Manual intervention may be required.' }),
+            isFinal: false,
+          };
         }
       }
 
-      if (autoResumeCount >= maxAutoResumes) {
-        console.warn(`[CUGA-Wrapper] Platform max auto-resumes (${maxAutoResumes}) reached for thread ${threadId}`);
-        yield {
-          nodeName: 'Warning',
-          state: { ...state, warning: 'Max auto-approvals reached. Manual intervention may be required.' },
-          isFinal: false,
-        };
-      }
-    } catch (error) {
-      console.error('[CUGA-Wrapper] Platform stream error:', error);
+      // Yield the update event in LangGraph Platform format
+      const isFinal = event.name === 'Answer';
       yield {
-        nodeName: 'Error',
-        state: {
-          error: error instanceof Error ? error.message : 'Stream error',
-          status: 'failed',
-        },
-        isFinal: true,
+        nodeName: event.name,
+        state: stateEncoder.encode({ ...state, eventId: streamHub.lastEventId(threadId) }, { forceSnapshot: isFinal }),
+        isFinal,
       };
     }
+  }
+
+  try {
+    // Initial stream with credentials
+    yield* processStream(run.stream(streamQuery({ query: upload.query, thread_id: threadId, history, ...historyConfig, ...skill.settings, auto_approve: autoApprove }, credentials, runCancellations.signal(runId))));
+
+    // Auto-resume loop for interrupts the approval policy answered
+    while (nextResume) {
+      const resume = nextResume;
+      nextResume = undefined;
+      runLog.info('Platform resuming execution');
+
+      // Resume with the policy decision and credentials
+      yield* processStream(run.stream(resumeExecution(resume, credentials, runCancellations.signal(runId))));
+    }
+    streamEnded = true;
+  } catch (error) {
+    streamEnded = true;
+    runLog.error('Platform stream error', error);
+    streamError = error instanceof Error ? error.message : 'Stream error';
+    yield {
+      nodeName: 'Error',
+      state: stateEncoder.encode({
+        error: streamError,
+        status: 'failed',
+      }, { forceSnapshot: true }),
+      isFinal: true,
+    };
+  } finally {
+    // Closed before the stream ended: the client went away
+    if (streamEnded) {
+      await run.end();
+    } else {
+      streamError = await run.abandon((event) => {
+        state = applyCugaEvent(event, state);
+      });
+    }
+    quota.lease.release();
+    await finishRun(runId, state, streamError);
+  }
+}
+
+// Create unified server
+const { app, start } = createUnifiedServer(
+  {
+    name: 'cuga_generalist',
+    description: 'CUGA - Configurable Universal Generalist Agent. Provides browser automation, API orchestration, code execution, and task decomposition capabilities.',
+    baseUrl: BASE_URL,
+    port: PORT,
+    host: HOST,
+    skills: AGENT_SKILLS,
+    tags: ['browser', 'api', 'code', 'planning', 'generalist', 'cuga'],
+    supportsStreaming: true,
+    // Generalist Agent Capabilities - tells orchestrator CUGA can handle complete tasks autonomously
+    autonomousExecution: true, // Can handle complete tasks end-to-end
+    taskDecomposition: true, // Has internal task decomposition (TaskDecompositionAgent)
+    contextPreservation: true, // Maintains context via VariablesManager
+    codeExecution: true, // Has CodeAgent with sandbox execution
+    browserAutomation: true, // Has BrowserPlannerAgent + ActionAgent
+    memoryEnabled: true, // Has memory system for learning
+    multiTenancyAware: false, // CUGA is stateless, doesn't know about Fabric tenancy
+    maxAutonomyLevel: 'task', // Can handle complete tasks autonomously
   },
+  invokeCuga,
+  toA2AResult,
+  streamA2A,
+  streamPlatform,
 );
 
 // Add CUGA-specific endpoints
 
+/**
+ * Request context shape used by the read-only CUGA routes
+ */
+type RouteContext = {
+  req: { param: (name: string) => string; query: (name: string) => string | undefined; header: (name: string) => string | undefined };
+  json: (data: unknown, status?: number) => Response;
+};
+
+/**
+ * Routes that operate the wrapper or expose data across tenants: backend
+ * pool, credential cache, quotas, usage and persisted runs (whose screenshots
+ * their own organization may also fetch)
+ */
+const ADMIN_ROUTES = ['/cuga/backends/*', '/cuga/credentials/*', '/cuga/quotas', '/cuga/usage/*', '/cuga/runs/:id', '/cuga/runs/:id/events', '/cuga/runs/:id/state', '/cuga/threads/:id/runs'];
+
+/**
+ * Whether a request carries the admin token (compared in constant time)
+ */
+function isAdminToken(token: string | undefined): boolean {
+  if (!ADMIN_TOKEN || !token) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(ADMIN_TOKEN));
+}
+
+// Admin routes need X-CUGA-Admin-Token, and are disabled without CUGA_ADMIN_TOKEN
+for (const path of ADMIN_ROUTES) {
+  app.use(path, async (c: { req: { header: (name: string) => string | undefined }; json: (data: unknown, status?: number) => Response }, next: () => Promise<void>) => {
+    if (!ADMIN_TOKEN) {
+      return c.json({ error: 'admin routes are disabled; set CUGA_ADMIN_TOKEN to enable them' }, 403);
+    }
+    if (!isAdminToken(c.req.header('X-CUGA-Admin-Token'))) {
+      return c.json({ error: 'invalid admin token' }, 401);
+    }
+    await next();
+  });
+}
+
 // Health check that proxies to CUGA
 app.get('/cuga/health', async (c: { json: (data: unknown) => Response }) => {
   const health = await checkHealth();
@@ -912,48 +1681,57 @@ app.get('/cuga/health', async (c: { json: (data: unknown) => Response }) => {
 });
 
 // Stop execution endpoint
-app.post('/cuga/stop', async (c: { req: { json: () => Promise<{ thread_id?: string }> }; json: (data: unknown, status?: number) => Response }) => {
-  const body = await c.req.json();
+app.post('/cuga/stop', async (c: { req: { json: () => Promise<{ thread_id?: string }>; header: (name: string) => string | undefined }; json: (data: unknown, status?: number) => Response }) => {
+  const body = await c.req.json().catch(() => undefined);
+  if (!body || typeof body !== 'object') {
+    return c.json({ error: 'invalid JSON body' }, 400);
+  }
   const threadId = body.thread_id;
   if (!threadId) {
     return c.json({ error: 'thread_id required' }, 400);
   }
-  await stopExecution(threadId);
-  return c.json({ status: 'stopped' });
-});
-
-// Resume execution endpoint (for human-in-the-loop)
-app.post('/cuga/resume', async (c: { req: { json: () => Promise<{ thread_id?: string; action?: string; modified_value?: string }> }; json: (data: unknown, status?: number) => Response }) => {
-  const body = await c.req.json();
-  const { thread_id, action, modified_value } = body;
-
-  if (!thread_id || !action) {
-    return c.json({ error: 'thread_id and action required' }, 400);
+  if (!(await mayAccessThread(c, threadId))) {
+    return c.json({ error: 'thread not found' }, 404);
   }
-
-  // Validate action type
-  const validActions = ['approve', 'reject', 'modify'] as const;
-  if (!validActions.includes(action as typeof validActions[number])) {
-    return c.json({ error: 'action must be approve, reject, or modify' }, 400);
+  try {
+    await stopExecution(threadId);
+  } catch (error) {
+    log.error('Failed to stop execution', { threadId, error });
+    return c.json({ error: error instanceof Error ? error.message : 'Failed to stop execution' }, 503);
   }
+  return c.json({ status: 'stopped' });
+});
 
-  // Stream response
+/**
+ * Build an SSE response from a thread's buffered events
+ *
+ * The client counts as listening to the thread while connected, so its runs
+ * are canceled if it disconnects and does not come back (see cancellation.ts).
+ */
+function sseResponse(threadId: string, events: AsyncGenerator<BufferedEvent>, headers: Record<string, string> = {}): Response {
+  let clientGone = false;
   const stream = new ReadableStream({
     async start(controller) {
       const encoder = new TextEncoder();
+      runCancellations.connect(threadId);
       try {
-        for await (const event of resumeExecution({
-          thread_id,
-          action: action as 'approve' | 'reject' | 'modify',
-          modified_value
-        })) {
-          const data = `event: ${event.name}\ndata: ${event.data}\n\n`;
-          controller.enqueue(encoder.encode(data));
+        for await (const buffered of events) {
+          if (clientGone) break;
+          controller.enqueue(encoder.encode(formatSSE(buffered)));
         }
+      } catch (error) {
+        log.error('SSE stream error', { threadId, error });
       } finally {
-        controller.close();
+        if (!clientGone) {
+          runCancellations.done(threadId);
+          controller.close();
+        }
       }
     },
+    cancel() {
+      clientGone = true;
+      runCancellations.disconnect(threadId);
+    },
   });
 
   return new Response(stream, {
@@ -961,12 +1739,944 @@ app.post('/cuga/resume', async (c: { req: { json: () => Promise<{ thread_id?: st
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
+      ...headers,
     },
   });
-});
+}
+
+/**
+ * AG-UI RunAgentInput (the fields the wrapper uses)
+ */
+interface AgUiRunInput {
+  threadId?: string;
+  runId?: string;
+  messages?: Array<{ id?: string; role: string; content?: string }>;
+  forwardedProps?: Record<string, unknown>;
+}
+
+/**
+ * Run CUGA and emit native AG-UI events
+ *
+ * Mirrors the A2A streaming executor (credentials, quotas, approval policy,
+ * run recording) but reports progress as AG-UI events. Aborting
+ * `clientSignal` starts the disconnect grace period of the run.
+ */
+async function* streamAgUiRun(input: AgUiRunInput, apiKeyHeader?: string, clientSignal?: AbortSignal): AsyncGenerator<AgUiEvent> {
+  const metadata = input.forwardedProps || {};
+  const { query, threadId, history, historyConfig, skill } = extractUserMessage({
+    messages: (input.messages || []).map((m) => ({ role: m.role, content: m.content || '' })),
+    threadId: input.threadId,
+    metadata,
+  });
 
-// Start the server
-start();
+  const autoApprove = metadata.auto_approve !== false;
+  const policy = autoApprove ? approvalPolicy : MANUAL_APPROVAL_POLICY;
+  let autoResumeCount = 0;
+  let nextResume: CugaResumeRequest | undefined;
+
+  if (!query) {
+    const emitter = new AgUiEventEmitter(threadId, input.runId || uuidv4());
+    yield* emitter.runError('No query provided', 'invalid_input');
+    return;
+  }
+
+  if (skill.errors.length > 0) {
+    const emitter = new AgUiEventEmitter(threadId, input.runId || uuidv4());
+    yield* emitter.runError(describeSkillErrors(skill.errors), 'invalid_skill_params');
+    return;
+  }
+
+  const apiKey = extractApiKey({ metadata: apiKeyHeader ? { authorization: apiKeyHeader, ...metadata } : metadata });
+  const credentials = await resolveCredentials(apiKey, resolveTaskType(metadata));
+  const quota = acquireQuota(credentials);
+  if ('refused' in quota) {
+    const emitter = new AgUiEventEmitter(threadId, input.runId || uuidv4());
+    yield* emitter.runError(quota.refused.message, quota.refused.reason);
+    return;
+  }
+
+  // The client's run ID only labels the AG-UI events; runs are stored under IDs of our own
+  const runId = await startRun(threadId, 'agui-stream', query, { credentials, history });
+  const stateMode = stateModeFromMetadata(metadata);
+  const emitter = new AgUiEventEmitter(threadId, input.runId || runId, stateMode.snapshotInterval);
+  const run = clientBoundRun(threadId, runId);
+  const onClientGone = () => run.disconnect();
+  clientSignal?.addEventListener('abort', onClientGone, { once: true });
+  let streamError: string | undefined;
+  let streamEnded = false;
+  let state: CugaAgentState = {
+    currentNode: 'ChatAgent',
+    query,
+    threadId,
+    runId,
+    streamingContent: '',
+  };
+
+  const runLog = runLogger(runId, threadId, credentials, metadata);
+  runLog.info('AG-UI run', {
+    queryLength: query.length,
+    historyLength: history.length,
+    skill: skill.skillId,
+    autoApprove,
+  });
+
+  async function* processStream(eventStream: AsyncGenerator<CugaSSEEvent>): AsyncGenerator<AgUiEvent> {
+    for await (const event of eventStream) {
+      const previous = state;
+      state = applyCugaEvent(event, state);
+
+      if (event.name === '__interrupt__') {
+        const outcome = decideInterrupt(state, policy, credentials, autoResumeCount);
+        state = outcome.state;
+        yield* emitter.fromCugaEvent(event, previous, state);
+        if (outcome.resume && outcome.decision) {
+          autoResumeCount++;
+          yield* emitter.custom('auto_resume', { count: autoResumeCount, decision: outcome.decision });
+          nextResume = outcome.resume;
+          return;
+        }
+        continue;
+      }
+      yield* emitter.fromCugaEvent(event, previous, state);
+    }
+  }
+
+  yield* emitter.runStarted(state);
+  try {
+    yield* processStream(run.stream(streamQuery({ query, thread_id: threadId, history, ...historyConfig, ...skill.settings, auto_approve: autoApprove }, credentials, runCancellations.signal(runId))));
+
+    while (nextResume) {
+      const resume = nextResume;
+      nextResume = undefined;
+      yield* processStream(run.stream(resumeExecution(resume, credentials, runCancellations.signal(runId))));
+    }
+    streamEnded = true;
+    yield* emitter.runFinished(state);
+  } catch (error) {
+    streamEnded = true;
+    runLog.error('AG-UI stream error', error);
+    streamError = error instanceof Error ? error.message : 'Stream error';
+    yield* emitter.runError(streamError);
+  } finally {
+    clientSignal?.removeEventListener('abort', onClientGone);
+    // Closed before the stream ended: the client went away
+    if (streamEnded) {
+      await run.end();
+    } else {
+      streamError = await run.abandon((event) => {
+        state = applyCugaEvent(event, state);
+      });
+    }
+    quota.lease.release();
+    await finishRun(runId, state, streamError);
+  }
+}
+
+// Native AG-UI endpoint: accepts RunAgentInput, streams AG-UI events as SSE
+app.post('/cuga/agui', async (c: { req: { json: () => Promise<AgUiRunInput>; header: (name: string) => string | undefined }; json: (data: unknown, status?: number) => Response }) => {
+  const input = await c.req.json().catch(() => undefined);
+  if (!input || typeof input !== 'object') {
+    return c.json({ error: 'invalid JSON body' }, 400);
+  }
+  const clientGone = new AbortController();
+  const events = streamAgUiRun(input, c.req.header('Authorization') || c.req.header('X-API-Key'), clientGone.signal);
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      try {
+        // After a disconnect the run goes on until canceled, and clients reconnecting
+        // within the grace period follow it via /cuga/threads/:id/stream
+        for await (const event of events) {
+          if (clientGone.signal.aborted) break;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+      } catch (error) {
+        log.error('AG-UI SSE error', { threadId: input.threadId, error });
+      } finally {
+        if (!clientGone.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      clientGone.abort();
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+});
+
+/**
+ * Run CUGA for an OpenAI chat-completions request and emit completion chunks
+ *
+ * Mirrors the AG-UI executor (credentials, quotas, approval policy, run
+ * recording). Requests that cannot start throw a ChatCompletionError before
+ * the first chunk; aborting `clientSignal` starts the disconnect grace period
+ * of the run.
+ */
+async function* streamChatCompletion(request: ChatCompletionRequest, apiKey?: string, clientSignal?: AbortSignal): AsyncGenerator<ChatCompletionChunk> {
+  const metadata = request.metadata || {};
+  const { query, threadId, history, historyConfig, skill } = extractUserMessage({
+    messages: toWrapperMessages(request.messages),
+    threadId: typeof metadata.thread_id === 'string' ? metadata.thread_id : undefined,
+    metadata,
+  });
+
+  if (!query) {
+    throw new ChatCompletionError('No query provided', 400, 'invalid_request_error', 'invalid_value', 'messages');
+  }
+  if (skill.errors.length > 0) {
+    throw new ChatCompletionError(describeSkillErrors(skill.errors), 400, 'invalid_request_error', 'invalid_skill_params', 'metadata.skill_params');
+  }
+
+  const autoApprove = metadata.auto_approve !== false;
+  const policy = autoApprove ? approvalPolicy : MANUAL_APPROVAL_POLICY;
+  let autoResumeCount = 0;
+  let nextResume: CugaResumeRequest | undefined;
+
+  const credentials = await resolveCredentials(apiKey, resolveTaskType(metadata));
+  const quota = acquireQuota(credentials);
+  if ('refused' in quota) {
+    const code = quota.refused.reason === 'budget' ? 'insufficient_quota' : quota.refused.reason;
+    throw new ChatCompletionError(quota.refused.message, 429, 'rate_limit_error', code, null, quota.refused.retryAfterSeconds);
+  }
+
+  const runId = await startRun(threadId, 'openai-chat', query, { credentials, history });
+  const emitter = new ChatCompletionEmitter(threadId, runId, request.model || 'cuga');
+  const run = clientBoundRun(threadId, runId);
+  const onClientGone = () => run.disconnect();
+  clientSignal?.addEventListener('abort', onClientGone, { once: true });
+  let streamError: string | undefined;
+  let streamEnded = false;
+  let state: CugaAgentState = {
+    currentNode: 'ChatAgent',
+    query,
+    threadId,
+    runId,
+    streamingContent: '',
+  };
+
+  const runLog = runLogger(runId, threadId, credentials, metadata);
+  runLog.info('Chat completion', {
+    queryLength: query.length,
+    historyLength: history.length,
+    skill: skill.skillId,
+    user: request.user,
+    autoApprove,
+  });
+
+  async function* processStream(eventStream: AsyncGenerator<CugaSSEEvent>): AsyncGenerator<ChatCompletionChunk> {
+    for await (const event of eventStream) {
+      state = applyCugaEvent(event, state);
+
+      if (event.name === '__interrupt__') {
+        const outcome = decideInterrupt(state, policy, credentials, autoResumeCount);
+        state = outcome.state;
+        if (outcome.resume && outcome.decision) {
+          autoResumeCount++;
+          const verb = outcome.resume.action === 'reject' ? 'Auto-rejecting' : 'Auto-approving';
+          yield* emitter.note(`[${verb} action ${autoResumeCount}...]`);
+          nextResume = outcome.resume;
+          return;
+        }
+        continue;
+      }
+      yield* emitter.fromCugaEvent(event, state);
+    }
+  }
+
+  yield* emitter.start();
+  try {
+    yield* processStream(run.stream(streamQuery({ query, thread_id: threadId, history, ...historyConfig, ...skill.settings, auto_approve: autoApprove }, credentials, runCancellations.signal(runId))));
+
+    while (nextResume) {
+      const resume = nextResume;
+      nextResume = undefined;
+      yield* processStream(run.stream(resumeExecution(resume, credentials, runCancellations.signal(runId))));
+    }
+    streamEnded = true;
+    yield* emitter.finish(state, usageLedger.usage(runId));
+  } catch (error) {
+    streamEnded = true;
+    runLog.error('Chat completion stream error', error);
+    streamError = error instanceof Error ? error.message : 'Stream error';
+    throw new ChatCompletionError(streamError, 502, 'api_error', 'backend_error');
+  } finally {
+    clientSignal?.removeEventListener('abort', onClientGone);
+    // Closed before the stream ended: the client went away
+    if (streamEnded) {
+      await run.end();
+    } else {
+      streamError = await run.abandon((event) => {
+        state = applyCugaEvent(event, state);
+      });
+    }
+    quota.lease.release();
+    await finishRun(runId, state, streamError);
+  }
+}
+
+/**
+ * OpenAI-style error response
+ */
+function chatCompletionErrorResponse(error: unknown): Response {
+  const failure = error instanceof ChatCompletionError
+    ? error
+    : new ChatCompletionError(error instanceof Error ? error.message : 'Internal error', 500, 'api_error');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (failure.retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = String(failure.retryAfterSeconds);
+  }
+  return new Response(JSON.stringify(failure.body()), { status: failure.status, headers });
+}
+
+// OpenAI-compatible chat completions (streaming and non-streaming), see openai-compat.ts
+app.post('/v1/chat/completions', async (c: { req: { raw: Request; json: () => Promise<unknown>; header: (name: string) => string | undefined } }) => {
+  let request: ChatCompletionRequest;
+  try {
+    request = validateChatCompletionRequest(await c.req.json());
+  } catch (error) {
+    return chatCompletionErrorResponse(error instanceof SyntaxError ? new ChatCompletionError('Invalid JSON body', 400, 'invalid_request_error') : error);
+  }
+  const apiKey = c.req.header('Authorization')?.replace('Bearer ', '') || c.req.header('X-API-Key');
+  const clientGone = new AbortController();
+  const chunks = streamChatCompletion(request, apiKey, clientGone.signal);
+
+  if (!request.stream) {
+    // Without a stream to cancel, the request's own signal reports a client that went away
+    c.req.raw.signal.addEventListener('abort', () => clientGone.abort(), { once: true });
+    try {
+      const collected: ChatCompletionChunk[] = [];
+      for await (const chunk of chunks) {
+        if (clientGone.signal.aborted) break;
+        collected.push(chunk);
+      }
+      return new Response(JSON.stringify(collectChatCompletion(collected)), { headers: { 'Content-Type': 'application/json' } });
+    } catch (error) {
+      return chatCompletionErrorResponse(error);
+    }
+  }
+
+  // Requests that cannot start are refused with a status code before streaming
+  let first: IteratorResult<ChatCompletionChunk>;
+  try {
+    first = await chunks.next();
+  } catch (error) {
+    return chatCompletionErrorResponse(error);
+  }
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      try {
+        if (!first.done) send(first.value);
+        for await (const chunk of chunks) {
+          if (clientGone.signal.aborted) break;
+          send(chunk);
+        }
+        if (!clientGone.signal.aborted) {
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        }
+      } catch (error) {
+        if (!clientGone.signal.aborted) {
+          send((error instanceof ChatCompletionError ? error : new ChatCompletionError('Stream error', 500, 'api_error')).body());
+        }
+      } finally {
+        if (!clientGone.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      clientGone.abort();
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+});
+
+/**
+ * Run an agent skill for an MCP tool call (see mcp-server.ts)
+ *
+ * Mirrors the other executors (credentials, quotas, approval policy, run
+ * recording). Plan and subtask updates are reported through `progress`, and
+ * aborting `signal` cancels the run.
+ */
+async function runMcpTool(
+  call: { name: string; arguments: Record<string, unknown>; apiKey?: string },
+  progress: (message: string) => void,
+  signal: AbortSignal
+): Promise<McpToolResult> {
+  const { thread_id: requestedThreadId, ...params } = call.arguments;
+  const metadata = { skill_id: call.name, skill_params: params };
+  const { query, threadId, history, historyConfig, skill } = extractUserMessage({
+    threadId: typeof requestedThreadId === 'string' ? requestedThreadId : undefined,
+    metadata,
+  });
+  const refuse = (text: string): McpToolResult => ({ content: [{ type: 'text', text }], isError: true });
+
+  if (skill.errors.length > 0) {
+    return refuse(describeSkillErrors(skill.errors));
+  }
+  if (!query) {
+    return refuse('No task provided');
+  }
+
+  const credentials = await resolveCredentials(call.apiKey, resolveTaskType(metadata));
+  const quota = acquireQuota(credentials);
+  if ('refused' in quota) {
+    return refuse(quota.refused.message);
+  }
+
+  const runId = await startRun(threadId, 'mcp-tool', query, { credentials, history });
+  const onCanceled = () => void runCancellations.cancel(runId, 'Canceled by MCP client');
+  signal.addEventListener('abort', onCanceled, { once: true });
+  let autoResumeCount = 0;
+  let nextResume: CugaResumeRequest | undefined;
+  let streamError: string | undefined;
+  let state: CugaAgentState = {
+    currentNode: 'ChatAgent',
+    query,
+    threadId,
+    runId,
+    streamingContent: '',
+  };
+
+  const runLog = runLogger(runId, threadId, credentials, metadata);
+  runLog.info('MCP tool call', {
+    tool: call.name,
+    queryLength: query.length,
+  });
+
+  async function processStream(eventStream: AsyncGenerator<CugaSSEEvent>): Promise<void> {
+    for await (const event of eventStream) {
+      const previous = state;
+      state = applyCugaEvent(event, state);
+
+      if (event.name === '__interrupt__') {
+        const outcome = decideInterrupt(state, approvalPolicy, credentials, autoResumeCount);
+        state = outcome.state;
+        if (outcome.resume && outcome.decision) {
+          autoResumeCount++;
+          progress(`${outcome.resume.action === 'reject' ? 'Auto-rejecting' : 'Auto-approving'} action ${autoResumeCount}: ${outcome.decision.reason}`);
+          nextResume = outcome.resume;
+          return;
+        }
+        continue;
+      }
+      const message = describeProgress(event, previous, state);
+      if (message) progress(message);
+    }
+  }
+
+  try {
+    await processStream(streamHub.tap(threadId, trackRun(runId, streamQuery({ query, thread_id: threadId, history, ...historyConfig, ...skill.settings, auto_approve: true }, credentials, runCancellations.signal(runId)))));
+
+    while (nextResume) {
+      const resume = nextResume;
+      nextResume = undefined;
+      await processStream(streamHub.tap(threadId, trackRun(runId, resumeExecution(resume, credentials, runCancellations.signal(runId)))));
+    }
+  } catch (error) {
+    runLog.error('MCP tool stream error', error);
+    streamError = error instanceof Error ? error.message : 'Stream error';
+  } finally {
+    signal.removeEventListener('abort', onCanceled);
+    quota.lease.release();
+    state = (await finishRun(runId, state, streamError)).state;
+  }
+  return toolResult(state, { threadId, runId }, streamError, signal.aborted);
+}
+
+// Agent skills as MCP tools, over streamable HTTP (/mcp) or stdio (CUGA_MCP_TRANSPORT=stdio)
+const mcpServer = new McpServer(skillTools(AGENT_SKILLS), runMcpTool);
+const mcpHttp = new McpHttpTransport(mcpServer);
+
+app.all('/mcp', (c: { req: { raw: Request; header: (name: string) => string | undefined } }) => {
+  const apiKey = c.req.header('Authorization')?.replace('Bearer ', '') || c.req.header('X-API-Key');
+  return mcpHttp.handle(c.req.raw, apiKey);
+});
+
+// Resume execution endpoint (for human-in-the-loop)
+// Targets a pending HITL request via request_id; with a single pending request it may be omitted.
+// Reconnects carrying Last-Event-ID re-attach to the running resume instead of resuming again.
+app.post('/cuga/resume', async (c: { req: { json: () => Promise<{ thread_id?: string; request_id?: string; action?: string; value?: string; selection?: string | string[]; modified_value?: string }>; header: (name: string) => string | undefined }; json: (data: unknown, status?: number, headers?: Record<string, string>) => Response }) => {
+  const body = await c.req.json().catch(() => undefined);
+  if (!body || typeof body !== 'object') {
+    return c.json({ error: 'invalid JSON body' }, 400);
+  }
+  const { thread_id, request_id, action, value, selection, modified_value } = body;
+
+  if (!thread_id) {
+    return c.json({ error: 'thread_id required' }, 400);
+  }
+
+  // Resumes count against the tenant's quota like new runs
+  const apiKey = c.req.header('X-API-Key') || c.req.header('Authorization')?.replace('Bearer ', '');
+  const credentials = await resolveCredentials(apiKey);
+  if (!(await mayAccessThread(c, thread_id, credentials?.organizationId))) {
+    return c.json({ error: 'thread not found' }, 404);
+  }
+
+  const lastEventId = parseLastEventId(c.req.header('Last-Event-ID'));
+  if (lastEventId !== undefined && streamHub.has(thread_id)) {
+    log.info(`Client reconnected after event ${lastEventId}`, { threadId: thread_id });
+    return sseResponse(thread_id, streamHub.subscribe(thread_id, lastEventId));
+  }
+
+  // Validate action type
+  const validActions = ['approve', 'reject', 'modify'] as const;
+  if (action !== undefined && !validActions.includes(action as typeof validActions[number])) {
+    return c.json({ error: 'action must be approve, reject, or modify' }, 400);
+  }
+
+  const pending = pendingHitl.list(thread_id);
+  let request = request_id ? pendingHitl.get(thread_id, request_id) : undefined;
+  if (request_id && !request) {
+    return c.json({ error: `no pending request ${request_id} on thread ${thread_id}` }, 404);
+  }
+  if (!request_id && pending.length > 1) {
+    return c.json({ error: 'multiple pending requests; request_id required', pending }, 409);
+  }
+  request = request ?? pending[0];
+
+  let resume: CugaResumeRequest;
+  if (request) {
+    const answer: HitlAnswer = { action: action as HitlAnswer['action'], value, selection, modified_value };
+    const built = buildHitlResume(thread_id, request, answer);
+    if ('error' in built) {
+      return c.json({ error: built.error }, 400);
+    }
+    resume = built.resume;
+  } else {
+    // No tracked request (e.g. interrupted before a wrapper restart): plain thread-level resume
+    if (!action) {
+      return c.json({ error: 'thread_id and action required' }, 400);
+    }
+    resume = { thread_id, action: action as CugaResumeRequest['action'], modified_value };
+  }
+
+  const quota = acquireQuota(credentials);
+  if ('refused' in quota) {
+    return c.json(
+      { error: quota.refused.message, code: quota.refused.reason, retryAfter: quota.refused.retryAfterSeconds },
+      429,
+      { 'Retry-After': String(quota.refused.retryAfterSeconds) }
+    );
+  }
+  const { lease } = quota;
+
+  const runId = await startRun(thread_id, 'resume', '', { credentials });
+  // The A2A task waiting on this answer, if any, continues with the resumed run
+  const task = taskRegistry.findInputRequired(thread_id, credentials?.organizationId);
+  if (task) {
+    taskRegistry.update(task.id, 'working', { runId });
+  }
+  let state: CugaAgentState = {
+    currentNode: 'ChatAgent',
+    query: '',
+    threadId: thread_id,
+    runId,
+    streamingContent: '',
+  };
+
+  // Consume the backend stream independently of this connection so clients can reconnect
+  async function* trackedResume(): AsyncGenerator<CugaSSEEvent> {
+    let streamError: string | undefined;
+    try {
+      for await (const event of trackRun(runId, resumeExecution(resume, credentials, runCancellations.signal(runId)))) {
+        state = applyCugaEvent(event, state);
+        if (task && event.name === 'Stopped') {
+          taskRegistry.update(task.id, 'canceled', { message: 'Execution stopped by user' });
+        }
+        yield event;
+      }
+    } catch (error) {
+      streamError = error instanceof Error ? error.message : 'Stream error';
+      throw error;
+    } finally {
+      lease.release();
+      state = (await finishRun(runId, state, streamError)).state;
+      if (task) {
+        settleTask(task.id, state, streamError);
+      }
+    }
+  }
+
+  const startAfter = streamHub.publish(thread_id, trackedResume());
+  if (startAfter === undefined) {
+    lease.release();
+    await finishRun(runId, state, 'A stream is already active for this thread');
+    if (task) {
+      taskRegistry.update(task.id, 'input-required');
+    }
+    return c.json({ error: 'a stream is already active for this thread; reconnect with Last-Event-ID' }, 409);
+  }
+  if (request) {
+    pendingHitl.resolve(thread_id, request.id);
+  }
+
+  return sseResponse(thread_id, streamHub.subscribe(thread_id, startAfter), { 'X-Run-ID': runId });
+});
+
+// Re-attach to a thread's event stream, replaying events after Last-Event-ID
+app.get('/cuga/threads/:id/stream', async (c: RouteContext & { req: { header: (name: string) => string | undefined } }) => {
+  const threadId = c.req.param('id');
+  if (!streamHub.has(threadId) || !(await mayAccessThread(c, threadId))) {
+    return c.json({ error: 'no buffered stream for thread' }, 404);
+  }
+  const lastEventId = parseLastEventId(c.req.header('Last-Event-ID') ?? c.req.query('lastEventId')) ?? 0;
+  return sseResponse(threadId, streamHub.subscribe(threadId, lastEventId));
+});
+
+// JSON Schema of the CUGA SSE protocol, for code generation by other consumers
+app.get('/cuga/schema', async (c: RouteContext) => {
+  return c.json(getCugaEventJsonSchema());
+});
+
+// List HITL requests awaiting an answer on a thread
+app.get('/cuga/threads/:id/pending', async (c: RouteContext) => {
+  const threadId = c.req.param('id');
+  if (!(await mayAccessThread(c, threadId))) {
+    return c.json({ error: 'thread not found' }, 404);
+  }
+  return c.json({ threadId, requests: pendingHitl.list(threadId) });
+});
+
+// List persisted runs for a thread
+app.get('/cuga/threads/:id/runs', async (c: RouteContext) => {
+  const threadId = c.req.param('id');
+  const runs = await runStore.listRuns(threadId);
+  return c.json({ threadId, runs });
+});
+
+// Get a persisted run
+app.get('/cuga/runs/:id', async (c: RouteContext) => {
+  const run = await runStore.getRun(c.req.param('id'));
+  if (!run) {
+    return c.json({ error: 'run not found' }, 404);
+  }
+  return c.json(run);
+});
+
+// Get recorded events of a run, optionally only those after `since`
+app.get('/cuga/runs/:id/events', async (c: RouteContext) => {
+  const runId = c.req.param('id');
+  const run = await runStore.getRun(runId);
+  if (!run) {
+    return c.json({ error: 'run not found' }, 404);
+  }
+  const since = Number.parseInt(c.req.query('since') || '0', 10);
+  if (Number.isNaN(since) || since < 0) {
+    return c.json({ error: 'since must be a non-negative integer' }, 400);
+  }
+  const events = await runStore.getEvents(runId, since);
+  return c.json({ runId, status: run.status, events });
+});
+
+// Rebuild run state by replaying its events, optionally only up to `until`
+app.get('/cuga/runs/:id/state', async (c: RouteContext) => {
+  const runId = c.req.param('id');
+  const run = await runStore.getRun(runId);
+  if (!run) {
+    return c.json({ error: 'run not found' }, 404);
+  }
+  const untilParam = c.req.query('until');
+  const until = untilParam ? Number.parseInt(untilParam, 10) : undefined;
+  if (until !== undefined && (Number.isNaN(until) || until < 0)) {
+    return c.json({ error: 'until must be a non-negative integer' }, 400);
+  }
+  const events = (await runStore.getEvents(runId)).filter((e) => until === undefined || e.seq <= until);
+  return c.json({
+    runId,
+    seq: events.length > 0 ? events[events.length - 1].seq : 0,
+    state: replayRun(run, events),
+  });
+});
+
+// Screenshot timeline of a run (without image data)
+app.get('/cuga/runs/:id/screenshots', async (c: RouteContext) => {
+  const runId = c.req.param('id');
+  const run = await runStore.getRun(runId);
+  if (!run || !(await mayAccessRun(c, run))) {
+    return c.json({ error: 'run not found' }, 404);
+  }
+  const timeline = buildScreenshotTimeline(await runStore.getEvents(runId));
+  return c.json({
+    runId,
+    screenshots: timeline.map((frame) => ({
+      ...describeFrame(frame),
+      href: `/cuga/runs/${runId}/screenshots/${frame.index}`,
+    })),
+  });
+});
+
+// One screenshot of a run as an image; `?thumbnail=<width>` downscales, `?overlay=1` draws bid boxes
+app.get('/cuga/runs/:id/screenshots/:index', async (c: RouteContext) => {
+  const runId = c.req.param('id');
+  const run = await runStore.getRun(runId);
+  if (!run || !(await mayAccessRun(c, run))) {
+    return c.json({ error: 'run not found' }, 404);
+  }
+  const index = Number.parseInt(c.req.param('index'), 10);
+  const timeline = buildScreenshotTimeline(await runStore.getEvents(runId));
+  const frame = Number.isNaN(index) ? undefined : timeline[index];
+  if (!frame) {
+    return c.json({ error: 'screenshot not found' }, 404);
+  }
+  const thumbnail = c.req.query('thumbnail');
+  const thumbnailWidth = thumbnail ? Number.parseInt(thumbnail, 10) : undefined;
+  if (thumbnailWidth !== undefined && (Number.isNaN(thumbnailWidth) || thumbnailWidth <= 0)) {
+    return c.json({ error: 'thumbnail must be a positive width' }, 400);
+  }
+  try {
+    const image = renderScreenshot(frame, { thumbnailWidth, overlay: c.req.query('overlay') === '1' });
+    return new Response(new Uint8Array(image.bytes), {
+      headers: { 'Content-Type': image.mimeType, 'Cache-Control': 'private, max-age=3600' },
+    });
+  } catch (error) {
+    log.error(`Failed to render screenshot ${index}`, { runId, error });
+    return c.json({ error: 'failed to render screenshot' }, 500);
+  }
+});
+
+/** A2A JSON-RPC error codes */
+const A2A_ERRORS = {
+  taskNotFound: -32001,
+  taskNotCancelable: -32002,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internal: -32603,
+} as const;
+
+/** HTTP status for each A2A error code, for the REST task routes */
+const A2A_ERROR_STATUS: Record<number, number> = {
+  [A2A_ERRORS.taskNotFound]: 404,
+  [A2A_ERRORS.taskNotCancelable]: 409,
+  [A2A_ERRORS.methodNotFound]: 404,
+  [A2A_ERRORS.invalidParams]: 400,
+  [A2A_ERRORS.internal]: 503,
+};
+
+type TaskMethodOutcome = { result: unknown } | { error: { code: number; message: string } };
+
+/**
+ * Organization of the caller of a task route, from its X-API-Key or bearer token
+ */
+async function callerOrganization(c: { req: { header: (name: string) => string | undefined } }): Promise<string | undefined> {
+  const apiKey = c.req.header('X-API-Key') || c.req.header('Authorization')?.replace('Bearer ', '');
+  return (await resolveCredentials(apiKey))?.organizationId;
+}
+
+/**
+ * Whether the caller may follow, stop or answer a thread: the admin, or the
+ * organization that started the thread's first run
+ *
+ * Threads without recorded runs are open only to callers without an
+ * organization, as before tenants. `organizationId` saves resolving the
+ * caller's credentials again when the route already did.
+ */
+async function mayAccessThread(
+  c: { req: { header: (name: string) => string | undefined } },
+  threadId: string,
+  organizationId?: string
+): Promise<boolean> {
+  if (isAdminToken(c.req.header('X-CUGA-Admin-Token'))) {
+    return true;
+  }
+  const caller = organizationId ?? (await callerOrganization(c));
+  const [first] = await runStore.listRuns(threadId);
+  return first ? first.organizationId === caller : caller === undefined;
+}
+
+/**
+ * Whether the caller may see a persisted run: the admin, or the organization
+ * that started it
+ */
+async function mayAccessRun(c: { req: { header: (name: string) => string | undefined } }, run: CugaRunRecord): Promise<boolean> {
+  return isAdminToken(c.req.header('X-CUGA-Admin-Token')) || run.organizationId === (await callerOrganization(c));
+}
+
+/**
+ * Handle an A2A task method: tasks/get, tasks/cancel, tasks/pushNotificationConfig/set|get
+ *
+ * Tasks of other tenants than `caller` are reported as not found.
+ */
+async function handleTaskMethod(method: string, params: Record<string, unknown> = {}, caller?: string): Promise<TaskMethodOutcome> {
+  const id = params.id ?? params.taskId;
+  if (typeof id !== 'string' || !id) {
+    return { error: { code: A2A_ERRORS.invalidParams, message: 'task id required' } };
+  }
+  const task = taskRegistry.getOwned(id, caller);
+  if (!task) {
+    return { error: { code: A2A_ERRORS.taskNotFound, message: `task ${id} not found` } };
+  }
+
+  switch (method) {
+    case 'tasks/get': {
+      const historyLength = Number(params.historyLength);
+      return { result: toA2ATask(task, Number.isInteger(historyLength) && historyLength >= 0 ? historyLength : undefined) };
+    }
+    case 'tasks/cancel': {
+      if (isTerminalTaskState(task.status.state)) {
+        return { error: { code: A2A_ERRORS.taskNotCancelable, message: `task ${id} is already ${task.status.state}` } };
+      }
+      try {
+        await stopExecution(task.contextId);
+      } catch (error) {
+        log.error(`Failed to cancel task ${id}`, { threadId: task.contextId, error });
+        return { error: { code: A2A_ERRORS.internal, message: error instanceof Error ? error.message : 'Failed to stop execution' } };
+      }
+      taskRegistry.update(id, 'canceled', { message: 'Canceled by client' });
+      log.info(`Canceled task ${id}`, { threadId: task.contextId });
+      return { result: toA2ATask(task) };
+    }
+    case 'tasks/pushNotificationConfig/set': {
+      const config = params.pushNotificationConfig;
+      const invalid = validatePushNotificationConfig(config);
+      if (invalid) {
+        return { error: { code: A2A_ERRORS.invalidParams, message: invalid } };
+      }
+      taskRegistry.setPushNotification(id, config as CugaPushNotificationConfig);
+      return { result: { taskId: id, pushNotificationConfig: { url: (config as CugaPushNotificationConfig).url } } };
+    }
+    case 'tasks/pushNotificationConfig/get':
+      return { result: { taskId: id, pushNotificationConfig: task.pushNotification ? { url: task.pushNotification.url } : null } };
+    default:
+      return { error: { code: A2A_ERRORS.methodNotFound, message: `method ${method} not found` } };
+  }
+}
+
+/**
+ * Respond to a REST task route with the outcome of an A2A task method
+ */
+function taskMethodResponse(c: { json: (data: unknown, status?: number) => Response }, outcome: TaskMethodOutcome): Response {
+  if ('error' in outcome) {
+    return c.json({ error: outcome.error.message, code: outcome.error.code }, A2A_ERROR_STATUS[outcome.error.code] ?? 500);
+  }
+  return c.json(outcome.result);
+}
+
+// A2A task methods over JSON-RPC 2.0
+app.post('/cuga/tasks', async (c: { req: { json: () => Promise<{ id?: string | number | null; method?: string; params?: Record<string, unknown> }>; header: (name: string) => string | undefined }; json: (data: unknown, status?: number) => Response }) => {
+  const request = await c.req.json().catch(() => undefined);
+  if (!request || typeof request.method !== 'string') {
+    return c.json({ jsonrpc: '2.0', id: request?.id ?? null, error: { code: A2A_ERRORS.invalidRequest, message: 'Invalid Request' } });
+  }
+  const outcome = await handleTaskMethod(request.method, request.params, await callerOrganization(c));
+  return c.json({ jsonrpc: '2.0', id: request.id ?? null, ...outcome });
+});
+
+// Get an A2A task
+app.get('/cuga/tasks/:id', async (c: RouteContext) => {
+  return taskMethodResponse(c, await handleTaskMethod('tasks/get', { id: c.req.param('id'), historyLength: c.req.query('historyLength') }, await callerOrganization(c)));
+});
+
+// Cancel an A2A task (stops its thread on the backend)
+app.post('/cuga/tasks/:id/cancel', async (c: RouteContext) => {
+  return taskMethodResponse(c, await handleTaskMethod('tasks/cancel', { id: c.req.param('id') }, await callerOrganization(c)));
+});
+
+// Set an A2A task's push-notification webhook
+app.post('/cuga/tasks/:id/push-notification', async (c: RouteContext & { req: { json: () => Promise<unknown> } }) => {
+  const config = await c.req.json().catch(() => undefined);
+  return taskMethodResponse(c, await handleTaskMethod('tasks/pushNotificationConfig/set', { id: c.req.param('id'), pushNotificationConfig: config }, await callerOrganization(c)));
+});
+
+// Current quota usage, for all tenants or `?tenant=<organizationId>`
+app.get('/cuga/quotas', (c: RouteContext) => {
+  const tenant = c.req.query('tenant');
+  return c.json({ tenants: tenantQuotas.usage(tenant) });
+});
+
+const USAGE_DIMENSIONS: CugaUsageDimension[] = ['run', 'thread', 'user', 'organization'];
+
+// Token and cost usage grouped by run, thread, user or organization (?by=, optional ?key=)
+app.get('/cuga/usage', (c: RouteContext) => {
+  const by = (c.req.query('by') || 'organization') as CugaUsageDimension;
+  if (!USAGE_DIMENSIONS.includes(by)) {
+    return c.json({ error: `by must be one of ${USAGE_DIMENSIONS.join(', ')}` }, 400);
+  }
+  return c.json({ by, reports: usageLedger.report(by, c.req.query('key')) });
+});
+
+// Usage against budget for the current period, per tenant
+app.get('/cuga/usage/budgets', (c: RouteContext) => {
+  const tenant = c.req.query('tenant');
+  return c.json({ budgets: tenant ? [usageLedger.budget(tenant)] : usageLedger.budgets() });
+});
+
+// Prometheus metrics: run durations, interrupts, backend call outcomes, ... (see run-telemetry.ts)
+app.get('/metrics', () => {
+  return new Response(runTelemetry.renderMetrics(), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+  });
+});
+
+// Drop cached tenant credentials: one API key (raw or hashed), or all of them with `{"all": true}`
+app.post('/cuga/credentials/invalidate', async (c: { req: { json: () => Promise<{ api_key?: string; key_hash?: string; all?: boolean }> }; json: (data: unknown, status?: number) => Response }) => {
+  const body = await c.req.json().catch(() => undefined);
+  if (!body || typeof body !== 'object') {
+    return c.json({ error: 'invalid JSON body' }, 400);
+  }
+  const target = body.key_hash || body.api_key;
+  if (!target && body.all !== true) {
+    return c.json({ error: 'api_key or key_hash required (or all: true to drop every entry)' }, 400);
+  }
+  const removed = credentialCache.invalidate(target);
+  log.info(`Invalidated ${removed} cached credential(s)${target ? ` for key ${(body.key_hash || hashApiKey(target)).slice(0, 12)}` : ''}`);
+  return c.json({ invalidated: removed });
+});
+
+// List CUGA backend pool members
+app.get('/cuga/backends', (c: RouteContext) => {
+  return c.json({ backends: getBackendPool().list() });
+});
+
+// Drain a backend: no new threads, active streams and owned threads keep working
+app.post('/cuga/backends/drain', async (c: { req: { json: () => Promise<{ url?: string }> }; json: (data: unknown, status?: number) => Response }) => {
+  const body = await c.req.json().catch(() => undefined);
+  if (!body || typeof body !== 'object') {
+    return c.json({ error: 'invalid JSON body' }, 400);
+  }
+  const { url } = body;
+  if (!url || !getBackendPool().drain(url)) {
+    return c.json({ error: 'unknown backend url' }, 404);
+  }
+  return c.json({ status: 'draining', backend: getBackendPool().list().find((b) => b.url === url) });
+});
+
+// Return a drained backend to rotation
+app.post('/cuga/backends/activate', async (c: { req: { json: () => Promise<{ url?: string }> }; json: (data: unknown, status?: number) => Response }) => {
+  const body = await c.req.json().catch(() => undefined);
+  if (!body || typeof body !== 'object') {
+    return c.json({ error: 'invalid JSON body' }, 400);
+  }
+  const { url } = body;
+  if (!url || !getBackendPool().activate(url)) {
+    return c.json({ error: 'unknown backend url' }, 404);
+  }
+  return c.json({ status: 'active', backend: getBackendPool().list().find((b) => b.url === url) });
+});
+
+// Start the server, or serve MCP over stdio
+startBackendHealthChecks();
+if (MCP_TRANSPORT === 'stdio') {
+  serveMcpStdio(mcpServer, process.env.CUGA_MCP_API_KEY);
+} else {
+  start();
+}
 
-export { app };
+export { app, invokeCuga, streamA2A, streamPlatform, toA2AResult };
 
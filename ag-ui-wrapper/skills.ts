@@ -0,0 +1,225 @@
+/**
+ * CUGA Agent Skills
+ *
+ * The skills advertised for A2A discovery, and how an invoked skill reaches
+ * the backend. Callers name the skill with `metadata.skill_id` and pass its
+ * parameters as `metadata.skill_params`; parameters are validated against the
+ * skill's declared schema and translated into settings:
+ * - browser-automation: browser mode, `url` → starting URL
+ * - api-orchestration: API mode, `apis` → restricted app set
+ * - code-execution: API mode (`language` is checked against the schema)
+ * - task-decomposition, or no skill: CUGA_DEFAULT_MODE
+ *
+ * The settings are sent with the query: the backend starts the browser from
+ * the URL and limits the run to the app set. It cannot switch modes per
+ * request, so a skill needing the mode the backend does not run in is refused.
+ *
+ * A missing `task` parameter defaults to the message text, and an empty
+ * message defaults to `task`.
+ *
+ * Configuration:
+ * - CUGA_DEFAULT_MODE: 'api' (default) | 'browser', the backends' configured mode
+ * - CUGA_ALLOWED_APPS: comma-separated app names `apis` may name (default: any)
+ */
+
+import type { AgentSkill } from '@repo/agent-core';
+
+import { validateSchema, type JsonSchema } from './event-schema.js';
+import type { CugaSkillSettings, CugaTaskType } from './types.js';
+
+// Define agent skills for A2A discovery
+export const AGENT_SKILLS: AgentSkill[] = [
+  {
+    id: 'browser-automation',
+    name: 'Browser Automation',
+    description: 'Automate web browser interactions with full Playwright support',
+    parameters: {
+      type: 'object',
+      properties: {
+        task: { type: 'string', description: 'Task to perform in the browser' },
+        url: { type: 'string', description: 'Starting URL (optional)' },
+      },
+      required: ['task'],
+    },
+    examples: [
+      'Navigate to GitHub and star a repository',
+      'Fill out a form on a website',
+      'Extract data from a web page',
+    ],
+    tags: ['browser', 'automation', 'web'],
+  },
+  {
+    id: 'api-orchestration',
+    name: 'API Orchestration',
+    description: 'Execute complex multi-API workflows with variable management',
+    parameters: {
+      type: 'object',
+      properties: {
+        task: { type: 'string', description: 'API task to perform' },
+        apis: { type: 'array', items: { type: 'string' }, description: 'APIs to use' },
+      },
+      required: ['task'],
+    },
+    examples: [
+      'Fetch user data from API and create a report',
+      'Chain multiple API calls to complete a workflow',
+    ],
+    tags: ['api', 'orchestration', 'workflow'],
+  },
+  {
+    id: 'code-execution',
+    name: 'Code Execution',
+    description: 'Execute Python code with sandbox support (Docker/E2B)',
+    parameters: {
+      type: 'object',
+      properties: {
+        task: { type: 'string', description: 'Code task to perform' },
+        language: { type: 'string', enum: ['python'] },
+      },
+      required: ['task'],
+    },
+    examples: [
+      'Write and execute a Python script to process data',
+      'Generate code to solve a problem',
+    ],
+    tags: ['code', 'execution', 'python'],
+  },
+  {
+    id: 'task-decomposition',
+    name: 'Task Decomposition',
+    description: 'Break down complex tasks into subtasks and execute them',
+    examples: [
+      'Plan and execute a multi-step workflow',
+      'Decompose a complex request into manageable steps',
+    ],
+    tags: ['planning', 'decomposition', 'workflow'],
+  },
+];
+
+/**
+ * Task type used to resolve the tenant's model for each skill
+ */
+export const SKILL_TASK_TYPES: Record<string, CugaTaskType> = {
+  'browser-automation': 'VISION', // reads page screenshots
+  'api-orchestration': 'COMPLEX',
+  'code-execution': 'COMPLEX',
+  'task-decomposition': 'COMPLEX',
+};
+
+/**
+ * A skill invocation resolved from request metadata
+ */
+export interface SkillRouting {
+  /** Invoked skill, if any */
+  skillId?: string;
+  /** Task text: the message, or the `task` parameter when the message is empty */
+  task: string;
+  /** Validated skill parameters (with `task` filled in) */
+  params: Record<string, unknown>;
+  /** Settings derived from the skill */
+  settings: CugaSkillSettings;
+  /** Validation errors; the request must be refused when non-empty */
+  errors: Array<{ path: string; message: string }>;
+}
+
+const DEFAULT_API_MODE = (process.env.CUGA_DEFAULT_MODE || 'api') !== 'browser';
+
+const ALLOWED_APPS = (process.env.CUGA_ALLOWED_APPS || '')
+  .split(',')
+  .map((app) => app.trim())
+  .filter(Boolean);
+
+function modeName(apiMode: boolean): string {
+  return apiMode ? 'API' : 'browser';
+}
+
+/**
+ * Skill ID named in request metadata
+ */
+export function skillIdFromMetadata(metadata: Record<string, unknown> = {}): string | undefined {
+  const skillId = metadata.skill_id ?? metadata.skillId ?? metadata.skill;
+  return typeof skillId === 'string' && skillId ? skillId : undefined;
+}
+
+/**
+ * Resolve the invoked skill and its backend settings from request metadata
+ */
+export function resolveSkillRouting(metadata: Record<string, unknown> = {}, messageText = ''): SkillRouting {
+  const skillId = skillIdFromMetadata(metadata);
+  const rawParams = metadata.skill_params ?? metadata.skillParams;
+  const errors: SkillRouting['errors'] = [];
+
+  if (rawParams !== undefined && (typeof rawParams !== 'object' || rawParams === null || Array.isArray(rawParams))) {
+    errors.push({ path: '$.skill_params', message: 'expected object' });
+  }
+  const given = errors.length === 0 && rawParams ? (rawParams as Record<string, unknown>) : {};
+  const task = messageText || (typeof given.task === 'string' ? given.task : '');
+  const params: Record<string, unknown> = { ...given, task: given.task ?? task };
+  const settings: CugaSkillSettings = { api_mode: DEFAULT_API_MODE };
+
+  if (!skillId) {
+    if (rawParams !== undefined) {
+      errors.push({ path: '$.skill_id', message: 'is required when skill_params are given' });
+    }
+    return { task, params, settings, errors };
+  }
+
+  const skill = AGENT_SKILLS.find((s) => s.id === skillId);
+  if (!skill) {
+    errors.push({ path: '$.skill_id', message: `unknown skill "${skillId}" (expected one of ${AGENT_SKILLS.map((s) => s.id).join(', ')})` });
+    return { skillId, task, params, settings, errors };
+  }
+  settings.skill_id = skillId;
+
+  if (skill.parameters) {
+    errors.push(...validateSchema(params, skill.parameters as JsonSchema, '$.skill_params'));
+  }
+
+  switch (skillId) {
+    case 'browser-automation': {
+      settings.api_mode = false;
+      if (typeof params.url === 'string' && params.url) {
+        let parsed: URL | undefined;
+        try {
+          parsed = new URL(params.url);
+        } catch {
+          // reported below
+        }
+        if (parsed && (parsed.protocol === 'http:' || parsed.protocol === 'https:')) {
+          settings.start_url = parsed.toString();
+        } else {
+          errors.push({ path: '$.skill_params.url', message: 'expected an http(s) URL' });
+        }
+      }
+      break;
+    }
+    case 'api-orchestration': {
+      settings.api_mode = true;
+      if (Array.isArray(params.apis) && params.apis.length > 0) {
+        const apps = [...new Set(params.apis.filter((app): app is string => typeof app === 'string').map((app) => app.trim()).filter(Boolean))];
+        const disallowed = ALLOWED_APPS.length > 0 ? apps.filter((app) => !ALLOWED_APPS.includes(app)) : [];
+        if (disallowed.length > 0) {
+          errors.push({ path: '$.skill_params.apis', message: `not allowed: ${disallowed.join(', ')}` });
+        } else if (apps.length > 0) {
+          settings.apps = apps;
+        }
+      }
+      break;
+    }
+    case 'code-execution':
+      settings.api_mode = true;
+      break;
+  }
+  if (settings.api_mode !== DEFAULT_API_MODE) {
+    errors.push({ path: '$.skill_id', message: `skill "${skillId}" needs ${modeName(settings.api_mode)} mode, but the backend runs in ${modeName(DEFAULT_API_MODE)} mode` });
+  }
+
+  return { skillId, task, params, settings, errors };
+}
+
+/**
+ * One-line description of skill validation errors
+ */
+export function describeSkillErrors(errors: SkillRouting['errors']): string {
+  return `Invalid skill parameters: ${errors.map((e) => `${e.path} ${e.message}`).join('; ')}`;
+}
@@ -0,0 +1,173 @@
+/**
+ * CUGA State Delta Streaming
+ *
+ * Encodes successive agent states for streaming clients in one of two modes:
+ * - snapshot (default): every update carries the full state, as before
+ * - delta: updates carry an RFC 6902 JSON Patch against the previous update,
+ *   with a full snapshot first, every `snapshotInterval` updates and on the
+ *   final update so clients can resync
+ *
+ * Clients choose the mode with `metadata.state_mode` and may tune the
+ * snapshot interval with `metadata.state_snapshot_interval`
+ * (default CUGA_STATE_SNAPSHOT_INTERVAL or 25).
+ *
+ * Delta-mode payloads:
+ *   { stateMode: 'snapshot', version, state }
+ *   { stateMode: 'delta', version, baseVersion, patch }
+ */
+
+export type StateStreamMode = 'snapshot' | 'delta';
+
+/**
+ * JSON Patch operation (the subset produced by diffState)
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+const DEFAULT_SNAPSHOT_INTERVAL = Number.parseInt(process.env.CUGA_STATE_SNAPSHOT_INTERVAL || '25', 10);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Compute a JSON Patch turning `prev` into `next`
+ *
+ * Objects are diffed per key and arrays per index (appends become `add`
+ * operations), so growing lists such as code executions only send new items.
+ */
+export function diffState(prev: unknown, next: unknown, path = ''): JsonPatchOperation[] {
+  if (prev === next) return [];
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    const ops: JsonPatchOperation[] = [];
+    for (const key of Object.keys(prev)) {
+      if (next[key] === undefined && prev[key] !== undefined) {
+        ops.push({ op: 'remove', path: `${path}/${escapePointer(key)}` });
+      }
+    }
+    for (const [key, value] of Object.entries(next)) {
+      if (value === undefined) continue;
+      const childPath = `${path}/${escapePointer(key)}`;
+      if (prev[key] === undefined) {
+        ops.push({ op: 'add', path: childPath, value });
+      } else {
+        ops.push(...diffState(prev[key], value, childPath));
+      }
+    }
+    return ops;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const ops: JsonPatchOperation[] = [];
+    const common = Math.min(prev.length, next.length);
+    for (let i = 0; i < common; i++) {
+      ops.push(...diffState(prev[i], next[i], `${path}/${i}`));
+    }
+    for (let i = common; i < next.length; i++) {
+      ops.push({ op: 'add', path: `${path}/${i}`, value: next[i] });
+    }
+    // Remove from the end so indexes stay valid
+    for (let i = prev.length - 1; i >= common; i--) {
+      ops.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    return ops;
+  }
+
+  if (JSON.stringify(prev) === JSON.stringify(next)) return [];
+  return [{ op: 'replace', path, value: next }];
+}
+
+/**
+ * Apply a JSON Patch produced by diffState, returning a new document
+ */
+export function applyStatePatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  let root: unknown = structuredClone(document);
+  for (const operation of patch) {
+    if (operation.path === '') {
+      root = operation.op === 'remove' ? undefined : structuredClone(operation.value);
+      continue;
+    }
+    const segments = operation.path.slice(1).split('/').map(unescapePointer);
+    const last = segments.pop() as string;
+    let parent = root as Record<string, unknown> | unknown[];
+    for (const segment of segments) {
+      parent = (parent as Record<string, unknown>)[segment] as Record<string, unknown> | unknown[];
+      if (parent === undefined || parent === null) {
+        throw new Error(`Invalid patch path: ${operation.path}`);
+      }
+    }
+    if (Array.isArray(parent)) {
+      const index = last === '-' ? parent.length : Number.parseInt(last, 10);
+      if (operation.op === 'remove') parent.splice(index, 1);
+      else if (operation.op === 'add') parent.splice(index, 0, structuredClone(operation.value));
+      else parent[index] = structuredClone(operation.value);
+    } else if (operation.op === 'remove') {
+      delete parent[last];
+    } else {
+      parent[last] = structuredClone(operation.value);
+    }
+  }
+  return root as T;
+}
+
+/**
+ * Read the client's state streaming preferences from request metadata
+ */
+export function stateModeFromMetadata(metadata: Record<string, unknown> = {}): { mode: StateStreamMode; snapshotInterval: number } {
+  const requested = metadata.state_mode ?? metadata.stateMode;
+  const interval = Number(metadata.state_snapshot_interval ?? metadata.stateSnapshotInterval);
+  return {
+    mode: requested === 'delta' ? 'delta' : 'snapshot',
+    snapshotInterval: Number.isInteger(interval) && interval > 0 ? interval : DEFAULT_SNAPSHOT_INTERVAL,
+  };
+}
+
+/**
+ * Encodes successive states of one stream
+ */
+export class StateStreamEncoder {
+  private previous?: Record<string, unknown>;
+  private version = 0;
+  private sinceSnapshot = 0;
+
+  constructor(
+    readonly mode: StateStreamMode = 'snapshot',
+    private snapshotInterval = DEFAULT_SNAPSHOT_INTERVAL
+  ) {}
+
+  /**
+   * Encode the next state update
+   *
+   * In snapshot mode the state is returned as a shallow copy, unchanged.
+   */
+  encode(state: Record<string, unknown>, options: { forceSnapshot?: boolean } = {}): Record<string, unknown> {
+    if (this.mode === 'snapshot') {
+      return { ...state };
+    }
+
+    const next = structuredClone(state);
+    const baseVersion = this.version;
+    this.version++;
+    const needsSnapshot = options.forceSnapshot || !this.previous || this.sinceSnapshot >= this.snapshotInterval;
+    const patch = needsSnapshot ? [] : diffState(this.previous, next);
+    this.previous = next;
+
+    if (needsSnapshot) {
+      this.sinceSnapshot = 0;
+      return { stateMode: 'snapshot', version: this.version, state: next };
+    }
+    this.sinceSnapshot++;
+    return { stateMode: 'delta', version: this.version, baseVersion, patch };
+  }
+}
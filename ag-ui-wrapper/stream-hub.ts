@@ -0,0 +1,244 @@
+/**
+ * CUGA Stream Hub
+ *
+ * Assigns monotonically increasing event IDs per thread to every CUGA event
+ * the wrapper emits and keeps a bounded buffer of recent events, so SSE
+ * clients can reconnect with `Last-Event-ID` and continue where they left off.
+ *
+ * Published streams are pumped independently of any HTTP connection: a client
+ * disconnect does not stop the backend stream (until the disconnect grace
+ * period in cancellation.ts runs out), and reconnecting clients subscribe to
+ * the same buffered run instead of re-executing it.
+ *
+ * Configuration:
+ * - CUGA_STREAM_BUFFER_SIZE: events kept per thread (default 1000, at least 1)
+ * - CUGA_STREAM_RETENTION_MS: how long an idle thread's events stay available (default 300000)
+ */
+
+import { createLogger } from './logger.js';
+import type { CugaSSEEvent } from './types.js';
+
+const log = createLogger('CUGA-StreamHub');
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * CUGA event tagged with its per-thread event ID
+ */
+export interface BufferedEvent {
+  id: number;
+  event: CugaSSEEvent;
+}
+
+interface ThreadStream {
+  /** Recent events, oldest first */
+  events: BufferedEvent[];
+  /** ID of the last assigned event */
+  lastId: number;
+  /** Whether a published stream is currently being pumped */
+  active: boolean;
+  /** Error of the last published stream, if it failed */
+  error?: string;
+  /** Subscribers waiting for the next event */
+  waiters: Array<() => void>;
+  /** Timer that drops the thread buffer once idle */
+  expiry?: ReturnType<typeof setTimeout>;
+}
+
+export class StreamHub {
+  private threads = new Map<string, ThreadStream>();
+  private maxBufferedEvents: number;
+  private retentionMs: number;
+
+  constructor(
+    maxBufferedEvents = envInt('CUGA_STREAM_BUFFER_SIZE', 1000),
+    retentionMs = envInt('CUGA_STREAM_RETENTION_MS', 300000)
+  ) {
+    // The last event must stay buffered for subscribers to catch up with it
+    this.maxBufferedEvents = Math.max(1, maxBufferedEvents);
+    this.retentionMs = Math.max(0, retentionMs);
+  }
+
+  private getThread(threadId: string): ThreadStream {
+    let thread = this.threads.get(threadId);
+    if (!thread) {
+      thread = { events: [], lastId: 0, active: false, waiters: [] };
+      this.threads.set(threadId, thread);
+    }
+    if (thread.expiry) {
+      clearTimeout(thread.expiry);
+      thread.expiry = undefined;
+    }
+    return thread;
+  }
+
+  private append(threadId: string, thread: ThreadStream, event: CugaSSEEvent): BufferedEvent {
+    const buffered: BufferedEvent = { id: ++thread.lastId, event };
+    thread.events.push(buffered);
+    if (thread.events.length > this.maxBufferedEvents) {
+      thread.events.splice(0, thread.events.length - this.maxBufferedEvents);
+    }
+    this.notify(thread);
+    this.scheduleExpiry(threadId, thread);
+    return buffered;
+  }
+
+  private notify(thread: ThreadStream): void {
+    const waiters = thread.waiters;
+    thread.waiters = [];
+    for (const wake of waiters) wake();
+  }
+
+  private scheduleExpiry(threadId: string, thread: ThreadStream): void {
+    if (thread.expiry) clearTimeout(thread.expiry);
+    if (thread.active) return;
+    thread.expiry = setTimeout(() => this.threads.delete(threadId), this.retentionMs);
+    thread.expiry.unref?.();
+  }
+
+  /**
+   * Whether the thread has buffered events or an active published stream
+   */
+  has(threadId: string): boolean {
+    return this.threads.has(threadId);
+  }
+
+  /**
+   * Whether a published stream is currently running for the thread
+   */
+  isActive(threadId: string): boolean {
+    return this.threads.get(threadId)?.active ?? false;
+  }
+
+  /**
+   * ID of the last event emitted on the thread (0 if none)
+   */
+  lastEventId(threadId: string): number {
+    return this.threads.get(threadId)?.lastId ?? 0;
+  }
+
+  /**
+   * Pass events through while assigning IDs and buffering them
+   *
+   * The source is only advanced while the caller iterates.
+   */
+  async *tap(threadId: string, source: AsyncGenerator<CugaSSEEvent>): AsyncGenerator<CugaSSEEvent> {
+    for await (const event of source) {
+      this.append(threadId, this.getThread(threadId), event);
+      yield event;
+    }
+  }
+
+  /**
+   * Pump a stream into the thread buffer in the background
+   *
+   * Returns the event ID preceding the first event of this stream, to be
+   * used as the starting cursor for `subscribe`, or `undefined` if a
+   * published stream is already active for the thread.
+   */
+  publish(threadId: string, source: AsyncGenerator<CugaSSEEvent>): number | undefined {
+    const thread = this.getThread(threadId);
+    if (thread.active) {
+      return undefined;
+    }
+    const startAfter = thread.lastId;
+    thread.active = true;
+    thread.error = undefined;
+
+    void (async () => {
+      try {
+        for await (const event of source) {
+          this.append(threadId, thread, event);
+        }
+      } catch (error) {
+        thread.error = error instanceof Error ? error.message : 'Stream error';
+        log.error('Published stream failed', { threadId, error });
+      } finally {
+        thread.active = false;
+        this.notify(thread);
+        this.scheduleExpiry(threadId, thread);
+      }
+    })();
+
+    return startAfter;
+  }
+
+  /**
+   * Mark a tapped stream as live until the returned function is called
+   *
+   * Used when a client-bound stream keeps running after its client
+   * disconnected, so a reconnecting client follows it like a published stream.
+   * Does nothing while a published stream is active.
+   */
+  hold(threadId: string): () => void {
+    const thread = this.getThread(threadId);
+    if (thread.active) {
+      return () => undefined;
+    }
+    thread.active = true;
+    thread.error = undefined;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      thread.active = false;
+      this.notify(thread);
+      this.scheduleExpiry(threadId, thread);
+    };
+  }
+
+  /**
+   * Subscribe to a thread's events with an ID greater than `afterId`
+   *
+   * Replays buffered events first, then follows the active published stream
+   * until it ends. Throws if the published stream failed.
+   */
+  async *subscribe(threadId: string, afterId = 0): AsyncGenerator<BufferedEvent> {
+    const thread = this.threads.get(threadId);
+    if (!thread) return;
+
+    const oldest = thread.events[0]?.id;
+    if (oldest !== undefined && afterId < oldest - 1) {
+      log.warn(`Events ${afterId + 1}-${oldest - 1} are no longer buffered`, { threadId });
+    }
+
+    let cursor = afterId;
+    while (true) {
+      const pending = thread.events.filter((e) => e.id > cursor);
+      if (pending.length === 0 && thread.lastId > cursor) {
+        log.warn(`Events ${cursor + 1}-${thread.lastId} are no longer buffered`, { threadId });
+        cursor = thread.lastId;
+      }
+      for (const buffered of pending) {
+        cursor = buffered.id;
+        yield buffered;
+      }
+      if (thread.lastId > cursor) continue;
+      if (!thread.active) {
+        if (thread.error) throw new Error(thread.error);
+        return;
+      }
+      await new Promise<void>((resolve) => thread.waiters.push(resolve));
+    }
+  }
+}
+
+/**
+ * Format a buffered event as an SSE message
+ */
+export function formatSSE({ id, event }: BufferedEvent): string {
+  const dataLines = event.data.split('\n').map((line) => `data: ${line}`).join('\n');
+  return `id: ${id}\nevent: ${event.name}\n${dataLines}\n\n`;
+}
+
+/**
+ * Parse a Last-Event-ID header value
+ */
+export function parseLastEventId(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const id = Number.parseInt(value, 10);
+  return Number.isNaN(id) || id < 0 ? undefined : id;
+}
@@ -0,0 +1,165 @@
+/**
+ * CUGA Structured Output
+ *
+ * Lets invoke callers ask for a typed answer: the caller's JSON Schema is
+ * stated in the query sent to the backend, the `Answer` is parsed and
+ * validated against it, and an answer that does not match is re-asked with
+ * the violations listed, a bounded number of times. The result is returned as
+ * a `data` artifact part with the validation errors alongside.
+ *
+ * A2A metadata:
+ * - response_schema: the JSON Schema, as an object or a JSON string (the chat
+ *   UI's AnswerPolicy stores `jsonSchema` as a string)
+ * - response_format: `{ type: 'json_schema', json_schema: { name, schema } }`
+ *   (OpenAI style), as an alternative to response_schema
+ * - structured_output_max_repairs: re-asks after an invalid answer
+ *   (default CUGA_STRUCTURED_OUTPUT_MAX_REPAIRS, at most 3)
+ *
+ * Schemas are validated with the JSON Schema subset of event-schema.ts;
+ * `$ref` is not supported.
+ *
+ * Configuration:
+ * - CUGA_STRUCTURED_OUTPUT_MAX_REPAIRS: default re-asks (default 1)
+ */
+
+import { validateSchema, type JsonSchema } from './event-schema.js';
+import type { CugaStructuredOutput } from './types.js';
+
+const MAX_REPAIRS_LIMIT = 3;
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+const DEFAULT_MAX_REPAIRS = Math.min(Math.max(envInt('CUGA_STRUCTURED_OUTPUT_MAX_REPAIRS', 1), 0), MAX_REPAIRS_LIMIT);
+
+/**
+ * Structured output requested by a caller
+ */
+export interface StructuredOutputRequest {
+  schema: JsonSchema;
+  name?: string;
+  maxRepairs: number;
+}
+
+/**
+ * Problems that make a caller schema unusable, or none
+ */
+function checkSchema(schema: unknown, path = '$'): string[] {
+  if (schema === null || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [`${path} must be a schema object`];
+  }
+  const record = schema as Record<string, unknown>;
+  const problems: string[] = [];
+  if ('$ref' in record) {
+    problems.push(`${path}.$ref is not supported`);
+  }
+  if (typeof record.pattern === 'string') {
+    try {
+      new RegExp(record.pattern, 'u');
+    } catch {
+      problems.push(`${path}.pattern is not a valid regular expression`);
+    }
+  }
+  for (const [key, child] of Object.entries((record.properties as Record<string, unknown>) || {})) {
+    problems.push(...checkSchema(child, `${path}.properties.${key}`));
+  }
+  if (record.items !== undefined) {
+    problems.push(...checkSchema(record.items, `${path}.items`));
+  }
+  if (typeof record.additionalProperties === 'object') {
+    problems.push(...checkSchema(record.additionalProperties, `${path}.additionalProperties`));
+  }
+  for (const keyword of ['anyOf', 'oneOf', 'allOf']) {
+    const branches = record[keyword];
+    if (Array.isArray(branches)) {
+      branches.forEach((branch, idx) => problems.push(...checkSchema(branch, `${path}.${keyword}[${idx}]`)));
+    }
+  }
+  return problems;
+}
+
+/**
+ * Read the requested response schema from A2A metadata
+ *
+ * Returns `undefined` when none is requested, or the problem with it.
+ */
+export function structuredOutputFromMetadata(metadata: Record<string, unknown> = {}): StructuredOutputRequest | { error: string } | undefined {
+  let schema: unknown = metadata.response_schema ?? metadata.responseSchema;
+  let name: string | undefined;
+  const format = metadata.response_format ?? metadata.responseFormat;
+  if (schema === undefined && format && typeof format === 'object') {
+    const jsonSchema = (format as { json_schema?: { name?: unknown; schema?: unknown } }).json_schema;
+    schema = jsonSchema?.schema;
+    name = typeof jsonSchema?.name === 'string' ? jsonSchema.name : undefined;
+  }
+  if (schema === undefined) {
+    return undefined;
+  }
+  if (typeof schema === 'string') {
+    try {
+      schema = JSON.parse(schema);
+    } catch {
+      return { error: 'Invalid response schema: not valid JSON' };
+    }
+  }
+  const problems = checkSchema(schema);
+  if (problems.length > 0) {
+    return { error: `Invalid response schema: ${problems.join('; ')}` };
+  }
+
+  const requested = Number(metadata.structured_output_max_repairs ?? metadata.structuredOutputMaxRepairs);
+  const maxRepairs = Number.isInteger(requested) ? Math.min(Math.max(requested, 0), MAX_REPAIRS_LIMIT) : DEFAULT_MAX_REPAIRS;
+  return { schema: schema as JsonSchema, name, maxRepairs };
+}
+
+/**
+ * Instruction appended to the query so the agent answers with matching JSON
+ */
+export function responseSchemaInstructions(schema: Record<string, unknown>): string {
+  return `Respond with only a JSON value (no prose, no code fences) that matches this JSON Schema:\n${JSON.stringify(schema)}`;
+}
+
+/**
+ * JSON value of an answer: the whole answer, a fenced code block, or the
+ * outermost object/array in it
+ */
+export function parseJsonAnswer(answer: string): { value: unknown } | { error: string } {
+  const candidates = [answer.trim()];
+  const fenced = /```(?:json)?\s*\n?([\s\S]*?)```/i.exec(answer);
+  if (fenced) candidates.push(fenced[1].trim());
+  for (const [open, close] of [['{', '}'], ['[', ']']]) {
+    const start = answer.indexOf(open);
+    const end = answer.lastIndexOf(close);
+    if (start >= 0 && end > start) candidates.push(answer.slice(start, end + 1));
+  }
+  for (const candidate of candidates) {
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return { error: 'answer is not valid JSON' };
+}
+
+/**
+ * Parse and validate an answer against the requested schema
+ */
+export function checkStructuredAnswer(answer: string, request: StructuredOutputRequest, attempts: number): CugaStructuredOutput {
+  const parsed = parseJsonAnswer(answer);
+  if ('error' in parsed) {
+    return { name: request.name, valid: false, errors: [{ path: '$', message: parsed.error }], attempts };
+  }
+  const errors = validateSchema(parsed.value, request.schema);
+  return { name: request.name, valid: errors.length === 0, data: parsed.value, errors, attempts };
+}
+
+/**
+ * Follow-up query asking the agent to correct an answer that did not match
+ */
+export function repairQuery(result: CugaStructuredOutput): string {
+  const violations = result.errors.map((e) => `- ${e.path} ${e.message}`).join('\n');
+  return `Your previous answer does not match the required JSON Schema:\n${violations}\n\nAnswer again with only the corrected JSON value.`;
+}
@@ -0,0 +1,254 @@
+/**
+ * CUGA Subtask Graph
+ *
+ * Rebuilds the plan as a dependency graph from TaskDecompositionAgent and
+ * PlanControllerAgent events:
+ * - dependencies: `dependencies` (or `depends_on`) of a raw subtask, as subtask
+ *   IDs or 0-based positions among its siblings; a plan level that declares
+ *   none is a chain, which is how the plan controller runs it
+ * - children: the nested `subtasks` of a raw subtask
+ * - timings: `startedAt` when a subtask starts running; `finishedAt` and
+ *   `executionTimeMs` when it completes, fails or is skipped
+ * - outputs: the plan controller's `output`/`error`, or the output of code
+ *   executed while the subtask was current
+ * - a failed subtask skips the pending subtasks that depend on it, and
+ *   settleSubtasks closes the plan when the run answers, fails or is canceled
+ *
+ * subtaskGraph summarizes a plan for the `subtasks` artifact: its edges, a
+ * dependency order and the critical path (the longest chain of dependent
+ * subtasks by execution time).
+ */
+
+import type { CugaRawSubtask, CugaSubtask, CugaSubtaskGraph, CugaSubtaskStatus } from './types.js';
+
+const FINISHED: CugaSubtaskStatus[] = ['complete', 'failed', 'skipped'];
+
+const PROGRESS_STATUS: Record<string, CugaSubtaskStatus> = {
+  'not-started': 'pending',
+  'in-progress': 'running',
+  completed: 'complete',
+};
+
+/**
+ * Settled state of a subtask
+ */
+export interface SubtaskUpdate {
+  status?: CugaSubtaskStatus;
+  output?: string;
+  error?: string;
+  executionTimeMs?: number;
+}
+
+/**
+ * Dependency IDs of a raw subtask, or `undefined` when it declares none
+ */
+function resolveDependencies(raw: CugaRawSubtask, ids: string[], ownId: string): string[] | undefined {
+  const declared = raw.dependencies ?? raw.depends_on;
+  if (!Array.isArray(declared)) return undefined;
+  const resolved = declared
+    .map((dep) => (typeof dep === 'string' && ids.includes(dep) ? dep : ids[Number(dep)]))
+    .filter((id): id is string => id !== undefined && id !== ownId);
+  return [...new Set(resolved)];
+}
+
+/**
+ * Subtasks of a TaskDecompositionAgent plan
+ *
+ * Subtasks without an ID are numbered `<prefix>_<position>`; nested subtasks
+ * get their parent's ID as the prefix. Subtasks already running start at `now`.
+ */
+export function buildSubtasks(raw: CugaRawSubtask[], now = Date.now(), prefix = 'subtask'): CugaSubtask[] {
+  const ids = raw.map((s, idx) => s.id || `${prefix}_${idx}`);
+  const declared = raw.map((s, idx) => resolveDependencies(s, ids, ids[idx]));
+  const chained = declared.every((deps) => deps === undefined);
+
+  return raw.map((s, idx) => {
+    const dependencies = chained ? (idx > 0 ? [ids[idx - 1]] : []) : declared[idx] ?? [];
+    const subtask: CugaSubtask = {
+      id: ids[idx],
+      description: s.description || s.task || '',
+      status: s.status || 'pending',
+      app: s.app,
+      type: s.type,
+      dependencies,
+    };
+    if (subtask.status === 'running') {
+      subtask.startedAt = new Date(now).toISOString();
+    }
+    if (Array.isArray(s.subtasks) && s.subtasks.length > 0) {
+      subtask.children = buildSubtasks(s.subtasks, now, ids[idx]);
+    }
+    return subtask;
+  });
+}
+
+/**
+ * A subtask with an update applied at `now` (epoch milliseconds)
+ *
+ * Running again after settling restarts the timing.
+ */
+function applyUpdate(subtask: CugaSubtask, update: SubtaskUpdate, now: number): CugaSubtask {
+  const next: CugaSubtask = { ...subtask };
+  const status = update.status ?? subtask.status;
+  if (status === 'running' && (subtask.status !== 'running' || !subtask.startedAt)) {
+    next.startedAt = new Date(now).toISOString();
+    delete next.finishedAt;
+    delete next.executionTimeMs;
+    delete next.error;
+  }
+  if (FINISHED.includes(status) && !FINISHED.includes(subtask.status)) {
+    next.finishedAt = new Date(now).toISOString();
+    if (subtask.startedAt) {
+      next.executionTimeMs = Math.max(now - Date.parse(subtask.startedAt), 0);
+    }
+  }
+  next.status = status;
+  if (update.executionTimeMs !== undefined) next.executionTimeMs = update.executionTimeMs;
+  if (update.output !== undefined) next.output = update.output;
+  if (update.error !== undefined) next.error = update.error;
+  return next;
+}
+
+/**
+ * Apply an update to the subtask with the given ID, at any depth
+ */
+function updateById(subtasks: CugaSubtask[], id: string, update: SubtaskUpdate, now: number): CugaSubtask[] {
+  return subtasks.map((s) => {
+    if (s.id === id) return applyUpdate(s, update, now);
+    if (s.children) {
+      const children = updateById(s.children, id, update, now);
+      if (children.some((c, idx) => c !== s.children![idx])) return { ...s, children };
+    }
+    return s;
+  });
+}
+
+/**
+ * Skip the pending subtasks that depend, directly or not, on a failed one
+ *
+ * Dependencies are between siblings, so only the failed subtask's own level
+ * changes, at whatever depth it is.
+ */
+function skipDependents(subtasks: CugaSubtask[], failedId: string, now: number): CugaSubtask[] {
+  if (!subtasks.some((s) => s.id === failedId)) {
+    return subtasks.map((s) => (s.children ? { ...s, children: skipDependents(s.children, failedId, now) } : s));
+  }
+  const blocked = new Set([failedId]);
+  for (let grew = true; grew;) {
+    grew = false;
+    for (const s of subtasks) {
+      if (!blocked.has(s.id) && s.dependencies?.some((dep) => blocked.has(dep))) {
+        blocked.add(s.id);
+        grew = true;
+      }
+    }
+  }
+  return subtasks.map((s) =>
+    s.id !== failedId && blocked.has(s.id) && s.status === 'pending'
+      ? applyUpdate(s, { status: 'skipped', error: `Depends on failed subtask ${failedId}` }, now)
+      : s
+  );
+}
+
+/**
+ * Apply a PlanControllerAgent update for one subtask
+ */
+export function updateSubtask(subtasks: CugaSubtask[], id: string, update: SubtaskUpdate, now = Date.now()): CugaSubtask[] {
+  const updated = updateById(subtasks, id, update, now);
+  return update.status === 'failed' ? skipDependents(updated, id, now) : updated;
+}
+
+/**
+ * Apply the plan controller's per-subtask progress list (plan order)
+ *
+ * The list covers the top-level plan only; nested subtasks change through
+ * their own PlanControllerAgent updates and settleSubtasks.
+ */
+export function applySubtaskProgress(subtasks: CugaSubtask[], progress: string[], now = Date.now()): CugaSubtask[] {
+  return subtasks.map((s, idx) => {
+    const status = PROGRESS_STATUS[progress[idx]];
+    return status && status !== s.status ? applyUpdate(s, { status }, now) : s;
+  });
+}
+
+/**
+ * Settle the plan at the end of a run
+ *
+ * After an answer, running subtasks complete; after a failure they fail.
+ * Pending subtasks were never run and are skipped either way.
+ */
+export function settleSubtasks(subtasks: CugaSubtask[], outcome: 'complete' | 'failed', error?: string, now = Date.now()): CugaSubtask[] {
+  return subtasks.map((s) => {
+    const children = s.children ? settleSubtasks(s.children, outcome, error, now) : undefined;
+    const base = children ? { ...s, children } : s;
+    if (s.status === 'running') {
+      return applyUpdate(base, outcome === 'complete' ? { status: 'complete' } : { status: 'failed', error }, now);
+    }
+    if (s.status === 'pending') {
+      return applyUpdate(base, { status: 'skipped' }, now);
+    }
+    return base;
+  });
+}
+
+/**
+ * Dependency graph of a plan's top-level subtasks
+ *
+ * Dependencies on unknown subtasks are ignored. The critical path weighs
+ * each subtask by its execution time (0 when not measured); ties go to the
+ * longer chain.
+ */
+export function subtaskGraph(subtasks: CugaSubtask[]): CugaSubtaskGraph {
+  const ids = new Set(subtasks.map((s) => s.id));
+  const edges = subtasks.flatMap((s) =>
+    (s.dependencies || []).filter((dep) => ids.has(dep)).map((dep) => ({ from: dep, to: s.id }))
+  );
+
+  // Kahn's algorithm, keeping plan order among ready subtasks
+  const indegree = new Map(subtasks.map((s) => [s.id, 0]));
+  for (const edge of edges) indegree.set(edge.to, indegree.get(edge.to)! + 1);
+  const order: string[] = [];
+  const ready = subtasks.filter((s) => indegree.get(s.id) === 0).map((s) => s.id);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const edge of edges) {
+      if (edge.from !== id) continue;
+      indegree.set(edge.to, indegree.get(edge.to)! - 1);
+      if (indegree.get(edge.to) === 0) ready.push(edge.to);
+    }
+  }
+  const cyclic = subtasks.map((s) => s.id).filter((id) => !order.includes(id));
+
+  // Longest chain ending at each subtask, in dependency order
+  const byId = new Map(subtasks.map((s) => [s.id, s]));
+  const best = new Map<string, { durationMs: number; path: string[] }>();
+  for (const id of order) {
+    let previous: { durationMs: number; path: string[] } = { durationMs: 0, path: [] };
+    for (const edge of edges) {
+      const candidate = edge.to === id ? best.get(edge.from) : undefined;
+      if (candidate && (candidate.durationMs > previous.durationMs
+        || (candidate.durationMs === previous.durationMs && candidate.path.length > previous.path.length))) {
+        previous = candidate;
+      }
+    }
+    best.set(id, { durationMs: previous.durationMs + (byId.get(id)!.executionTimeMs ?? 0), path: [...previous.path, id] });
+  }
+  let critical: { durationMs: number; path: string[] } = { durationMs: 0, path: [] };
+  for (const chain of best.values()) {
+    if (chain.durationMs > critical.durationMs || (chain.durationMs === critical.durationMs && chain.path.length > critical.path.length)) {
+      critical = chain;
+    }
+  }
+
+  const counts: Record<CugaSubtaskStatus, number> = { pending: 0, running: 0, complete: 0, failed: 0, skipped: 0 };
+  for (const s of subtasks) counts[s.status]++;
+
+  return {
+    edges,
+    order,
+    cyclic,
+    criticalPath: { subtaskIds: critical.path, durationMs: critical.durationMs },
+    counts,
+  };
+}
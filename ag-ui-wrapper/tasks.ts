@@ -0,0 +1,223 @@
+/**
+ * A2A Task Registry
+ *
+ * Tracks A2A tasks executed by the wrapper so clients can come back to them
+ * with `tasks/get`, cancel them with `tasks/cancel`, and receive status
+ * updates on a push-notification webhook.
+ *
+ * Lifecycle, driven by the executors from CUGA events:
+ *   submitted → working → completed | failed | canceled
+ *                 ↕
+ *           input-required (HITL request awaiting an answer)
+ *
+ * Terminal states are final: a canceled task is not overwritten when its
+ * stream winds down afterwards.
+ *
+ * A task belongs to the tenant (organization) that created it: only that
+ * tenant can reopen it, change its webhook or look it up.
+ *
+ * Tasks left unfinished without an update for CUGA_TASK_STALE_MS (a stream
+ * that never ended, an input request nobody answered) are failed as expired,
+ * then evicted like any finished task.
+ *
+ * Configuration:
+ * - CUGA_TASK_TTL_MS: how long finished tasks are kept (default 3600000)
+ * - CUGA_TASK_MAX: tasks kept before the oldest finished ones are evicted (default 1000)
+ * - CUGA_TASK_STALE_MS: how long unfinished tasks are kept without an update (default 86400000)
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import type { PushNotifier } from './push-notifications.js';
+import type { CugaAgentState, CugaPushNotificationConfig, CugaTaskRecord, CugaTaskState, CugaUsage } from './types.js';
+import { addUsage, emptyUsage } from './usage.js';
+
+const TERMINAL_STATES: ReadonlySet<CugaTaskState> = new Set(['completed', 'canceled', 'failed']);
+
+/**
+ * Whether a task state is final
+ */
+export function isTerminalTaskState(state: CugaTaskState): boolean {
+  return TERMINAL_STATES.has(state);
+}
+
+/**
+ * Task state for the agent state at the end of a stream
+ */
+export function taskStateFromAgentState(state: CugaAgentState, error?: string): CugaTaskState {
+  if (error || state.status === 'failed') return 'failed';
+  if (state.status === 'complete') return 'completed';
+  if (state.hitlRequests?.some((r) => r.pending)) return 'input-required';
+  // The stream ended without an answer or a pending request
+  return 'failed';
+}
+
+/**
+ * A2A Task object for a record (push-notification token omitted)
+ */
+export function toA2ATask(task: CugaTaskRecord, historyLength?: number): Record<string, unknown> {
+  const history = historyLength === undefined ? task.statusHistory : task.statusHistory.slice(-historyLength);
+  const statusMessage = (message?: string) =>
+    message ? { role: 'agent', parts: [{ type: 'text', text: message }] } : undefined;
+  return {
+    id: task.id,
+    contextId: task.contextId,
+    kind: 'task',
+    status: { state: task.status.state, timestamp: task.status.timestamp, message: statusMessage(task.status.message) },
+    artifacts: task.result ? [{ name: 'cuga-result', parts: [{ type: 'text', text: task.result }] }] : [],
+    metadata: {
+      runId: task.runId,
+      skillId: task.skillId,
+      error: task.error,
+      usage: task.usage,
+      statusHistory: history,
+      pushNotification: task.pushNotification ? { url: task.pushNotification.url } : undefined,
+    },
+  };
+}
+
+export class TaskRegistry {
+  private tasks = new Map<string, CugaTaskRecord>();
+
+  constructor(
+    private notifier?: PushNotifier,
+    private ttlMs = Number.parseInt(process.env.CUGA_TASK_TTL_MS || '3600000', 10),
+    private maxTasks = Number.parseInt(process.env.CUGA_TASK_MAX || '1000', 10),
+    private staleMs = Number.parseInt(process.env.CUGA_TASK_STALE_MS || '86400000', 10)
+  ) {}
+
+  /**
+   * Create a task in `submitted` state, or reopen a non-terminal task with the same ID
+   *
+   * A finished task's ID, or one taken by another owner, is not reused; a
+   * fresh ID is assigned instead.
+   */
+  open(options: { id?: string; contextId: string; skillId?: string; owner?: string; pushNotification?: CugaPushNotificationConfig }): CugaTaskRecord {
+    const existing = options.id ? this.tasks.get(options.id) : undefined;
+    if (existing && existing.owner === options.owner && !isTerminalTaskState(existing.status.state)) {
+      if (options.pushNotification) existing.pushNotification = options.pushNotification;
+      return existing;
+    }
+
+    this.prune();
+    const now = new Date().toISOString();
+    const status = { state: 'submitted' as const, timestamp: now };
+    const task: CugaTaskRecord = {
+      id: options.id && !existing ? options.id : uuidv4(),
+      contextId: options.contextId,
+      owner: options.owner,
+      skillId: options.skillId,
+      status,
+      statusHistory: [status],
+      createdAt: now,
+      updatedAt: now,
+      pushNotification: options.pushNotification,
+    };
+    this.tasks.set(task.id, task);
+    this.push(task);
+    return task;
+  }
+
+  get(id: string): CugaTaskRecord | undefined {
+    return this.tasks.get(id);
+  }
+
+  /**
+   * Task with the ID if it belongs to `owner`
+   */
+  getOwned(id: string, owner: string | undefined): CugaTaskRecord | undefined {
+    const task = this.tasks.get(id);
+    return task && task.owner === owner ? task : undefined;
+  }
+
+  /**
+   * Most recent task of a context, belonging to `owner`, that is waiting for input
+   */
+  findInputRequired(contextId: string, owner: string | undefined): CugaTaskRecord | undefined {
+    let found: CugaTaskRecord | undefined;
+    for (const task of this.tasks.values()) {
+      if (task.contextId === contextId && task.owner === owner && task.status.state === 'input-required' && (!found || task.updatedAt >= found.updatedAt)) {
+        found = task;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Move a task to a new state
+   *
+   * Returns false when the task is unknown or already final. Repeating the
+   * current state with the same message only updates the details and does
+   * not notify. `usage` is added to the usage of the task's earlier runs.
+   */
+  update(id: string, state: CugaTaskState, details: { message?: string; runId?: string; result?: string; error?: string; usage?: CugaUsage } = {}): boolean {
+    const task = this.tasks.get(id);
+    if (!task || isTerminalTaskState(task.status.state)) {
+      return false;
+    }
+    const now = new Date().toISOString();
+    if (details.runId) task.runId = details.runId;
+    if (details.result !== undefined) task.result = details.result;
+    if (details.error !== undefined) task.error = details.error;
+    if (details.usage) task.usage = addUsage(task.usage ?? emptyUsage(), details.usage);
+    task.updatedAt = now;
+
+    if (task.status.state === state && details.message === task.status.message) {
+      return true;
+    }
+    task.status = { state, timestamp: now, message: details.message };
+    task.statusHistory.push(task.status);
+    this.push(task);
+    return true;
+  }
+
+  /**
+   * Set or replace a task's webhook
+   */
+  setPushNotification(id: string, config: CugaPushNotificationConfig): CugaTaskRecord | undefined {
+    const task = this.tasks.get(id);
+    if (task) {
+      task.pushNotification = config;
+    }
+    return task;
+  }
+
+  private push(task: CugaTaskRecord): void {
+    if (!task.pushNotification || !this.notifier) return;
+    const final = isTerminalTaskState(task.status.state);
+    void this.notifier.notify(task.id, task.pushNotification, {
+      kind: 'status-update',
+      taskId: task.id,
+      contextId: task.contextId,
+      status: toA2ATask(task).status,
+      final,
+      ...(final ? { task: toA2ATask(task) } : {}),
+    });
+  }
+
+  /**
+   * Fail stale unfinished tasks, drop expired finished tasks, then the oldest
+   * finished ones above the cap
+   */
+  private prune(): void {
+    const staleCutoff = Date.now() - this.staleMs;
+    for (const task of this.tasks.values()) {
+      if (!isTerminalTaskState(task.status.state) && Date.parse(task.updatedAt) < staleCutoff) {
+        this.update(task.id, 'failed', { message: 'Task expired without an update', error: 'task expired' });
+      }
+    }
+
+    const cutoff = Date.now() - this.ttlMs;
+    const finished = [...this.tasks.values()].filter((t) => isTerminalTaskState(t.status.state));
+    for (const task of finished) {
+      if (Date.parse(task.updatedAt) < cutoff) {
+        this.tasks.delete(task.id);
+      }
+    }
+    let excess = this.tasks.size - this.maxTasks + 1;
+    for (const task of finished) {
+      if (excess <= 0) break;
+      if (this.tasks.delete(task.id)) excess--;
+    }
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * Tracing and Metrics
+ *
+ * A small OpenTelemetry-compatible tracer and a Prometheus metrics registry,
+ * without SDK dependencies:
+ * - spans carry W3C trace context (`traceparent: 00-<trace-id>-<span-id>-01`)
+ *   so it can be propagated to the CUGA backend
+ * - ended spans are batched and exported as OTLP/HTTP JSON to a collector
+ *   (`<endpoint>/v1/traces`); nothing is exported when no endpoint is set
+ * - metrics are rendered in the Prometheus text format (served on `/metrics`
+ *   for a local collector or Prometheus to scrape)
+ *
+ * See run-telemetry.ts for the spans and metrics of CUGA runs.
+ *
+ * Configuration (standard OpenTelemetry variables):
+ * - OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: full traces URL, or
+ * - OTEL_EXPORTER_OTLP_ENDPOINT: collector base URL, e.g. http://localhost:4318
+ * - OTEL_EXPORTER_OTLP_HEADERS: extra export headers, e.g. "api-key=abc,x-tenant=t1"
+ * - OTEL_SERVICE_NAME (default cuga-ag-ui-wrapper)
+ * - OTEL_BSP_SCHEDULE_DELAY: export interval in ms (default 5000)
+ * - OTEL_BSP_MAX_EXPORT_BATCH_SIZE (default 512)
+ * - OTEL_BSP_MAX_QUEUE_SIZE: spans kept while the collector is slow (default 2048)
+ */
+
+import { randomBytes } from 'node:crypto';
+
+import { createLogger } from './logger.js';
+
+const log = createLogger('CUGA-Telemetry');
+
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+/**
+ * OTLP span kinds
+ */
+export type SpanKind = 'internal' | 'server' | 'client';
+
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+/**
+ * Wall-clock time in milliseconds, with sub-millisecond precision
+ */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function unixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Parse a W3C `traceparent` header, ignoring malformed values
+ */
+export function parseTraceparent(header: string | undefined): { traceId: string; spanId: string } | undefined {
+  const match = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/.exec(header?.trim().toLowerCase() || '');
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return undefined;
+  return { traceId: match[1], spanId: match[2] };
+}
+
+/**
+ * One timed operation of a trace
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId = randomBytes(8).toString('hex');
+  readonly parentSpanId?: string;
+  readonly startTime: number;
+  endTime?: number;
+  readonly attributes: Attributes;
+  readonly events: Array<{ name: string; time: number; attributes?: Attributes }> = [];
+  status: { code: 'unset' | 'ok' | 'error'; message?: string } = { code: 'unset' };
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    options: { parent?: { traceId: string; spanId: string }; attributes?: Attributes; startTime?: number },
+    private onEnd: (span: Span) => void
+  ) {
+    this.traceId = options.parent?.traceId ?? randomBytes(16).toString('hex');
+    this.parentSpanId = options.parent?.spanId;
+    this.attributes = { ...options.attributes };
+    this.startTime = options.startTime ?? now();
+  }
+
+  /**
+   * W3C trace context header value for calls made within this span
+   */
+  get traceparent(): string {
+    return `00-${this.traceId}-${this.spanId}-01`;
+  }
+
+  get ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  /**
+   * Seconds since the span started (until it ended, once it has)
+   */
+  get durationSeconds(): number {
+    return ((this.endTime ?? now()) - this.startTime) / 1000;
+  }
+
+  setAttributes(attributes: Attributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent(name: string, attributes?: Attributes): this {
+    this.events.push({ name, time: now(), attributes });
+    return this;
+  }
+
+  /**
+   * Mark the span failed, recording the error as an `exception` event
+   */
+  recordError(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : 'Error',
+      'exception.message': message,
+    });
+    this.status = { code: 'error', message };
+    return this;
+  }
+
+  /**
+   * End the span; later calls are ignored
+   */
+  end(endTime = now()): void {
+    if (this.ended) return;
+    this.endTime = Math.max(endTime, this.startTime);
+    this.onEnd(this);
+  }
+}
+
+export interface OtlpExporterOptions {
+  url: string;
+  headers: Record<string, string>;
+  serviceName: string;
+  scheduleDelayMs: number;
+  maxBatchSize: number;
+  maxQueueSize: number;
+}
+
+function otlpAttributes(attributes: Attributes = {}): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, AttributeValue] => entry[1] !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === 'string'
+        ? { stringValue: value }
+        : typeof value === 'boolean'
+          ? { boolValue: value }
+          : Number.isInteger(value) ? { intValue: value } : { doubleValue: value },
+    }));
+}
+
+/**
+ * Batches ended spans and POSTs them to an OTLP/HTTP collector as JSON
+ *
+ * Export failures are logged and the batch is dropped; the queue is bounded
+ * so a missing collector never grows memory.
+ */
+export class OtlpExporter {
+  private queue: Span[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private dropped = 0;
+
+  constructor(readonly options: OtlpExporterOptions) {}
+
+  add(span: Span): void {
+    if (this.queue.length >= this.options.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+    this.queue.push(span);
+    if (this.queue.length >= this.options.maxBatchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.scheduleDelayMs);
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Export every queued span
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.dropped > 0) {
+      log.warn(`Span queue full, dropped ${this.dropped} spans`);
+      this.dropped = 0;
+    }
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.options.maxBatchSize);
+      try {
+        const response = await fetch(this.options.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.options.headers },
+          body: JSON.stringify(this.payload(batch)),
+          signal: AbortSignal.timeout(10_000),
+        });
+        if (!response.ok) {
+          log.warn(`Collector rejected ${batch.length} spans: ${response.status} ${response.statusText}`);
+        }
+      } catch (error) {
+        log.warn(`Failed to export ${batch.length} spans`, { error: error instanceof Error ? error.message : error });
+      }
+    }
+  }
+
+  private payload(spans: Span[]): unknown {
+    return {
+      resourceSpans: [{
+        resource: { attributes: otlpAttributes({ 'service.name': this.options.serviceName }) },
+        scopeSpans: [{
+          scope: { name: this.options.serviceName },
+          spans: spans.map((span) => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId,
+            name: span.name,
+            kind: SPAN_KIND_CODES[span.kind],
+            startTimeUnixNano: unixNano(span.startTime),
+            endTimeUnixNano: unixNano(span.endTime ?? span.startTime),
+            attributes: otlpAttributes(span.attributes),
+            events: span.events.map((event) => ({
+              name: event.name,
+              timeUnixNano: unixNano(event.time),
+              attributes: otlpAttributes(event.attributes),
+            })),
+            status: { code: span.status.code === 'ok' ? 1 : span.status.code === 'error' ? 2 : 0, message: span.status.message },
+          })),
+        }],
+      }],
+    };
+  }
+}
+
+/**
+ * Creates spans and hands ended ones to the exporter, if any
+ *
+ * Spans are created without an exporter too, so trace context still reaches
+ * the backend when only the backend exports traces.
+ */
+export class Tracer {
+  constructor(readonly exporter?: OtlpExporter) {}
+
+  startSpan(
+    name: string,
+    options: { kind?: SpanKind; parent?: { traceId: string; spanId: string }; attributes?: Attributes; startTime?: number } = {}
+  ): Span {
+    return new Span(name, options.kind ?? 'internal', options, (span) => this.exporter?.add(span));
+  }
+}
+
+/**
+ * Tracer configured from the OTEL_* environment variables
+ */
+export function createTracer(): Tracer {
+  const base = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  const url = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || (base ? `${base.replace(/\/+$/, '')}/v1/traces` : undefined);
+  if (!url) {
+    return new Tracer();
+  }
+
+  const headers: Record<string, string> = {};
+  for (const pair of (process.env.OTEL_EXPORTER_OTLP_HEADERS || '').split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      headers[decodeURIComponent(pair.slice(0, separator).trim())] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  const serviceName = process.env.OTEL_SERVICE_NAME || 'cuga-ag-ui-wrapper';
+  log.info(`Exporting traces for ${serviceName} to ${url}`);
+  return new Tracer(new OtlpExporter({
+    url,
+    headers,
+    serviceName,
+    scheduleDelayMs: Math.max(100, envInt('OTEL_BSP_SCHEDULE_DELAY', 5000)),
+    maxBatchSize: Math.max(1, envInt('OTEL_BSP_MAX_EXPORT_BATCH_SIZE', 512)),
+    maxQueueSize: Math.max(1, envInt('OTEL_BSP_MAX_QUEUE_SIZE', 2048)),
+  }));
+}
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function labelString(labels: Labels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  return entries.length === 0 ? '' : `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * Monotonic count per label set
+ */
+export class Counter {
+  readonly type = 'counter';
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelString(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  samples(): string[] {
+    return [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`);
+  }
+}
+
+/**
+ * Current value per label set
+ */
+export class Gauge {
+  readonly type = 'gauge';
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelString(labels), value);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelString(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  samples(): string[] {
+    return [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`);
+  }
+}
+
+/**
+ * Distribution of observed values over fixed buckets, per label set
+ */
+export class Histogram {
+  readonly type = 'histogram';
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelString(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${labelString({ ...series.labels, le: String(bound) })} ${series.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${labelString({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${labelString(series.labels)} ${series.sum}`);
+      lines.push(`${this.name}_count${labelString(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metrics rendered together in the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private metrics: Array<Counter | Gauge | Histogram> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, [...buckets].sort((a, b) => a - b)));
+  }
+
+  private register<T extends Counter | Gauge | Histogram>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * All metrics in the text format (content type `text/plain; version=0.0.4`)
+   */
+  render(): string {
+    return this.metrics
+      .map((metric) => [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.samples()].join('\n'))
+      .join('\n') + '\n';
+  }
+}
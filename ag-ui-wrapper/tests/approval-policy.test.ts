@@ -0,0 +1,76 @@
+/**
+ * Unit tests: auto-approval policy
+ *
+ * Checks rule matching (wildcards, every criterion), the per-run cap and how
+ * configuration errors fall back to human approval.
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+
+import { evaluateApproval, loadApprovalPolicy, MANUAL_APPROVAL_POLICY, type ApprovalPolicy } from '../approval-policy.js';
+
+const policy: ApprovalPolicy = {
+  rules: [
+    { id: 'no-payments', description: 'Payments need a human', match: { actions: ['pay_*'] }, decision: 'escalate' },
+    { id: 'block-deletes', match: { tools: ['*.delete'], tenants: ['org-*'] }, decision: 'reject' },
+    { id: 'low-risk-mail', match: { riskLevels: ['low'], types: ['confirmation'], apps: ['mail'] }, decision: 'approve' },
+  ],
+  defaultDecision: 'escalate',
+  maxAutoApprovals: 2,
+};
+
+describe('approval policy', () => {
+  afterEach(() => {
+    delete process.env.CUGA_APPROVAL_POLICY;
+    delete process.env.CUGA_MAX_AUTO_APPROVALS;
+  });
+
+  it('applies the first rule whose criteria all match', () => {
+    const decision = evaluateApproval(policy, 'req-1', { riskLevel: 'low', type: 'confirmation', app: 'mail', action: 'send_email' }, 0);
+    assert.equal(decision.decision, 'approve');
+    assert.equal(decision.ruleId, 'low-risk-mail');
+    assert.equal(decision.reason, 'Matched rule low-risk-mail');
+
+    const partial = evaluateApproval(policy, 'req-2', { riskLevel: 'high', type: 'confirmation', app: 'mail' }, 0);
+    assert.equal(partial.ruleId, undefined);
+    assert.equal(partial.reason, 'No rule matched, applied default decision');
+  });
+
+  it('matches wildcards against actions, tools and tenants', () => {
+    const payment = evaluateApproval(policy, 'req-1', { action: 'pay_invoice', riskLevel: 'low', type: 'confirmation', app: 'mail' }, 0);
+    assert.deepEqual([payment.ruleId, payment.reason], ['no-payments', 'Payments need a human']);
+
+    const deletion = evaluateApproval(policy, 'req-2', { tools: ['crm.read', 'crm.delete'], tenant: 'org-7' }, 0);
+    assert.deepEqual([deletion.decision, deletion.ruleId], ['reject', 'block-deletes']);
+
+    const otherTenant = evaluateApproval(policy, 'req-3', { tools: ['crm.delete'], tenant: 'acme' }, 0);
+    assert.equal(otherTenant.ruleId, undefined);
+    // Dots in patterns are literal
+    const noDot = evaluateApproval(policy, 'req-4', { tools: ['crmXdelete'], tenant: 'org-7' }, 0);
+    assert.equal(noDot.ruleId, undefined);
+  });
+
+  it('escalates once the run reached its automatic decisions', () => {
+    const facts = { riskLevel: 'low' as const, type: 'confirmation' as const, app: 'mail' };
+    assert.equal(evaluateApproval(policy, 'req-1', facts, 1).decision, 'approve');
+    const capped = evaluateApproval(policy, 'req-2', facts, 2);
+    assert.equal(capped.decision, 'escalate');
+    assert.equal(capped.ruleId, 'low-risk-mail');
+    assert.equal(capped.reason, 'Max auto-approvals (2) reached');
+  });
+
+  it('falls back to human approval for an invalid configured policy', () => {
+    process.env.CUGA_APPROVAL_POLICY = JSON.stringify({ rules: [{ id: 'bad', match: {}, decision: 'maybe' }] });
+    assert.deepEqual(loadApprovalPolicy(), MANUAL_APPROVAL_POLICY);
+
+    for (const match of [null, [], { tools: 'pay_*' }, { apps: ['mail', 1] }, { tool: ['pay_*'] }]) {
+      process.env.CUGA_APPROVAL_POLICY = JSON.stringify({ rules: [{ id: 'bad-match', match, decision: 'approve' }] });
+      assert.deepEqual(loadApprovalPolicy(), MANUAL_APPROVAL_POLICY, JSON.stringify(match));
+    }
+
+    process.env.CUGA_APPROVAL_POLICY = JSON.stringify({ defaultDecision: 'reject' });
+    process.env.CUGA_MAX_AUTO_APPROVALS = '9';
+    assert.deepEqual(loadApprovalPolicy(), { rules: [], defaultDecision: 'reject', maxAutoApprovals: 9 });
+  });
+});
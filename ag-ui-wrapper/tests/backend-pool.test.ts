@@ -0,0 +1,84 @@
+/**
+ * Unit tests: backend pool routing
+ *
+ * Checks least-busy selection, thread affinity, draining, health probes and
+ * the bounded affinity map.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { BackendPool } from '../backend-pool.js';
+
+const A = 'http://pool-a.test';
+const B = 'http://pool-b.test';
+
+function held(): { stream: AsyncGenerator<string>; finish: () => void } {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  async function* stream(): AsyncGenerator<string> {
+    await done;
+  }
+  return { stream: stream(), finish };
+}
+
+describe('backend pool', () => {
+  it('sends new threads to the least busy member and keeps them there', async () => {
+    const pool = new BackendPool([A, B]);
+    const source = held();
+    const busy = pool.track(A, source.stream);
+    const drained = busy.next();
+
+    assert.equal(pool.pick('t1'), B);
+    assert.equal(pool.pick('t2'), B, 'A is still busy');
+    assert.equal(pool.owner('t1'), B);
+    assert.equal(pool.owner('unknown'), A, 'unknown threads go to the first member');
+    assert.deepEqual(pool.list().map((m) => [m.url, m.activeStreams, m.threads]), [[A, 1, 0], [B, 0, 2]]);
+    source.finish();
+    await drained;
+    assert.equal(pool.list()[0].activeStreams, 0);
+  });
+
+  it('moves new queries off draining members but keeps resume and stop on them', () => {
+    const pool = new BackendPool([A, B]);
+    assert.equal(pool.pick('t1'), A);
+    assert.equal(pool.drain(A), true);
+    assert.equal(pool.owner('t1'), A);
+    assert.equal(pool.pick('t1'), B);
+    assert.equal(pool.pick('t2'), B);
+
+    assert.equal(pool.drain(B), true);
+    assert.throws(() => pool.pick('t3'), /all members are draining/);
+    assert.equal(pool.activate(A), true);
+    assert.equal(pool.pick('t3'), A);
+    assert.equal(pool.drain('http://unknown.test'), false);
+  });
+
+  it('routes around members failing their health probe', async () => {
+    const pool = new BackendPool([A, B]);
+    await pool.checkMembers(async (url) => url !== A);
+    assert.equal(pool.pick('t1'), B);
+    assert.equal(pool.list()[0].healthy, false);
+    assert.ok(pool.list()[0].lastCheckedAt);
+
+    await pool.checkMembers(async () => {
+      throw new Error('unreachable');
+    });
+    assert.equal(pool.pick('t2'), A, 'with nothing healthy any active member is used');
+  });
+
+  it('forgets the least recently used threads above the cap', () => {
+    const pool = new BackendPool([A, B], 2);
+    pool.pick('t1');
+    pool.pick('t2');
+    pool.drain(A);
+    pool.pick('t3');
+    assert.equal(pool.owner('t1'), A, 'first member by default');
+    assert.equal(pool.owner('t3'), B);
+    assert.deepEqual(pool.list().map((m) => m.threads), [1, 1]);
+  });
+
+  it('needs at least one member', () => {
+    assert.throws(() => new BackendPool([]), /at least one member/);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests: run cancellation and the disconnect grace period
+ *
+ * Checks that runs survive a client leaving within the grace period, are
+ * canceled once it runs out, and that ended streams never cancel.
+ */
+
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { describe, it } from 'node:test';
+
+import { RunCancellations } from '../cancellation.js';
+
+const GRACE_MS = 50;
+
+function tracker(stopFails = false) {
+  const stopped: string[] = [];
+  const cancellations = new RunCancellations(async (threadId) => {
+    stopped.push(threadId);
+    if (stopFails) throw new Error('backend down');
+  }, GRACE_MS);
+  return { cancellations, stopped };
+}
+
+describe('run cancellation', () => {
+  it('keeps the run when the client reconnects within the grace period', async () => {
+    const { cancellations, stopped } = tracker();
+    const signal = cancellations.register('run-1', 't1');
+    cancellations.connect('t1');
+    cancellations.disconnect('t1');
+
+    await sleep(GRACE_MS / 5);
+    cancellations.connect('t1');
+    await sleep(GRACE_MS * 2);
+    assert.equal(signal.aborted, false);
+    assert.deepEqual(stopped, []);
+    assert.equal(cancellations.release('run-1'), undefined);
+  });
+
+  it('cancels the runs of a thread once the grace period runs out', async () => {
+    const { cancellations, stopped } = tracker();
+    const first = cancellations.register('run-1', 't1');
+    const second = cancellations.register('run-2', 't1');
+    const other = cancellations.register('run-3', 't2');
+    cancellations.connect('t1');
+    cancellations.connect('t1');
+
+    cancellations.disconnect('t1');
+    await sleep(GRACE_MS * 2);
+    assert.equal(first.aborted, false, 'another client is still listening');
+
+    cancellations.disconnect('t1');
+    assert.equal(first.aborted, false, 'canceled before the grace period');
+    await sleep(GRACE_MS * 2);
+    assert.deepEqual([first.aborted, second.aborted, other.aborted], [true, true, false]);
+    assert.deepEqual(stopped, ['t1', 't1']);
+    assert.equal(first.reason, 'Client disconnected');
+    assert.equal(cancellations.release('run-1'), 'Client disconnected');
+  });
+
+  it('does not cancel after the stream ended normally', async () => {
+    const { cancellations } = tracker();
+    const signal = cancellations.register('run-1', 't1');
+    cancellations.connect('t1');
+    cancellations.done('t1');
+    cancellations.disconnect('t1');
+    await sleep(GRACE_MS * 2);
+    assert.equal(signal.aborted, false);
+  });
+
+  it('cancels a run once, even when stopping the thread fails', async () => {
+    const { cancellations, stopped } = tracker(true);
+    const signal = cancellations.register('run-1', 't1');
+    assert.equal(await cancellations.cancel('run-1', 'Canceled by client'), true);
+    assert.equal(await cancellations.cancel('run-1', 'again'), false);
+    assert.equal(signal.aborted, true);
+    assert.deepEqual(stopped, ['t1']);
+    assert.equal(await cancellations.cancel('unknown', 'nothing'), false);
+    assert.equal(cancellations.signal('unknown').aborted, false);
+  });
+
+  it('cancels immediately without a grace period', async () => {
+    const cancellations = new RunCancellations(async () => undefined, 0);
+    const signal = cancellations.register('run-1', 't1');
+    cancellations.connect('t1');
+    cancellations.disconnect('t1');
+    await sleep(0);
+    assert.equal(signal.aborted, true);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests: credential cache
+ *
+ * Checks TTL caching per key and task type, shared lookups, what is never
+ * cached, and invalidation racing a running lookup.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { CredentialCache, hashApiKey } from '../credential-cache.js';
+import type { AICredentials } from '../types.js';
+
+const credentials: AICredentials = { apiKey: 'sk-tenant', model: 'gpt-4o', organizationId: 'org-1' };
+
+function resolver(found = true) {
+  let calls = 0;
+  return {
+    resolve: async () => {
+      calls++;
+      return found ? credentials : undefined;
+    },
+    get calls() {
+      return calls;
+    },
+  };
+}
+
+describe('credential cache', () => {
+  it('caches per API key and task type, and shares concurrent lookups', async () => {
+    const cache = new CredentialCache(60_000, 10);
+    const lookup = resolver();
+    const [first, second] = await Promise.all([
+      cache.get('key-1', 'COMPLEX', lookup.resolve),
+      cache.get('key-1', 'COMPLEX', lookup.resolve),
+    ]);
+    assert.equal(first, credentials);
+    assert.equal(second, credentials);
+    await cache.get('key-1', 'COMPLEX', lookup.resolve);
+    assert.equal(lookup.calls, 1);
+
+    await cache.get('key-1', 'VISION', lookup.resolve);
+    assert.equal(lookup.calls, 2);
+    assert.equal(cache.size, 2);
+  });
+
+  it('does not cache failures or tenants without credentials', async () => {
+    const cache = new CredentialCache(60_000, 10);
+    await assert.rejects(cache.get('key-1', 'COMPLEX', async () => {
+      throw new Error('runtime down');
+    }), /runtime down/);
+    const missing = resolver(false);
+    assert.equal(await cache.get('key-1', 'COMPLEX', missing.resolve), undefined);
+    assert.equal(await cache.get('key-1', 'COMPLEX', missing.resolve), undefined);
+    assert.equal(missing.calls, 2);
+    assert.equal(cache.size, 0);
+  });
+
+  it('does not refill an entry invalidated while its lookup was running', async () => {
+    const cache = new CredentialCache(60_000, 10);
+    let finish!: (value: AICredentials) => void;
+    const stale = cache.get('key-1', 'COMPLEX', () => new Promise((resolve) => (finish = resolve)));
+    cache.invalidate('key-1');
+    finish({ ...credentials, model: 'revoked-model' });
+    assert.equal((await stale)?.model, 'revoked-model');
+    assert.equal(cache.size, 0);
+
+    const fresh = resolver();
+    assert.equal(await cache.get('key-1', 'COMPLEX', fresh.resolve), credentials);
+    assert.equal(fresh.calls, 1);
+  });
+
+  it('invalidates by key or hash, or everything', async () => {
+    const cache = new CredentialCache(60_000, 10);
+    const lookup = resolver();
+    await cache.get('key-1', 'COMPLEX', lookup.resolve);
+    await cache.get('key-1', 'VISION', lookup.resolve);
+    await cache.get('key-2', 'COMPLEX', lookup.resolve);
+
+    assert.equal(cache.invalidate(hashApiKey('key-1')), 2);
+    assert.equal(cache.invalidate('key-2'), 1);
+    await cache.get('key-3', 'COMPLEX', lookup.resolve);
+    assert.equal(cache.invalidate(), 1);
+    assert.equal(cache.size, 0);
+  });
+
+  it('evicts the oldest entries above the cap and caches nothing with a zero TTL', async () => {
+    const capped = new CredentialCache(60_000, 2);
+    const lookup = resolver();
+    for (const key of ['key-1', 'key-2', 'key-3']) await capped.get(key, 'COMPLEX', lookup.resolve);
+    assert.equal(capped.size, 2);
+    await capped.get('key-1', 'COMPLEX', lookup.resolve);
+    assert.equal(lookup.calls, 4);
+
+    const disabled = new CredentialCache(0, 10);
+    await disabled.get('key-1', 'COMPLEX', lookup.resolve);
+    assert.equal(disabled.size, 0);
+  });
+});
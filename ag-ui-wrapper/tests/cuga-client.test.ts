@@ -0,0 +1,94 @@
+/**
+ * Contract tests: CUGA client against the mock backend
+ *
+ * Checks the wire format the Python backend relies on (headers, stream and
+ * ActionResponse bodies) and how backend failures surface.
+ */
+
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+
+import { MockCugaBackend } from '../mock-backend.js';
+import type { CugaSSEEvent } from '../types.js';
+
+const backend = new MockCugaBackend();
+process.env.CUGA_BACKEND_URLS = await backend.start();
+process.env.CUGA_MAX_RETRIES = '0';
+process.env.CUGA_BREAKER_FAILURE_THRESHOLD = '100';
+
+const { resumeExecution, stopExecution, streamQuery } = await import('../cuga-client.js');
+
+async function collect(events: AsyncGenerator<CugaSSEEvent>): Promise<CugaSSEEvent[]> {
+  const collected: CugaSSEEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+describe('CUGA client contract', () => {
+  after(() => backend.close());
+
+  it('sends the query with thread and credential headers', async () => {
+    const events = await collect(streamQuery(
+      { query: '[scenario:answer] What is the answer?', thread_id: 'client-1' },
+      { apiKey: 'sk-test', provider: 'openai', model: 'gpt-4o', organizationId: 'org-1' }
+    ));
+
+    assert.deepEqual(events.map((e) => e.name), ['ChatAgent', 'Answer']);
+    const request = backend.requestsTo('/stream').at(-1);
+    assert.equal(request?.headers['x-thread-id'], 'client-1');
+    assert.equal(request?.headers['x-ai-api-key'], 'sk-test');
+    assert.equal(request?.headers['x-ai-model'], 'gpt-4o');
+    assert.equal(request?.headers['x-organization-id'], 'org-1');
+    assert.match(String((request?.body as { query?: string }).query), /What is the answer\?/);
+  });
+
+  it('sends the invoked skill settings with the query', async () => {
+    await collect(streamQuery({ query: '[scenario:answer] Sum the invoices', thread_id: 'client-7', skill_id: 'api-orchestration', api_mode: true, apps: ['billing'] }));
+    const body = backend.requestsTo('/stream').at(-1)?.body as Record<string, unknown>;
+    assert.deepEqual(body, { query: '[scenario:answer] Sum the invoices', api_mode: true, apps: ['billing'] });
+
+    await collect(streamQuery({ query: '[scenario:answer] Go', thread_id: 'client-8', api_mode: true }));
+    assert.deepEqual(backend.requestsTo('/stream').at(-1)?.body, { query: '[scenario:answer] Go' });
+  });
+
+  it('resumes with an ActionResponse for the interrupt', async () => {
+    const initial = await collect(streamQuery({ query: '[scenario:interrupt] Email the report', thread_id: 'client-2' }));
+    assert.equal(initial.at(-1)?.name, '__interrupt__');
+
+    const resumed = await collect(resumeExecution({ thread_id: 'client-2', action_id: 'int_1', action: 'reject' }));
+    assert.deepEqual(resumed.map((e) => e.data), [JSON.stringify({ subtask_id: 'st_1', subtask_status: 'skipped' }), 'Report email not sent']);
+    const body = backend.requestsTo('/stream').at(-1)?.body as Record<string, unknown>;
+    assert.equal(body.action_id, 'int_1');
+    assert.equal(body.action, 'reject');
+    assert.equal(body.confirmed, false);
+  });
+
+  it('passes malformed payloads through and skips frames without an event name', async () => {
+    const events = await collect(streamQuery({ query: '[scenario:malformed-json] Go', thread_id: 'client-3' }));
+    assert.deepEqual(events.map((e) => e.name), ['code_execution', 'PlanControllerAgent', 'Answer']);
+    assert.equal(events[0].data, '{"id": "code_1", "code": "print(');
+  });
+
+  it('fails when the connection drops mid-stream', async () => {
+    const events: CugaSSEEvent[] = [];
+    await assert.rejects(async () => {
+      for await (const event of streamQuery({ query: '[scenario:mid-stream-drop] Go', thread_id: 'client-4' })) {
+        events.push(event);
+      }
+    }, { name: 'CugaBackendError' });
+    assert.deepEqual(events.map((e) => e.name), ['TaskDecompositionAgent', 'PlanControllerAgent']);
+  });
+
+  it('surfaces 5xx answers as backend errors', async () => {
+    await assert.rejects(collect(streamQuery({ query: '[scenario:unavailable] Go', thread_id: 'client-5' })), { name: 'CugaBackendError', status: 503 });
+  });
+
+  it('stops a running thread', async () => {
+    const stream = collect(streamQuery({ query: '[scenario:slow] Go', thread_id: 'client-6' }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await stopExecution('client-6');
+    const events = await stream;
+    assert.deepEqual(events.map((e) => e.name), ['TaskAnalyzerAgent', 'Stopped']);
+    assert.deepEqual(backend.requestsTo('/stop').at(-1)?.body, { thread_id: 'client-6' });
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Contract tests: wrapper executors end-to-end against the mock backend
+ *
+ * Drives the invoke (plus its A2A result transform), A2A streaming and
+ * platform streaming executors through recorded scenarios and checks the
+ * artifacts, stream items and agent states they produce.
+ */
+
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+
+import { MockCugaBackend } from '../mock-backend.js';
+import type { CugaAgentState, CugaAttachment, CugaMessagePart, CugaSubtask, CugaSubtaskGraph } from '../types.js';
+
+const backend = new MockCugaBackend();
+process.env.CUGA_BACKEND_URLS = await backend.start();
+process.env.CUGA_MAX_RETRIES = '0';
+process.env.CUGA_BREAKER_FAILURE_THRESHOLD = '100';
+process.env.CUGA_HEALTH_CHECK_INTERVAL_MS = '0';
+process.env.CUGA_RATE_LIMIT_BURST = '100';
+process.env.PORT = '0';
+process.env.HOST = '127.0.0.1';
+process.env.CUGA_WORKSPACE_UPLOAD_TOKEN = 'upload-token';
+process.env.CUGA_ADMIN_TOKEN = 'admin-token';
+
+const { app, invokeCuga, streamA2A, streamPlatform, toA2AResult } = await import('../server.js');
+
+function input(threadId: string, text: string, metadata: Record<string, unknown> = {}) {
+  return { messages: [{ role: 'user', content: text }], threadId, metadata };
+}
+
+async function collect<T>(items: AsyncGenerator<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) collected.push(item);
+  return collected;
+}
+
+/**
+ * Backend requests made for a thread
+ */
+function requestsFor(threadId: string) {
+  return backend.requests.filter((r) => r.headers['x-thread-id'] === threadId);
+}
+
+after(() => backend.close());
+
+describe('invoke executor', () => {
+  it('returns the answer, variables and a result artifact', async () => {
+    const output = await invokeCuga(input('invoke-answer', '[scenario:answer] What is the answer?'));
+    assert.equal(output.response, 'The answer is 42');
+    assert.equal(output.status, 'complete');
+    assert.equal(output.taskState, 'completed');
+    assert.deepEqual(output.variables, { result: { type: 'int', value: 42, description: 'Computed result' } });
+
+    const result = toA2AResult(output);
+    assert.deepEqual(result.artifacts.map((a) => a.name), ['cuga-result']);
+    assert.equal(result.metadata.threadId, 'invoke-answer');
+    assert.equal(result.metadata.runId, output.runId);
+  });
+
+  it('propagates the thread and trace context to the backend', async () => {
+    await invokeCuga(input('invoke-headers', '[scenario:answer] Hello'));
+    const [request] = requestsFor('invoke-headers');
+    assert.equal(request.path, '/stream');
+    assert.match(request.headers.traceparent, /^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+  });
+
+  it('reports subtasks and code executions as artifacts', async () => {
+    const output = await invokeCuga(input('invoke-plan', '[scenario:decomposition] Summarize the top account'));
+    assert.deepEqual(output.subtasks?.map((s: CugaSubtask) => [s.id, s.status]), [['st_1', 'complete'], ['st_2', 'complete']]);
+    assert.equal(output.codeExecutions?.length, 1);
+    assert.equal(output.codeExecutions?.[0].status, 'complete');
+    assert.equal(output.codeExecutions?.[0].executionTimeMs, 120);
+
+    const result = toA2AResult(output);
+    assert.deepEqual(result.artifacts.map((a) => a.name), ['cuga-result', 'code-execution-code_1', 'subtasks']);
+    const subtasks = result.artifacts[2].parts[0];
+    assert.equal(subtasks.type, 'data');
+    assert.equal((subtasks as { data: { subtasks: CugaSubtask[] } }).data.subtasks.length, 2);
+  });
+
+  it('builds the subtask graph with timings, outputs and blocked dependents', async () => {
+    const output = await invokeCuga(input('invoke-graph', '[scenario:decomposition-graph] Chase overdue invoices'));
+    const byId = Object.fromEntries((output.subtasks ?? []).map((s: CugaSubtask) => [s.id, s]));
+    assert.deepEqual(Object.values(byId).map((s) => [s.id, s.status, s.dependencies]), [
+      ['st_a', 'complete', []],
+      ['st_b', 'failed', []],
+      ['st_c', 'skipped', ['st_a', 'st_b']],
+      ['st_d', 'skipped', ['st_c']],
+    ]);
+    assert.equal(byId.st_a.output, '3 overdue accounts');
+    assert.ok(byId.st_a.startedAt && byId.st_a.finishedAt);
+    assert.equal(byId.st_a.executionTimeMs, Date.parse(byId.st_a.finishedAt) - Date.parse(byId.st_a.startedAt));
+    assert.equal(byId.st_b.error, 'Billing API unavailable');
+    assert.equal(byId.st_b.executionTimeMs, 5);
+    assert.equal(byId.st_c.error, 'Depends on failed subtask st_b');
+
+    const data = toA2AResult(output).artifacts.find((a) => a.name === 'subtasks')?.parts[0] as { data: { graph: CugaSubtaskGraph } };
+    assert.deepEqual(data.data.graph.order, ['st_a', 'st_b', 'st_c', 'st_d']);
+    assert.equal(data.data.graph.edges.length, 3);
+    assert.deepEqual(data.data.graph.criticalPath.subtaskIds, ['st_a', 'st_c', 'st_d']);
+    assert.deepEqual(data.data.graph.counts, { pending: 0, running: 0, complete: 1, failed: 1, skipped: 2 });
+  });
+
+  it('accepts nested decompositions without subtask IDs', async () => {
+    const output = await invokeCuga(input('invoke-nested', '[scenario:decomposition-nested] Get the invoice'));
+    assert.deepEqual(output.subtasks?.map((s: CugaSubtask) => ({ id: s.id, description: s.description, app: s.app })), [
+      { id: 'subtask_0', description: 'Open the portal', app: 'portal' },
+      { id: 'subtask_1', description: 'Download the invoice', app: undefined },
+    ]);
+    assert.equal(output.response, 'Invoice downloaded');
+  });
+
+  it('treats text decompositions as progress without subtasks', async () => {
+    const output = await invokeCuga(input('invoke-text', '[scenario:decomposition-text] Book a flight'));
+    assert.deepEqual(output.subtasks, []);
+    assert.equal(output.response, 'Cheapest flight: 129 USD');
+  });
+
+  it('fails the task when the backend drops the stream', async () => {
+    const output = await invokeCuga(input('invoke-drop', '[scenario:mid-stream-drop] Summarize the top account'));
+    assert.match(output.error ?? '', /CUGA backend/);
+    assert.match(output.response, /^Error: /);
+    assert.equal(output.taskState, 'failed');
+    assert.equal(output.subtasks?.length, 2);
+  });
+});
+
+describe('attachments', () => {
+  function withParts(threadId: string, parts: CugaMessagePart[]) {
+    return { messages: [{ role: 'user', content: parts }], threadId, metadata: {} };
+  }
+
+  it('uploads file and data parts and lists them in the query', async () => {
+    const output = await invokeCuga(withParts('invoke-files', [
+      { kind: 'text', text: '[scenario:answer] Summarize the notes' },
+      { kind: 'file', file: { name: 'notes.txt', mimeType: 'text/plain', bytes: Buffer.from('Q3 revenue is up').toString('base64') } },
+      { kind: 'data', data: { account: 'Acme' } },
+    ]));
+    assert.equal(output.status, 'complete');
+    const paths = output.attachments?.map((a: CugaAttachment) => a.path) ?? [];
+    assert.equal(paths.length, 2);
+    assert.match(paths[0], /^cuga_workspace\/uploads\/invoke-files\/\w+\/notes\.txt$/);
+    assert.equal(paths[1], paths[0].replace('notes.txt', 'data-2.json'));
+    const uploads = backend.uploads.filter((u) => u.threadId === 'invoke-files');
+    assert.equal(uploads[0].content, 'Q3 revenue is up');
+    assert.deepEqual(JSON.parse(uploads[1].content), { account: 'Acme' });
+    assert.ok(requestsFor('invoke-files').filter((r) => r.path === '/api/workspace/upload').every((r) => r.headers['x-cuga-upload-token'] === 'upload-token'));
+
+    const query = (requestsFor('invoke-files').find((r) => r.path === '/stream')?.body as { query: string }).query;
+    assert.match(query, /^\[scenario:answer\] Summarize the notes/);
+    assert.ok(query.includes(`- ${paths[0]} (text/plain, 16 B)`));
+    assert.deepEqual(toA2AResult(output).metadata.attachments, output.attachments);
+  });
+
+  it('uploads the same file name again in a later message', async () => {
+    const message = () => withParts('invoke-files-again', [
+      { kind: 'text', text: '[scenario:answer] Summarize the notes' },
+      { kind: 'file', file: { name: 'notes.txt', mimeType: 'text/plain', bytes: Buffer.from('v1').toString('base64') } },
+    ]);
+    const first = await invokeCuga(message());
+    const second = await invokeCuga(message());
+    assert.equal(second.status, 'complete');
+    assert.notEqual(second.attachments?.[0].path, first.attachments?.[0].path);
+  });
+
+  it('refuses disallowed attachments without calling the backend', async () => {
+    const output = await invokeCuga(withParts('invoke-bad-file', [
+      { kind: 'text', text: '[scenario:answer] Run this' },
+      { kind: 'file', file: { name: 'tool.exe', mimeType: 'application/x-msdownload', bytes: 'TVqQ' } },
+    ]));
+    assert.equal(output.errorCode, 'invalid_attachment');
+    assert.match(output.error ?? '', /parts\[1\] type application\/x-msdownload is not allowed/);
+    assert.equal(requestsFor('invoke-bad-file').length, 0);
+  });
+});
+
+describe('structured output', () => {
+  const schema = {
+    type: 'object',
+    required: ['account', 'revenue'],
+    properties: { account: { type: 'string' }, revenue: { type: 'number' } },
+  };
+
+  it('re-asks until the answer matches the schema and returns it as data', async () => {
+    const output = await invokeCuga(input('invoke-structured', '[scenario:structured] Top account?', { response_schema: schema }));
+    assert.deepEqual(output.structuredOutput, { name: undefined, valid: true, data: { account: 'Acme', revenue: 1200000 }, errors: [], attempts: 2 });
+
+    const [ask, reask] = requestsFor('invoke-structured');
+    assert.equal(ask.headers['x-cuga-response-format'], undefined);
+    assert.match((ask.body as { query: string }).query, /matches this JSON Schema/);
+    assert.match((reask.body as { query: string }).query, /\$\.revenue expected number, got string/);
+
+    const result = toA2AResult(output);
+    const artifact = result.artifacts.find((a) => a.name === 'structured-output');
+    assert.deepEqual(artifact?.parts[0], { type: 'data', data: { account: 'Acme', revenue: 1200000 } });
+    assert.equal(result.metadata.structuredOutput?.valid, true);
+  });
+
+  it('reports violations once the repair budget is spent', async () => {
+    const output = await invokeCuga(input('invoke-structured-invalid', '[scenario:structured] Top account?', {
+      response_format: { type: 'json_schema', json_schema: { name: 'account', schema } },
+      structured_output_max_repairs: 0,
+    }));
+    assert.equal(output.structuredOutput?.valid, false);
+    assert.deepEqual(output.structuredOutput?.errors, [{ path: '$.revenue', message: 'expected number, got string' }]);
+    assert.equal(requestsFor('invoke-structured-invalid').length, 1);
+    assert.equal(toA2AResult(output).metadata.structuredOutput?.name, 'account');
+  });
+});
+
+describe('A2A streaming executor', () => {
+  it('auto-approves interrupts and resumes to the answer', async () => {
+    const items = await collect(streamA2A(input('a2a-approve', '[scenario:interrupt] Email the report')));
+    const texts = items.map((i) => i.text);
+    assert.ok(texts.includes('[Auto-approving action 1...]'));
+    assert.equal(texts.at(-1), 'Report email sent');
+
+    const resume = requestsFor('a2a-approve').find((r) => (r.body as { action_id?: string }).action_id);
+    assert.equal((resume?.body as { action_id?: string }).action_id, 'send_report');
+    assert.equal((resume?.body as { action?: string }).action, 'approve');
+  });
+
+  it('leaves interrupts to a human when auto-approval is off', async () => {
+    const items = await collect(streamA2A(input('a2a-manual', '[scenario:interrupt] Email the report', { auto_approve: false })));
+    assert.equal(items.at(-1)?.text, '[HITL Required] Send the report email to the team?');
+    assert.equal(requestsFor('a2a-manual').length, 1);
+    const pending = await (await app.request('/cuga/threads/a2a-manual/pending')).json() as { requests: Array<{ id: string }> };
+    assert.deepEqual(pending.requests.map((r) => r.id), ['int_1']);
+  });
+
+  it('stops tracking the interrupt of a run that failed', async () => {
+    const items = await collect(streamA2A(input('a2a-interrupt-drop', '[scenario:interrupt-drop] Email the report', { auto_approve: false })));
+    assert.equal(items.at(-1)?.type, 'error');
+    const pending = await (await app.request('/cuga/threads/a2a-interrupt-drop/pending')).json() as { requests: unknown[] };
+    assert.deepEqual(pending.requests, []);
+  });
+
+  it('streams an error item when the backend drops the stream', async () => {
+    const items = await collect(streamA2A(input('a2a-drop', '[scenario:mid-stream-drop] Go')));
+    assert.equal(items.at(-1)?.type, 'error');
+    assert.match(items.at(-1)?.error ?? '', /CUGA backend/);
+  });
+});
+
+describe('platform streaming executor', () => {
+  function finalState(events: Array<{ nodeName: string; state: Record<string, unknown>; isFinal: boolean }>): CugaAgentState {
+    const last = events.at(-1);
+    assert.ok(last?.isFinal);
+    return last.state as unknown as CugaAgentState;
+  }
+
+  it('ends with the answer and the settled plan', async () => {
+    const events = await collect(streamPlatform(input('platform-plan', '[scenario:decomposition] Summarize the top account')));
+    assert.deepEqual(events.map((e) => e.nodeName).slice(0, 2), ['TaskAnalyzerAgent', 'TaskDecompositionAgent']);
+    assert.equal(events.at(-1)?.nodeName, 'Answer');
+    const state = finalState(events);
+    assert.equal(state.finalAnswer, 'Acme is the top account; summary drafted');
+    assert.deepEqual(state.subtasks?.map((s) => s.status), ['complete', 'complete']);
+    assert.equal(state.codeExecutions?.[0].output, "[{'name': 'Acme'}]");
+  });
+
+  it('emits an AutoResume update with the approval decision', async () => {
+    const events = await collect(streamPlatform(input('platform-approve', '[scenario:interrupt] Email the report')));
+    const autoResume = events.find((e) => e.nodeName === 'AutoResume');
+    assert.equal((autoResume?.state.approvalDecision as { decision?: string }).decision, 'approve');
+    assert.deepEqual(finalState(events).subtasks?.map((s) => s.status), ['complete']);
+  });
+
+  it('records schema warnings for malformed payloads and still answers', async () => {
+    const events = await collect(streamPlatform(input('platform-malformed', '[scenario:malformed-json] Go')));
+    const state = finalState(events);
+    assert.equal(state.finalAnswer, 'Done despite bad payloads');
+    assert.ok(state.schemaWarnings?.some((w) => w.event === 'code_execution' && w.message === 'payload is not valid JSON'));
+    assert.ok(state.schemaWarnings?.some((w) => w.event === 'PlanControllerAgent'));
+  });
+
+  it('ends with an Error update when the backend drops the stream', async () => {
+    const events = await collect(streamPlatform(input('platform-drop', '[scenario:mid-stream-drop] Go')));
+    assert.equal(events.at(-1)?.nodeName, 'Error');
+    assert.equal(finalState(events).status, 'failed');
+  });
+
+  it('keeps the run going within the grace period after the client leaves', async () => {
+    const events = streamPlatform(input('platform-leave', '[scenario:decomposition-graph] Go'));
+    assert.equal((await events.next()).value?.nodeName, 'TaskDecompositionAgent');
+    await events.return(undefined);
+
+    assert.ok(!backend.requests.some((r) => r.path === '/stop' && (r.body as { thread_id?: string }).thread_id === 'platform-leave'));
+    const response = await app.request('/cuga/threads/platform-leave/runs', { headers: { 'X-CUGA-Admin-Token': 'admin-token' } });
+    const { runs } = await response.json() as { runs: Array<{ status: string }> };
+    assert.deepEqual(runs.map((r) => r.status), ['complete']);
+  });
+});
+
+describe('admin routes', () => {
+  const admin = { 'X-CUGA-Admin-Token': 'admin-token', 'Content-Type': 'application/json' };
+
+  it('refuses requests without the admin token', async () => {
+    for (const path of ['/cuga/quotas', '/cuga/usage', '/cuga/backends', '/cuga/runs/unknown', '/cuga/threads/any/runs']) {
+      assert.equal((await app.request(path)).status, 401, path);
+      assert.equal((await app.request(path, { headers: { 'X-CUGA-Admin-Token': 'wrong' } })).status, 401, path);
+    }
+    assert.equal((await app.request('/cuga/quotas', { headers: admin })).status, 200);
+  });
+
+  it('rejects invalid bodies instead of failing or flushing every credential', async () => {
+    const drain = await app.request('/cuga/backends/drain', { method: 'POST', headers: admin, body: '{not json' });
+    assert.equal(drain.status, 400);
+    const invalidate = await app.request('/cuga/credentials/invalidate', { method: 'POST', headers: admin, body: '{}' });
+    assert.equal(invalidate.status, 400);
+    const all = await app.request('/cuga/credentials/invalidate', { method: 'POST', headers: admin, body: '{"all":true}' });
+    assert.deepEqual(await all.json(), { invalidated: 0 });
+  });
+});
+
+describe('thread routes', () => {
+  it('rejects malformed JSON bodies', async () => {
+    for (const path of ['/cuga/stop', '/cuga/resume', '/cuga/agui']) {
+      const response = await app.request(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{not json' });
+      assert.equal(response.status, 400, path);
+      assert.deepEqual(await response.json(), { error: 'invalid JSON body' }, path);
+    }
+  });
+
+  it('lists screenshots of runs started without an organization without the admin token', async () => {
+    const listing = await app.request('/cuga/threads/platform-leave/runs', { headers: { 'X-CUGA-Admin-Token': 'admin-token' } });
+    const [{ runId }] = (await listing.json() as { runs: Array<{ runId: string }> }).runs;
+    const response = await app.request(`/cuga/runs/${runId}/screenshots`);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { runId, screenshots: [] });
+    assert.equal((await app.request(`/cuga/runs/${runId}/screenshots/0`)).status, 404);
+    assert.equal((await app.request(`/cuga/runs/${runId}`)).status, 401);
+  });
+
+  it('shows pending requests of threads started without an organization', async () => {
+    const response = await app.request('/cuga/threads/invoke-answer/pending');
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { threadId: 'invoke-answer', requests: [] });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests: conversation history strategies
+ *
+ * Checks how each strategy turns the history into the `/stream` query, and
+ * the summarize fallbacks, with the summary model mocked through fetch.
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+
+import { buildStreamBody, historyConfigFromMetadata } from '../history.js';
+import type { CugaHistoryMessage } from '../types.js';
+
+const history: CugaHistoryMessage[] = [
+  { role: 'user', content: 'List overdue invoices' },
+  { role: 'assistant', content: 'There are 3 overdue invoices: INV-1, INV-2 and INV-3' },
+  { role: 'user', content: 'Which is the largest?' },
+  { role: 'assistant', content: 'INV-2 at 1200 USD' },
+];
+
+function context(query: string): string[] {
+  const match = /--- Previous Conversation Context ---\n([\s\S]*)\n--- End Context ---/.exec(query);
+  return match ? match[1].split('\n') : [];
+}
+
+function mockSummary(response: () => Response | Promise<Response>) {
+  return mock.method(globalThis, 'fetch', async () => response());
+}
+
+describe('history strategies', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('sends the last messages, truncated, with last-n', async () => {
+    const body = await buildStreamBody('Email its owner', history, 'last-n', { maxMessages: 2, maxCharsPerMessage: 10 });
+    assert.deepEqual(context(body.query), ['[User]: Which is t...', '[Assistant]: INV-2 at 1...']);
+    assert.ok(body.query.endsWith('Current question: Email its owner'));
+  });
+
+  it('sends only the query without history or with none', async () => {
+    assert.deepEqual(await buildStreamBody('Hi', [], 'last-n'), { query: 'Hi' });
+    assert.deepEqual(await buildStreamBody('Hi', history, 'none'), { query: 'Hi' });
+  });
+
+  it('keeps the most recent messages within the token budget', async () => {
+    // 5 + 6 tokens for the last two messages leave 1 token (4 characters) of the one before
+    const body = await buildStreamBody('Next?', history, 'token-budget', { maxTokens: 12 });
+    assert.deepEqual(context(body.query), ['[Assistant]: ...NV-3', '[User]: Which is the largest?', '[Assistant]: INV-2 at 1200 USD']);
+  });
+
+  it('summarizes older messages with the tenant model', async () => {
+    const fetch = mockSummary(() => Response.json({ choices: [{ message: { content: 'INV-1..3 are overdue' } }] }));
+    const body = await buildStreamBody('Next?', history, 'summarize', { maxMessages: 1 }, { apiKey: 'sk-test', provider: 'openai', model: 'gpt-4o', baseUrl: 'http://llm.test/v1/' });
+
+    assert.deepEqual(context(body.query), ['[System]: Summary of earlier conversation: INV-1..3 are overdue', '[Assistant]: INV-2 at 1200 USD']);
+    const [url, init] = fetch.mock.calls[0].arguments as [string, RequestInit];
+    assert.equal(url, 'http://llm.test/v1/chat/completions');
+    assert.equal((init.headers as Record<string, string>).Authorization, 'Bearer sk-test');
+    assert.equal(JSON.parse(init.body as string).model, 'gpt-4o');
+  });
+
+  it('falls back to the token budget when it cannot summarize', async () => {
+    const fetch = mockSummary(() => new Response('unavailable', { status: 503 }));
+    const expected = await buildStreamBody('Next?', history, 'token-budget');
+
+    assert.deepEqual(await buildStreamBody('Next?', history, 'summarize', { maxMessages: 1 }, { apiKey: 'key', provider: 'watsonx' }), expected);
+    assert.deepEqual(await buildStreamBody('Next?', history, 'summarize', { maxMessages: 1 }), expected);
+    assert.equal(fetch.mock.callCount(), 0);
+
+    assert.deepEqual(await buildStreamBody('Next?', history, 'summarize', { maxMessages: 1 }, { apiKey: 'key' }), expected);
+    assert.ok(fetch.mock.callCount() >= 1);
+  });
+
+  it('stops instead of falling back when the run is canceled', async () => {
+    const controller = new AbortController();
+    mockSummary(() => {
+      controller.abort();
+      throw new DOMException('aborted', 'AbortError');
+    });
+    await assert.rejects(buildStreamBody('Next?', history, 'summarize', { maxMessages: 1 }, { apiKey: 'key' }, controller.signal));
+  });
+
+  it('reads the strategy and options from metadata', () => {
+    assert.deepEqual(historyConfigFromMetadata({ historyStrategy: 'summarize', history_options: { maxTokens: 100 } }), {
+      history_strategy: 'summarize',
+      history_options: { maxTokens: 100 },
+    });
+    assert.equal(historyConfigFromMetadata({ history_strategy: 'native' }).history_strategy, 'last-n');
+  });
+});
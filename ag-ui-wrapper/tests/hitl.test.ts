@@ -0,0 +1,78 @@
+/**
+ * Unit tests: HITL request correlation
+ *
+ * Checks interrupt parsing and stable IDs, the answers accepted per request
+ * type, and the pending registry.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { buildHitlResume, parseInterrupt, PendingHitlRegistry } from '../hitl.js';
+
+describe('HITL requests', () => {
+  it('keeps the backend interrupt ID and action ID apart', () => {
+    const request = parseInterrupt({ interrupt_id: 'int_7', action_id: 'send_email', type: 'button', message: 'Send it?' }, 0, 'run-1');
+    assert.deepEqual(request, {
+      id: 'int_7',
+      actionId: 'send_email',
+      type: 'confirmation',
+      message: 'Send it?',
+      context: undefined,
+      options: undefined,
+      defaultValue: undefined,
+      responseType: 'button',
+      multiSelect: undefined,
+      pending: true,
+    });
+  });
+
+  it('falls back to run-scoped positions without a backend ID', () => {
+    assert.equal(parseInterrupt({ message: 'Go on?' }, 2, 'run-1').id, 'run-1:3');
+    assert.equal(parseInterrupt('Approve the payment', 0).id, 'hitl_1');
+    assert.equal(parseInterrupt('Approve the payment', 0).message, 'Approve the payment');
+  });
+
+  it('parses selection options and defaults', () => {
+    const request = parseInterrupt({ id: 'pick', type: 'multi_select', options: [{ value: 'a', label: 'A' }, { id: 'b' }, {}], default_value: 'a' }, 0);
+    assert.equal(request.type, 'selection');
+    assert.equal(request.multiSelect, true);
+    assert.deepEqual(request.options, [{ id: 'a', label: 'A', description: undefined }, { id: 'b', label: 'b', description: undefined }]);
+    assert.equal(request.defaultValue, 'a');
+  });
+
+  it('checks answers against the request type', () => {
+    const input = parseInterrupt({ id: 'name', action_id: 'ask_name', type: 'text_input' }, 0);
+    assert.deepEqual(buildHitlResume('t1', input, { value: 'Ada' }), {
+      resume: { thread_id: 't1', action: 'approve', action_id: 'ask_name', response_type: 'text_input', modified_value: undefined, value: 'Ada' },
+    });
+    assert.deepEqual(buildHitlResume('t1', input, {}), { error: 'request name requires a value' });
+
+    const select = parseInterrupt({ id: 'pick', type: 'single_select', options: [{ id: 'a' }, { id: 'b' }] }, 0);
+    const selected = buildHitlResume('t1', select, { selection: 'b' });
+    assert.deepEqual('resume' in selected && selected.resume.selected_values, ['b']);
+    assert.deepEqual(buildHitlResume('t1', select, { selection: ['a', 'b'] }), { error: 'request pick accepts a single selection' });
+    assert.deepEqual(buildHitlResume('t1', select, { selection: 'c' }), { error: 'unknown option(s) for request pick: c' });
+
+    const approval = parseInterrupt({ id: 'ok' }, 0);
+    assert.deepEqual(buildHitlResume('t1', approval, {}), { error: 'action required' });
+    assert.equal('resume' in buildHitlResume('t1', approval, { action: 'reject' }), true);
+  });
+
+  it('tracks pending requests per thread', () => {
+    const pending = new PendingHitlRegistry();
+    const first = parseInterrupt({ id: 'a' }, 0);
+    const second = parseInterrupt({ id: 'b' }, 1);
+    pending.add('t1', first);
+    pending.add('t1', second);
+    pending.add('t2', { ...first, pending: false });
+
+    assert.deepEqual(pending.list('t1').map((r) => r.id), ['a', 'b']);
+    assert.equal(pending.get('t2', 'a')?.pending, true);
+    pending.resolve('t1', 'a');
+    pending.resolve('t1', 'unknown');
+    assert.deepEqual(pending.list('t1').map((r) => r.id), ['b']);
+    pending.resolve('t1', 'b');
+    assert.deepEqual(pending.list('t1'), []);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests: MCP server
+ *
+ * Checks the tools published for skills, progress messages and tool results,
+ * JSON-RPC handling with cancellation, and HTTP sessions and streaming.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { describeProgress, McpHttpTransport, McpServer, skillTools, toolResult, type JsonRpcNotification, type McpToolRunner } from '../mcp-server.js';
+import type { CugaAgentState, CugaSubtask } from '../types.js';
+
+const state = (extra: Partial<CugaAgentState> = {}): CugaAgentState =>
+  ({ currentNode: 'Answer', query: 'Go', threadId: 't1', streamingContent: '', ...extra });
+
+const subtask = (id: string, status: CugaSubtask['status']): CugaSubtask => ({ id, description: `Step ${id}`, status });
+
+const tools = skillTools([{ id: 'web-research', name: 'Web research', description: 'Research the web' }]);
+
+const answering: McpToolRunner = async (call, progress) => {
+  progress('Planned 1 subtask(s)');
+  return toolResult(state({ status: 'complete', finalAnswer: `Done: ${call.arguments.task}` }), { threadId: 't1', runId: 'r1' });
+};
+
+function call(id: number, extra: Record<string, unknown> = {}) {
+  return { jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'web-research', arguments: { task: 'Find it' }, ...extra } };
+}
+
+describe('MCP tools', () => {
+  it('publishes each skill with an optional thread ID', () => {
+    const [tool] = tools;
+    assert.equal(tool.name, 'web-research');
+    assert.deepEqual(Object.keys((tool.inputSchema as { properties: object }).properties), ['task', 'thread_id']);
+    assert.deepEqual((tool.inputSchema as { required: string[] }).required, ['task']);
+  });
+
+  it('describes plan and subtask changes', () => {
+    const planned = state({ subtasks: [subtask('a', 'pending'), subtask('b', 'pending')] });
+    assert.equal(describeProgress({ name: 'TaskDecompositionAgent', data: '' }, state(), planned), 'Planned 2 subtask(s)');
+    assert.equal(describeProgress({ name: 'PlanControllerAgent', data: '' }, planned, { ...planned, currentSubtaskId: 'b' }), 'Working on subtask 2/2: Step b');
+    const done = state({ subtasks: [subtask('a', 'complete'), subtask('b', 'pending')] });
+    assert.equal(describeProgress({ name: 'PlanControllerAgent', data: '' }, planned, done), 'Subtask 1/2 complete: Step a');
+    assert.equal(describeProgress({ name: 'Answer', data: '' }, planned, done), undefined);
+  });
+
+  it('reports answers, failures, HITL requests and cancellation', () => {
+    const ids = { threadId: 't1', runId: 'r1' };
+    assert.deepEqual(toolResult(state({ status: 'complete', finalAnswer: '42' }), ids).content, [{ type: 'text', text: '42' }]);
+
+    const failed = toolResult(state({ status: 'executing' }), ids);
+    assert.equal(failed.isError, true);
+    assert.equal(failed.structuredContent?.error, 'Run ended without an answer');
+
+    const waiting = toolResult(state({ hitlRequests: [{ id: 'h1', type: 'confirmation', message: 'Send it?', pending: true }] }), ids);
+    assert.equal(waiting.content[0].text, '[HITL Required] Send it?');
+    assert.equal(waiting.structuredContent?.status, 'input-required');
+
+    assert.equal(toolResult(state(), ids, undefined, true).content[0].text, 'Canceled');
+  });
+});
+
+describe('MCP server', () => {
+  it('negotiates the protocol version and lists tools', async () => {
+    const server = new McpServer(tools, answering);
+    const context = { sessionId: 's1', notify: () => undefined };
+    const init = await server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } }, context);
+    assert.equal((init?.result as { protocolVersion: string }).protocolVersion, '2025-03-26');
+    const fallback = await server.handle({ jsonrpc: '2.0', id: 2, method: 'initialize', params: { protocolVersion: '1999-01-01' } }, context);
+    assert.equal((fallback?.result as { protocolVersion: string }).protocolVersion, '2025-06-18');
+
+    assert.deepEqual((await server.handle({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, context))?.result, { tools });
+    assert.equal((await server.handle({ jsonrpc: '2.0', id: 4, method: 'resources/list' }, context))?.error?.code, -32601);
+    assert.equal((await server.handle({ id: 5, method: 'ping' }, context))?.error?.code, -32600);
+  });
+
+  it('runs tools, sending progress only with a progress token', async () => {
+    const server = new McpServer(tools, answering);
+    const sent: JsonRpcNotification[] = [];
+    const context = { sessionId: 's1', notify: (n: JsonRpcNotification) => sent.push(n) };
+
+    const response = await server.handle(call(1, { _meta: { progressToken: 'p1' } }), context);
+    assert.equal((response?.result as { content: Array<{ text: string }> }).content[0].text, 'Done: Find it');
+    assert.deepEqual(sent, [{ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'p1', progress: 1, message: 'Planned 1 subtask(s)' } }]);
+
+    await server.handle(call(2), context);
+    assert.equal(sent.length, 1);
+    assert.equal((await server.handle(call(3, { name: 'unknown' }), context))?.error?.code, -32602);
+    assert.equal((await server.handle(call(4, { arguments: ['x'] }), context))?.error?.code, -32602);
+  });
+
+  it('turns runner failures into error results', async () => {
+    const server = new McpServer(tools, async () => {
+      throw new Error('backend down');
+    });
+    const response = await server.handle(call(1), { sessionId: 's1', notify: () => undefined });
+    assert.deepEqual(response?.result, { content: [{ type: 'text', text: 'Error: backend down' }], isError: true });
+  });
+
+  it('aborts canceled calls of the same session and drops their response', async () => {
+    let canceled = false;
+    const server = new McpServer(tools, (_call, _progress, signal) => new Promise((resolve) => {
+      signal.addEventListener('abort', () => {
+        canceled = true;
+        resolve(toolResult(state(), { threadId: 't1', runId: 'r1' }, undefined, true));
+      });
+    }));
+    const context = { sessionId: 's1', notify: () => undefined };
+    const pending = server.handle(call(7), context);
+
+    await server.handle({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 7 } }, { ...context, sessionId: 's2' });
+    assert.equal(canceled, false, 'another session cannot cancel the call');
+    await server.handle({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 7 } }, context);
+    assert.equal(canceled, true);
+    assert.equal(await pending, undefined);
+  });
+});
+
+describe('MCP HTTP transport', () => {
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    new Request('http://wrapper.test/mcp', { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) });
+
+  it('opens sessions on initialize and requires them afterwards', async () => {
+    const transport = new McpHttpTransport(new McpServer(tools, answering));
+    const init = await transport.handle(post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }));
+    const session = init.headers.get('Mcp-Session-Id');
+    assert.ok(session);
+
+    assert.equal((await transport.handle(post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }))).status, 400);
+    assert.equal((await transport.handle(post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': 'unknown' }))).status, 404);
+    const listed = await transport.handle(post([{ jsonrpc: '2.0', id: 2, method: 'tools/list' }], { 'Mcp-Session-Id': session }));
+    assert.equal(((await listed.json()) as unknown[]).length, 1);
+    assert.equal((await transport.handle(post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': session }))).status, 202);
+
+    const malformed = new Request('http://wrapper.test/mcp', { method: 'POST', body: '{not json' });
+    assert.equal((await transport.handle(malformed)).status, 400);
+    assert.equal((await transport.handle(new Request('http://wrapper.test/mcp'))).status, 405);
+
+    const end = () => transport.handle(new Request('http://wrapper.test/mcp', { method: 'DELETE', headers: { 'Mcp-Session-Id': session } }));
+    assert.equal((await end()).status, 204);
+    assert.equal((await end()).status, 404);
+  });
+
+  it('streams progress and the result as SSE when accepted', async () => {
+    const transport = new McpHttpTransport(new McpServer(tools, answering));
+    const session = (await transport.handle(post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }))).headers.get('Mcp-Session-Id')!;
+
+    const response = await transport.handle(post(call(2, { _meta: { progressToken: 'p1' } }), { 'Mcp-Session-Id': session, Accept: 'application/json, text/event-stream' }));
+    assert.equal(response.headers.get('Content-Type'), 'text/event-stream');
+    const messages = (await response.text()).split('\n\n').filter(Boolean).map((frame) => JSON.parse(frame.split('data: ')[1]) as { method?: string; id?: number });
+    assert.deepEqual(messages.map((m) => m.method ?? m.id), ['notifications/progress', 2]);
+  });
+});
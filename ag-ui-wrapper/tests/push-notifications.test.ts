@@ -0,0 +1,123 @@
+/**
+ * Unit tests: push notification signing and delivery
+ *
+ * Checks the signature header, webhook validation (including non-public
+ * targets), and retries, against a local receiver with DNS lookups mocked.
+ */
+
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import dns from 'node:dns/promises';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import { syncBuiltinESMExports } from 'node:module';
+import type { AddressInfo } from 'node:net';
+import { after, afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+import { isNonPublicAddress, PushNotifier, signPayload, validatePushNotificationConfig } from '../push-notifications.js';
+
+function resolveTo(...addresses: string[]): void {
+  mock.method(dns, 'lookup', async () => addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })));
+  syncBuiltinESMExports();
+}
+
+/** Webhook receiver on loopback answering with queued statuses */
+const received: Array<{ headers: IncomingHttpHeaders; body: string }> = [];
+let statuses: number[] = [];
+const receiver = createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    received.push({ headers: req.headers, body });
+    res.writeHead(statuses.length > 1 ? statuses.shift()! : statuses[0]).end();
+  });
+});
+await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+const port = (receiver.address() as AddressInfo).port;
+
+function respondWith(...queued: number[]): void {
+  statuses = queued;
+  received.length = 0;
+}
+
+const notifier = new PushNotifier({ secret: 'shh', maxAttempts: 3, retryBaseDelayMs: 0, timeoutMs: 1000 });
+// The receiver is on loopback; hosts are mapped to it by the mocked lookup
+const local = new PushNotifier({ secret: 'shh', allowPrivateTargets: true, maxAttempts: 3, retryBaseDelayMs: 0, timeoutMs: 1000 });
+
+describe('push notifications', () => {
+  beforeEach(() => {
+    resolveTo('127.0.0.1');
+  });
+
+  after(() => receiver.close());
+
+  afterEach(() => {
+    mock.restoreAll();
+    syncBuiltinESMExports();
+  });
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const body = JSON.stringify({ kind: 'status-update', taskId: 'task-1' });
+    const expected = createHmac('sha256', 'shh').update(`1700000000.${body}`).digest('hex');
+    assert.equal(signPayload('shh', body, 1700000000), `t=1700000000,v1=${expected}`);
+    assert.notEqual(signPayload('shh', body, 1700000001), signPayload('shh', body, 1700000000));
+  });
+
+  it('validates webhook configs', () => {
+    assert.equal(validatePushNotificationConfig({ url: 'https://hooks.example.com/a2a', token: 't' }, false), undefined);
+    assert.equal(validatePushNotificationConfig('https://hooks.example.com', false), 'push notification config must be an object');
+    assert.equal(validatePushNotificationConfig({ url: 'ftp://hooks.example.com' }, false), 'push notification url must be http(s)');
+    assert.equal(validatePushNotificationConfig({ url: 'https://hooks.example.com', token: 1 }, false), 'push notification token must be a string');
+  });
+
+  it('refuses loopback, link-local and private webhook hosts unless allowed', () => {
+    for (const url of ['http://localhost:8080/hook', 'http://127.0.0.1/', 'http://2130706433/', 'http://169.254.169.254/latest', 'http://10.0.0.5/', 'http://[::1]/', 'http://[::ffff:192.168.1.1]/', 'http://[fd00::1]/']) {
+      assert.match(validatePushNotificationConfig({ url }, false) ?? '', /non-public address/, url);
+    }
+    assert.equal(validatePushNotificationConfig({ url: 'http://127.0.0.1/' }, true), undefined);
+    assert.deepEqual(['8.8.8.8', '2606:4700::1111', '172.32.0.1'].map(isNonPublicAddress), [false, false, false]);
+    assert.deepEqual(['172.16.0.1', '100.64.0.1', 'fe80::1', '0.0.0.0'].map(isNonPublicAddress), [true, true, true, true]);
+  });
+
+  it('delivers signed notifications with the client token', async () => {
+    respondWith(204);
+    const result = await local.deliver({ url: `http://hooks.example.com:${port}/a2a`, token: 'client-token' }, { taskId: 'task-1' });
+    assert.deepEqual(result, { delivered: true, attempts: 1, status: 204 });
+
+    const [{ headers, body }] = received;
+    assert.equal(headers.host, `hooks.example.com:${port}`);
+    assert.equal(headers['x-a2a-notification-token'], 'client-token');
+    const [, timestamp] = /^t=(\d+),v1=/.exec(String(headers['x-cuga-signature'])) ?? [];
+    assert.equal(headers['x-cuga-signature'], signPayload('shh', body, Number(timestamp)));
+  });
+
+  it('retries server errors but not client errors or redirects', async () => {
+    respondWith(503, 429, 200);
+    assert.deepEqual(await local.deliver({ url: `http://hooks.example.com:${port}/a2a` }, {}), { delivered: true, attempts: 3, status: 200 });
+
+    respondWith(404);
+    assert.deepEqual(await local.deliver({ url: `http://hooks.example.com:${port}/a2a` }, {}), { delivered: false, attempts: 1, status: 404, error: 'HTTP 404' });
+    respondWith(302);
+    assert.deepEqual(await local.deliver({ url: `http://hooks.example.com:${port}/a2a` }, {}), { delivered: false, attempts: 1, status: 302, error: 'HTTP 302' });
+    assert.equal(received.length, 1);
+  });
+
+  it('does not deliver to hosts resolving to non-public addresses', async () => {
+    resolveTo('93.184.216.34', '10.1.2.3');
+    respondWith(200);
+    const result = await notifier.deliver({ url: 'https://rebound.example.com/hook' }, {});
+    assert.deepEqual(result, { delivered: false, attempts: 1, error: 'rebound.example.com resolves to non-public address 10.1.2.3' });
+    assert.equal(received.length, 0);
+  });
+
+  it('connects to the address it checked, not a later answer', async () => {
+    let call = 0;
+    const lookups = mock.method(dns, 'lookup', async () => [{ address: call++ === 0 ? '198.51.100.1' : '127.0.0.1', family: 4 }]);
+    syncBuiltinESMExports();
+    respondWith(200);
+    const once = new PushNotifier({ maxAttempts: 1, retryBaseDelayMs: 0, timeoutMs: 200 });
+    const result = await once.deliver({ url: `http://rebound.example.com:${port}/hook` }, {});
+    assert.equal(result.delivered, false);
+    assert.equal(lookups.mock.callCount(), 1);
+    assert.equal(received.length, 0);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests: tenant quotas
+ *
+ * Checks the token bucket (burst, refill, retry-after), the concurrency limit,
+ * per-tenant overrides and which tenants are tracked, with a mocked clock.
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+import { parseTenantOverrides, QuotaExceededError, TenantQuotas } from '../quotas.js';
+
+let now = 0;
+
+function refusal(quotas: TenantQuotas, tenant?: string): QuotaExceededError {
+  try {
+    quotas.acquire(tenant);
+  } catch (error) {
+    assert.ok(error instanceof QuotaExceededError);
+    return error;
+  }
+  assert.fail('expected the run to be refused');
+}
+
+describe('tenant quotas', () => {
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00Z');
+    mock.method(Date, 'now', () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('allows a burst, then refills at the per-minute rate', () => {
+    const quotas = new TenantQuotas({ ratePerMinute: 6, burst: 2, maxConcurrentRuns: 10 });
+    quotas.acquire('org-1');
+    quotas.acquire('org-1');
+
+    const refused = refusal(quotas, 'org-1');
+    assert.equal(refused.reason, 'rate_limit');
+    assert.equal(refused.retryAfterSeconds, 10);
+
+    // 6/min is one run every 10s; half a token is not enough
+    now += 5_000;
+    assert.equal(refusal(quotas, 'org-1').retryAfterSeconds, 5);
+    now += 5_000;
+    assert.equal(quotas.acquire('org-1').tenant, 'org-1');
+
+    // Refill stops at the burst size
+    now += 600_000;
+    assert.equal(quotas.usage('org-1')[0].availableRequests, 2);
+  });
+
+  it('limits concurrent runs without consuming tokens for refused runs', () => {
+    const quotas = new TenantQuotas({ ratePerMinute: 60, burst: 5, maxConcurrentRuns: 1 });
+    const lease = quotas.acquire();
+    assert.equal(lease.tenant, 'default');
+
+    const refused = refusal(quotas);
+    assert.equal(refused.reason, 'concurrency');
+    assert.equal(refused.status, 429);
+
+    lease.release();
+    lease.release();
+    quotas.acquire();
+    const [usage] = quotas.usage('default');
+    assert.equal(usage.activeRuns, 1);
+    assert.equal(usage.availableRequests, 3);
+    assert.deepEqual(usage.rejected, { rate_limit: 0, concurrency: 1 });
+  });
+
+  it('applies per-tenant overrides on top of the defaults', () => {
+    const quotas = new TenantQuotas({ ratePerMinute: 0, burst: 1, maxConcurrentRuns: 5 }, { 'org-big': { burst: 3 } });
+    quotas.acquire('org-small');
+    assert.equal(refusal(quotas, 'org-small').retryAfterSeconds, 60);
+
+    for (let i = 0; i < 3; i++) quotas.acquire('org-big');
+    assert.deepEqual(quotas.limitsFor('org-big'), { ratePerMinute: 0, burst: 3, maxConcurrentRuns: 5 });
+    assert.deepEqual(quotas.usage().map((u) => [u.tenant, u.activeRuns]), [['org-small', 1], ['org-big', 3]]);
+  });
+
+  it('accepts only positive integer overrides of known limits', () => {
+    assert.deepEqual(parseTenantOverrides({ 'org-1': { burst: 3, maxConcurrentRuns: 2 } }), { 'org-1': { burst: 3, maxConcurrentRuns: 2 } });
+    for (const [raw, message] of [
+      [[], /must be an object/],
+      [{ 'org-1': 5 }, /overrides for org-1 must be an object/],
+      [{ 'org-1': { brust: 3 } }, /unknown limit for org-1: brust/],
+      [{ 'org-1': { burst: '3' } }, /burst for org-1 must be a positive integer/],
+      [{ 'org-1': { ratePerMinute: 1.5 } }, /must be a positive integer/],
+      [{ 'org-1': { maxConcurrentRuns: 0 } }, /must be a positive integer/],
+    ] as const) {
+      assert.throws(() => parseTenantOverrides(raw), message);
+    }
+  });
+
+  it('reports unknown tenants without tracking them', () => {
+    const quotas = new TenantQuotas({ ratePerMinute: 6, burst: 2, maxConcurrentRuns: 1 });
+    assert.deepEqual(quotas.usage('org-unknown').map((u) => [u.tenant, u.availableRequests, u.activeRuns]), [['org-unknown', 2, 0]]);
+    assert.deepEqual(quotas.usage(), []);
+  });
+
+  it('forgets idle tenants once their bucket is full again', () => {
+    const quotas = new TenantQuotas({ ratePerMinute: 0, burst: 2, maxConcurrentRuns: 5 }, { 'org-refilled': { ratePerMinute: 60 } }, 60_000);
+    quotas.acquire('org-drained').release();
+    quotas.acquire('org-refilled').release();
+    const running = quotas.acquire('org-running');
+
+    now += 60_000;
+    quotas.acquire('org-new');
+    assert.deepEqual(quotas.usage().map((u) => u.tenant), ['org-drained', 'org-running', 'org-new']);
+    running.release();
+  });
+});
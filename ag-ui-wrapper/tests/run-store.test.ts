@@ -0,0 +1,109 @@
+/**
+ * Unit tests: run stores
+ *
+ * Checks event logs and records of both stores, retention of finished runs,
+ * overlapping appends and that the file store only touches UUID-named files.
+ */
+
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { FileRunStore, InMemoryRunStore, isRunId, type RunStore } from '../run-store.js';
+
+const dir = await mkdtemp(join(tmpdir(), 'cuga-runs-'));
+
+function answer(text: string) {
+  return { name: 'Answer' as const, data: text };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function startRun(store: RunStore, threadId = 't1'): Promise<string> {
+  const runId = randomUUID();
+  await store.createRun({ runId, threadId, kind: 'invoke', query: 'Go' });
+  return runId;
+}
+
+describe('run stores', () => {
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  for (const [name, create] of [
+    ['memory', () => new InMemoryRunStore()],
+    ['file', () => new FileRunStore(join(dir, 'records'))],
+  ] as const) {
+    it(`records runs and their events (${name})`, async () => {
+      const store = create();
+      const runId = await startRun(store, `${name}-thread`);
+      await store.appendEvent(runId, answer('one'));
+      await store.appendEvent(runId, answer('two'));
+      assert.equal((await store.getRun(runId))?.eventCount, 2);
+
+      await store.finishRun(runId, { status: 'complete' });
+      const [run] = await store.listRuns(`${name}-thread`);
+      assert.deepEqual([run.runId, run.status, run.eventCount], [runId, 'complete', 2]);
+      assert.deepEqual((await store.getEvents(runId, 1)).map((e) => [e.seq, e.event.data]), [[2, 'two']]);
+      await assert.rejects(store.appendEvent(randomUUID(), answer('lost')), /Unknown run/);
+    });
+  }
+
+  it('keeps every overlapping append, in order', async () => {
+    const store = new FileRunStore(join(dir, 'overlap'));
+    const runId = await startRun(store);
+    await Promise.all(Array.from({ length: 50 }, (_, i) => store.appendEvent(runId, answer(String(i)))));
+    await store.finishRun(runId, { status: 'complete' });
+
+    const events = await new FileRunStore(join(dir, 'overlap')).getEvents(runId);
+    assert.deepEqual(events.map((e) => e.seq), Array.from({ length: 50 }, (_, i) => i + 1));
+    assert.deepEqual(events.map((e) => e.event.data), Array.from({ length: 50 }, (_, i) => String(i)));
+    assert.equal((await store.getRun(runId))?.eventCount, 50);
+  });
+
+  it('refuses run IDs that are not UUIDs', async () => {
+    const store = new FileRunStore(join(dir, 'ids'));
+    assert.equal(isRunId(randomUUID()), true);
+    for (const runId of ['../escape', '..%2Fescape', `${randomUUID()}/..`, '']) {
+      assert.equal(isRunId(runId), false, runId);
+      assert.equal(await store.getRun(runId), undefined, runId);
+      assert.deepEqual(await store.getEvents(runId), [], runId);
+    }
+    await assert.rejects(store.createRun({ runId: '../escape', threadId: 't1', kind: 'invoke', query: 'Go' }), /Invalid run ID/);
+    assert.deepEqual(await readdir(join(dir, 'ids')), []);
+  });
+
+  it('evicts the oldest finished runs above the cap', async () => {
+    for (const store of [new InMemoryRunStore(3_600_000, 3), new FileRunStore(join(dir, 'capped'), 3_600_000, 3)]) {
+      const first = await startRun(store);
+      await store.finishRun(first, { status: 'complete' });
+      const running = await startRun(store);
+      await sleep(2);
+      const second = await startRun(store);
+      await store.finishRun(second, { status: 'failed' });
+      await startRun(store);
+
+      assert.equal(await store.getRun(first), undefined);
+      assert.ok(await store.getRun(running), 'running runs are kept');
+      assert.ok(await store.getRun(second));
+    }
+    assert.equal((await readdir(join(dir, 'capped'))).length, 6);
+  });
+
+  it('evicts finished runs past the TTL', async () => {
+    for (const store of [new InMemoryRunStore(1, 100), new FileRunStore(join(dir, 'expiring'), 1, 100)]) {
+      const finished = await startRun(store);
+      await store.finishRun(finished, { status: 'complete' });
+      const running = await startRun(store);
+      await sleep(5);
+      await startRun(store);
+
+      assert.equal(await store.getRun(finished), undefined);
+      assert.deepEqual(await store.getEvents(finished), []);
+      assert.ok(await store.getRun(running));
+    }
+  });
+});
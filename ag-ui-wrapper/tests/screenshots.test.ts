@@ -0,0 +1,98 @@
+/**
+ * Unit tests: screenshot timelines and the PNG codec
+ *
+ * Checks PNG round trips and raster operations, timelines built from stored
+ * events, rendered variants and the A2A artifacts per option.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decodePng, downscale, encodePng, isPng, strokeRect, type RgbaImage } from '../png.js';
+import { buildScreenshotTimeline, describeFrame, renderScreenshot, screenshotArtifacts, screenshotOptionsFromMetadata } from '../screenshots.js';
+import type { CugaStoredEvent } from '../types.js';
+
+function solid(width: number, height: number, rgba: [number, number, number, number]): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+}
+
+function pixel(image: RgbaImage, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return [...image.data.subarray(i, i + 4)];
+}
+
+const PNG = encodePng(solid(200, 100, [255, 255, 255, 255])).toString('base64');
+
+function stored(seq: number, name: CugaStoredEvent['event']['name'], data: unknown): CugaStoredEvent {
+  return { runId: 'run-1', seq, timestamp: `2024-01-01T00:00:0${seq}.000Z`, event: { name, data: JSON.stringify(data) } };
+}
+
+const events: CugaStoredEvent[] = [
+  stored(1, 'browser_screenshot', { screenshot: `data:image/png;base64,${PNG}`, url: 'https://example.com/', viewport: { width: 100, height: 50 } }),
+  stored(2, 'Answer', 'no screenshot here'),
+  stored(3, 'ActionAgent', { screenshot: PNG, elements: [{ bid: 'a1', tag: 'button', bbox: { x: 2, y: 2, width: 40, height: 30 } }] }),
+];
+
+describe('PNG codec', () => {
+  it('round-trips RGBA images', () => {
+    const image = solid(3, 2, [10, 20, 30, 255]);
+    const encoded = encodePng(image);
+    assert.equal(isPng(encoded), true);
+    assert.equal(isPng(Buffer.from('not a png at all')), false);
+    assert.deepEqual(decodePng(encoded), { width: 3, height: 2, data: image.data });
+  });
+
+  it('downscales by averaging and never upscales', () => {
+    const image = solid(4, 2, [0, 0, 0, 255]);
+    image.data.set([255, 255, 255, 255], 0);
+    const small = downscale(image, 2);
+    assert.deepEqual([small.width, small.height], [2, 1]);
+    assert.deepEqual(pixel(small, 0, 0), [64, 64, 64, 255]);
+    assert.equal(downscale(image, 8), image);
+  });
+
+  it('draws rectangle outlines, clipped to the image', () => {
+    const image = solid(10, 10, [0, 0, 0, 255]);
+    strokeRect(image, { x: 2, y: 2, width: 12, height: 4 }, [255, 0, 0, 255], 1);
+    assert.deepEqual(pixel(image, 2, 2), [255, 0, 0, 255]);
+    assert.deepEqual(pixel(image, 9, 5), [255, 0, 0, 255]);
+    assert.deepEqual(pixel(image, 4, 4), [0, 0, 0, 255]);
+  });
+});
+
+describe('screenshot timeline', () => {
+  it('collects screenshots from stored events, carrying the URL forward', () => {
+    const timeline = buildScreenshotTimeline(events);
+    assert.deepEqual(timeline.map((f) => [f.index, f.seq, f.url]), [[0, 1, 'https://example.com/'], [1, 3, 'https://example.com/']]);
+    assert.deepEqual(describeFrame(timeline[1]), { url: 'https://example.com/', viewport: undefined, index: 1, seq: 3, timestamp: '2024-01-01T00:00:03.000Z', elementCount: 1 });
+  });
+
+  it('renders thumbnails and overlays scaled to the viewport', () => {
+    const [first, second] = buildScreenshotTimeline(events);
+    assert.equal(renderScreenshot(first).bytes.toString('base64'), PNG);
+
+    const thumbnail = decodePng(renderScreenshot(first, { thumbnailWidth: 10 }).bytes);
+    assert.deepEqual([thumbnail.width, thumbnail.height], [10, 5]);
+
+    // The 200px wide image of a 100px viewport doubles the bbox
+    const overlay = decodePng(renderScreenshot({ ...second, viewport: { width: 100, height: 50 } }, { overlay: true }).bytes);
+    assert.deepEqual(pixel(overlay, 80, 50), [255, 64, 129, 255]);
+    assert.deepEqual(pixel(overlay, 60, 40), [255, 255, 255, 255]);
+    assert.deepEqual(pixel(overlay, 150, 80), [255, 255, 255, 255]);
+  });
+
+  it('builds artifacts per the requested options', () => {
+    const timeline = buildScreenshotTimeline(events);
+    const options = screenshotOptionsFromMetadata({ screenshots: { mode: 'last', thumbnails: true, thumbnailWidth: 'wide', overlays: true } });
+    assert.deepEqual(options, { mode: 'last', thumbnails: true, thumbnailWidth: 320, overlays: true });
+
+    const [artifact, ...rest] = screenshotArtifacts(timeline, options, 'run-1');
+    assert.equal(rest.length, 0);
+    assert.equal(artifact.id, 'run-1-screenshot-1');
+    assert.deepEqual(artifact.parts.map((p) => (p.file as { name?: string } | undefined)?.name ?? p.type), ['screenshot-1.png', 'screenshot-1-thumbnail.png', 'screenshot-1-overlay.png', 'data']);
+    assert.deepEqual(screenshotArtifacts(timeline, screenshotOptionsFromMetadata({ screenshots: { mode: 'none' } })), []);
+    assert.equal(screenshotArtifacts(timeline, screenshotOptionsFromMetadata()).length, 2);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit tests: skill routing
+ *
+ * Checks how skill metadata turns into backend settings, parameter
+ * validation, and the refusal of skills needing the mode the backend
+ * does not run in (the default API mode here).
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { describeSkillErrors, resolveSkillRouting, skillIdFromMetadata } from '../skills.js';
+
+describe('skill routing', () => {
+  it('reads the skill ID under each metadata key', () => {
+    assert.equal(skillIdFromMetadata({ skill_id: 'code-execution' }), 'code-execution');
+    assert.equal(skillIdFromMetadata({ skillId: 'code-execution' }), 'code-execution');
+    assert.equal(skillIdFromMetadata({ skill: 'code-execution' }), 'code-execution');
+    assert.equal(skillIdFromMetadata({ skill_id: 42 }), undefined);
+  });
+
+  it('runs requests without a skill in the backend mode', () => {
+    assert.deepEqual(resolveSkillRouting({}, 'Hello'), { task: 'Hello', params: { task: 'Hello' }, settings: { api_mode: true }, errors: [] });
+  });
+
+  it('limits API orchestration to the named apps', () => {
+    const routing = resolveSkillRouting({ skill_id: 'api-orchestration', skill_params: { apis: ['billing', ' crm ', 'billing', ''] } }, 'Sync invoices');
+    assert.deepEqual(routing.errors, []);
+    assert.deepEqual(routing.settings, { skill_id: 'api-orchestration', api_mode: true, apps: ['billing', 'crm'] });
+    assert.equal(routing.params.task, 'Sync invoices');
+  });
+
+  it('takes the task from the parameters when the message is empty', () => {
+    const routing = resolveSkillRouting({ skill_id: 'code-execution', skill_params: { task: 'Sum 1..10' } });
+    assert.equal(routing.task, 'Sum 1..10');
+    assert.deepEqual(routing.settings, { skill_id: 'code-execution', api_mode: true });
+  });
+
+  it('refuses skills needing the mode the backend does not run in', () => {
+    const routing = resolveSkillRouting({ skill_id: 'browser-automation', skill_params: { url: 'https://example.com/login' } }, 'Log in');
+    assert.equal(routing.settings.start_url, 'https://example.com/login');
+    assert.deepEqual(routing.errors, [{ path: '$.skill_id', message: 'skill "browser-automation" needs browser mode, but the backend runs in API mode' }]);
+  });
+
+  it('reports unknown skills and malformed parameters', () => {
+    assert.match(resolveSkillRouting({ skill_id: 'teleport' }, 'Go').errors[0].message, /^unknown skill "teleport"/);
+    assert.deepEqual(resolveSkillRouting({ skill_params: [] }, 'Go').errors, [
+      { path: '$.skill_params', message: 'expected object' },
+      { path: '$.skill_id', message: 'is required when skill_params are given' },
+    ]);
+    const badUrl = resolveSkillRouting({ skill_id: 'browser-automation', skill_params: { url: 'javascript:alert(1)' } }, 'Go');
+    assert.ok(badUrl.errors.some((e) => e.path === '$.skill_params.url' && e.message === 'expected an http(s) URL'));
+    assert.equal(describeSkillErrors([{ path: '$.a', message: 'bad' }, { path: '$.b', message: 'worse' }]), 'Invalid skill parameters: $.a bad; $.b worse');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests: state delta streaming
+ *
+ * Checks the JSON Patches computed between agent states, that applying them
+ * reproduces the next state, and when the encoder sends snapshots.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { applyStatePatch, diffState, StateStreamEncoder, stateModeFromMetadata } from '../state-delta.js';
+
+describe('state delta', () => {
+  it('diffs objects per key and arrays per index', () => {
+    const prev = { status: 'running', codeExecutions: [{ id: 'c1' }], error: 'old', skipped: undefined };
+    const next = { status: 'running', codeExecutions: [{ id: 'c1' }, { id: 'c2' }], finalAnswer: 'Done' };
+    assert.deepEqual(diffState(prev, next), [
+      { op: 'remove', path: '/error' },
+      { op: 'add', path: '/codeExecutions/1', value: { id: 'c2' } },
+      { op: 'add', path: '/finalAnswer', value: 'Done' },
+    ]);
+    assert.deepEqual(diffState({ list: [1, 2, 3] }, { list: [1] }), [
+      { op: 'remove', path: '/list/2' },
+      { op: 'remove', path: '/list/1' },
+    ]);
+    assert.deepEqual(diffState({ a: { b: 1 } }, { a: { b: 1 } }), []);
+  });
+
+  it('escapes JSON Pointer segments', () => {
+    const patch = diffState({}, { 'a/b': 1, 'c~d': 2 });
+    assert.deepEqual(patch.map((op) => op.path), ['/a~1b', '/c~0d']);
+    assert.deepEqual(applyStatePatch({}, patch), { 'a/b': 1, 'c~d': 2 });
+  });
+
+  it('reproduces the next state without changing the previous one', () => {
+    const prev = { subtasks: [{ id: 's1', status: 'running' }, { id: 's2', status: 'pending' }], variables: { a: 1 } };
+    const next = { subtasks: [{ id: 's1', status: 'complete', output: 'ok' }], variables: { a: 1, 'b/c': [1, 2] }, status: 'complete' };
+    const applied = applyStatePatch(prev, diffState(prev, next));
+    assert.deepEqual(applied, next);
+    assert.equal(prev.subtasks.length, 2);
+    assert.equal(prev.subtasks[0].status, 'running');
+
+    assert.deepEqual(applyStatePatch({ a: 1 }, [{ op: 'replace', path: '', value: { b: 2 } }]), { b: 2 });
+    assert.throws(() => applyStatePatch({}, [{ op: 'add', path: '/missing/key', value: 1 }]), /Invalid patch path/);
+  });
+
+  it('sends a snapshot first, every interval and when forced', () => {
+    const encoder = new StateStreamEncoder('delta', 2);
+    const modes = [{ n: 1 }, { n: 2 }, { n: 3 }, { n: 4 }].map((state) => encoder.encode(state));
+    assert.deepEqual(modes.map((m) => m.stateMode), ['snapshot', 'delta', 'delta', 'snapshot']);
+    assert.deepEqual(modes[1], { stateMode: 'delta', version: 2, baseVersion: 1, patch: [{ op: 'replace', path: '/n', value: 2 }] });
+    assert.deepEqual(encoder.encode({ n: 4 }, { forceSnapshot: true }), { stateMode: 'snapshot', version: 5, state: { n: 4 } });
+
+    assert.deepEqual(new StateStreamEncoder().encode({ n: 1 }), { n: 1 });
+  });
+
+  it('reads the mode and interval from metadata', () => {
+    assert.deepEqual(stateModeFromMetadata({ state_mode: 'delta', state_snapshot_interval: 5 }), { mode: 'delta', snapshotInterval: 5 });
+    assert.equal(stateModeFromMetadata({ stateMode: 'delta', stateSnapshotInterval: 0 }).snapshotInterval, 25);
+    assert.equal(stateModeFromMetadata({ state_mode: 'patch' }).mode, 'snapshot');
+  });
+});
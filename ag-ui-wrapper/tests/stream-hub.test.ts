@@ -0,0 +1,99 @@
+/**
+ * Unit tests: stream hub replay
+ *
+ * Checks per-thread event IDs, replay after a Last-Event-ID, following a
+ * published stream live, and the bounded buffer.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { formatSSE, parseLastEventId, StreamHub, type BufferedEvent } from '../stream-hub.js';
+import type { CugaSSEEvent } from '../types.js';
+
+async function* events(...labels: string[]): AsyncGenerator<CugaSSEEvent> {
+  for (const label of labels) {
+    await new Promise((resolve) => setImmediate(resolve));
+    yield { name: 'ChatAgent', data: label };
+  }
+}
+
+async function collect(stream: AsyncGenerator<BufferedEvent>): Promise<string[]> {
+  const collected: string[] = [];
+  for await (const { id, event } of stream) collected.push(`${id}:${event.data}`);
+  return collected;
+}
+
+describe('stream hub', () => {
+  it('numbers events per thread and replays after a Last-Event-ID', async () => {
+    const hub = new StreamHub();
+    for await (const event of hub.tap('t1', events('A', 'B', 'C'))) void event;
+    for await (const event of hub.tap('t2', events('X'))) void event;
+
+    assert.deepEqual(await collect(hub.subscribe('t1')), ['1:A', '2:B', '3:C']);
+    assert.deepEqual(await collect(hub.subscribe('t1', 1)), ['2:B', '3:C']);
+    assert.deepEqual(await collect(hub.subscribe('t2')), ['1:X']);
+    assert.deepEqual(await collect(hub.subscribe('unknown')), []);
+  });
+
+  it('follows a published stream and continues IDs across runs', async () => {
+    const hub = new StreamHub();
+    const first = hub.publish('t1', events('A', 'B'));
+    assert.equal(first, 0);
+    assert.equal(hub.publish('t1', events('ignored')), undefined);
+    assert.deepEqual(await collect(hub.subscribe('t1', first)), ['1:A', '2:B']);
+
+    const second = hub.publish('t1', events('C'));
+    assert.equal(second, 2);
+    assert.deepEqual(await collect(hub.subscribe('t1', second)), ['3:C']);
+    assert.equal(hub.lastEventId('t1'), 3);
+  });
+
+  it('reports a failed published stream to subscribers', async () => {
+    const hub = new StreamHub();
+    async function* failing(): AsyncGenerator<CugaSSEEvent> {
+      yield* events('A');
+      throw new Error('backend dropped');
+    }
+    hub.publish('t1', failing());
+    const seen: string[] = [];
+    await assert.rejects(async () => {
+      for await (const { event } of hub.subscribe('t1')) seen.push(event.data);
+    }, /backend dropped/);
+    assert.deepEqual(seen, ['A']);
+  });
+
+  it('follows a held stream until it is released', async () => {
+    const hub = new StreamHub();
+    const source = hub.tap('t1', events('A', 'B'));
+    await source.next();
+    const release = hub.hold('t1');
+
+    const followed = collect(hub.subscribe('t1'));
+    for await (const event of source) void event;
+    release();
+    assert.deepEqual(await followed, ['1:A', '2:B']);
+  });
+
+  it('keeps only the most recent events', async () => {
+    const hub = new StreamHub(2);
+    for await (const event of hub.tap('t1', events('A', 'B', 'C'))) void event;
+    assert.deepEqual(await collect(hub.subscribe('t1')), ['2:B', '3:C']);
+  });
+
+  it('keeps at least the last event whatever the configured size', async () => {
+    for (const size of [0, -5]) {
+      const hub = new StreamHub(size);
+      for await (const event of hub.tap('t1', events('A', 'B', 'C'))) void event;
+      assert.deepEqual(await collect(hub.subscribe('t1')), ['3:C'], String(size));
+    }
+  });
+
+  it('formats SSE messages and parses Last-Event-ID', () => {
+    assert.equal(formatSSE({ id: 7, event: { name: 'Answer', data: 'line 1\nline 2' } }), 'id: 7\nevent: Answer\ndata: line 1\ndata: line 2\n\n');
+    assert.equal(parseLastEventId('12'), 12);
+    assert.equal(parseLastEventId('-1'), undefined);
+    assert.equal(parseLastEventId('abc'), undefined);
+    assert.equal(parseLastEventId(undefined), undefined);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests: subtask graph updates
+ *
+ * Checks how failures, progress lists and the end of a run change a plan,
+ * including nested subtasks.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { applySubtaskProgress, buildSubtasks, settleSubtasks, updateSubtask } from '../subtask-graph.js';
+import type { CugaSubtask } from '../types.js';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+function statuses(subtasks: CugaSubtask[]): unknown[] {
+  return subtasks.map((s) => (s.children ? [s.id, s.status, statuses(s.children)] : [s.id, s.status]));
+}
+
+describe('subtask graph', () => {
+  const plan = () => buildSubtasks([
+    { id: 'fetch', description: 'Fetch the data' },
+    {
+      id: 'report',
+      description: 'Write the report',
+      subtasks: [
+        { id: 'draft', description: 'Draft it' },
+        { id: 'review', description: 'Review it' },
+        { id: 'send', description: 'Send it' },
+      ],
+    },
+  ], NOW);
+
+  it('skips the dependents of a failed subtask', () => {
+    const updated = updateSubtask(plan(), 'fetch', { status: 'failed', error: 'API down' }, NOW);
+    assert.deepEqual(statuses(updated), [
+      ['fetch', 'failed'],
+      ['report', 'skipped', [['draft', 'pending'], ['review', 'pending'], ['send', 'pending']]],
+    ]);
+    assert.equal(updated[1].error, 'Depends on failed subtask fetch');
+  });
+
+  it('skips the dependents of a failed nested subtask among its siblings', () => {
+    const updated = updateSubtask(plan(), 'draft', { status: 'failed' }, NOW);
+    assert.deepEqual(statuses(updated), [
+      ['fetch', 'pending'],
+      ['report', 'pending', [['draft', 'failed'], ['review', 'skipped'], ['send', 'skipped']]],
+    ]);
+  });
+
+  it('applies the progress list to the top-level plan', () => {
+    const updated = applySubtaskProgress(plan(), ['completed', 'in-progress'], NOW);
+    assert.deepEqual(statuses(updated), [
+      ['fetch', 'complete'],
+      ['report', 'running', [['draft', 'pending'], ['review', 'pending'], ['send', 'pending']]],
+    ]);
+    assert.equal(updated[1].startedAt, new Date(NOW).toISOString());
+  });
+
+  it('settles running and pending subtasks at every depth', () => {
+    const running = updateSubtask(updateSubtask(plan(), 'report', { status: 'running' }, NOW), 'draft', { status: 'running' }, NOW);
+    const settled = settleSubtasks(running, 'failed', 'Stream dropped', NOW + 1000);
+    assert.deepEqual(statuses(settled), [
+      ['fetch', 'skipped'],
+      ['report', 'failed', [['draft', 'failed'], ['review', 'skipped'], ['send', 'skipped']]],
+    ]);
+    assert.equal(settled[1].children?.[0].error, 'Stream dropped');
+    assert.equal(settled[1].children?.[0].executionTimeMs, 1000);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests: A2A task registry
+ *
+ * Checks the task lifecycle and its notifications, owner scoping, reopening,
+ * and eviction of finished and stale tasks.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { PushNotifier } from '../push-notifications.js';
+import { TaskRegistry, taskStateFromAgentState, toA2ATask } from '../tasks.js';
+import type { CugaAgentState } from '../types.js';
+
+function recordingNotifier() {
+  const sent: Array<{ key: string; payload: { status: { state: string }; final: boolean } }> = [];
+  const notifier = {
+    notify: async (key: string, _config: unknown, payload: unknown) => {
+      sent.push({ key, payload: payload as (typeof sent)[number]['payload'] });
+      return { delivered: true, attempts: 1 };
+    },
+  } as unknown as PushNotifier;
+  return { notifier, sent };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const state = (status: CugaAgentState['status'], extra: Partial<CugaAgentState> = {}): CugaAgentState =>
+  ({ currentNode: 'Answer', query: 'Go', threadId: 't1', streamingContent: '', status, ...extra });
+
+describe('task registry', () => {
+  it('moves tasks through their states and notifies the webhook', () => {
+    const { notifier, sent } = recordingNotifier();
+    const tasks = new TaskRegistry(notifier);
+    const task = tasks.open({ contextId: 'ctx', pushNotification: { url: 'https://hooks.example.com/a2a', token: 'secret' } });
+
+    assert.equal(tasks.update(task.id, 'working', { runId: 'run-1' }), true);
+    assert.equal(tasks.update(task.id, 'working', { usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5, costUsd: 0, estimated: false } }), true);
+    assert.equal(tasks.update(task.id, 'completed', { result: 'Done' }), true);
+    assert.equal(tasks.update(task.id, 'failed'), false, 'final states are kept');
+
+    assert.deepEqual(sent.map((s) => [s.payload.status.state, s.payload.final]), [['submitted', false], ['working', false], ['completed', true]]);
+    const a2a = toA2ATask(task, 1) as { status: { state: string }; artifacts: unknown[]; metadata: Record<string, unknown> };
+    assert.equal(a2a.status.state, 'completed');
+    assert.equal(a2a.artifacts.length, 1);
+    assert.deepEqual(a2a.metadata.pushNotification, { url: 'https://hooks.example.com/a2a' });
+    assert.equal((a2a.metadata.statusHistory as unknown[]).length, 1);
+    assert.equal(task.usage?.totalTokens, 5);
+  });
+
+  it('scopes tasks to their owner and reopens only unfinished ones', () => {
+    const tasks = new TaskRegistry();
+    const task = tasks.open({ id: 'task-1', contextId: 'ctx', owner: 'org-1' });
+    tasks.update(task.id, 'input-required');
+
+    assert.equal(tasks.getOwned('task-1', 'org-2'), undefined);
+    assert.equal(tasks.findInputRequired('ctx', 'org-2'), undefined);
+    assert.equal(tasks.findInputRequired('ctx', 'org-1'), task);
+    assert.equal(tasks.open({ id: 'task-1', contextId: 'ctx', owner: 'org-1' }), task);
+    assert.notEqual(tasks.open({ id: 'task-1', contextId: 'ctx', owner: 'org-2' }).id, 'task-1');
+
+    tasks.update(task.id, 'canceled');
+    assert.notEqual(tasks.open({ id: 'task-1', contextId: 'ctx', owner: 'org-1' }).id, 'task-1');
+  });
+
+  it('derives the task state from the final agent state', () => {
+    assert.equal(taskStateFromAgentState(state('complete')), 'completed');
+    assert.equal(taskStateFromAgentState(state('complete'), 'backend down'), 'failed');
+    assert.equal(taskStateFromAgentState(state('waiting_hitl', { hitlRequests: [{ id: 'a', type: 'confirmation', message: 'Ok?', pending: true }] })), 'input-required');
+    assert.equal(taskStateFromAgentState(state('executing')), 'failed');
+  });
+
+  it('evicts the oldest finished tasks above the cap', () => {
+    const tasks = new TaskRegistry(undefined, 3_600_000, 2);
+    const first = tasks.open({ contextId: 'ctx' });
+    tasks.update(first.id, 'completed');
+    const running = tasks.open({ contextId: 'ctx' });
+    tasks.open({ contextId: 'ctx' });
+
+    assert.equal(tasks.get(first.id), undefined);
+    assert.equal(tasks.get(running.id), running);
+  });
+
+  it('fails stale unfinished tasks, then evicts them when expired', async () => {
+    const { notifier, sent } = recordingNotifier();
+    const tasks = new TaskRegistry(notifier, 5, 100, 1);
+    const stale = tasks.open({ contextId: 'ctx', pushNotification: { url: 'https://hooks.example.com/a2a' } });
+    tasks.update(stale.id, 'input-required');
+    await sleep(5);
+
+    tasks.open({ contextId: 'ctx' });
+    assert.equal(stale.status.state, 'failed');
+    assert.equal(stale.error, 'task expired');
+    assert.deepEqual(sent.at(-1)?.payload.final, true);
+
+    await sleep(10);
+    tasks.open({ contextId: 'ctx' });
+    assert.equal(tasks.get(stale.id), undefined);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit tests: usage ledger
+ *
+ * Checks usage parsed from CUGA events, estimates when the backend reports
+ * none, the aggregates per dimension and budget enforcement.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { QuotaExceededError } from '../quotas.js';
+import type { CugaSSEEvent } from '../types.js';
+import { DEFAULT_MODEL_PRICES, priceFor, reportedUsage, UsageLedger, type UsageLedgerOptions } from '../usage.js';
+
+async function* events(...items: CugaSSEEvent[]): AsyncGenerator<CugaSSEEvent> {
+  yield* items;
+}
+
+async function drain(stream: AsyncGenerator<CugaSSEEvent>): Promise<void> {
+  for await (const event of stream) void event;
+}
+
+function ledger(options: Partial<UsageLedgerOptions> = {}, onBudgetExceeded?: (runId: string, tenant: string) => void): UsageLedger {
+  return new UsageLedger({ prices: DEFAULT_MODEL_PRICES, period: 'month', defaultBudget: {}, budgets: {}, maxRuns: 100, ...options }, onBudgetExceeded);
+}
+
+const credentials = { apiKey: 'key', model: 'openai/gpt-4o-mini', organizationId: 'org-1', userId: 'user-1' };
+
+describe('usage ledger', () => {
+  it('prices models by the longest known prefix, ignoring the provider', () => {
+    assert.deepEqual(priceFor('openai/gpt-4o-mini-2024-07-18', DEFAULT_MODEL_PRICES), { input: 0.15, output: 0.6 });
+    assert.deepEqual(priceFor('GPT-4o', DEFAULT_MODEL_PRICES), { input: 2.5, output: 10 });
+    assert.equal(priceFor('llama-3', DEFAULT_MODEL_PRICES), undefined);
+  });
+
+  it('reads usage reported in events', () => {
+    const usage = reportedUsage({ name: 'Answer', data: JSON.stringify({ usage: { input_tokens: 1000, output_tokens: 500 } }) }, 'gpt-4o', DEFAULT_MODEL_PRICES);
+    assert.deepEqual(usage, { promptTokens: 1000, completionTokens: 500, totalTokens: 1500, costUsd: 0.0075, estimated: false });
+
+    const byModel = reportedUsage({
+      name: 'Answer',
+      data: JSON.stringify({ usage_by_model: { 'gpt-4o': { total_tokens: 1_000_000 }, 'other-model': { total_tokens: 10, cost_usd: 0.5 } } }),
+    }, undefined, DEFAULT_MODEL_PRICES);
+    assert.equal(byModel?.totalTokens, 1_000_010);
+    assert.equal(byModel?.costUsd, 3);
+
+    assert.equal(reportedUsage({ name: 'Answer', data: 'usage: not JSON' }, undefined, DEFAULT_MODEL_PRICES), undefined);
+    assert.equal(reportedUsage({ name: 'Answer', data: '{"usage": {"total_tokens": 0}}' }, undefined, DEFAULT_MODEL_PRICES), undefined);
+  });
+
+  it('estimates usage without reports and aggregates it per dimension', async () => {
+    const usage = ledger();
+    usage.open('run-1', { threadId: 't1', credentials, prompt: 'x'.repeat(400) });
+    await drain(usage.meter('run-1', events({ name: 'Answer', data: 'y'.repeat(40) })));
+
+    const run = usage.close('run-1');
+    assert.deepEqual({ ...run, costUsd: undefined }, { promptTokens: 100, completionTokens: 10, totalTokens: 110, costUsd: undefined, estimated: true });
+    assert.ok(Math.abs((run?.costUsd ?? 0) - (100 * 0.15 + 10 * 0.6) / 1_000_000) < 1e-12);
+
+    for (const [dimension, key] of [['run', 'run-1'], ['thread', 't1'], ['user', 'user-1'], ['organization', 'org-1']] as const) {
+      const [report] = usage.report(dimension, key);
+      assert.equal(report.runs, 1, dimension);
+      assert.equal(report.usage.totalTokens, 110, dimension);
+    }
+  });
+
+  it('replaces estimates with reported usage', async () => {
+    const usage = ledger();
+    usage.open('run-1', { threadId: 't1', credentials, prompt: 'x'.repeat(400) });
+    await drain(usage.meter('run-1', events(
+      { name: 'ChatAgent', data: 'thinking' },
+      { name: 'Answer', data: JSON.stringify({ token_usage: { prompt_tokens: 20, completion_tokens: 5, cost_usd: 0.01 } }) },
+    )));
+    assert.deepEqual(usage.close('run-1'), { promptTokens: 20, completionTokens: 5, totalTokens: 25, costUsd: 0.01, estimated: false });
+    assert.equal(usage.report('organization', 'org-1')[0].usage.totalTokens, 25);
+  });
+
+  it('stops runs over budget and refuses new ones', async () => {
+    const exceeded: string[] = [];
+    const usage = ledger({ budgets: { 'org-1': { maxTokens: 50 } } }, (runId, tenant) => exceeded.push(`${runId}:${tenant}`));
+    usage.assertWithinBudget('org-1');
+
+    usage.open('run-1', { threadId: 't1', credentials, prompt: 'short' });
+    await drain(usage.meter('run-1', events({ name: 'Answer', data: JSON.stringify({ usage: { total_tokens: 60 } }) }, { name: 'Answer', data: 'more' })));
+    assert.deepEqual(exceeded, ['run-1:org-1']);
+
+    const budget = usage.budget('org-1');
+    assert.equal(budget.exceeded, true);
+    assert.equal(budget.period, new Date().toISOString().slice(0, 7));
+    assert.throws(() => usage.assertWithinBudget('org-1'), (error) => error instanceof QuotaExceededError && error.reason === 'budget');
+    usage.assertWithinBudget('org-2');
+  });
+});
@@ -33,6 +33,180 @@ export interface CugaSSEEvent {
   data: string;
 }
 
+/**
+ * Encoding of an event's `data` field
+ * - json: must be JSON
+ * - text: plain text
+ * - json-or-text: JSON when structured, plain text otherwise
+ */
+export type CugaEventEncoding = 'json' | 'text' | 'json-or-text';
+
+/**
+ * `Answer` payload
+ */
+export interface CugaAnswerPayload {
+  data: string;
+  variables?: CugaVariablesMetadata;
+}
+
+/**
+ * Raw subtask as sent by TaskDecompositionAgent
+ */
+export interface CugaRawSubtask {
+  id?: string;
+  description?: string;
+  task?: string;
+  status?: CugaSubtaskStatus;
+  app?: string;
+  type?: string;
+  /** IDs of the subtasks this one needs, or their 0-based positions in the plan */
+  dependencies?: Array<string | number>;
+  /** Alias of `dependencies` */
+  depends_on?: Array<string | number>;
+  /** Nested steps of this subtask */
+  subtasks?: CugaRawSubtask[];
+}
+
+/**
+ * `TaskDecompositionAgent` payload (either shape is accepted)
+ */
+export interface CugaTaskDecompositionPayload {
+  subtasks?: CugaRawSubtask[];
+  task_decomposition?: { subtasks?: CugaRawSubtask[] };
+}
+
+/**
+ * `PlanControllerAgent` payload
+ */
+export interface CugaPlanControllerPayload {
+  current_subtask_id?: string;
+  subtask_id?: string;
+  subtask_status?: CugaSubtaskStatus;
+  /** Result of the subtask that settled */
+  output?: string;
+  /** Failure reason of the subtask that settled */
+  error?: string;
+  /** Execution time reported by the backend */
+  execution_time_ms?: number;
+  /** Progress of every subtask, in plan order (the backend's PlanControllerOutput) */
+  subtasks_progress?: Array<'not-started' | 'in-progress' | 'completed'>;
+}
+
+/**
+ * `BrowserPlannerAgent` / `ActionAgent` payload
+ *
+ * ActionAgent may also send the raw list of tool calls it issued.
+ */
+export type CugaBrowserAgentPayload =
+  | {
+      screenshot?: string;
+      url?: string;
+      elements?: CugaBrowserElement[];
+      viewport?: { width: number; height: number };
+      action?: Partial<CugaBrowserAction> & { type: CugaBrowserAction['type'] };
+    }
+  | CugaToolCall[];
+
+/**
+ * `browser_action` payload
+ */
+export type CugaBrowserActionPayload = Omit<CugaBrowserAction, 'status'> & { status?: CugaBrowserAction['status'] };
+
+/**
+ * `code_execution` payload
+ */
+export interface CugaCodeExecutionPayload {
+  id?: string;
+  code: string;
+  language?: CugaCodeExecutionEvent['language'];
+  status?: CugaCodeExecutionEvent['status'];
+  output?: string;
+  error?: string;
+  execution_time_ms?: number;
+  sandbox?: CugaCodeExecutionEvent['sandbox'];
+}
+
+/**
+ * `ApiAgent` payload
+ */
+export interface CugaApiAgentPayload {
+  id?: string;
+  code?: string;
+  status?: CugaCodeExecutionEvent['status'];
+  output?: string;
+  error?: string;
+}
+
+/**
+ * `variable_update` payload
+ */
+export interface CugaVariableUpdatePayload {
+  name: string;
+  type?: string;
+  value?: unknown;
+  description?: string;
+}
+
+/**
+ * `__interrupt__` payload (FollowUpAction-like)
+ */
+export interface CugaInterruptPayload {
+  id?: string;
+  action_id?: string;
+  interrupt_id?: string;
+  type?: string;
+  message?: string;
+  description?: string;
+  action_name?: string;
+  context?: CugaHitlRequest['context'];
+  options?: Array<{ id?: string; value?: string; label?: string; description?: string }>;
+  defaultValue?: string;
+  default_value?: string;
+}
+
+/**
+ * Parsed payload type per CUGA event type
+ */
+export interface CugaEventPayloadMap {
+  ChatAgent: string;
+  TaskAnalyzerAgent: string;
+  TaskDecompositionAgent: CugaTaskDecompositionPayload | string;
+  PlanControllerAgent: CugaPlanControllerPayload | string;
+  ApiAgent: CugaApiAgentPayload | string;
+  BrowserPlannerAgent: CugaBrowserAgentPayload | string;
+  ActionAgent: CugaBrowserAgentPayload | string;
+  QaAgent: string;
+  Answer: CugaAnswerPayload | string;
+  tool_call: CugaToolCall[];
+  Stopped: string;
+  __interrupt__: CugaInterruptPayload | string;
+  browser_screenshot: CugaBrowserScreenshot;
+  browser_action: CugaBrowserActionPayload;
+  code_execution: CugaCodeExecutionPayload;
+  variable_update: CugaVariableUpdatePayload;
+}
+
+/**
+ * CUGA event with its parsed payload, discriminated by `name`
+ *
+ * `payload` is undefined when a JSON-encoded event could not be parsed.
+ */
+export type CugaTypedEvent = {
+  [K in CugaEventType]: { name: K; data: string; payload?: CugaEventPayloadMap[K] };
+}[CugaEventType];
+
+/**
+ * Schema violation found in a CUGA event
+ */
+export interface CugaSchemaWarning {
+  /** Event name */
+  event: string;
+  /** JSON path of the offending value (`$` is the payload root) */
+  path: string;
+  /** Description of the violation */
+  message: string;
+}
+
 /**
  * Browser Screenshot Event
  */
@@ -47,6 +221,17 @@ export interface CugaBrowserScreenshot {
   viewport?: { width: number; height: number };
 }
 
+/**
+ * Screenshot in a run's timeline
+ */
+export interface CugaScreenshotFrame extends CugaBrowserScreenshot {
+  /** Position in the timeline, starting at 0 */
+  index: number;
+  /** Run event sequence number the screenshot came from */
+  seq?: number;
+  timestamp: string;
+}
+
 /**
  * Browser Element with BID marker
  */
@@ -109,6 +294,20 @@ export interface CugaHistoryMessage {
   content: string;
 }
 
+/**
+ * How conversation history is sent to the backend (see history.ts)
+ */
+export type CugaHistoryStrategy = 'last-n' | 'token-budget' | 'summarize' | 'none';
+
+export interface CugaHistoryOptions {
+  /** Messages kept verbatim (last-n, summarize) */
+  maxMessages?: number;
+  /** Per-message character limit (last-n) */
+  maxCharsPerMessage?: number;
+  /** Token budget for the history (token-budget, summarize) */
+  maxTokens?: number;
+}
+
 /**
  * CUGA Query Request
  */
@@ -118,8 +317,45 @@ export interface CugaQueryRequest {
   api_mode?: boolean;
   /** Conversation history for context in follow-up questions */
   history?: CugaHistoryMessage[];
+  /** How the history is sent to the backend (default: last-n) */
+  history_strategy?: CugaHistoryStrategy;
+  /** Tuning for the history strategy */
+  history_options?: CugaHistoryOptions;
   /** Whether to auto-approve HITL requests (for autonomous execution) */
   auto_approve?: boolean;
+  /** Invoked A2A skill */
+  skill_id?: string;
+  /** Starting URL for browser-mode runs */
+  start_url?: string;
+  /** Apps/APIs the run is limited to */
+  apps?: string[];
+  /** JSON Schema the answer must match (see structured-output.ts) */
+  response_schema?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of validating an answer against the caller's response schema
+ */
+export interface CugaStructuredOutput {
+  /** Schema name, when the caller gave one */
+  name?: string;
+  valid: boolean;
+  /** Parsed answer (also present when it violates the schema) */
+  data?: unknown;
+  errors: Array<{ path: string; message: string }>;
+  /** Answers requested, including re-asks */
+  attempts: number;
+}
+
+/**
+ * Settings derived from an invoked skill (see skills.ts)
+ */
+export interface CugaSkillSettings {
+  skill_id?: string;
+  /** API mode (true) or browser mode (false) the skill needs; must match the backend's */
+  api_mode: boolean;
+  start_url?: string;
+  apps?: string[];
 }
 
 /**
@@ -129,6 +365,14 @@ export interface CugaResumeRequest {
   thread_id: string;
   action: 'approve' | 'reject' | 'modify';
   modified_value?: string;
+  /** ID of the HITL request being answered (defaults to thread_id) */
+  action_id?: string;
+  /** Backend follow-up action type of the request being answered */
+  response_type?: string;
+  /** Free-text answer for `input` requests */
+  value?: string;
+  /** Selected option IDs for `selection` requests */
+  selected_values?: string[];
 }
 
 /**
@@ -178,13 +422,36 @@ export interface CugaSubtask {
   error?: string;
   executionTimeMs?: number;
   children?: CugaSubtask[];
+  /** ISO timestamp when the subtask started running */
+  startedAt?: string;
+  /** ISO timestamp when the subtask completed, failed or was skipped */
+  finishedAt?: string;
+}
+
+/**
+ * Dependency graph of a plan, as reported in the `subtasks` artifact
+ */
+export interface CugaSubtaskGraph {
+  /** Dependency edges: `from` must finish before `to` starts */
+  edges: Array<{ from: string; to: string }>;
+  /** Subtask IDs in dependency order */
+  order: string[];
+  /** Subtasks on a dependency cycle (left out of `order` and the critical path) */
+  cyclic: string[];
+  /** Longest chain of dependent subtasks by execution time */
+  criticalPath: { subtaskIds: string[]; durationMs: number };
+  /** Subtasks per status */
+  counts: Record<CugaSubtaskStatus, number>;
 }
 
 /**
  * HITL Request types
  */
 export interface CugaHitlRequest {
+  /** Backend interrupt ID, or a run-scoped position when the backend sends none */
   id: string;
+  /** Backend follow-up action ID (FollowUpAction.action_id), echoed on resume */
+  actionId?: string;
   type: 'approval' | 'input' | 'confirmation' | 'selection';
   message: string;
   context?: {
@@ -198,9 +465,38 @@ export interface CugaHitlRequest {
     description?: string;
   }>;
   defaultValue?: string;
+  /** Backend follow-up action type (e.g. text_input, single_select) */
+  responseType?: string;
+  /** Whether multiple options may be selected */
+  multiSelect?: boolean;
   pending: boolean;
 }
 
+/**
+ * Auto-approval decision taken for a HITL request
+ */
+export interface CugaApprovalDecision {
+  /** HITL request the decision applies to */
+  requestId: string;
+  /** approve/reject on the caller's behalf, or escalate to a human */
+  decision: 'approve' | 'reject' | 'escalate';
+  /** ID of the matching policy rule (absent when the default applied) */
+  ruleId?: string;
+  /** Human-readable reason */
+  reason: string;
+  /** Facts the policy was evaluated against */
+  facts: {
+    riskLevel?: 'low' | 'medium' | 'high' | 'critical';
+    type?: CugaHitlRequest['type'];
+    action?: string;
+    tools?: string[];
+    tenant?: string;
+    app?: string;
+  };
+  /** ISO timestamp of the decision */
+  decidedAt: string;
+}
+
 /**
  * AG-UI State Update for CUGA
  */
@@ -211,6 +507,8 @@ export interface CugaAgentState {
   query: string;
   /** Thread ID for conversation continuity */
   threadId: string;
+  /** Run the state belongs to (scopes fallback HITL request IDs) */
+  runId?: string;
   /** Streaming content from agent */
   streamingContent: string;
   /** Final answer when complete */
@@ -227,6 +525,10 @@ export interface CugaAgentState {
   needsApproval?: boolean;
   /** HITL requests */
   hitlRequests?: CugaHitlRequest[];
+  /** Auto-approval policy decisions, for auditing */
+  approvalDecisions?: CugaApprovalDecision[];
+  /** Schema violations found in received events */
+  schemaWarnings?: CugaSchemaWarning[];
   /** Error message if any */
   error?: string;
   /** Current browser state */
@@ -239,6 +541,8 @@ export interface CugaAgentState {
   thoughts?: string;
   /** Execution status */
   status?: 'idle' | 'planning' | 'executing' | 'waiting_hitl' | 'complete' | 'failed';
+  /** Files and data attached to the request, uploaded into the workspace */
+  attachments?: CugaAttachment[];
 }
 
 /**
@@ -248,8 +552,100 @@ export interface CugaHealthResponse {
   status: 'healthy' | 'unhealthy';
   version?: string;
   mode?: string;
+  /** Circuit breaker state per backend */
+  circuitBreakers?: CugaCircuitState[];
+  /** Backend pool members */
+  backends?: CugaBackendMember[];
+}
+
+/**
+ * Member of the CUGA backend pool
+ */
+export interface CugaBackendMember {
+  url: string;
+  /** draining members take no new threads */
+  status: 'active' | 'draining';
+  healthy: boolean;
+  activeStreams: number;
+  /** Threads currently routed to this member */
+  threads: number;
+  lastCheckedAt?: string;
+  circuit: CugaCircuitState;
+}
+
+/**
+ * Circuit breaker state for a CUGA backend
+ */
+export interface CugaCircuitState {
+  /** Backend base URL */
+  name: string;
+  state: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  openedAt?: string;
+  lastError?: string;
 }
 
+/**
+ * Quota usage of a tenant (see quotas.ts)
+ */
+export interface CugaTenantQuotaUsage {
+  tenant: string;
+  activeRuns: number;
+  maxConcurrentRuns: number;
+  /** Runs that can start right now under the rate limit */
+  availableRequests: number;
+  ratePerMinute: number;
+  burst: number;
+  /** Refused runs since startup, by reason */
+  rejected: { rate_limit: number; concurrency: number };
+}
+
+/**
+ * Token and cost usage (see usage.ts)
+ */
+export interface CugaUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Whether any of it was estimated rather than reported by the backend */
+  estimated: boolean;
+}
+
+/**
+ * Grouping of usage reports
+ */
+export type CugaUsageDimension = 'run' | 'thread' | 'user' | 'organization';
+
+/**
+ * Usage aggregated over one run, thread, user or organization
+ */
+export interface CugaUsageReport {
+  dimension: CugaUsageDimension;
+  key: string;
+  runs: number;
+  usage: CugaUsage;
+  updatedAt: string;
+}
+
+/**
+ * Usage of a tenant against its budget for the current period
+ */
+export interface CugaBudgetStatus {
+  tenant: string;
+  /** Current period, e.g. 2025-06 or 2025-06-14 (UTC) */
+  period: string;
+  maxCostUsd?: number;
+  maxTokens?: number;
+  usage: CugaUsage;
+  exceeded: boolean;
+}
+
+/**
+ * Runtime API task type used to pick the tenant's model
+ */
+export type CugaTaskType = 'SIMPLE' | 'COMPLEX' | 'VISION';
+
 /**
  * AI Credentials for multi-tenant support
  *
@@ -271,3 +667,308 @@ export interface AICredentials {
   organizationId?: string;
 }
 
+
+/**
+ * Wrapper execution path that produced a run
+ */
+export type CugaRunKind = 'invoke' | 'a2a-stream' | 'platform-stream' | 'agui-stream' | 'openai-chat' | 'mcp-tool' | 'resume';
+
+/**
+ * Lifecycle status of a persisted run
+ *
+ * `canceled` runs were stopped on request or after their client disconnected.
+ */
+export type CugaRunStatus = 'running' | 'complete' | 'failed' | 'interrupted' | 'canceled';
+
+/**
+ * Persisted run record
+ *
+ * One run covers a single executor invocation, including any
+ * auto-resumes performed on behalf of the caller.
+ */
+export interface CugaRunRecord {
+  /** Run ID */
+  runId: string;
+  /** Thread ID the run belongs to */
+  threadId: string;
+  /** Organization whose credentials started the run, if any */
+  organizationId?: string;
+  /** Executor that produced the run */
+  kind: CugaRunKind;
+  /** Run status */
+  status: CugaRunStatus;
+  /** User query (empty for resume runs) */
+  query: string;
+  /** ISO timestamp of run creation */
+  createdAt: string;
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+  /** Number of events recorded so far */
+  eventCount: number;
+  /** Error message if the run failed */
+  error?: string;
+  /** Auto-approval decisions taken during the run */
+  approvalDecisions?: CugaApprovalDecision[];
+  /** Token and cost usage of the run */
+  usage?: CugaUsage;
+}
+
+/**
+ * CUGA SSE event as recorded in a run's event log
+ */
+export interface CugaStoredEvent {
+  /** Run ID */
+  runId: string;
+  /** Position in the run's event log (starting at 1) */
+  seq: number;
+  /** ISO timestamp when the wrapper received the event */
+  timestamp: string;
+  /** The original CUGA event */
+  event: CugaSSEEvent;
+}
+
+/**
+ * AG-UI protocol events emitted by the native AG-UI endpoint
+ *
+ * See https://docs.ag-ui.com/concepts/events
+ */
+export type AgUiEvent = { timestamp?: number } & (
+  | { type: 'RUN_STARTED'; threadId: string; runId: string }
+  | { type: 'RUN_FINISHED'; threadId: string; runId: string; result?: unknown }
+  | { type: 'RUN_ERROR'; message: string; code?: string }
+  | { type: 'STEP_STARTED'; stepName: string }
+  | { type: 'STEP_FINISHED'; stepName: string }
+  | { type: 'TEXT_MESSAGE_START'; messageId: string; role: 'assistant' }
+  | { type: 'TEXT_MESSAGE_CONTENT'; messageId: string; delta: string }
+  | { type: 'TEXT_MESSAGE_END'; messageId: string }
+  | { type: 'TOOL_CALL_START'; toolCallId: string; toolCallName: string; parentMessageId?: string }
+  | { type: 'TOOL_CALL_ARGS'; toolCallId: string; delta: string }
+  | { type: 'TOOL_CALL_END'; toolCallId: string }
+  | { type: 'TOOL_CALL_RESULT'; messageId: string; toolCallId: string; content: string; role: 'tool' }
+  | { type: 'STATE_SNAPSHOT'; snapshot: Record<string, unknown> }
+  | { type: 'STATE_DELTA'; delta: Array<{ op: string; path: string; value?: unknown }> }
+  | { type: 'CUSTOM'; name: string; value: unknown }
+);
+
+// ============================================================================
+// A2A Tasks
+// ============================================================================
+
+/**
+ * A2A task state
+ */
+export type CugaTaskState = 'submitted' | 'working' | 'input-required' | 'completed' | 'canceled' | 'failed';
+
+/**
+ * Client webhook for task status updates
+ */
+export interface CugaPushNotificationConfig {
+  url: string;
+  /** Opaque token echoed in X-A2A-Notification-Token */
+  token?: string;
+}
+
+/**
+ * One task state transition
+ */
+export interface CugaTaskStatus {
+  state: CugaTaskState;
+  /** ISO timestamp of the transition */
+  timestamp: string;
+  message?: string;
+}
+
+/**
+ * A2A task record (see tasks.ts)
+ */
+export interface CugaTaskRecord {
+  /** Task ID */
+  id: string;
+  /** A2A context ID (the CUGA thread ID) */
+  contextId: string;
+  /** Run currently or last executing the task */
+  runId?: string;
+  /** Organization that created the task; other tenants cannot see or change it */
+  owner?: string;
+  /** Invoked skill */
+  skillId?: string;
+  /** Current status */
+  status: CugaTaskStatus;
+  /** All transitions, oldest first */
+  statusHistory: CugaTaskStatus[];
+  createdAt: string;
+  updatedAt: string;
+  /** Final answer of a completed task */
+  result?: string;
+  /** Error message of a failed task */
+  error?: string;
+  /** Usage of the task's runs so far */
+  usage?: CugaUsage;
+  pushNotification?: CugaPushNotificationConfig;
+}
+
+// ============================================================================
+// A2A Message Parts
+// ============================================================================
+
+/**
+ * Part of an A2A message (`kind` in current A2A versions, `type` in older ones)
+ */
+export interface CugaMessagePart {
+  kind?: 'text' | 'file' | 'data';
+  type?: 'text' | 'file' | 'data';
+  text?: string;
+  /** Inline file (`bytes`, base64) or file reference (`uri`) */
+  file?: { name?: string; mimeType?: string; bytes?: string; uri?: string };
+  data?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A file or data part uploaded into the CUGA workspace (see attachments.ts)
+ */
+export interface CugaAttachment {
+  name: string;
+  /** Workspace path, as listed by /api/workspace/tree */
+  path: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  source: 'file' | 'data';
+}
+
+// ============================================================================
+// OpenAI Chat Completions
+// ============================================================================
+
+/**
+ * Message of an OpenAI chat-completions request
+ *
+ * Content may be a string or a list of parts; only text parts are used.
+ */
+export interface ChatCompletionMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content?: string | Array<{ type: string; text?: string }> | null;
+  name?: string;
+}
+
+/**
+ * OpenAI chat-completions request (the fields the wrapper uses)
+ */
+export interface ChatCompletionRequest {
+  model?: string;
+  messages: ChatCompletionMessage[];
+  stream?: boolean;
+  /** End user ID, for logging */
+  user?: string;
+  /** Same keys as A2A metadata (thread_id, skill_id, skill_params, auto_approve, ...) */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Tool call annotating a subtask or code execution of the run
+ *
+ * These are informational: CUGA already executed them, so clients must not
+ * answer them with tool messages.
+ */
+export interface ChatCompletionToolCall {
+  id: string;
+  type: 'function';
+  function: { name: 'cuga_subtask' | 'cuga_code_execution'; arguments: string };
+}
+
+/**
+ * CUGA-specific extension carried on completions and final chunks
+ */
+export interface ChatCompletionCugaInfo {
+  thread_id: string;
+  run_id: string;
+  status?: CugaAgentState['status'];
+  /** HITL requests awaiting an answer via /cuga/resume */
+  pending_requests?: CugaHitlRequest[];
+  cost_usd?: number;
+}
+
+/**
+ * Token usage of a completion (estimated unless the backend reported it)
+ */
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Streamed chat-completion chunk (`object: chat.completion.chunk`)
+ */
+export interface ChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: 0;
+    delta: {
+      role?: 'assistant';
+      content?: string;
+      /** Intermediate agent output (progress, reasoning) */
+      reasoning_content?: string;
+      tool_calls?: Array<ChatCompletionToolCall & { index: number }>;
+    };
+    /** `stop` once the run answered, stopped or waits for a HITL answer */
+    finish_reason: 'stop' | null;
+  }>;
+  /** On the final chunk */
+  usage?: ChatCompletionUsage;
+  cuga?: ChatCompletionCugaInfo;
+}
+
+/**
+ * Non-streaming chat completion (`object: chat.completion`)
+ */
+export interface ChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: 0;
+    message: { role: 'assistant'; content: string | null; reasoning_content?: string; tool_calls?: ChatCompletionToolCall[] };
+    finish_reason: 'stop';
+  }>;
+  usage?: ChatCompletionUsage;
+  cuga: ChatCompletionCugaInfo;
+}
+
+/**
+ * OpenAI-style error body
+ */
+export interface ChatCompletionErrorBody {
+  error: { message: string; type: string; code: string | null; param: string | null };
+}
+
+// ============================================================================
+// MCP
+// ============================================================================
+
+/**
+ * MCP tool definition (one per agent skill)
+ */
+export interface McpTool {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+}
+
+/**
+ * Result of an MCP `tools/call`
+ *
+ * Failures of the run itself are results with `isError`, not JSON-RPC errors.
+ */
+export interface McpToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
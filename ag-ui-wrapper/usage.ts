@@ -0,0 +1,417 @@
+/**
+ * CUGA Usage Accounting
+ *
+ * Meters token and cost usage per run and aggregates it per thread, user and
+ * organization (from the run's AICredentials), for charge-back reports and
+ * per-tenant budgets.
+ *
+ * Usage comes from the backend when its events carry it: `usage`,
+ * `token_usage`, `usage_metadata` or `usage_by_model` objects with
+ * prompt/completion (or input/output) token counts and optionally `cost_usd`,
+ * each counted once. Until the backend reports usage for a run, it is
+ * estimated at ~4 characters per token: the query and history for each
+ * backend call (prompt) and the event data received (completion), priced
+ * with the model's rates.
+ *
+ * Budgets cap an organization's usage per calendar period (UTC). A tenant
+ * over budget is refused new runs (QuotaExceededError, reason `budget`), and
+ * its runs in flight are stopped once the budget is exceeded. Requests without
+ * an organization share the `default` tenant, as for quotas.
+ *
+ * Configuration:
+ * - CUGA_MODEL_PRICES: JSON USD prices per million tokens by model, merged
+ *   over the defaults, e.g. {"gpt-4o": {"input": 2.5, "output": 10}}
+ * - CUGA_BUDGET_PERIOD: 'month' (default) | 'day'
+ * - CUGA_BUDGET_MAX_COST_USD / CUGA_BUDGET_MAX_TOKENS: default budget per tenant (unset: unlimited)
+ * - CUGA_TENANT_BUDGETS: JSON overrides per organization ID,
+ *   e.g. {"org-1": {"maxCostUsd": 50, "maxTokens": 2000000}}
+ * - CUGA_USAGE_MAX_RUNS: runs and threads kept for reports (default 10000)
+ */
+
+import { estimateTokens } from './history.js';
+import { createLogger } from './logger.js';
+import { QuotaExceededError } from './quotas.js';
+import type { AICredentials, CugaBudgetStatus, CugaSSEEvent, CugaUsage, CugaUsageDimension, CugaUsageReport } from './types.js';
+
+const log = createLogger('CUGA-Usage');
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface BudgetLimits {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export interface UsageLedgerOptions {
+  prices: Record<string, ModelPrice>;
+  period: 'month' | 'day';
+  defaultBudget: BudgetLimits;
+  budgets: Record<string, BudgetLimits>;
+  maxRuns: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+};
+
+const USAGE_KEYS = ['usage', 'token_usage', 'usage_metadata'];
+
+export function emptyUsage(): CugaUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, estimated: false };
+}
+
+/**
+ * Sum of two usages (or their difference with `sign` -1)
+ */
+export function addUsage(a: CugaUsage, b: CugaUsage, sign = 1): CugaUsage {
+  return {
+    promptTokens: a.promptTokens + sign * b.promptTokens,
+    completionTokens: a.completionTokens + sign * b.completionTokens,
+    totalTokens: a.totalTokens + sign * b.totalTokens,
+    costUsd: a.costUsd + sign * b.costUsd,
+    estimated: a.estimated || b.estimated,
+  };
+}
+
+/**
+ * Price of a model: the longest known name prefixing it, ignoring any provider prefix
+ */
+export function priceFor(model: string | undefined, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (!model) return undefined;
+  const name = model.toLowerCase().slice(model.lastIndexOf('/') + 1);
+  const match = Object.keys(prices)
+    .filter((known) => name.startsWith(known.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+}
+
+/**
+ * Cost of tokens at a model's rates; tokens not split into prompt/completion count as prompt
+ */
+function costOf(promptTokens: number, completionTokens: number, totalTokens: number, price?: ModelPrice): number {
+  if (!price) return 0;
+  const unsplit = Math.max(0, totalTokens - promptTokens - completionTokens);
+  return ((promptTokens + unsplit) * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function parseUsageObject(raw: unknown, model: string | undefined, prices: Record<string, ModelPrice>): CugaUsage | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  const data = raw as Record<string, unknown>;
+  const promptTokens = toNumber(data.prompt_tokens) ?? toNumber(data.input_tokens) ?? toNumber(data.promptTokens) ?? 0;
+  const completionTokens = toNumber(data.completion_tokens) ?? toNumber(data.output_tokens) ?? toNumber(data.completionTokens) ?? 0;
+  const totalTokens = toNumber(data.total_tokens) ?? toNumber(data.totalTokens) ?? promptTokens + completionTokens;
+  if (totalTokens <= 0) return undefined;
+  const reportedCost = toNumber(data.cost_usd) ?? toNumber(data.cost) ?? toNumber(data.total_cost);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    costUsd: reportedCost ?? costOf(promptTokens, completionTokens, totalTokens, priceFor(model, prices)),
+    estimated: false,
+  };
+}
+
+/**
+ * Usage reported in a CUGA event, if any
+ */
+export function reportedUsage(event: CugaSSEEvent, model: string | undefined, prices: Record<string, ModelPrice>): CugaUsage | undefined {
+  if (!event.data || !event.data.includes('usage')) return undefined;
+  let payload: unknown;
+  try {
+    payload = JSON.parse(event.data);
+  } catch {
+    return undefined;
+  }
+  if (!payload || typeof payload !== 'object') return undefined;
+  const data = payload as Record<string, unknown>;
+
+  if (data.usage_by_model && typeof data.usage_by_model === 'object') {
+    let total: CugaUsage | undefined;
+    for (const [byModel, raw] of Object.entries(data.usage_by_model as Record<string, unknown>)) {
+      const usage = parseUsageObject(raw, byModel, prices);
+      if (usage) total = addUsage(total ?? emptyUsage(), usage);
+    }
+    if (total) return total;
+  }
+  for (const key of USAGE_KEYS) {
+    const usage = parseUsageObject(data[key], model, prices);
+    if (usage) return usage;
+  }
+  return undefined;
+}
+
+interface RunMeter {
+  runId: string;
+  threadId: string;
+  userId?: string;
+  tenant: string;
+  model?: string;
+  /** Estimated prompt tokens of one backend call */
+  callPromptTokens: number;
+  estimated: { promptTokens: number; completionTokens: number };
+  /** Backend-reported usage, once there is any */
+  reported?: CugaUsage;
+  /** Usage already added to the aggregates */
+  applied: CugaUsage;
+  stopped: boolean;
+}
+
+export class UsageLedger {
+  private meters = new Map<string, RunMeter>();
+  private reports: Record<CugaUsageDimension, Map<string, CugaUsageReport>> = {
+    run: new Map(),
+    thread: new Map(),
+    user: new Map(),
+    organization: new Map(),
+  };
+  /** Usage of each tenant in its current budget period */
+  private periods = new Map<string, { period: string; usage: CugaUsage }>();
+
+  constructor(
+    private options: UsageLedgerOptions,
+    private onBudgetExceeded: (runId: string, tenant: string) => void = () => undefined
+  ) {}
+
+  /**
+   * Start metering a run
+   */
+  open(runId: string, run: { threadId: string; credentials?: AICredentials; prompt: string }): void {
+    const meter: RunMeter = {
+      runId,
+      threadId: run.threadId,
+      userId: run.credentials?.userId,
+      tenant: run.credentials?.organizationId || 'default',
+      model: run.credentials?.model,
+      callPromptTokens: estimateTokens(run.prompt),
+      estimated: { promptTokens: 0, completionTokens: 0 },
+      applied: emptyUsage(),
+      stopped: false,
+    };
+    this.meters.set(runId, meter);
+    for (const [dimension, key] of this.keysOf(meter)) {
+      this.reportFor(dimension, key).runs++;
+    }
+    this.prune();
+  }
+
+  /**
+   * Meter one backend call of a run as its events pass through
+   */
+  async *meter(runId: string, events: AsyncGenerator<CugaSSEEvent>): AsyncGenerator<CugaSSEEvent> {
+    const meter = this.meters.get(runId);
+    if (!meter) {
+      yield* events;
+      return;
+    }
+    meter.estimated.promptTokens += meter.callPromptTokens;
+    this.apply(meter);
+    for await (const event of events) {
+      const reported = reportedUsage(event, meter.model, this.options.prices);
+      if (reported) {
+        meter.reported = addUsage(meter.reported ?? emptyUsage(), reported);
+      }
+      meter.estimated.completionTokens += estimateTokens(event.data || '');
+      this.apply(meter);
+      if (!meter.stopped && this.budget(meter.tenant).exceeded) {
+        meter.stopped = true;
+        log.warn('Tenant exceeded its usage budget; stopping run', { orgId: meter.tenant, runId });
+        this.onBudgetExceeded(runId, meter.tenant);
+      }
+      yield event;
+    }
+  }
+
+  /**
+   * Stop metering a run and return its usage
+   */
+  close(runId: string): CugaUsage | undefined {
+    const meter = this.meters.get(runId);
+    if (!meter) return undefined;
+    this.apply(meter);
+    this.meters.delete(runId);
+    return this.current(meter);
+  }
+
+  /**
+   * Usage of a run, metered or finished
+   */
+  usage(runId: string): CugaUsage | undefined {
+    return this.reports.run.get(runId)?.usage;
+  }
+
+  /**
+   * Aggregated usage by dimension, most recently updated first
+   */
+  report(dimension: CugaUsageDimension, key?: string): CugaUsageReport[] {
+    const reports = [...this.reports[dimension].values()].filter((r) => key === undefined || r.key === key);
+    return reports.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).map((r) => ({ ...r, usage: { ...r.usage } }));
+  }
+
+  limitsFor(tenant: string): BudgetLimits {
+    return { ...this.options.defaultBudget, ...this.options.budgets[tenant] };
+  }
+
+  /**
+   * Usage of a tenant against its budget in the current period
+   */
+  budget(tenant: string): CugaBudgetStatus {
+    const limits = this.limitsFor(tenant);
+    const usage = this.periodUsage(tenant);
+    const exceeded =
+      (limits.maxCostUsd !== undefined && usage.costUsd >= limits.maxCostUsd) ||
+      (limits.maxTokens !== undefined && usage.totalTokens >= limits.maxTokens);
+    return { tenant, period: this.currentPeriod(), ...limits, usage: { ...usage }, exceeded };
+  }
+
+  /**
+   * Budget status of every tenant with usage or a configured budget
+   */
+  budgets(): CugaBudgetStatus[] {
+    const tenants = new Set([...this.periods.keys(), ...Object.keys(this.options.budgets)]);
+    return [...tenants].sort().map((tenant) => this.budget(tenant));
+  }
+
+  /**
+   * Throw QuotaExceededError when a tenant has used up its budget
+   */
+  assertWithinBudget(organizationId?: string): void {
+    const tenant = organizationId || 'default';
+    if (this.budget(tenant).exceeded) {
+      throw new QuotaExceededError(tenant, 'budget', this.secondsUntilNextPeriod());
+    }
+  }
+
+  private current(meter: RunMeter): CugaUsage {
+    if (meter.reported) return meter.reported;
+    const { promptTokens, completionTokens } = meter.estimated;
+    const totalTokens = promptTokens + completionTokens;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      costUsd: costOf(promptTokens, completionTokens, totalTokens, priceFor(meter.model, this.options.prices)),
+      estimated: true,
+    };
+  }
+
+  private keysOf(meter: RunMeter): Array<[CugaUsageDimension, string]> {
+    const keys: Array<[CugaUsageDimension, string]> = [
+      ['run', meter.runId],
+      ['thread', meter.threadId],
+      ['organization', meter.tenant],
+    ];
+    if (meter.userId) keys.push(['user', meter.userId]);
+    return keys;
+  }
+
+  private reportFor(dimension: CugaUsageDimension, key: string): CugaUsageReport {
+    let report = this.reports[dimension].get(key);
+    if (!report) {
+      report = { dimension, key, runs: 0, usage: emptyUsage(), updatedAt: new Date().toISOString() };
+      this.reports[dimension].set(key, report);
+    }
+    return report;
+  }
+
+  /**
+   * Add the change in a run's usage to every aggregate it belongs to
+   */
+  private apply(meter: RunMeter): void {
+    const usage = this.current(meter);
+    const delta = addUsage(usage, meter.applied, -1);
+    if (delta.totalTokens === 0 && delta.costUsd === 0 && usage.estimated === meter.applied.estimated) return;
+    const now = new Date().toISOString();
+    for (const [dimension, key] of this.keysOf(meter)) {
+      const report = this.reportFor(dimension, key);
+      report.usage = addUsage(report.usage, delta);
+      report.updatedAt = now;
+    }
+    this.periods.set(meter.tenant, { period: this.currentPeriod(), usage: addUsage(this.periodUsage(meter.tenant), delta) });
+    meter.applied = usage;
+  }
+
+  private periodUsage(tenant: string): CugaUsage {
+    const entry = this.periods.get(tenant);
+    return entry && entry.period === this.currentPeriod() ? entry.usage : emptyUsage();
+  }
+
+  private currentPeriod(now = new Date()): string {
+    return now.toISOString().slice(0, this.options.period === 'day' ? 10 : 7);
+  }
+
+  private secondsUntilNextPeriod(now = new Date()): number {
+    const next = this.options.period === 'day'
+      ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+      : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+    return Math.ceil((next - now.getTime()) / 1000);
+  }
+
+  /**
+   * Drop the oldest finished runs and threads above the cap
+   */
+  private prune(): void {
+    for (const dimension of ['run', 'thread'] as const) {
+      const reports = this.reports[dimension];
+      for (const key of reports.keys()) {
+        if (reports.size <= this.options.maxRuns) break;
+        const live = [...this.meters.values()].some((m) => (dimension === 'run' ? m.runId : m.threadId) === key);
+        if (!live) reports.delete(key);
+      }
+    }
+  }
+}
+
+function envNumber(name: string): number | undefined {
+  const value = Number.parseFloat(process.env[name] || '');
+  return Number.isNaN(value) ? undefined : value;
+}
+
+function envJson<T>(name: string, fallback: T): T {
+  if (!process.env[name]) return fallback;
+  try {
+    return JSON.parse(process.env[name] as string) as T;
+  } catch (error) {
+    log.error(`Invalid ${name}, ignoring`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Create the usage ledger from the environment
+ */
+export function createUsageLedger(onBudgetExceeded?: (runId: string, tenant: string) => void): UsageLedger {
+  const budgets = envJson<Record<string, BudgetLimits>>('CUGA_TENANT_BUDGETS', {});
+  const options: UsageLedgerOptions = {
+    prices: { ...DEFAULT_MODEL_PRICES, ...envJson<Record<string, ModelPrice>>('CUGA_MODEL_PRICES', {}) },
+    period: process.env.CUGA_BUDGET_PERIOD === 'day' ? 'day' : 'month',
+    defaultBudget: { maxCostUsd: envNumber('CUGA_BUDGET_MAX_COST_USD'), maxTokens: envNumber('CUGA_BUDGET_MAX_TOKENS') },
+    budgets,
+    maxRuns: envNumber('CUGA_USAGE_MAX_RUNS') ?? 10000,
+  };
+  const { maxCostUsd, maxTokens } = options.defaultBudget;
+  const defaultBudget = maxCostUsd === undefined && maxTokens === undefined
+    ? 'unlimited'
+    : [maxCostUsd !== undefined ? `$${maxCostUsd}` : '', maxTokens !== undefined ? `${maxTokens} tokens` : ''].filter(Boolean).join(', ');
+  log.info(`Default budget per ${options.period}: ${defaultBudget}`, { overrides: Object.keys(budgets).length });
+  return new UsageLedger(options, onBudgetExceeded);
+}
@@ -10,6 +10,13 @@ echo "Starting CUGA Agent..."
 CUGA_BACKEND_PORT=${CUGA_BACKEND_PORT:-8201}
 AGUI_WRAPPER_PORT=${PORT:-8200}
 
+# Workspace uploads (A2A file attachments sent by the AG-UI wrapper) stay off
+# unless CUGA_WORKSPACE_UPLOADS=true; the backend then only accepts uploads
+# carrying a token shared by the two processes
+if [ "${CUGA_WORKSPACE_UPLOADS:-false}" = "true" ] && [ -z "$CUGA_WORKSPACE_UPLOAD_TOKEN" ]; then
+    export CUGA_WORKSPACE_UPLOAD_TOKEN=$(head -c 32 /dev/urandom | od -An -tx1 | tr -d ' \n')
+fi
+
 # Start CUGA Python backend in background
 echo "Starting CUGA Python backend on port $CUGA_BACKEND_PORT..."
 cd /app/agents/langchain/cuga
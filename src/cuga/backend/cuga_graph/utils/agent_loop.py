@@ -283,11 +283,26 @@ class AgentLoop:
     async def stream_event(self, event: StreamEvent) -> Generator[str, None, None]:
         yield event.format()
 
+    @staticmethod
+    def get_interrupt_data(interrupts) -> str:
+        """
+        Payload of an `__interrupt__` event: the pending follow-up action with the
+        LangGraph interrupt ID (`interrupt_id`), so clients can tell interrupts apart.
+        """
+        for item in interrupts or ():
+            value = getattr(item, "value", None)
+            payload = dict(value) if isinstance(value, dict) else {}
+            interrupt_id = getattr(item, "id", None) or getattr(item, "interrupt_id", None)
+            if interrupt_id:
+                payload["interrupt_id"] = str(interrupt_id)
+            return json.dumps(payload, default=str) if payload else ""
+        return ""
+
     def get_event_message(self, event: dict) -> StreamEvent:
         first_key = list(event.keys())[0]
         logger.info("Current Node: {}".format(first_key))
         if first_key == "__interrupt__":
-            return StreamEvent(name=str(first_key), data="")
+            return StreamEvent(name=str(first_key), data=self.get_interrupt_data(event[first_key]))
         state_obj = AgentState(**event[first_key])
         messages = state_obj.messages
         if messages:
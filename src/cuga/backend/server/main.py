@@ -1,7 +1,9 @@
 import asyncio
 import datetime
+import hashlib
 import platform
 import re
+import secrets
 import shutil
 import os
 import subprocess
@@ -14,7 +16,7 @@ from pathlib import Path
 from cuga.backend.utils.id_utils import random_id_with_timestamp
 import traceback
 from pydantic import BaseModel, ValidationError
-from fastapi import FastAPI, Request, HTTPException
+from fastapi import FastAPI, File, Form, Request, HTTPException, UploadFile
 from fastapi.responses import FileResponse
 from fastapi.middleware.cors import CORSMiddleware
 from langchain_core.messages import AIMessage
@@ -22,7 +24,7 @@ from loguru import logger
 
 from cuga.backend.activity_tracker.tracker import ActivityTracker
 from cuga.configurations.instructions_manager import InstructionsManager
-from cuga.backend.tools_env.registry.utils.api_utils import get_apps, get_apis
+from cuga.backend.tools_env.registry.utils.api_utils import get_apps, get_apis, restrict_apps
 from cuga.cli import start_extension_browser_if_configured
 from cuga.backend.browser_env.browser.extension_env_async import ExtensionEnv
 from cuga.backend.browser_env.browser.gym_obs.http_stream_comm import (
@@ -41,6 +43,7 @@ from cuga.backend.browser_env.browser.gym_env_async import BrowserEnvGymAsync
 from cuga.backend.browser_env.browser.open_ended_async import OpenEndedTaskAsync
 from cuga.backend.cuga_graph.utils.agent_loop import AgentLoop, AgentLoopAnswer, StreamEvent, OutputFormat
 from cuga.backend.tools_env.registry.utils.api_utils import get_registry_base_url
+from cuga.backend.server.stream_buffer import StreamBuffer, parse_last_event_id
 from cuga.config import (
     get_app_name_from_url,
     get_user_data_path,
@@ -162,12 +165,23 @@ class AppState:
 # Create a single instance of the AppState class to be used throughout the application.
 app_state = AppState()
 
+# Buffered agent runs per thread, for clients reconnecting with Last-Event-ID
+stream_buffer = StreamBuffer()
+
 
 class ChatRequest(BaseModel):
     messages: List[Dict[str, Any]]
     stream: bool = False
 
 
+class StreamOptions(BaseModel):
+    """Per-request run settings sent alongside `query` (e.g. by an invoked A2A skill)."""
+
+    api_mode: Optional[bool] = None  # Mode the run needs; refused when the backend runs in the other
+    start_url: Optional[str] = None  # Page a browser-mode run starts from
+    apps: Optional[List[str]] = None  # Apps the run may use (default: any)
+
+
 def format_time_custom():
     """Formats the current time as HH-MM-SS."""
     now = datetime.datetime.now()
@@ -346,8 +360,18 @@ async def setup_page_info(state: AgentState, env: ExtensionEnv | BrowserEnvGymAs
     state.current_app_description = f"web application for '{title}' and url '{url_app_name}'"
 
 
-async def event_stream(query: str, api_mode=False, resume=None, thread_id: str = None):
+async def event_stream(
+    query: str,
+    api_mode=False,
+    resume=None,
+    thread_id: str = None,
+    start_url: Optional[str] = None,
+    apps: Optional[List[str]] = None,
+):
     """Handles the main agent event stream."""
+    # Scoped to the task pumping this run (see StreamBuffer.publish)
+    restrict_apps(apps)
+
     # Create or get cancellation event for this thread
     if thread_id:
         if thread_id not in app_state.stop_events:
@@ -413,6 +437,9 @@ async def event_stream(query: str, api_mode=False, resume=None, thread_id: str =
                 local_state.thread_id = thread_id
 
     if not api_mode:
+        if start_url and not resume:
+            logger.info(f"Starting thread_id {thread_id} from {start_url}")
+            await app_state.env.page.goto(start_url, timeout=30000)
         local_obs, _, _, _, local_info = await app_state.env.step("")
         pu_answer = await app_state.env.pu_processor.transform(
             transformer_params={"filter_visible_only": True}
@@ -642,6 +669,7 @@ app.add_middleware(
     allow_credentials=True,
     allow_methods=["*"],
     allow_headers=["*"],
+    expose_headers=["X-Thread-ID"],
 )
 
 # Multi-tenant credential middleware
@@ -784,10 +812,28 @@ if getattr(settings.advanced_features, "use_extension", False):
         return StreamingResponse(event_gen(), media_type="application/jsonlines")
 
 
+def stream_owner(request: Request) -> str:
+    """Key of the credentials a stream was started with; reconnects must present the same."""
+    parts = [
+        request.headers.get(name, "") for name in ("X-AI-API-Key", "X-Organization-ID", "X-User-ID")
+    ]
+    return hashlib.sha256("\0".join(parts).encode()).hexdigest()
+
+
 @app.post("/stream")
 async def stream(request: Request):
     """Endpoint to start the agent stream."""
     query = await get_query(request)
+    options = await get_stream_options(request)
+    api_mode = settings.advanced_features.mode == "api"
+    if options.api_mode is not None and options.api_mode != api_mode:
+        raise HTTPException(
+            status_code=409,
+            detail=f"This backend runs in {'api' if api_mode else 'browser'} mode; "
+            f"the request needs {'api' if options.api_mode else 'browser'} mode.",
+        )
+    if options.start_url and api_mode:
+        raise HTTPException(status_code=422, detail="`start_url` needs browser mode.")
 
     # Get thread_id from header or generate new one
     thread_id = request.headers.get("X-Thread-ID")
@@ -797,14 +843,48 @@ async def stream(request: Request):
     else:
         logger.info(f"Using provided thread_id: {thread_id}")
 
-    return StreamingResponse(
+    def stop_abandoned_run():
+        if thread_id not in app_state.stop_events:
+            app_state.stop_events[thread_id] = asyncio.Event()
+        app_state.stop_events[thread_id].set()
+
+    # The run is pumped independently of this connection; a dropped client
+    # reconnects with GET /stream/{thread_id} and Last-Event-ID
+    stream_buffer.publish(
+        thread_id,
         event_stream(
             query if isinstance(query, str) else None,
-            api_mode=settings.advanced_features.mode == "api",
+            api_mode=api_mode,
             resume=query if isinstance(query, ActionResponse) else None,
             thread_id=thread_id,
+            start_url=options.start_url,
+            apps=options.apps,
         ),
+        on_abandon=stop_abandoned_run,
+        owner=stream_owner(request),
+    )
+    return StreamingResponse(
+        stream_buffer.subscribe(thread_id),
+        media_type="text/event-stream",
+        headers={"X-Thread-ID": thread_id},
+    )
+
+
+@app.get("/stream/{thread_id}")
+async def reconnect_stream(thread_id: str, request: Request):
+    """Endpoint to follow a thread's run again after a dropped connection."""
+    if not stream_buffer.has(thread_id):
+        raise HTTPException(status_code=404, detail="No buffered stream for this thread")
+    if not stream_buffer.owned_by(thread_id, stream_owner(request)):
+        raise HTTPException(status_code=403, detail="The stream was started with other credentials")
+    last_event_id = parse_last_event_id(
+        request.headers.get("Last-Event-ID") or request.query_params.get("lastEventId")
+    )
+    logger.info(f"Client reconnected to thread_id {thread_id} after event {last_event_id}")
+    return StreamingResponse(
+        stream_buffer.subscribe(thread_id, last_event_id),
         media_type="text/event-stream",
+        headers={"X-Thread-ID": thread_id},
     )
 
 
@@ -1408,53 +1488,76 @@ async def download_workspace_file(path: str):
 #         raise HTTPException(status_code=500, detail=f"Failed to delete file: {str(e)}")
 
 
-# DISABLED: Upload endpoint commented out for security
-# @app.post("/api/workspace/upload")
-# async def upload_workspace_file(file: UploadFile = File(...)):
-#     """Endpoint to upload a file to the workspace."""
-#     try:
-#         # Create workspace directory if it doesn't exist
-#         workspace_path = Path(os.getcwd()) / "cuga_workspace"
-#         workspace_path.mkdir(exist_ok=True)
-#
-#         # Sanitize filename and prevent directory traversal
-#         safe_filename = Path(file.filename).name
-#         if not safe_filename:
-#             raise HTTPException(status_code=400, detail="Invalid filename")
-#
-#         # Prevent overwriting critical files
-#         if safe_filename.startswith('.'):
-#             raise HTTPException(status_code=400, detail="Hidden files not allowed")
-#
-#         file_path = workspace_path / safe_filename
-#
-#         # Check file size (limit to 50MB)
-#         file_size = 0
-#         content = await file.read()
-#         file_size = len(content)
-#
-#         if file_size > 50 * 1024 * 1024:  # 50MB limit
-#             raise HTTPException(status_code=413, detail="File too large (max 50MB)")
-#
-#         # Write file
-#         with open(file_path, 'wb') as f:
-#             f.write(content)
-#
-#         logger.info(f"File uploaded successfully: {safe_filename} ({file_size} bytes)")
-#         return JSONResponse(
-#             {
-#                 "status": "success",
-#                 "message": "File uploaded successfully",
-#                 "filename": safe_filename,
-#                 "path": str(file_path.relative_to(Path("."))),
-#                 "size": file_size,
-#             }
-#         )
-#     except HTTPException:
-#         raise
-#     except Exception as e:
-#         logger.error(f"Failed to upload file: {e}")
-#         raise HTTPException(status_code=500, detail=f"Failed to upload file: {str(e)}")
+# Off by default; the AG-UI wrapper uploads A2A file attachments through it,
+# sending the token only the two processes share (X-CUGA-Upload-Token)
+WORKSPACE_UPLOADS_ENABLED = os.getenv("CUGA_WORKSPACE_UPLOADS", "false").lower() in ("true", "1", "yes", "on")
+WORKSPACE_UPLOAD_TOKEN = os.getenv("CUGA_WORKSPACE_UPLOAD_TOKEN", "")
+
+
+@app.post("/api/workspace/upload")
+async def upload_workspace_file(request: Request, file: UploadFile = File(...), directory: str = Form("")):
+    """Endpoint to upload a new file to the workspace, optionally into a subdirectory (CUGA_WORKSPACE_UPLOADS)."""
+    if not WORKSPACE_UPLOADS_ENABLED or not WORKSPACE_UPLOAD_TOKEN:
+        raise HTTPException(
+            status_code=403,
+            detail="Workspace uploads are disabled (CUGA_WORKSPACE_UPLOADS, CUGA_WORKSPACE_UPLOAD_TOKEN)",
+        )
+    token = request.headers.get("X-CUGA-Upload-Token", "")
+    if not secrets.compare_digest(token.encode(), WORKSPACE_UPLOAD_TOKEN.encode()):
+        raise HTTPException(status_code=401, detail="Invalid upload token")
+    try:
+        workspace_path = (Path(os.getcwd()) / "cuga_workspace").resolve()
+
+        # Security check: no hidden segments, and the directory must stay within cuga_workspace
+        segments = [segment for segment in re.split(r"[\\/]+", directory) if segment]
+        if any(segment.startswith('.') for segment in segments):
+            raise HTTPException(status_code=400, detail="Invalid directory")
+        target_dir = workspace_path.joinpath(*segments).resolve()
+        try:
+            target_dir.relative_to(workspace_path)
+        except ValueError:
+            raise HTTPException(status_code=403, detail="Access denied: Path outside workspace")
+
+        # Sanitize filename and prevent directory traversal
+        safe_filename = Path(file.filename or "").name
+        if not safe_filename:
+            raise HTTPException(status_code=400, detail="Invalid filename")
+
+        # Prevent overwriting critical files
+        if safe_filename.startswith('.'):
+            raise HTTPException(status_code=400, detail="Hidden files not allowed")
+
+        # Check file size (limit to 50MB)
+        content = await file.read()
+        file_size = len(content)
+        if file_size > 50 * 1024 * 1024:
+            raise HTTPException(status_code=413, detail="File too large (max 50MB)")
+
+        target_dir.mkdir(parents=True, exist_ok=True)
+        file_path = target_dir / safe_filename
+        # Never overwrite: existing workspace files stay as they are
+        try:
+            with open(file_path, 'xb') as f:
+                f.write(content)
+        except FileExistsError:
+            raise HTTPException(status_code=409, detail="File already exists")
+
+        logger.info(f"File uploaded successfully: {safe_filename} ({file_size} bytes)")
+        return JSONResponse(
+            {
+                "status": "success",
+                "message": "File uploaded successfully",
+                "filename": safe_filename,
+                # Same form as the paths of /api/workspace/tree
+                "path": str(file_path.relative_to(workspace_path.parent)),
+                "size": file_size,
+            }
+        )
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Failed to upload file: {e}")
+        raise HTTPException(status_code=500, detail=f"Failed to upload file: {str(e)}")
 
 
 @app.post("/functions/call", tags=["Registry Proxy"])
@@ -1526,7 +1629,12 @@ async def get_query(request: Request) -> Union[str, ActionResponse]:
     except json.JSONDecodeError:
         raise HTTPException(status_code=400, detail="Request body was not valid JSON.")
 
-    if isinstance(data, dict) and set(data.keys()) == {"query"} and isinstance(data["query"], str):
+    if (
+        isinstance(data, dict)
+        and "query" in data
+        and set(data.keys()) <= {"query", *StreamOptions.model_fields}
+        and isinstance(data["query"], str)
+    ):
         query_text = data["query"]
         if not query_text.strip():
             raise HTTPException(status_code=422, detail="`query` may not be empty.")
@@ -1553,6 +1661,17 @@ async def get_query(request: Request) -> Union[str, ActionResponse]:
             raise HTTPException(status_code=422, detail=f"Invalid ChatRequest JSON: {e.errors()}")
 
 
+async def get_stream_options(request: Request) -> StreamOptions:
+    """Parses the run settings sent alongside a query; resumes carry none."""
+    data = await request.json()
+    if not isinstance(data, dict) or "query" not in data:
+        return StreamOptions()
+    try:
+        return StreamOptions.model_validate({key: data[key] for key in StreamOptions.model_fields if key in data})
+    except ValidationError as e:
+        raise HTTPException(status_code=422, detail=f"Invalid stream options: {e.errors()}")
+
+
 @app.get("/flows/{full_path:path}")
 async def serve_flows(full_path: str, request: Request):
     """Serves files from the flows directory."""
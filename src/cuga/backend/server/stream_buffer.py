@@ -0,0 +1,200 @@
+"""
+Per-thread buffers of agent stream events, so SSE clients can reconnect.
+
+`POST /stream` runs the agent in a background task that numbers every event
+(SSE `id:`) and keeps the most recent ones per thread. The response, and any
+client that reconnects with `GET /stream/{thread_id}` and `Last-Event-ID`,
+follow that buffer: a dropped connection neither loses events nor re-runs
+the query. Only a client presenting the credentials that started the run may
+reconnect to it.
+
+Configuration:
+- CUGA_STREAM_BUFFER_SIZE: events kept per thread (default 1000, at least 1)
+- CUGA_STREAM_BUFFER_MAX_BYTES: size of the events kept per thread, which can
+  carry base64 screenshots (default 8 MiB); the latest event is always kept
+- CUGA_STREAM_DISCONNECT_GRACE_SECONDS: how long a run continues without any
+  connected client before it is stopped (default 30)
+- CUGA_STREAM_RETENTION_SECONDS: how long a finished run's events stay
+  available for reconnects (default 300)
+"""
+
+import asyncio
+import os
+import secrets
+from dataclasses import dataclass, field
+from typing import AsyncIterator, Callable, Dict, List, Optional, Tuple
+
+from loguru import logger
+
+
+def _env_float(name: str, default: float) -> float:
+    try:
+        return float(os.getenv(name, ""))
+    except ValueError:
+        return default
+
+
+def parse_last_event_id(value: Optional[str]) -> int:
+    """Event ID from a `Last-Event-ID` header, or 0 when absent or invalid."""
+    try:
+        return max(int(value or 0), 0)
+    except ValueError:
+        return 0
+
+
+@dataclass
+class ThreadStream:
+    """Buffered events of the current (or last) run on a thread."""
+
+    events: List[Tuple[int, str]] = field(default_factory=list)
+    size: int = 0
+    last_id: int = 0
+    owner: str = ""
+    done: bool = False
+    subscribers: int = 0
+    changed: asyncio.Event = field(default_factory=asyncio.Event)
+    task: Optional[asyncio.Task] = None
+    on_abandon: Optional[Callable[[], None]] = None
+    abandon_handle: Optional[asyncio.TimerHandle] = None
+    expiry_handle: Optional[asyncio.TimerHandle] = None
+
+
+class StreamBuffer:
+    """Runs agent streams independently of HTTP connections and buffers their events."""
+
+    def __init__(
+        self,
+        max_events: Optional[int] = None,
+        max_bytes: Optional[int] = None,
+        grace_seconds: Optional[float] = None,
+        retention_seconds: Optional[float] = None,
+    ):
+        self.max_events = max(max_events or int(_env_float("CUGA_STREAM_BUFFER_SIZE", 1000)), 1)
+        self.max_bytes = max_bytes or int(_env_float("CUGA_STREAM_BUFFER_MAX_BYTES", 8 * 1024 * 1024))
+        self.grace_seconds = (
+            grace_seconds
+            if grace_seconds is not None
+            else _env_float("CUGA_STREAM_DISCONNECT_GRACE_SECONDS", 30)
+        )
+        self.retention_seconds = (
+            retention_seconds
+            if retention_seconds is not None
+            else _env_float("CUGA_STREAM_RETENTION_SECONDS", 300)
+        )
+        self._threads: Dict[str, ThreadStream] = {}
+
+    def has(self, thread_id: str) -> bool:
+        """Whether events of a run on the thread are available."""
+        return thread_id in self._threads
+
+    def owned_by(self, thread_id: str, owner: str) -> bool:
+        """Whether the thread's run was started with the given owner key."""
+        stream = self._threads.get(thread_id)
+        return stream is not None and secrets.compare_digest(stream.owner.encode(), owner.encode())
+
+    def publish(
+        self,
+        thread_id: str,
+        events: AsyncIterator[str],
+        on_abandon: Optional[Callable[[], None]] = None,
+        owner: str = "",
+    ) -> None:
+        """
+        Start pumping a run's formatted SSE events into the thread's buffer.
+
+        A run still active on the thread is cancelled: it was superseded. Event
+        IDs keep increasing across runs of a thread, so a stale `Last-Event-ID`
+        never skips events of the new run. `on_abandon` is called when the run
+        is stopped because no client came back within the grace period. `owner`
+        identifies who may reconnect (see `owned_by`).
+        """
+        previous = self._threads.get(thread_id)
+        stream = ThreadStream(
+            last_id=previous.last_id if previous else 0, owner=owner, on_abandon=on_abandon
+        )
+        if previous:
+            self._close(previous)
+        self._threads[thread_id] = stream
+        stream.task = asyncio.create_task(self._pump(thread_id, stream, events))
+
+    async def subscribe(self, thread_id: str, last_event_id: int = 0) -> AsyncIterator[str]:
+        """Events after `last_event_id`, followed live until the run ends."""
+        stream = self._threads.get(thread_id)
+        if stream is None:
+            return
+        stream.subscribers += 1
+        if stream.abandon_handle:
+            stream.abandon_handle.cancel()
+            stream.abandon_handle = None
+        try:
+            cursor = last_event_id
+            while True:
+                changed = stream.changed
+                pending = [(event_id, event) for event_id, event in stream.events if event_id > cursor]
+                for event_id, event in pending:
+                    cursor = event_id
+                    yield f"id: {event_id}\n{event}"
+                if stream.done:
+                    return
+                if not pending:
+                    await changed.wait()
+        finally:
+            stream.subscribers -= 1
+            if stream.subscribers == 0 and not stream.done:
+                self._schedule_abandon(thread_id, stream)
+
+    async def _pump(self, thread_id: str, stream: ThreadStream, events: AsyncIterator[str]) -> None:
+        try:
+            async for event in events:
+                self._append(stream, event)
+        except asyncio.CancelledError:
+            logger.info(f"Stream for thread_id {thread_id} cancelled")
+        except Exception as e:
+            logger.exception(f"Stream for thread_id {thread_id} failed: {e}")
+        finally:
+            stream.done = True
+            self._notify(stream)
+            if self._threads.get(thread_id) is stream:
+                stream.expiry_handle = asyncio.get_running_loop().call_later(
+                    self.retention_seconds, self._expire, thread_id, stream
+                )
+
+    def _append(self, stream: ThreadStream, event: str) -> None:
+        stream.last_id += 1
+        stream.events.append((stream.last_id, event))
+        stream.size += len(event)
+        while len(stream.events) > 1 and (
+            len(stream.events) > self.max_events or stream.size > self.max_bytes
+        ):
+            stream.size -= len(stream.events.pop(0)[1])
+        self._notify(stream)
+
+    @staticmethod
+    def _notify(stream: ThreadStream) -> None:
+        changed = stream.changed
+        stream.changed = asyncio.Event()
+        changed.set()
+
+    def _schedule_abandon(self, thread_id: str, stream: ThreadStream) -> None:
+        def abandon() -> None:
+            stream.abandon_handle = None
+            if stream.subscribers == 0 and not stream.done:
+                logger.info(f"No client reconnected to thread_id {thread_id}; stopping its run")
+                if stream.on_abandon:
+                    stream.on_abandon()
+                if stream.task:
+                    stream.task.cancel()
+
+        stream.abandon_handle = asyncio.get_running_loop().call_later(self.grace_seconds, abandon)
+
+    def _expire(self, thread_id: str, stream: ThreadStream) -> None:
+        if self._threads.get(thread_id) is stream:
+            del self._threads[thread_id]
+
+    @staticmethod
+    def _close(stream: ThreadStream) -> None:
+        for handle in (stream.abandon_handle, stream.expiry_handle):
+            if handle:
+                handle.cancel()
+        if stream.task and not stream.task.done():
+            stream.task.cancel()
@@ -1,5 +1,6 @@
 import json
-from typing import List
+from contextvars import ContextVar
+from typing import List, Optional
 
 import aiohttp
 
@@ -10,6 +11,28 @@ from cuga.backend.activity_tracker.tracker import ActivityTracker
 
 tracker = ActivityTracker()
 
+# Apps the current run may use (None: any), set per `/stream` request
+_allowed_apps: ContextVar[Optional[List[str]]] = ContextVar("allowed_apps", default=None)
+
+
+def restrict_apps(apps: Optional[List[str]]) -> None:
+    """
+    Restrict the apps visible to the current run.
+
+    The restriction is context-scoped, so it only applies to the run's own task.
+    """
+    _allowed_apps.set(list(apps) if apps else None)
+
+
+def is_app_allowed(app_name: str) -> bool:
+    """Whether the current run may use the app."""
+    allowed = _allowed_apps.get()
+    return allowed is None or app_name in allowed
+
+
+def _allowed(apps: List[AppDefinition]) -> List[AppDefinition]:
+    return [app for app in apps if is_app_allowed(app.name)]
+
 
 def get_registry_base_url() -> str:
     """
@@ -41,6 +64,9 @@ async def get_apis(app_name: str):
         Exception: If the request fails or the response is not valid JSON
     """
     all_tools = {}
+    if not is_app_allowed(app_name):
+        logger.warning(f"App {app_name} is not allowed for this run")
+        return all_tools
 
     # Get tools from tracker
     try:
@@ -101,7 +127,7 @@ async def get_apps() -> List[AppDefinition]:
     external_apps = tracker.apps
     if not settings.advanced_features.registry:
         logger.debug("Registry is not enabled, using external apps")
-        return external_apps
+        return _allowed(external_apps)
     logger.debug(f"External apps are {external_apps}")
     try:
         async with aiohttp.ClientSession() as session:
@@ -118,11 +144,11 @@ async def get_apps() -> List[AppDefinition]:
                 for e in external_apps:
                     result.append(e)
 
-                return result
+                return _allowed(result)
     except Exception as e:
         if len(external_apps) > 0:
             logger.warning("registry is not running, using external apps")
-            return external_apps
+            return _allowed(external_apps)
         else:
             logger.error("Error while calling registry to get apps")
             raise e
@@ -2,6 +2,7 @@ import { fetchEventSource } from "@microsoft/fetch-event-source";
 import { ChatInstance, CustomSendMessageOptions, GenericItem, MessageRequest, StreamChunk } from "@carbon/ai-chat";
 import { streamStateManager } from "./StreamManager";
 import { RESPONSE_USER_PROFILE, API_BASE_URL } from "./constants";
+import { parseCugaEvent } from "@cuga/events";
 
 // When built without webpack DefinePlugin, `FAKE_STREAM` may not exist at runtime.
 // Declare it for TypeScript and compute a safe value that won't throw if undefined.
@@ -10,6 +11,11 @@ const USE_FAKE_STREAM: boolean =
   typeof FAKE_STREAM !== "undefined" ? !!FAKE_STREAM : !!(globalThis as any).FAKE_STREAM;
 const FAKE_STREAM_FILE = "/fake_data.json"; // Path to your JSON file
 const FAKE_STREAM_DELAY = 1000; // Delay between fake stream events in milliseconds
+// Reconnects allowed after a dropped stream (GET /stream/{threadId} with Last-Event-ID)
+const MAX_STREAM_RECONNECTS = 5;
+const STREAM_RECONNECT_BASE_DELAY = 1000;
+// Events after which the backend ends the stream
+const TERMINAL_STREAM_EVENTS = ["Answer", "Stopped", "Error", "__interrupt__"];
 // Unique timestamp generator for IDs
 const generateTimestampId = () => {
   return Date.now().toString();
@@ -20,6 +26,14 @@ function renderPlan(planJson) {
   return planJson;
 }
 
+// Report events that don't match the shared CUGA event schema; they are still rendered
+function reportSchemaViolations(event: { event: string; data: string }) {
+  const parsed = parseCugaEvent({ name: event.event, data: event.data });
+  if (parsed && parsed.warnings.length > 0) {
+    console.warn(`CUGA event schema violations in ${event.event}:`, parsed.warnings);
+  }
+}
+
 function getCurrentStep(event) {
   console.log("getCurrentStep received: ", event);
   switch (event.event) {
@@ -286,6 +300,13 @@ const fetchStreamingData = async (instance: ChatInstance, query: string, action:
   let fullResponse = "";
   let workflowInitialized = false;
   let workflowId = "workflow_" + generateTimestampId();
+  // Last event ID seen, sent back as Last-Event-ID when reconnecting
+  let lastEventId = "";
+  // Thread of the run, from the caller or the backend's X-Thread-ID response header
+  let streamThreadId = threadId || "";
+  let reconnectAttempts = 0;
+  // Whether the server sent an event that ends the run, so a close is not a dropped connection
+  let reachedTerminalEvent = false;
 
   // Set streaming state
   streamStateManager.setStreaming(true);
@@ -326,78 +347,115 @@ const fetchStreamingData = async (instance: ChatInstance, query: string, action:
 
     console.log("🌊 Beginning stream connection");
 
-    // Start streaming with abort signal
-    await fetchEventSource(`${API_BASE_URL}/stream`, {
-      headers: {
-        "Content-Type": "application/json",
-        ...(threadId ? { "X-Thread-ID": threadId } : {}),
-      },
-      method: "POST",
-      body: query ? JSON.stringify({ query }) : JSON.stringify(action),
-      signal: abortController.signal, // 🔑 KEY: Pass abort signal to fetchEventSource
+    // Open the run with POST /stream; after a dropped connection, follow the same run
+    // with GET /stream/{threadId} and Last-Event-ID instead of re-sending the query
+    const openStream = (resume: boolean) =>
+      fetchEventSource(resume ? `${API_BASE_URL}/stream/${encodeURIComponent(streamThreadId)}` : `${API_BASE_URL}/stream`, {
+        headers: resume
+          ? { "Last-Event-ID": lastEventId }
+          : {
+              "Content-Type": "application/json",
+              ...(threadId ? { "X-Thread-ID": threadId } : {}),
+            },
+        method: resume ? "GET" : "POST",
+        body: resume ? undefined : query ? JSON.stringify({ query }) : JSON.stringify(action),
+        signal: abortController.signal, // 🔑 KEY: Pass abort signal to fetchEventSource
+        // Reopening on tab visibility changes would re-send the query
+        openWhenHidden: true,
 
-      async onopen(response) {
-        console.log("🌊 Stream connection opened:", response.status);
+        async onopen(response) {
+          console.log("🌊 Stream connection opened:", response.status, resume ? `(resuming after event ${lastEventId})` : "");
 
-        // Check if aborted during connection
-        if (abortController.signal.aborted) {
-          console.log("🛑 Stream aborted during connection opening");
-          return;
-        }
-        // Intentionally no chat message here to avoid polluting history
-      },
+          if (!response.ok) {
+            throw new Error(`Stream request failed: ${response.status} ${response.statusText}`);
+          }
+          // The backend names the thread it generated when none was sent
+          streamThreadId = response.headers.get("X-Thread-ID") || streamThreadId;
 
-      async onmessage(ev) {
-        // Check if aborted before processing message
-        if (abortController.signal.aborted) {
-          console.log("🛑 Stream aborted - skipping message processing");
-          return;
-        }
+          // Check if aborted during connection
+          if (abortController.signal.aborted) {
+            console.log("🛑 Stream aborted during connection opening");
+            return;
+          }
+          // Intentionally no chat message here to avoid polluting history
+        },
 
-        let currentStep = getCurrentStep(ev);
+        async onmessage(ev) {
+          // Check if aborted before processing message
+          if (abortController.signal.aborted) {
+            console.log("🛑 Stream aborted - skipping message processing");
+            return;
+          }
 
-        if (currentStep) {
-          let stepTitle = ev.event;
-          console.log("⚡ Processing step:", stepTitle);
+          if (ev.id) {
+            lastEventId = ev.id;
+            reconnectAttempts = 0;
+          }
+          if (TERMINAL_STREAM_EVENTS.includes(ev.event)) {
+            reachedTerminalEvent = true;
+          }
 
-          await addStreamMessage(instance, workflowId, stepTitle, currentStep, "user_defined");
-        }
+          reportSchemaViolations(ev);
 
-        // Check if aborted after processing message
-        if (abortController.signal.aborted) {
-          console.log("🛑 Stream aborted after processing message");
-          return;
-        }
-      },
+          let currentStep = getCurrentStep(ev);
 
-      async onclose() {
-        console.log("🌊 Stream connection closed");
-        console.log("🌊 Signal aborted state:", abortController.signal.aborted);
-      },
+          if (currentStep) {
+            let stepTitle = ev.event;
+            console.log("⚡ Processing step:", stepTitle);
+
+            await addStreamMessage(instance, workflowId, stepTitle, currentStep, "user_defined");
+          }
+
+          // Check if aborted after processing message
+          if (abortController.signal.aborted) {
+            console.log("🛑 Stream aborted after processing message");
+            return;
+          }
+        },
+
+        onclose() {
+          console.log("🌊 Stream connection closed");
+          console.log("🌊 Signal aborted state:", abortController.signal.aborted);
+
+          // A stream that closes before the run ends was dropped
+          if (!reachedTerminalEvent && !abortController.signal.aborted) {
+            throw new Error("Stream closed before the run finished");
+          }
+        },
 
-      async onerror(err) {
-        console.error("🌊 Stream error:", err);
-        console.log("🌊 Error name:", err.name);
-        console.log("🌊 Signal aborted:", abortController.signal.aborted);
+        // Must stay synchronous: fetchEventSource reads the retry delay (or thrown error) directly
+        onerror(err) {
+          console.error("🌊 Stream error:", err);
+          console.log("🌊 Error name:", err.name);
+          console.log("🌊 Signal aborted:", abortController.signal.aborted);
 
-        // Don't add error message if stream was aborted by user
+          // Never let fetchEventSource retry: that would repeat the POST. Reconnects happen below.
+          throw err;
+        },
+      });
+
+    let resume = false;
+    for (;;) {
+      try {
+        await openStream(resume);
+        break;
+      } catch (err) {
+        // Don't reconnect if the stream was aborted by user
         if (abortController.signal.aborted) {
-          console.log("🛑 Stream error was due to user abort - not adding error message");
-          return;
+          console.log("🛑 Stream error was due to user abort - not reconnecting");
+          break;
         }
-
-        // Add error step for real errors
-        if (workflowInitialized) {
-          await addStreamMessage(
-            instance,
-            workflowId,
-            "error",
-            `An error occurred during processing: ${err.message}`,
-            "text"
-          );
+        // Only a run whose thread and last event are known can be resumed
+        if (!lastEventId || !streamThreadId || reconnectAttempts >= MAX_STREAM_RECONNECTS) {
+          throw err;
         }
-      },
-    });
+        reconnectAttempts++;
+        const delay = STREAM_RECONNECT_BASE_DELAY * 2 ** (reconnectAttempts - 1);
+        console.log(`🌊 Reconnecting after event ${lastEventId} in ${delay}ms (attempt ${reconnectAttempts}/${MAX_STREAM_RECONNECTS})`);
+        await abortableDelayV2(delay, abortController.signal);
+        resume = true;
+      }
+    }
 
     // Check if completed successfully or was aborted
     if (abortController.signal.aborted) {
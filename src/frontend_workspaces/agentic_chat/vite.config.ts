@@ -34,6 +34,8 @@ export default defineConfig(({ mode }) => {
       alias: {
         '@uiagent/shared': path.resolve(__dirname, '../shared/src'),
         '@agentic_chat': path.resolve(__dirname, './src'),
+        // CUGA SSE event schema, shared with the AG-UI wrapper
+        '@cuga/events': path.resolve(__dirname, '../../../ag-ui-wrapper/event-schema.ts'),
       },
     },
   };
@@ -0,0 +1,84 @@
+import asyncio
+
+import pytest
+
+from cuga.backend.server.stream_buffer import StreamBuffer, parse_last_event_id
+
+
+async def events(*names, delay=0.0):
+    for name in names:
+        if delay:
+            await asyncio.sleep(delay)
+        yield f"event: {name}\ndata: {name}\n\n"
+
+
+async def collect(stream):
+    return [item async for item in stream]
+
+
+class TestStreamBuffer:
+    """Test buffered agent streams and Last-Event-ID reconnects"""
+
+    @pytest.mark.asyncio
+    async def test_numbers_events(self):
+        buffer = StreamBuffer()
+        buffer.publish("t1", events("PlanControllerAgent", "Answer"))
+        assert await collect(buffer.subscribe("t1")) == [
+            "id: 1\nevent: PlanControllerAgent\ndata: PlanControllerAgent\n\n",
+            "id: 2\nevent: Answer\ndata: Answer\n\n",
+        ]
+
+    @pytest.mark.asyncio
+    async def test_reconnect_replays_after_last_event_id(self):
+        buffer = StreamBuffer()
+        buffer.publish("t2", events("A", "B", "C", delay=0.01))
+        assert [item.split("\n")[0] for item in await collect(buffer.subscribe("t2", 1))] == ["id: 2", "id: 3"]
+
+    @pytest.mark.asyncio
+    async def test_run_survives_disconnect_within_grace(self):
+        buffer = StreamBuffer(grace_seconds=1)
+        buffer.publish("t3", events("A", "B", delay=0.02))
+        first = buffer.subscribe("t3")
+        assert (await first.__anext__()).startswith("id: 1")
+        await first.aclose()
+        assert [item.split("\n")[0] for item in await collect(buffer.subscribe("t3", 1))] == ["id: 2"]
+
+    @pytest.mark.asyncio
+    async def test_abandoned_run_is_stopped(self):
+        stopped = []
+        buffer = StreamBuffer(grace_seconds=0)
+        buffer.publish("t4", events("A", "B", delay=0.05), on_abandon=lambda: stopped.append(True))
+        first = buffer.subscribe("t4")
+        await first.__anext__()
+        await first.aclose()
+        await asyncio.sleep(0.1)
+        assert stopped == [True]
+        assert [item.split("\n")[0] for item in await collect(buffer.subscribe("t4"))] == ["id: 1"]
+
+    @pytest.mark.asyncio
+    async def test_ids_continue_across_runs(self):
+        buffer = StreamBuffer()
+        buffer.publish("t5", events("A"))
+        await collect(buffer.subscribe("t5"))
+        buffer.publish("t5", events("B"))
+        assert await collect(buffer.subscribe("t5")) == ["id: 2\nevent: B\ndata: B\n\n"]
+
+    @pytest.mark.asyncio
+    async def test_buffer_is_bounded_by_size(self):
+        buffer = StreamBuffer(max_bytes=60)
+        buffer.publish("t6", events("A" * 20, "B" * 20, "C" * 40))
+        assert [item.split("\n")[0] for item in await collect(buffer.subscribe("t6"))] == ["id: 3"]
+
+    @pytest.mark.asyncio
+    async def test_reconnect_requires_the_owner(self):
+        buffer = StreamBuffer()
+        buffer.publish("t7", events("A"), owner="tenant-a")
+        await collect(buffer.subscribe("t7"))
+        assert buffer.owned_by("t7", "tenant-a")
+        assert not buffer.owned_by("t7", "tenant-b")
+        assert not buffer.owned_by("unknown", "tenant-a")
+
+    def test_parse_last_event_id(self):
+        assert parse_last_event_id("7") == 7
+        assert parse_last_event_id(None) == 0
+        assert parse_last_event_id("abc") == 0